@@ -0,0 +1,156 @@
+package com.ishor_rijal.boltexponativewind.audio
+
+import android.media.AudioFormat
+import android.media.MediaCodec
+import android.media.MediaExtractor
+import android.media.MediaFormat
+import android.net.Uri
+import com.facebook.react.bridge.Promise
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.ReactContextBaseJavaModule
+import com.facebook.react.bridge.ReactMethod
+import java.io.File
+import java.io.RandomAccessFile
+import java.nio.ByteBuffer
+import java.nio.ByteOrder
+
+// Decodes compressed audio (M4A, AAC, MP3, ...) into a PCM WAV file with the platform MediaCodec.
+// The JS side (utils/audioDecoder.ts) parses the resulting WAV.
+class AudioDecoderModule(reactContext: ReactApplicationContext) :
+  ReactContextBaseJavaModule(reactContext) {
+
+  override fun getName(): String = "AudioDecoder"
+
+  @ReactMethod
+  fun decodeToWav(inputUri: String, outputUri: String, promise: Promise) {
+    Thread {
+      try {
+        decode(inputUri, outputUri)
+        promise.resolve(outputUri)
+      } catch (e: Exception) {
+        promise.reject("E_AUDIO_DECODE", e.message ?: "Failed to decode audio", e)
+      }
+    }.start()
+  }
+
+  private fun decode(inputUri: String, outputUri: String) {
+    val extractor = MediaExtractor()
+    extractor.setDataSource(reactApplicationContext, Uri.parse(inputUri), null)
+
+    val trackIndex = (0 until extractor.trackCount).firstOrNull { index ->
+      extractor.getTrackFormat(index).getString(MediaFormat.KEY_MIME)?.startsWith("audio/") == true
+    } ?: run {
+      extractor.release()
+      throw IllegalArgumentException("No audio track found in $inputUri")
+    }
+
+    extractor.selectTrack(trackIndex)
+    val inputFormat = extractor.getTrackFormat(trackIndex)
+    var sampleRate = inputFormat.getInteger(MediaFormat.KEY_SAMPLE_RATE)
+    var channelCount = inputFormat.getInteger(MediaFormat.KEY_CHANNEL_COUNT)
+    var pcmEncoding = AudioFormat.ENCODING_PCM_16BIT
+
+    val codec = MediaCodec.createDecoderByType(inputFormat.getString(MediaFormat.KEY_MIME)!!)
+    codec.configure(inputFormat, null, null, 0)
+    codec.start()
+
+    val outputFile = File(Uri.parse(outputUri).path!!)
+    outputFile.parentFile?.mkdirs()
+    val output = RandomAccessFile(outputFile, "rw")
+
+    try {
+      output.setLength(0)
+      // Reserve space for the header; it is written once the data size is known
+      output.write(ByteArray(WAV_HEADER_SIZE))
+
+      val info = MediaCodec.BufferInfo()
+      var chunk = ByteArray(0)
+      var dataSize = 0L
+      var inputDone = false
+      var outputDone = false
+
+      while (!outputDone) {
+        if (!inputDone) {
+          val inputIndex = codec.dequeueInputBuffer(TIMEOUT_US)
+          if (inputIndex >= 0) {
+            val buffer = codec.getInputBuffer(inputIndex)!!
+            val size = extractor.readSampleData(buffer, 0)
+            if (size < 0) {
+              codec.queueInputBuffer(inputIndex, 0, 0, 0, MediaCodec.BUFFER_FLAG_END_OF_STREAM)
+              inputDone = true
+            } else {
+              codec.queueInputBuffer(inputIndex, 0, size, extractor.sampleTime, 0)
+              extractor.advance()
+            }
+          }
+        }
+
+        val outputIndex = codec.dequeueOutputBuffer(info, TIMEOUT_US)
+        if (outputIndex == MediaCodec.INFO_OUTPUT_FORMAT_CHANGED) {
+          val format = codec.outputFormat
+          sampleRate = format.getInteger(MediaFormat.KEY_SAMPLE_RATE)
+          channelCount = format.getInteger(MediaFormat.KEY_CHANNEL_COUNT)
+          if (format.containsKey(MediaFormat.KEY_PCM_ENCODING)) {
+            pcmEncoding = format.getInteger(MediaFormat.KEY_PCM_ENCODING)
+          }
+        } else if (outputIndex >= 0) {
+          if (info.size > 0) {
+            val buffer = codec.getOutputBuffer(outputIndex)!!
+            buffer.position(info.offset)
+            buffer.limit(info.offset + info.size)
+            if (chunk.size < info.size) {
+              chunk = ByteArray(info.size)
+            }
+            buffer.get(chunk, 0, info.size)
+            output.write(chunk, 0, info.size)
+            dataSize += info.size
+          }
+          codec.releaseOutputBuffer(outputIndex, false)
+          if ((info.flags and MediaCodec.BUFFER_FLAG_END_OF_STREAM) != 0) {
+            outputDone = true
+          }
+        }
+      }
+
+      output.seek(0)
+      output.write(createWavHeader(sampleRate, channelCount, pcmEncoding, dataSize))
+    } finally {
+      output.close()
+      codec.stop()
+      codec.release()
+      extractor.release()
+    }
+  }
+
+  private fun createWavHeader(
+    sampleRate: Int,
+    channelCount: Int,
+    pcmEncoding: Int,
+    dataSize: Long
+  ): ByteArray {
+    val isFloat = pcmEncoding == AudioFormat.ENCODING_PCM_FLOAT
+    val bitsPerSample = if (isFloat) 32 else 16
+    val blockAlign = channelCount * bitsPerSample / 8
+
+    val header = ByteBuffer.allocate(WAV_HEADER_SIZE).order(ByteOrder.LITTLE_ENDIAN)
+    header.put("RIFF".toByteArray(Charsets.US_ASCII))
+    header.putInt((36 + dataSize).toInt())
+    header.put("WAVE".toByteArray(Charsets.US_ASCII))
+    header.put("fmt ".toByteArray(Charsets.US_ASCII))
+    header.putInt(16)
+    header.putShort((if (isFloat) 3 else 1).toShort())
+    header.putShort(channelCount.toShort())
+    header.putInt(sampleRate)
+    header.putInt(sampleRate * blockAlign)
+    header.putShort(blockAlign.toShort())
+    header.putShort(bitsPerSample.toShort())
+    header.put("data".toByteArray(Charsets.US_ASCII))
+    header.putInt(dataSize.toInt())
+    return header.array()
+  }
+
+  companion object {
+    private const val WAV_HEADER_SIZE = 44
+    private const val TIMEOUT_US = 10_000L
+  }
+}
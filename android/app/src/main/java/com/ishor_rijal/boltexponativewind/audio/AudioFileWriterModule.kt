@@ -0,0 +1,54 @@
+package com.ishor_rijal.boltexponativewind.audio
+
+import android.net.Uri
+import android.util.Base64
+import com.facebook.react.bridge.Promise
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.ReactContextBaseJavaModule
+import com.facebook.react.bridge.ReactMethod
+import java.io.File
+import java.io.FileOutputStream
+import java.io.IOException
+import java.io.OutputStream
+import java.util.concurrent.Executors
+
+// Appends to files in place, so long renders can be written piece by piece
+// (expo-file-system can only replace a whole file). Used by utils/fileWriter.ts. Also takes
+// Storage Access Framework documents, which utils/deviceStorage.ts fills a range at a time.
+class AudioFileWriterModule(reactContext: ReactApplicationContext) :
+  ReactContextBaseJavaModule(reactContext) {
+
+  // A single thread keeps appends to the same file in call order
+  private val executor = Executors.newSingleThreadExecutor()
+
+  override fun getName(): String = "AudioFileWriter"
+
+  @ReactMethod
+  fun appendBase64(fileUri: String, base64: String, promise: Promise) {
+    executor.execute {
+      try {
+        openForAppend(Uri.parse(fileUri)).use { stream ->
+          stream.write(Base64.decode(base64, Base64.DEFAULT))
+        }
+        promise.resolve(null)
+      } catch (e: Exception) {
+        promise.reject("E_FILE_APPEND", e.message ?: "Failed to append to file", e)
+      }
+    }
+  }
+
+  private fun openForAppend(uri: Uri): OutputStream {
+    if (uri.scheme == "content") {
+      return reactApplicationContext.contentResolver.openOutputStream(uri, "wa")
+        ?: throw IOException("Cannot open $uri")
+    }
+    val file = File(uri.path!!)
+    file.parentFile?.mkdirs()
+    return FileOutputStream(file, true)
+  }
+
+  override fun invalidate() {
+    executor.shutdown()
+    super.invalidate()
+  }
+}
@@ -1,6 +1,6 @@
 import { Tabs } from 'expo-router';
 import { Platform, StyleSheet } from 'react-native';
-import { Mic, Upload, Sliders, Share2 } from 'lucide-react-native';
+import { Mic, Upload, Sliders, Share2, FolderOpen } from 'lucide-react-native';
 import Colors from '@/constants/Colors';
 
 export default function TabLayout() {
@@ -47,6 +47,14 @@ export default function TabLayout() {
           headerTitle: 'Export Audio',
         }}
       />
+      <Tabs.Screen
+        name="projects"
+        options={{
+          title: 'Projects',
+          tabBarIcon: ({ color, size }) => <FolderOpen color={color} size={size} />,
+          headerTitle: 'Projects',
+        }}
+      />
     </Tabs>
   );
 }
@@ -1,41 +1,82 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, Alert, Platform } from 'react-native';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, Platform } from 'react-native';
 import { Audio } from 'expo-av';
 import Slider from '@/components/Slider';
-import { useLocalSearchParams, useRouter } from 'expo-router';
-import { Play, Pause, Mic, Music, WaveformCircle } from 'lucide-react-native';
+import ProcessingProgress from '@/components/ProcessingProgress';
+import { useFocusEffect, useRouter } from 'expo-router';
+import { Directions, FlingGestureHandler, State } from 'react-native-gesture-handler';
+import { Play, Pause, WaveformCircle, SlidersHorizontal, Undo2, Redo2 } from 'lucide-react-native';
 import Colors from '@/constants/Colors';
-import { processingAudio } from '@/utils/audioProcessing';
+import {
+  QUALITY_TIER_LABELS,
+  SEPARATION_MODE_LABELS,
+  SEPARATION_MODE_TEXT,
+  STEM_DISPLAY
+} from '@/constants/Stems';
+import { MaskTuning, StemName, VOCAL_HIGH_HZ, VOCAL_LOW_HZ } from '@/utils/separation';
+import { StemTrack, getEngine, listEngines } from '@/utils/separationEngine';
+import { EditCommand } from '@/utils/history';
+import {
+  beginGesture,
+  cancelSeparation,
+  endGesture,
+  redo,
+  runSeparation,
+  setSettings,
+  setVolume,
+  undo
+} from '@/utils/session';
+import { useSession } from '@/hooks/useSession';
+
+// Helper to name an undo step for the buttons' accessibility labels
+const describeCommand = (command?: EditCommand) => {
+  if (!command) return '';
+  return command.type === 'volume'
+    ? ` ${STEM_DISPLAY[command.stem].label} volume`
+    : ' separation settings';
+};
+
+// Run an undo or redo when a gesture handler reports a completed fling
+const onFling = (action: () => void) => ({ nativeEvent }: { nativeEvent: { state: number } }) => {
+  if (nativeEvent.state === State.END) action();
+};
+
+// Three-finger swipes undo (left) and redo (right), as on iPadOS
+const HistoryGestures = ({ children }: { children: React.ReactNode }) => (
+  <FlingGestureHandler direction={Directions.LEFT} numberOfPointers={3} onHandlerStateChange={onFling(undo)}>
+    <FlingGestureHandler direction={Directions.RIGHT} numberOfPointers={3} onHandlerStateChange={onFling(redo)}>
+      {children}
+    </FlingGestureHandler>
+  </FlingGestureHandler>
+);
 
 export default function EditorScreen() {
-  const { audioUri } = useLocalSearchParams<{ audioUri: string }>();
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [isProcessed, setIsProcessed] = useState(false);
-  const [vocalTrack, setVocalTrack] = useState<string | null>(null);
-  const [instrumentalTrack, setInstrumentalTrack] = useState<string | null>(null);
-  const [vocalVolume, setVocalVolume] = useState(1);
-  const [instrumentalVolume, setInstrumentalVolume] = useState(1);
+  const { source, settings, stems, volumes, history, job } = useSession();
+  const [showAdvanced, setShowAdvanced] = useState(false);
   const [originalSound, setOriginalSound] = useState<Audio.Sound | null>(null);
-  const [vocalSound, setVocalSound] = useState<Audio.Sound | null>(null);
-  const [instrumentalSound, setInstrumentalSound] = useState<Audio.Sound | null>(null);
+  const [stemSounds, setStemSounds] = useState<Partial<Record<StemName, Audio.Sound>>>({});
   const [isPlaying, setIsPlaying] = useState(false);
   const [playbackMode, setPlaybackMode] = useState<'original' | 'processed'>('original');
   const [duration, setDuration] = useState(0);
   const [position, setPosition] = useState(0);
   const router = useRouter();
+  const engines = listEngines();
+  const engine = getEngine(settings.engineId) ?? engines[0];
+  const { mode: separationMode, quality, tuning = {} } = settings;
+  const audioUri = source?.uri;
+  const isProcessed = stems.length > 0;
+  const isProcessing = job !== null;
   
   // Track which sounds are currently playing
   const playingRef = useRef<{
     original: boolean;
-    vocal: boolean;
-    instrumental: boolean;
+    stems: Partial<Record<StemName, boolean>>;
   }>({
     original: false,
-    vocal: false,
-    instrumental: false,
+    stems: {},
   });
   
-  // Load original audio on mount
+  // Load the session's audio, again whenever another recording, file or project is opened
   useEffect(() => {
     if (audioUri) {
       loadOriginalAudio(audioUri);
@@ -47,17 +88,48 @@ export default function EditorScreen() {
     };
   }, [audioUri]);
   
+  // Load the stems once a separation finishes or a project with stems is opened
+  useEffect(() => {
+    loadProcessedTracks(stems);
+    setPlaybackMode(stems.length > 0 ? 'processed' : 'original');
+  }, [stems]);
+  
   // Update volumes when playing processed tracks
   useEffect(() => {
     if (playbackMode === 'processed') {
-      if (vocalSound) {
-        vocalSound.setVolumeAsync(vocalVolume);
-      }
-      if (instrumentalSound) {
-        instrumentalSound.setVolumeAsync(instrumentalVolume);
+      for (const [name, sound] of Object.entries(stemSounds) as [StemName, Audio.Sound][]) {
+        sound.setVolumeAsync(getVolume(name));
       }
     }
-  }, [vocalVolume, instrumentalVolume, playbackMode]);
+  }, [volumes, stemSounds, playbackMode]);
+  
+  // Keyboard shortcuts on web while the editor is shown: Ctrl+Z (Cmd+Z) to undo, and
+  // Ctrl+Shift+Z or Ctrl+Y to redo
+  useFocusEffect(
+    useCallback(() => {
+      if (Platform.OS !== 'web') return;
+      
+      const onKeyDown = (event: KeyboardEvent) => {
+        if (!(event.ctrlKey || event.metaKey)) return;
+        const key = event.key.toLowerCase();
+        if (key === 'z' && !event.shiftKey) {
+          event.preventDefault();
+          undo();
+        } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+          event.preventDefault();
+          redo();
+        }
+      };
+      document.addEventListener('keydown', onKeyDown);
+      return () => document.removeEventListener('keydown', onKeyDown);
+    }, [])
+  );
+  
+  const updateTuning = (changes: MaskTuning) => {
+    setSettings({ tuning: { ...tuning, ...changes } });
+  };
+  
+  const getVolume = (name: StemName) => volumes[name] ?? 1;
   
   const loadOriginalAudio = async (uri: string) => {
     try {
@@ -100,19 +172,25 @@ export default function EditorScreen() {
     }
   };
   
-  const onProcessedPlaybackStatusUpdate = (status: any, type: 'vocal' | 'instrumental') => {
+  const onProcessedPlaybackStatusUpdate = (
+    status: any,
+    name: StemName,
+    sounds: Partial<Record<StemName, Audio.Sound>>
+  ) => {
     if (status.isLoaded) {
       if (status.isPlaying) {
-        playingRef.current[type] = true;
+        playingRef.current.stems[name] = true;
+        setPosition(status.positionMillis / 1000);
       } else {
-        playingRef.current[type] = false;
+        playingRef.current.stems[name] = false;
         if (status.didJustFinish) {
-          // Only set isPlaying to false if both tracks finished
-          if (!playingRef.current.vocal && !playingRef.current.instrumental) {
+          // Only set isPlaying to false once every stem has finished
+          if (!Object.values(playingRef.current.stems).some(Boolean)) {
             setIsPlaying(false);
             setPosition(0);
-            vocalSound?.setPositionAsync(0);
-            instrumentalSound?.setPositionAsync(0);
+            for (const sound of Object.values(sounds)) {
+              sound?.setPositionAsync(0);
+            }
           }
         }
       }
@@ -120,65 +198,41 @@ export default function EditorScreen() {
   };
   
   const processAudio = async () => {
-    if (!audioUri) return;
-    
-    setIsProcessing(true);
-    
     try {
       // Stop any playback
       await stopAllPlayback();
       
-      // Call audio processing function
-      const result = await processingAudio(audioUri);
-      
-      if (result.success) {
-        setVocalTrack(result.vocalTrack);
-        setInstrumentalTrack(result.instrumentalTrack);
-        setIsProcessed(true);
-        
-        // Load the processed tracks
-        await loadProcessedTracks(result.vocalTrack, result.instrumentalTrack);
-        
-        // Switch to processed mode
-        setPlaybackMode('processed');
-      } else {
+      // The session keeps the stems and switches the mixer over to them
+      const result = await runSeparation();
+      if (!result.success && !result.cancelled) {
         Alert.alert('Processing Failed', result.error || 'Failed to process audio.');
       }
     } catch (err) {
       console.error('Failed to process audio', err);
       Alert.alert('Error', 'Failed to process audio. Please try again.');
-    } finally {
-      setIsProcessing(false);
     }
   };
   
-  const loadProcessedTracks = async (vocalUri: string, instrumentalUri: string) => {
+  const loadProcessedTracks = async (tracks: StemTrack[]) => {
     try {
-      // Load vocal track
-      if (vocalSound) {
-        await vocalSound.unloadAsync();
+      // Unload the previous stems
+      for (const sound of Object.values(stemSounds)) {
+        await sound?.unloadAsync();
       }
+      playingRef.current.stems = {};
       
-      const { sound: newVocalSound } = await Audio.Sound.createAsync(
-        { uri: vocalUri },
-        { shouldPlay: false, volume: vocalVolume },
-        (status) => onProcessedPlaybackStatusUpdate(status, 'vocal')
-      );
-      
-      setVocalSound(newVocalSound);
-      
-      // Load instrumental track
-      if (instrumentalSound) {
-        await instrumentalSound.unloadAsync();
+      // Load one sound per stem; the status callbacks see the finished map
+      const sounds: Partial<Record<StemName, Audio.Sound>> = {};
+      for (const { name, uri } of tracks) {
+        const { sound } = await Audio.Sound.createAsync(
+          { uri },
+          { shouldPlay: false, volume: getVolume(name) },
+          (status) => onProcessedPlaybackStatusUpdate(status, name, sounds)
+        );
+        sounds[name] = sound;
       }
       
-      const { sound: newInstrumentalSound } = await Audio.Sound.createAsync(
-        { uri: instrumentalUri },
-        { shouldPlay: false, volume: instrumentalVolume },
-        (status) => onProcessedPlaybackStatusUpdate(status, 'instrumental')
-      );
-      
-      setInstrumentalSound(newInstrumentalSound);
+      setStemSounds(sounds);
     } catch (err) {
       console.error('Failed to load processed tracks', err);
     }
@@ -200,27 +254,18 @@ export default function EditorScreen() {
         console.error('Failed to toggle original playback', err);
       }
     } else {
-      // Processed mode - play both tracks together
-      if (!vocalSound || !instrumentalSound) return;
+      // Processed mode - play all stems together
+      const sounds = Object.values(stemSounds) as Audio.Sound[];
+      if (sounds.length === 0) return;
       
       try {
         if (isPlaying) {
-          await Promise.all([
-            vocalSound.pauseAsync(),
-            instrumentalSound.pauseAsync()
-          ]);
+          await Promise.all(sounds.map(sound => sound.pauseAsync()));
           setIsPlaying(false);
         } else {
-          // Ensure both tracks start from the same position
-          await Promise.all([
-            vocalSound.setPositionAsync(position * 1000),
-            instrumentalSound.setPositionAsync(position * 1000)
-          ]);
-          
-          await Promise.all([
-            vocalSound.playAsync(),
-            instrumentalSound.playAsync()
-          ]);
+          // Ensure every stem starts from the same position
+          await Promise.all(sounds.map(sound => sound.setPositionAsync(position * 1000)));
+          await Promise.all(sounds.map(sound => sound.playAsync()));
           
           setIsPlaying(true);
         }
@@ -242,21 +287,12 @@ export default function EditorScreen() {
       }
     }
     
-    if (vocalSound) {
+    for (const [name, sound] of Object.entries(stemSounds) as [StemName, Audio.Sound][]) {
       try {
-        await vocalSound.stopAsync();
-        await vocalSound.setPositionAsync(0);
+        await sound.stopAsync();
+        await sound.setPositionAsync(0);
       } catch (err) {
-        console.error('Failed to stop vocal sound', err);
-      }
-    }
-    
-    if (instrumentalSound) {
-      try {
-        await instrumentalSound.stopAsync();
-        await instrumentalSound.setPositionAsync(0);
-      } catch (err) {
-        console.error('Failed to stop instrumental sound', err);
+        console.error(`Failed to stop ${name} sound`, err);
       }
     }
     
@@ -272,16 +308,8 @@ export default function EditorScreen() {
   };
   
   const proceedToExport = () => {
-    if (isProcessed && vocalTrack && instrumentalTrack) {
-      router.push({
-        pathname: '/export',
-        params: {
-          vocalTrack,
-          instrumentalTrack,
-          vocalVolume: vocalVolume.toString(),
-          instrumentalVolume: instrumentalVolume.toString()
-        }
-      });
+    if (isProcessed) {
+      router.push('/export');
     }
   };
   
@@ -291,141 +319,263 @@ export default function EditorScreen() {
     return `${mins}:${secs < 10 ? '0' : ''}${secs}`;
   };
   
+  const nextUndo = history.past[history.past.length - 1];
+  const nextRedo = history.future[history.future.length - 1];
+  
   return (
-    <View style={styles.container}>
-      {audioUri ? (
-        <>
-          <View style={styles.header}>
-            <Text style={styles.title}>
-              {isProcessed ? 'Mix Separated Tracks' : 'Audio Editor'}
-            </Text>
-          </View>
-          
-          <View style={styles.waveformContainer}>
-            <View style={styles.timelineContainer}>
-              <View style={[
-                styles.positionIndicator, 
-                { left: `${(position / duration) * 100}%` }
-              ]} />
-              
-              <View style={styles.timeContainer}>
-                <Text style={styles.timeText}>
-                  {formatTime(position)} / {formatTime(duration)}
-                </Text>
+    <HistoryGestures>
+      <View style={styles.container}>
+        {audioUri ? (
+          <>
+            <View style={styles.header}>
+              <Text style={styles.title}>
+                {isProcessed ? 'Mix Separated Tracks' : 'Audio Editor'}
+              </Text>
+            
+              <View style={styles.historyButtons}>
+                <TouchableOpacity
+                  style={[styles.historyButton, !nextUndo && styles.historyButtonDisabled]}
+                  onPress={undo}
+                  disabled={!nextUndo}
+                  accessibilityLabel={`Undo${describeCommand(nextUndo)}`}
+                >
+                  <Undo2 color={Colors.text} size={18} />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.historyButton, !nextRedo && styles.historyButtonDisabled]}
+                  onPress={redo}
+                  disabled={!nextRedo}
+                  accessibilityLabel={`Redo${describeCommand(nextRedo)}`}
+                >
+                  <Redo2 color={Colors.text} size={18} />
+                </TouchableOpacity>
               </View>
             </View>
-          </View>
-          
-          <View style={styles.controlsContainer}>
-            <TouchableOpacity 
-              style={styles.playButton} 
-              onPress={togglePlayback}
-              disabled={isProcessing}
-            >
-              {isPlaying ? (
-                <Pause color={Colors.text} size={24} />
-              ) : (
-                <Play color={Colors.text} size={24} />
-              )}
-            </TouchableOpacity>
-            
-            {isProcessed && (
-              <TouchableOpacity 
-                style={[
-                  styles.modeButton, 
-                  { backgroundColor: playbackMode === 'original' ? Colors.card : Colors.success }
-                ]} 
-                onPress={switchPlaybackMode}
-              >
-                <Text style={styles.modeButtonText}>
-                  {playbackMode === 'original' ? 'Original' : 'Separated'}
-                </Text>
-              </TouchableOpacity>
-            )}
-          </View>
           
-          {isProcessed && playbackMode === 'processed' ? (
-            <View style={styles.mixerContainer}>
-              <View style={styles.trackContainer}>
-                <View style={styles.trackLabelContainer}>
-                  <Mic color={Colors.vocalTrack} size={20} />
-                  <Text style={styles.trackLabel}>Vocals</Text>
-                </View>
-                <Slider
-                  value={vocalVolume}
-                  onValueChange={setVocalVolume}
-                  minimumValue={0}
-                  maximumValue={2}
-                  step={0.01}
-                  trackColor={Colors.vocalTrack}
-                />
-                <Text style={styles.volumeText}>{Math.round(vocalVolume * 100)}%</Text>
-              </View>
+            <View style={styles.waveformContainer}>
+              <View style={styles.timelineContainer}>
+                <View style={[
+                  styles.positionIndicator, 
+                  { left: `${(position / duration) * 100}%` }
+                ]} />
               
-              <View style={styles.trackContainer}>
-                <View style={styles.trackLabelContainer}>
-                  <Music color={Colors.instrumentalTrack} size={20} />
-                  <Text style={styles.trackLabel}>Instrumental</Text>
+                <View style={styles.timeContainer}>
+                  <Text style={styles.timeText}>
+                    {formatTime(position)} / {formatTime(duration)}
+                  </Text>
                 </View>
-                <Slider
-                  value={instrumentalVolume}
-                  onValueChange={setInstrumentalVolume}
-                  minimumValue={0}
-                  maximumValue={2}
-                  step={0.01}
-                  trackColor={Colors.instrumentalTrack}
-                />
-                <Text style={styles.volumeText}>{Math.round(instrumentalVolume * 100)}%</Text>
               </View>
-              
+            </View>
+          
+            <View style={styles.controlsContainer}>
               <TouchableOpacity 
-                style={styles.exportButton} 
-                onPress={proceedToExport}
+                style={styles.playButton} 
+                onPress={togglePlayback}
+                disabled={isProcessing}
               >
-                <Text style={styles.exportButtonText}>Proceed to Export</Text>
+                {isPlaying ? (
+                  <Pause color={Colors.text} size={24} />
+                ) : (
+                  <Play color={Colors.text} size={24} />
+                )}
               </TouchableOpacity>
-            </View>
-          ) : (
-            <View style={styles.processingContainer}>
-              {isProcessing ? (
-                <>
-                  <ActivityIndicator size="large" color={Colors.primary} />
-                  <Text style={styles.processingText}>
-                    Processing audio...{'\n'}This may take a few moments
-                  </Text>
-                </>
-              ) : (
-                <>
-                  <TouchableOpacity 
-                    style={styles.processButton} 
-                    onPress={processAudio}
-                    disabled={isProcessing}
-                  >
-                    <WaveformCircle color={Colors.text} size={24} />
-                    <Text style={styles.processButtonText}>
-                      {isProcessed ? 'Reprocess Audio' : 'Separate Vocal & Instrumental'}
-                    </Text>
-                  </TouchableOpacity>
-                  
-                  <Text style={styles.infoText}>
-                    This will use AI to separate the audio into vocal and instrumental tracks.
-                    {Platform.OS === 'web' 
-                      ? ' Processing happens directly in your browser using WebAssembly.'
-                      : ' Processing happens directly on your device.'}
+            
+              {isProcessed && (
+                <TouchableOpacity 
+                  style={[
+                    styles.modeButton, 
+                    { backgroundColor: playbackMode === 'original' ? Colors.card : Colors.success }
+                  ]} 
+                  onPress={switchPlaybackMode}
+                >
+                  <Text style={styles.modeButtonText}>
+                    {playbackMode === 'original' ? 'Original' : 'Separated'}
                   </Text>
-                </>
+                </TouchableOpacity>
               )}
             </View>
-          )}
-        </>
-      ) : (
-        <View style={styles.noAudioContainer}>
-          <Text style={styles.noAudioText}>
-            No audio file selected. Please record or upload an audio file first.
-          </Text>
-        </View>
-      )}
-    </View>
+          
+            {isProcessed && playbackMode === 'processed' ? (
+              <View style={styles.mixerContainer}>
+                {stems.map(({ name }) => {
+                  const { label, color, Icon } = STEM_DISPLAY[name];
+                  const volume = getVolume(name);
+                  return (
+                    <View key={name} style={styles.trackContainer}>
+                      <View style={styles.trackLabelContainer}>
+                        <Icon color={color} size={20} />
+                        <Text style={styles.trackLabel}>{label}</Text>
+                      </View>
+                      <Slider
+                        value={volume}
+                        onValueChange={(value) => setVolume(name, value)}
+                        onSlidingStart={beginGesture}
+                        onSlidingComplete={endGesture}
+                        minimumValue={0}
+                        maximumValue={2}
+                        step={0.01}
+                        trackColor={color}
+                      />
+                      <Text style={styles.volumeText}>{Math.round(volume * 100)}%</Text>
+                    </View>
+                  );
+                })}
+              
+                <TouchableOpacity 
+                  style={styles.exportButton} 
+                  onPress={proceedToExport}
+                >
+                  <Text style={styles.exportButtonText}>Proceed to Export</Text>
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <View style={styles.processingContainer}>
+                {job ? (
+                  <ProcessingProgress
+                    title="Processing audio..."
+                    update={job.progress}
+                    onCancel={cancelSeparation}
+                    isCancelling={job.isCancelling}
+                  />
+                ) : (
+                  <>
+                    <View style={styles.modeSelector}>
+                      {engines.map(({ id, name }) => (
+                        <TouchableOpacity
+                          key={id}
+                          style={[
+                            styles.modeOption,
+                            engine.id === id && styles.modeOptionSelected
+                          ]}
+                          onPress={() => setSettings({ engineId: id })}
+                        >
+                          <Text style={styles.modeButtonText}>{name}</Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  
+                    <View style={styles.modeSelector}>
+                      {engine.stemSets.map((mode) => (
+                        <TouchableOpacity
+                          key={mode}
+                          style={[
+                            styles.modeOption,
+                            separationMode === mode && styles.modeOptionSelected
+                          ]}
+                          onPress={() => setSettings({ mode })}
+                        >
+                          <Text style={styles.modeButtonText}>{SEPARATION_MODE_LABELS[mode]}</Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  
+                    <View style={styles.modeSelector}>
+                      {engine.qualityTiers.map((tier) => (
+                        <TouchableOpacity
+                          key={tier}
+                          style={[
+                            styles.modeOption,
+                            quality === tier && styles.modeOptionSelected
+                          ]}
+                          onPress={() => setSettings({ quality: tier })}
+                        >
+                          <Text style={styles.modeButtonText}>{QUALITY_TIER_LABELS[tier]}</Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  
+                    {engine.capabilities.maskTuning && (
+                      <TouchableOpacity
+                        style={styles.advancedToggle}
+                        onPress={() => setShowAdvanced(prev => !prev)}
+                      >
+                        <SlidersHorizontal color={Colors.subtext} size={16} />
+                        <Text style={styles.advancedToggleText}>
+                          {showAdvanced ? 'Hide advanced settings' : 'Advanced settings'}
+                        </Text>
+                      </TouchableOpacity>
+                    )}
+                  
+                    {engine.capabilities.maskTuning && showAdvanced && (
+                      <View style={styles.advancedContainer}>
+                        <Text style={styles.trackLabel}>Mask hardness</Text>
+                        <Slider
+                          value={tuning.hardness ?? 1}
+                          onValueChange={(value) => updateTuning({ hardness: value })}
+                          onSlidingStart={beginGesture}
+                          onSlidingComplete={endGesture}
+                          minimumValue={0.5}
+                          maximumValue={2}
+                          step={0.1}
+                        />
+                        <Text style={styles.volumeText}>{(tuning.hardness ?? 1).toFixed(1)}</Text>
+                      
+                        <Text style={styles.trackLabel}>Vocal range low</Text>
+                        <Slider
+                          value={tuning.vocalLowHz ?? VOCAL_LOW_HZ}
+                          onValueChange={(value) => updateTuning({ vocalLowHz: value })}
+                          onSlidingStart={beginGesture}
+                          onSlidingComplete={endGesture}
+                          minimumValue={50}
+                          maximumValue={500}
+                          step={10}
+                        />
+                        <Text style={styles.volumeText}>{Math.round(tuning.vocalLowHz ?? VOCAL_LOW_HZ)} Hz</Text>
+                      
+                        <Text style={styles.trackLabel}>Vocal range high</Text>
+                        <Slider
+                          value={tuning.vocalHighHz ?? VOCAL_HIGH_HZ}
+                          onValueChange={(value) => updateTuning({ vocalHighHz: value })}
+                          onSlidingStart={beginGesture}
+                          onSlidingComplete={endGesture}
+                          minimumValue={2000}
+                          maximumValue={16000}
+                          step={500}
+                        />
+                        <Text style={styles.volumeText}>{Math.round(tuning.vocalHighHz ?? VOCAL_HIGH_HZ)} Hz</Text>
+                      
+                        <TouchableOpacity onPress={() => setSettings({ tuning: {} })}>
+                          <Text style={styles.advancedToggleText}>Reset to defaults</Text>
+                        </TouchableOpacity>
+                      </View>
+                    )}
+                  
+                    <TouchableOpacity 
+                      style={styles.processButton} 
+                      onPress={processAudio}
+                      disabled={isProcessing}
+                    >
+                      <WaveformCircle color={Colors.text} size={24} />
+                      <Text style={styles.processButtonText}>
+                        {isProcessed
+                          ? 'Reprocess Audio'
+                          : SEPARATION_MODE_TEXT[separationMode].action}
+                      </Text>
+                    </TouchableOpacity>
+                  
+                    <Text style={styles.infoText}>
+                      {SEPARATION_MODE_TEXT[separationMode].description}{' '}
+                      {engine.description}
+                      {engine.capabilities.requiresNetwork
+                        ? ' Requires an internet connection.'
+                        : Platform.OS === 'web'
+                          ? ' Processing happens directly in your browser.'
+                          : ' Processing happens directly on your device.'}
+                    </Text>
+                  </>
+                )}
+              </View>
+            )}
+          </>
+        ) : (
+          <View style={styles.noAudioContainer}>
+            <Text style={styles.noAudioText}>
+              No audio file selected. Please record or upload an audio file, or open a project.
+            </Text>
+          </View>
+        )}
+      </View>
+    </HistoryGestures>
   );
 }
 
@@ -436,8 +586,23 @@ const styles = StyleSheet.create({
     padding: 16,
   },
   header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
     marginBottom: 16,
   },
+  historyButtons: {
+    flexDirection: 'row',
+  },
+  historyButton: {
+    padding: 8,
+    borderRadius: 6,
+    backgroundColor: Colors.card,
+    marginLeft: 8,
+  },
+  historyButtonDisabled: {
+    opacity: 0.4,
+  },
   title: {
     fontSize: 20,
     fontFamily: 'Inter-Bold',
@@ -548,6 +713,39 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     paddingHorizontal: 16,
   },
+  modeSelector: {
+    flexDirection: 'row',
+    backgroundColor: Colors.card,
+    borderRadius: 8,
+    padding: 4,
+    marginBottom: 16,
+  },
+  modeOption: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  modeOptionSelected: {
+    backgroundColor: Colors.secondary,
+  },
+  advancedToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  advancedToggleText: {
+    color: Colors.subtext,
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    marginLeft: 6,
+  },
+  advancedContainer: {
+    alignSelf: 'stretch',
+    backgroundColor: Colors.card,
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+  },
   processButton: {
     backgroundColor: Colors.secondary,
     flexDirection: 'row',
@@ -563,13 +761,6 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-SemiBold',
     marginLeft: 12,
   },
-  processingText: {
-    color: Colors.text,
-    fontSize: 16,
-    fontFamily: 'Inter-Medium',
-    textAlign: 'center',
-    marginTop: 16,
-  },
   infoText: {
     color: Colors.subtext,
     fontSize: 14,
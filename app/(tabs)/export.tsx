@@ -1,82 +1,335 @@
-import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, Alert, Platform } from 'react-native';
-import { useLocalSearchParams } from 'expo-router';
-import { Share2, Download, Music, Mic } from 'lucide-react-native';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, Platform, ScrollView, TextInput } from 'react-native';
+import { Share2, Download, Check } from 'lucide-react-native';
 import * as FileSystem from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
 import Colors from '@/constants/Colors';
-import { mergeAudioTracks } from '@/utils/audioProcessing';
+import ProcessingProgress from '@/components/ProcessingProgress';
+import { STEM_DISPLAY } from '@/constants/Stems';
+import { ExportedFile, MixMeasurements, exportStems, mergeAudioTracks } from '@/utils/audioProcessing';
+import { AudioMeasurement } from '@/utils/mixdown';
+import {
+  DEFAULT_ENCODER_SETTINGS,
+  ENCODERS,
+  EncoderSettings,
+  ExportFormat,
+  getEncoder,
+  resolveEncoderSettings,
+  supportsSampleRate
+} from '@/utils/encoders';
+import { StemName } from '@/utils/separation';
+import { AudioTags, TAG_FIELDS, TagField } from '@/utils/metadata';
+import { readAudioTags } from '@/utils/tagReader';
+import { saveToDevice } from '@/utils/deviceStorage';
+import { ExportOutput, addProjectExport } from '@/utils/projects';
+import { useSession } from '@/hooks/useSession';
+import { ProgressUpdate } from '@/utils/progress';
+
+const OUTPUT_OPTIONS: { label: string; value: ExportOutput }[] = [
+  { label: 'Mix', value: 'mix' },
+  { label: 'Stems', value: 'stems' },
+  { label: 'Stems + mix (ZIP)', value: 'bundle' },
+];
+
+// Text for each kind of export
+const OUTPUT_TEXT: Record<ExportOutput, { action: string; progress: string; ready: string }> = {
+  mix: { action: 'Export Mixed Audio', progress: 'Merging audio tracks...', ready: 'Your mixed audio is ready!' },
+  stems: { action: 'Export Stems', progress: 'Exporting stems...', ready: 'Your stems are ready!' },
+  bundle: { action: 'Export Stem Bundle', progress: 'Building stem bundle...', ready: 'Your stem bundle is ready!' },
+};
+
+// Whether stem files get their mixer volume
+const STEM_GAIN_OPTIONS: { label: string; value: boolean }[] = [
+  { label: 'As separated', value: false },
+  { label: 'With mixer volume', value: true },
+];
+
+// Output format choices; undefined keeps the format of the separated stems
+const SAMPLE_RATE_OPTIONS: { label: string; value?: number }[] = [
+  { label: 'Original' },
+  { label: '22.05 kHz', value: 22050 },
+  { label: '44.1 kHz', value: 44100 },
+  { label: '48 kHz', value: 48000 },
+  { label: '96 kHz', value: 96000 },
+];
+
+const CHANNEL_OPTIONS: { label: string; value?: number }[] = [
+  { label: 'Original' },
+  { label: 'Stereo', value: 2 },
+  { label: 'Mono', value: 1 },
+];
+
+// Loudness normalization targets in LUFS; undefined keeps the mixer levels
+const LOUDNESS_OPTIONS: { label: string; value?: number }[] = [
+  { label: 'Off' },
+  { label: '-14 LUFS (streaming)', value: -14 },
+  { label: '-16 LUFS (podcast)', value: -16 },
+];
+
+// Labels of the metadata editor fields
+const TAG_LABELS: Record<TagField, string> = {
+  title: 'Title',
+  artist: 'Artist',
+  album: 'Album',
+  year: 'Year',
+  genre: 'Genre',
+  comment: 'Notes',
+};
+
+// Helper to format a level; silence measures as -Infinity
+const formatLevel = (value: number, unit: string) =>
+  Number.isFinite(value) ? `${value.toFixed(1)} ${unit}` : `-∞ ${unit}`;
 
 export default function ExportScreen() {
-  const { 
-    vocalTrack, 
-    instrumentalTrack, 
-    vocalVolume,
-    instrumentalVolume 
-  } = useLocalSearchParams<{ 
-    vocalTrack: string;
-    instrumentalTrack: string;
-    vocalVolume: string;
-    instrumentalVolume: string;
-  }>();
+  const { projectId, source, stems: sessionStems, volumes } = useSession();
+  // The separated stems at their mixer volumes
+  const stems = useMemo(
+    () => sessionStems.map(({ name, uri }) => ({ name, uri, volume: volumes[name] ?? 1 })),
+    [sessionStems, volumes]
+  );
   
   const [isMerging, setIsMerging] = useState(false);
-  const [exportedUri, setExportedUri] = useState<string | null>(null);
-  const [exportName, setExportName] = useState('mixed_audio.mp3');
+  const [progress, setProgress] = useState<ProgressUpdate | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [exportedFiles, setExportedFiles] = useState<ExportedFile[]>([]);
+  const [output, setOutput] = useState<ExportOutput>('mix');
+  const [applyGain, setApplyGain] = useState(false);
+  const [excluded, setExcluded] = useState<StemName[]>([]);
+  const [encoderSettings, setEncoderSettings] = useState<EncoderSettings>(DEFAULT_ENCODER_SETTINGS);
+  const [sampleRate, setSampleRate] = useState<number | undefined>(undefined);
+  const [channelCount, setChannelCount] = useState<number | undefined>(undefined);
+  const [loudnessTarget, setLoudnessTarget] = useState<number | undefined>(undefined);
+  const [tags, setTags] = useState<AudioTags>({});
+  const [measurements, setMeasurements] = useState<MixMeasurements | null>(null);
+  const [trackMeasurements, setTrackMeasurements] = useState<Partial<Record<StemName, AudioMeasurement>>>({});
+  
+  // Check if the session has stems to export
+  const hasStems = stems.length > 0;
+  
+  // Stems included in the render
+  const selectedStems = stems.filter(({ name }) => !excluded.includes(name));
   
-  // Check if we have all the required params
-  const hasRequiredParams = Boolean(vocalTrack && instrumentalTrack);
+  const encoder = getEncoder(encoderSettings.format);
   
-  // Parse volume values
-  const vocalVol = vocalVolume ? parseFloat(vocalVolume) : 1;
-  const instrumentalVol = instrumentalVolume ? parseFloat(instrumentalVolume) : 1;
+  // Only the sample rates the chosen format can store are offered
+  const sampleRateOptions = SAMPLE_RATE_OPTIONS.filter(
+    ({ value }) => value === undefined || supportsSampleRate(encoder, value)
+  );
+  
+  const resetExport = () => {
+    setExportedFiles([]);
+    setMeasurements(null);
+    setTrackMeasurements({});
+  };
+  
+  // A new set of stems starts with everything included
+  useEffect(() => {
+    setExcluded([]);
+    resetExport();
+  }, [sessionStems]);
+  
+  // A finished export no longer matches the mixer once a volume changes
+  useEffect(() => {
+    resetExport();
+  }, [volumes]);
+  
+  // Prefill the metadata from the source file's tags. Its custom fields describe the source,
+  // not the export, so only the standard ones are taken.
+  useEffect(() => {
+    setTags({});
+    if (!source) return;
+    
+    let cancelled = false;
+    readAudioTags(source.uri).then(found => {
+      if (cancelled) return;
+      const prefill: AudioTags = {};
+      for (const field of TAG_FIELDS) {
+        prefill[field] = found[field];
+      }
+      setTags(prefill);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [source?.uri]);
+  
+  const toggleStem = (name: StemName) => {
+    setExcluded(prev =>
+      prev.includes(name) ? prev.filter(stem => stem !== name) : [...prev, name]
+    );
+    resetExport();
+  };
+  
+  const selectOutput = (value: ExportOutput) => {
+    setOutput(value);
+    resetExport();
+  };
+  
+  const selectApplyGain = (value: boolean) => {
+    setApplyGain(value);
+    resetExport();
+  };
+  
+  // Switching format keeps the bit depth or bitrate when the new format offers it
+  const selectFormat = (format: ExportFormat) => {
+    setEncoderSettings(prev => resolveEncoderSettings({ ...prev, format }));
+    if (sampleRate !== undefined && !supportsSampleRate(getEncoder(format), sampleRate)) {
+      setSampleRate(undefined);
+    }
+    resetExport();
+  };
+  
+  const selectBitDepth = (bitDepth: number) => {
+    setEncoderSettings(prev => ({ ...prev, bitDepth }));
+    resetExport();
+  };
+  
+  const selectBitrate = (bitrate: number) => {
+    setEncoderSettings(prev => ({ ...prev, bitrate }));
+    resetExport();
+  };
+  
+  const updateTag = (field: TagField, value: string) => {
+    setTags(prev => ({ ...prev, [field]: value }));
+    resetExport();
+  };
+  
+  const selectSampleRate = (value?: number) => {
+    setSampleRate(value);
+    resetExport();
+  };
+  
+  const selectChannelCount = (value?: number) => {
+    setChannelCount(value);
+    resetExport();
+  };
+  
+  const selectLoudnessTarget = (value?: number) => {
+    setLoudnessTarget(value);
+    resetExport();
+  };
+  
+  // Abandon a running merge when leaving the screen
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, []);
   
   const exportAudio = async () => {
-    if (!vocalTrack || !instrumentalTrack) {
-      Alert.alert('Error', 'Missing audio tracks. Please go back to the editor.');
+    if (!hasStems) {
+      Alert.alert('Error', 'No separated tracks to export. Please separate an audio file in the editor first.');
       return;
     }
     
+    if (selectedStems.length === 0) {
+      Alert.alert('Nothing to export', 'Select at least one track to include in the mix.');
+      return;
+    }
+    
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setProgress(null);
+    setIsCancelling(false);
     setIsMerging(true);
     
+    const options = {
+      sampleRate,
+      channelCount,
+      loudnessTarget,
+      encoder: encoderSettings,
+      tags,
+      onProgress: setProgress,
+      signal: abortController.signal
+    };
+    
     try {
-      // Call the merge function
-      const result = await mergeAudioTracks(
-        vocalTrack,
-        instrumentalTrack,
-        vocalVol,
-        instrumentalVol
-      );
+      let files: ExportedFile[] = [];
+      let measurements: MixMeasurements | undefined;
+      // One per track, in the order the tracks were passed
+      let trackLevels: AudioMeasurement[] | undefined;
+      let error: string | undefined;
+      if (output === 'mix') {
+        // Call the merge function
+        const result = await mergeAudioTracks(selectedStems, options);
+        if (result.cancelled) {
+          return;
+        }
+        if (result.outputUri) {
+          files = [{ name: `mixed_audio.${encoder.extension}`, uri: result.outputUri, mimeType: encoder.mimeType }];
+        }
+        measurements = result.measurements;
+        trackLevels = result.measurements?.tracks;
+        error = result.error;
+      } else {
+        const result = await exportStems(selectedStems, {
+          ...options,
+          applyGain,
+          bundle: output === 'bundle'
+        });
+        if (result.cancelled) {
+          return;
+        }
+        files = result.files ?? [];
+        measurements = result.measurements;
+        // Stem files are shown as written, with or without their mixer volume
+        trackLevels = result.stemMeasurements;
+        error = result.error;
+      }
       
-      if (result.success) {
-        setExportedUri(result.outputUri);
+      if (files.length > 0) {
+        setExportedFiles(files);
+        if (projectId) {
+          addProjectExport(projectId, {
+            exportedAt: Date.now(),
+            output,
+            encoder: encoderSettings,
+            stems: selectedStems.map(({ name }) => name),
+            files: files.map(({ name }) => name)
+          }).catch(err => console.error('Failed to record export in project', err));
+        }
+        if (measurements) {
+          setMeasurements(measurements);
+        }
+        if (trackLevels) {
+          const levels = trackLevels;
+          setTrackMeasurements(Object.fromEntries(
+            selectedStems.map(({ name }, i) => [name, levels[i]])
+          ));
+        }
         Alert.alert('Success', 'Your audio has been successfully exported!');
       } else {
-        Alert.alert('Export Failed', result.error || 'Failed to export audio.');
+        Alert.alert('Export Failed', error || 'Failed to export audio.');
       }
     } catch (err) {
       console.error('Failed to export audio', err);
       Alert.alert('Error', 'Failed to export audio. Please try again.');
     } finally {
+      abortControllerRef.current = null;
       setIsMerging(false);
+      setIsCancelling(false);
     }
   };
   
-  const shareAudio = async () => {
-    if (!exportedUri) return;
-    
+  const cancelExport = () => {
+    setIsCancelling(true);
+    abortControllerRef.current?.abort();
+  };
+  
+  const shareAudio = async (file: ExportedFile) => {
     try {
       if (Platform.OS === 'web') {
         // For web, download the file
         const link = document.createElement('a');
-        link.href = exportedUri;
-        link.download = exportName;
+        link.href = file.uri;
+        link.download = file.name;
         link.click();
       } else {
         // For mobile, share the file
         const isAvailable = await Sharing.isAvailableAsync();
         if (isAvailable) {
-          await Sharing.shareAsync(exportedUri);
+          await Sharing.shareAsync(file.uri, { mimeType: file.mimeType, dialogTitle: file.name });
         } else {
           Alert.alert(
             'Sharing not available',
@@ -90,102 +343,307 @@ export default function ExportScreen() {
     }
   };
   
-  const downloadAudio = async () => {
-    if (!exportedUri) return;
-    
-    if (Platform.OS === 'web') {
-      // For web, download the file
-      const link = document.createElement('a');
-      link.href = exportedUri;
-      link.download = exportName;
-      link.click();
-    } else {
-      // For mobile, just copy to downloads (this is a simplified implementation)
+  const saveAudio = async (file: ExportedFile, chooseFolder = false) => {
+    const result = await saveToDevice(file, { chooseFolder });
+    if (result.cancelled || Platform.OS === 'web') return;
+
+    if (result.success) {
       Alert.alert(
-        'Success',
-        'File saved to your device. You can access it through the share option.'
+        'Saved',
+        `${result.name} was saved to ${result.location}.`,
+        Platform.OS === 'android'
+          ? [{ text: 'Save Elsewhere', onPress: () => saveAudio(file, true) }, { text: 'OK' }]
+          : undefined
       );
+    } else {
+      Alert.alert('Save Failed', result.error || 'Failed to save the file to your device.');
     }
   };
   
   return (
-    <View style={styles.container}>
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
       <View style={styles.header}>
         <Text style={styles.title}>Export Audio</Text>
       </View>
       
-      {hasRequiredParams ? (
+      {hasStems ? (
         <>
           <View style={styles.infoContainer}>
-            <View style={styles.trackInfoCard}>
-              <View style={styles.trackInfoHeader}>
-                <Mic color={Colors.vocalTrack} size={24} />
-                <Text style={styles.trackInfoTitle}>Vocal Track</Text>
-              </View>
-              <Text style={styles.trackInfoDetail}>
-                Volume: {Math.round(vocalVol * 100)}%
-              </Text>
-            </View>
-            
-            <View style={styles.trackInfoCard}>
-              <View style={styles.trackInfoHeader}>
-                <Music color={Colors.instrumentalTrack} size={24} />
-                <Text style={styles.trackInfoTitle}>Instrumental Track</Text>
-              </View>
-              <Text style={styles.trackInfoDetail}>
-                Volume: {Math.round(instrumentalVol * 100)}%
-              </Text>
-            </View>
+            {stems.map(({ name, volume }) => {
+              const { label, color, Icon } = STEM_DISPLAY[name];
+              const included = !excluded.includes(name);
+              const measured = trackMeasurements[name];
+              return (
+                <TouchableOpacity
+                  key={name}
+                  style={[styles.trackInfoCard, !included && styles.trackInfoCardExcluded]}
+                  onPress={() => toggleStem(name)}
+                  disabled={isMerging}
+                >
+                  <View style={styles.trackInfoHeader}>
+                    <Icon color={color} size={24} />
+                    <Text style={styles.trackInfoTitle}>{label}</Text>
+                    <View style={[styles.checkbox, included && { backgroundColor: color, borderColor: color }]}>
+                      {included && <Check color={Colors.text} size={14} />}
+                    </View>
+                  </View>
+                  <Text style={styles.trackInfoDetail}>
+                    {included ? `Volume: ${Math.round(volume * 100)}%` : 'Not included'}
+                    {included && measured
+                      ? ` · ${formatLevel(measured.integratedLufs, 'LUFS')}` +
+                        ` · LRA ${formatLevel(measured.loudnessRangeLu, 'LU')}` +
+                        ` · ${formatLevel(measured.truePeakDb, 'dBTP')}`
+                      : ''}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
           </View>
           
           {isMerging ? (
             <View style={styles.processingContainer}>
-              <ActivityIndicator size="large" color={Colors.primary} />
-              <Text style={styles.processingText}>
-                Merging audio tracks...{'\n'}This may take a few moments
-              </Text>
+              <ProcessingProgress
+                title={OUTPUT_TEXT[output].progress}
+                update={progress}
+                onCancel={cancelExport}
+                isCancelling={isCancelling}
+              />
             </View>
-          ) : exportedUri ? (
+          ) : exportedFiles.length > 0 ? (
             <View style={styles.exportedContainer}>
               <Text style={styles.successText}>
-                Your mixed audio is ready!
+                {OUTPUT_TEXT[output].ready}
               </Text>
               
-              <View style={styles.actionButtons}>
-                <TouchableOpacity 
-                  style={[styles.actionButton, styles.shareButton]} 
-                  onPress={shareAudio}
-                >
-                  <Share2 color={Colors.text} size={20} />
-                  <Text style={styles.buttonText}>Share</Text>
-                </TouchableOpacity>
-                
-                <TouchableOpacity 
-                  style={[styles.actionButton, styles.downloadButton]} 
-                  onPress={downloadAudio}
-                >
-                  <Download color={Colors.text} size={20} />
-                  <Text style={styles.buttonText}>Download</Text>
-                </TouchableOpacity>
-              </View>
+              {measurements && (
+                <View style={styles.measurementCard}>
+                  <View style={styles.measurementRow}>
+                    <Text style={styles.measurementLabel}>Integrated loudness</Text>
+                    <Text style={styles.measurementValue}>
+                      {formatLevel(measurements.mix.integratedLufs, 'LUFS')}
+                    </Text>
+                  </View>
+                  <View style={styles.measurementRow}>
+                    <Text style={styles.measurementLabel}>Short-term max</Text>
+                    <Text style={styles.measurementValue}>
+                      {formatLevel(measurements.mix.shortTermMaxLufs, 'LUFS')}
+                    </Text>
+                  </View>
+                  <View style={styles.measurementRow}>
+                    <Text style={styles.measurementLabel}>Loudness range</Text>
+                    <Text style={styles.measurementValue}>
+                      {formatLevel(measurements.mix.loudnessRangeLu, 'LU')}
+                    </Text>
+                  </View>
+                  <View style={styles.measurementRow}>
+                    <Text style={styles.measurementLabel}>True peak</Text>
+                    <Text style={styles.measurementValue}>
+                      {formatLevel(measurements.mix.truePeakDb, 'dBTP')}
+                    </Text>
+                  </View>
+                  {measurements.normalizationGainDb !== 0 && (
+                    <View style={styles.measurementRow}>
+                      <Text style={styles.measurementLabel}>Normalization gain</Text>
+                      <Text style={styles.measurementValue}>
+                        {`${measurements.normalizationGainDb > 0 ? '+' : ''}${formatLevel(measurements.normalizationGainDb, 'dB')}`}
+                      </Text>
+                    </View>
+                  )}
+                </View>
+              )}
+              
+              {exportedFiles.length === 1 ? (
+                <View style={styles.actionButtons}>
+                  <TouchableOpacity 
+                    style={[styles.actionButton, styles.shareButton]} 
+                    onPress={() => shareAudio(exportedFiles[0])}
+                  >
+                    <Share2 color={Colors.text} size={20} />
+                    <Text style={styles.buttonText}>Share</Text>
+                  </TouchableOpacity>
+                  
+                  <TouchableOpacity 
+                    style={[styles.actionButton, styles.downloadButton]} 
+                    onPress={() => saveAudio(exportedFiles[0])}
+                  >
+                    <Download color={Colors.text} size={20} />
+                    <Text style={styles.buttonText}>{Platform.OS === 'web' ? 'Download' : 'Save'}</Text>
+                  </TouchableOpacity>
+                </View>
+              ) : (
+                <View style={styles.fileList}>
+                  {exportedFiles.map(file => (
+                    <View key={file.uri} style={styles.fileRow}>
+                      <Text style={styles.fileName}>{file.name}</Text>
+                      <TouchableOpacity style={styles.fileButton} onPress={() => shareAudio(file)}>
+                        <Share2 color={Colors.text} size={18} />
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.fileButton} onPress={() => saveAudio(file)}>
+                        <Download color={Colors.text} size={18} />
+                      </TouchableOpacity>
+                    </View>
+                  ))}
+                </View>
+              )}
               
               <Text style={styles.exportInfoText}>
-                Your audio file has been exported with your chosen volume settings.
-                You can now share it or download it to your device.
+                {output === 'mix'
+                  ? 'Your audio file has been exported with your chosen volume settings.'
+                  : output === 'bundle'
+                    ? 'The ZIP holds every stem, the mix and a manifest of the mixer settings.'
+                    : 'Each stem has been exported as its own file.'}
+                {' '}You can now share or download your export.
               </Text>
             </View>
           ) : (
             <View style={styles.exportContainer}>
               <Text style={styles.exportInfoText}>
-                Merge your vocal and instrumental tracks with the volume settings
-                you specified in the mixer.
+                Merge the selected tracks with the volume settings you specified
+                in the mixer. Tap a track to include or leave it out.
               </Text>
               
+              <Text style={styles.optionLabel}>Export</Text>
+              <View style={styles.optionRow}>
+                {OUTPUT_OPTIONS.map(({ label, value }) => (
+                  <TouchableOpacity
+                    key={value}
+                    style={[styles.option, output === value && styles.optionSelected]}
+                    onPress={() => selectOutput(value)}
+                  >
+                    <Text style={styles.optionText}>{label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              
+              {output !== 'mix' && (
+                <>
+                  <Text style={styles.optionLabel}>Stem levels</Text>
+                  <View style={styles.optionRow}>
+                    {STEM_GAIN_OPTIONS.map(({ label, value }) => (
+                      <TouchableOpacity
+                        key={label}
+                        style={[styles.option, applyGain === value && styles.optionSelected]}
+                        onPress={() => selectApplyGain(value)}
+                      >
+                        <Text style={styles.optionText}>{label}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </>
+              )}
+              
+              <Text style={styles.optionLabel}>Format</Text>
+              <View style={styles.optionRow}>
+                {ENCODERS.map(({ format, name }) => (
+                  <TouchableOpacity
+                    key={format}
+                    style={[styles.option, encoderSettings.format === format && styles.optionSelected]}
+                    onPress={() => selectFormat(format)}
+                  >
+                    <Text style={styles.optionText}>{name}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              
+              {encoder.lossless ? (
+                <>
+                  <Text style={styles.optionLabel}>Bit depth</Text>
+                  <View style={styles.optionRow}>
+                    {encoder.bitDepths.map(bitDepth => (
+                      <TouchableOpacity
+                        key={bitDepth}
+                        style={[styles.option, encoderSettings.bitDepth === bitDepth && styles.optionSelected]}
+                        onPress={() => selectBitDepth(bitDepth)}
+                      >
+                        <Text style={styles.optionText}>
+                          {bitDepth === 32 ? '32-bit float' : `${bitDepth}-bit`}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </>
+              ) : (
+                <>
+                  <Text style={styles.optionLabel}>Bitrate</Text>
+                  <View style={styles.optionRow}>
+                    {encoder.bitrates.map(bitrate => (
+                      <TouchableOpacity
+                        key={bitrate}
+                        style={[styles.option, encoderSettings.bitrate === bitrate && styles.optionSelected]}
+                        onPress={() => selectBitrate(bitrate)}
+                      >
+                        <Text style={styles.optionText}>{`${bitrate} kbps`}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </>
+              )}
+              
+              <Text style={styles.optionLabel}>Sample rate</Text>
+              <View style={styles.optionRow}>
+                {sampleRateOptions.map(({ label, value }) => (
+                  <TouchableOpacity
+                    key={label}
+                    style={[styles.option, sampleRate === value && styles.optionSelected]}
+                    onPress={() => selectSampleRate(value)}
+                  >
+                    <Text style={styles.optionText}>{label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              
+              <Text style={styles.optionLabel}>Loudness</Text>
+              <View style={styles.optionRow}>
+                {LOUDNESS_OPTIONS.map(({ label, value }) => (
+                  <TouchableOpacity
+                    key={label}
+                    style={[styles.option, loudnessTarget === value && styles.optionSelected]}
+                    onPress={() => selectLoudnessTarget(value)}
+                  >
+                    <Text style={styles.optionText}>{label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              
+              <Text style={styles.optionLabel}>Channels</Text>
+              <View style={styles.optionRow}>
+                {CHANNEL_OPTIONS.map(({ label, value }) => (
+                  <TouchableOpacity
+                    key={label}
+                    style={[styles.option, channelCount === value && styles.optionSelected]}
+                    onPress={() => selectChannelCount(value)}
+                  >
+                    <Text style={styles.optionText}>{label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              
+              <Text style={styles.optionLabel}>Metadata</Text>
+              <View style={styles.metadataCard}>
+                {TAG_FIELDS.map(field => (
+                  <View key={field} style={styles.metadataRow}>
+                    <Text style={styles.metadataLabel}>{TAG_LABELS[field]}</Text>
+                    <TextInput
+                      style={styles.metadataInput}
+                      value={tags[field] ?? ''}
+                      onChangeText={value => updateTag(field, value)}
+                      placeholder={TAG_LABELS[field]}
+                      placeholderTextColor={Colors.subtext}
+                      multiline={field === 'comment'}
+                      keyboardType={field === 'year' ? 'number-pad' : 'default'}
+                    />
+                  </View>
+                ))}
+                <Text style={styles.metadataNote}>
+                  Each file also records its stems and mixer volumes.
+                </Text>
+              </View>
+              
               <TouchableOpacity 
                 style={styles.exportButton} 
                 onPress={exportAudio}
               >
-                <Text style={styles.exportButtonText}>Export Mixed Audio</Text>
+                <Text style={styles.exportButtonText}>{OUTPUT_TEXT[output].action}</Text>
               </TouchableOpacity>
               
               <Text style={styles.disclaimer}>
@@ -203,7 +661,7 @@ export default function ExportScreen() {
           </Text>
         </View>
       )}
-    </View>
+    </ScrollView>
   );
 }
 
@@ -211,6 +669,9 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: Colors.background,
+  },
+  content: {
+    flexGrow: 1,
     padding: 16,
   },
   header: {
@@ -235,12 +696,25 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 8,
   },
+  trackInfoCardExcluded: {
+    opacity: 0.5,
+  },
   trackInfoTitle: {
+    flex: 1,
     fontSize: 16,
     fontFamily: 'Inter-SemiBold',
     color: Colors.text,
     marginLeft: 8,
   },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 4,
+    borderWidth: 2,
+    borderColor: Colors.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   trackInfoDetail: {
     fontSize: 14,
     fontFamily: 'Inter-Regular',
@@ -250,13 +724,7 @@ const styles = StyleSheet.create({
     flex: 1,
     justifyContent: 'center',
     alignItems: 'center',
-  },
-  processingText: {
-    color: Colors.text,
-    fontSize: 16,
-    fontFamily: 'Inter-Medium',
-    textAlign: 'center',
-    marginTop: 16,
+    paddingHorizontal: 16,
   },
   exportContainer: {
     flex: 1,
@@ -264,6 +732,68 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     paddingHorizontal: 16,
   },
+  optionLabel: {
+    alignSelf: 'flex-start',
+    color: Colors.text,
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignSelf: 'stretch',
+    backgroundColor: Colors.card,
+    borderRadius: 8,
+    padding: 4,
+    marginBottom: 16,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 6,
+  },
+  optionSelected: {
+    backgroundColor: Colors.secondary,
+  },
+  optionText: {
+    color: Colors.text,
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+  },
+  metadataCard: {
+    alignSelf: 'stretch',
+    backgroundColor: Colors.card,
+    borderRadius: 8,
+    padding: 12,
+  },
+  metadataRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  metadataLabel: {
+    width: 64,
+    color: Colors.subtext,
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+  },
+  metadataInput: {
+    flex: 1,
+    color: Colors.text,
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  metadataNote: {
+    color: Colors.subtext,
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+  },
   exportButton: {
     backgroundColor: Colors.primary,
     paddingVertical: 16,
@@ -301,6 +831,28 @@ const styles = StyleSheet.create({
     color: Colors.success,
     marginBottom: 24,
   },
+  measurementCard: {
+    alignSelf: 'stretch',
+    backgroundColor: Colors.card,
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 24,
+  },
+  measurementRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  measurementLabel: {
+    color: Colors.subtext,
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+  },
+  measurementValue: {
+    color: Colors.text,
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+  },
   actionButtons: {
     flexDirection: 'row',
     justifyContent: 'center',
@@ -314,6 +866,31 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     marginHorizontal: 8,
   },
+  fileList: {
+    alignSelf: 'stretch',
+    backgroundColor: Colors.card,
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 24,
+  },
+  fileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  fileName: {
+    flex: 1,
+    color: Colors.text,
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    marginLeft: 8,
+  },
+  fileButton: {
+    padding: 8,
+    borderRadius: 6,
+    backgroundColor: Colors.secondary,
+    marginLeft: 8,
+  },
   shareButton: {
     backgroundColor: Colors.secondary,
   },
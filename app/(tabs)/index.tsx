@@ -7,11 +7,14 @@ import { useRouter } from 'expo-router';
 import Colors from '@/constants/Colors';
 import AudioWaveform from '@/components/AudioWaveform';
 import { saveAudioToCache } from '@/utils/fileSystem';
+import { closeSession, startSession } from '@/utils/session';
+import { useSession } from '@/hooks/useSession';
 
 export default function RecordScreen() {
   const [recording, setRecording] = useState<Audio.Recording | null>(null);
   const [recordingStatus, setRecordingStatus] = useState<'idle' | 'recording' | 'paused'>('idle');
-  const [audioUri, setAudioUri] = useState<string | null>(null);
+  // The session's audio, which a finished recording replaces
+  const audioUri = useSession(state => state.source?.uri ?? null);
   const [sound, setSound] = useState<Audio.Sound | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [duration, setDuration] = useState(0);
@@ -42,12 +45,19 @@ export default function RecordScreen() {
     };
   }, []);
 
+  // Load the session's audio for playback whenever it changes
+  useEffect(() => {
+    if (audioUri) {
+      loadAudio(audioUri);
+    }
+  }, [audioUri]);
+
   const startRecording = async () => {
     try {
       // Clear previous recording if exists
       if (audioUri) {
         await stopPlayback();
-        setAudioUri(null);
+        await closeSession();
       }
 
       await Audio.setAudioModeAsync({
@@ -100,14 +110,11 @@ export default function RecordScreen() {
 
       const uri = recording.getURI();
       if (uri) {
-        setAudioUri(uri);
-        
-        // Save recording to cache for later use
+        // Save recording to cache so mixing decodes the same file that is played back
         const savedUri = await saveAudioToCache(uri, 'recording.m4a');
-        console.log('Audio saved to:', savedUri);
         
-        // Load the recording for playback
-        loadAudio(uri);
+        // Start a project from it; the session change loads it for playback
+        await startSession(savedUri, 'recording.m4a', `Recording ${new Date().toLocaleString()}`);
       }
       
       setRecording(null);
@@ -228,10 +235,7 @@ export default function RecordScreen() {
 
   const proceedToMixing = () => {
     if (audioUri) {
-      router.push({
-        pathname: '/editor',
-        params: { audioUri }
-      });
+      router.push('/editor');
     }
   };
 
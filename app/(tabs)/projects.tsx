@@ -0,0 +1,310 @@
+import React, { useState, useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, Platform, FlatList, TextInput } from 'react-native';
+import { useFocusEffect, useRouter } from 'expo-router';
+import { FolderOpen, Pencil, Copy, Trash2 } from 'lucide-react-native';
+import Colors from '@/constants/Colors';
+import { getEncoder } from '@/utils/encoders';
+import {
+  ExportOutput,
+  Project,
+  deleteProject,
+  duplicateProject,
+  listProjects,
+  updateProject
+} from '@/utils/projects';
+import { closeSession, flushSession, getSession, openSession, updateSession } from '@/utils/session';
+import { useSession } from '@/hooks/useSession';
+
+const OUTPUT_LABELS: Record<ExportOutput, string> = {
+  mix: 'Mix',
+  stems: 'Stems',
+  bundle: 'Stem bundle',
+};
+
+// Helper to describe what has been done with a project
+const describeProject = ({ source, stems, exports }: Project) => {
+  const parts = [source.name, stems.length > 0 ? `${stems.length} stems` : 'Not separated'];
+  const [last] = exports;
+  if (last) {
+    parts.push(`Last export: ${OUTPUT_LABELS[last.output]} (${getEncoder(last.encoder.format).name})`);
+  }
+  return parts.join(' · ');
+};
+
+// Helper to ask before a destructive action; Alert buttons are not supported on web
+const confirmAction = (title: string, message: string, onConfirm: () => void) => {
+  if (Platform.OS === 'web') {
+    if (window.confirm(`${title}\n\n${message}`)) onConfirm();
+    return;
+  }
+  Alert.alert(title, message, [
+    { text: 'Cancel', style: 'cancel' },
+    { text: 'Delete', style: 'destructive', onPress: onConfirm },
+  ]);
+};
+
+export default function ProjectsScreen() {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const currentId = useSession(state => state.projectId);
+  const router = useRouter();
+
+  const loadProjects = async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (err) {
+      console.error('Failed to load projects', err);
+      Alert.alert('Error', 'Failed to load projects.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Other tabs create and change projects, so reload whenever the list is shown
+  useFocusEffect(
+    useCallback(() => {
+      loadProjects();
+    }, [])
+  );
+
+  const openProject = async (project: Project) => {
+    try {
+      if (await openSession(project.id)) {
+        router.push('/editor');
+      } else {
+        Alert.alert('Error', 'This project no longer exists.');
+        await loadProjects();
+      }
+    } catch (err) {
+      console.error('Failed to open project', err);
+      Alert.alert('Error', 'Failed to open the project.');
+    }
+  };
+
+  const startRename = (project: Project) => {
+    setRenamingId(project.id);
+    setDraftName(project.name);
+  };
+
+  const finishRename = async () => {
+    const id = renamingId;
+    const name = draftName.trim();
+    setRenamingId(null);
+    if (!id || !name) return;
+
+    try {
+      await updateProject(id, { name });
+      if (getSession().projectId === id) {
+        updateSession({ projectName: name });
+      }
+      await loadProjects();
+    } catch (err) {
+      console.error('Failed to rename project', err);
+      Alert.alert('Error', 'Failed to rename the project.');
+    }
+  };
+
+  const copyProject = async (project: Project) => {
+    try {
+      // The copy should include mixer changes that are still waiting to be saved
+      if (getSession().projectId === project.id) {
+        await flushSession();
+      }
+      await duplicateProject(project.id);
+      await loadProjects();
+    } catch (err) {
+      console.error('Failed to duplicate project', err);
+      Alert.alert('Error', 'Failed to duplicate the project.');
+    }
+  };
+
+  const removeProject = (project: Project) => {
+    confirmAction(
+      'Delete project',
+      `"${project.name}" and its stems will be removed from this device.`,
+      async () => {
+        try {
+          if (getSession().projectId === project.id) {
+            await closeSession();
+          }
+          await deleteProject(project.id);
+          await loadProjects();
+        } catch (err) {
+          console.error('Failed to delete project', err);
+          Alert.alert('Error', 'Failed to delete the project.');
+        }
+      }
+    );
+  };
+
+  const renderProject = ({ item }: { item: Project }) => (
+    <View style={[styles.projectCard, item.id === currentId && styles.currentProject]}>
+      <TouchableOpacity
+        style={styles.projectInfo}
+        onPress={() => openProject(item)}
+        disabled={renamingId === item.id}
+      >
+        {renamingId === item.id ? (
+          <TextInput
+            style={styles.nameInput}
+            value={draftName}
+            onChangeText={setDraftName}
+            onSubmitEditing={finishRename}
+            onBlur={finishRename}
+            autoFocus
+            selectTextOnFocus
+            returnKeyType="done"
+          />
+        ) : (
+          <Text style={styles.projectName} numberOfLines={1}>{item.name}</Text>
+        )}
+        <Text style={styles.projectDetails} numberOfLines={2}>{describeProject(item)}</Text>
+        <Text style={styles.projectDate}>
+          Updated {new Date(item.updatedAt).toLocaleString()}
+        </Text>
+      </TouchableOpacity>
+
+      <View style={styles.projectActions}>
+        <TouchableOpacity style={styles.actionButton} onPress={() => startRename(item)}>
+          <Pencil color={Colors.text} size={16} />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionButton} onPress={() => copyProject(item)}>
+          <Copy color={Colors.text} size={16} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.deleteButton]}
+          onPress={() => removeProject(item)}
+        >
+          <Trash2 color={Colors.text} size={16} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Projects</Text>
+      </View>
+
+      {projects.length > 0 ? (
+        <FlatList
+          data={projects}
+          keyExtractor={(project) => project.id}
+          renderItem={renderProject}
+          contentContainerStyle={styles.list}
+        />
+      ) : (
+        <View style={styles.emptyContainer}>
+          <FolderOpen color={Colors.subtext} size={48} />
+          <Text style={styles.emptyText}>
+            {isLoading
+              ? 'Loading projects...'
+              : 'No projects yet. Record or upload audio to start one.'}
+          </Text>
+          {Platform.OS === 'web' && !isLoading && (
+            <Text style={styles.emptyNote}>
+              In the browser, projects are kept until the page is closed.
+            </Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+    padding: 16,
+  },
+  header: {
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontFamily: 'Inter-Bold',
+    color: Colors.text,
+  },
+  list: {
+    paddingBottom: 16,
+  },
+  projectCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.card,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  currentProject: {
+    borderWidth: 1,
+    borderColor: Colors.primary,
+  },
+  projectInfo: {
+    flex: 1,
+  },
+  projectName: {
+    color: Colors.text,
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+  },
+  nameInput: {
+    color: Colors.text,
+    fontSize: 16,
+    fontFamily: 'Inter-SemiBold',
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  projectDetails: {
+    color: Colors.subtext,
+    fontSize: 13,
+    fontFamily: 'Inter-Regular',
+    marginTop: 4,
+  },
+  projectDate: {
+    color: Colors.subtext,
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    marginTop: 2,
+  },
+  projectActions: {
+    flexDirection: 'row',
+    marginLeft: 8,
+  },
+  actionButton: {
+    padding: 8,
+    borderRadius: 6,
+    backgroundColor: Colors.secondary,
+    marginLeft: 8,
+  },
+  deleteButton: {
+    backgroundColor: Colors.error,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  emptyText: {
+    color: Colors.subtext,
+    fontSize: 16,
+    fontFamily: 'Inter-Medium',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  emptyNote: {
+    color: Colors.subtext,
+    fontSize: 14,
+    fontFamily: 'Inter-Regular',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Platform, Alert } from 'react-native';
 import * as DocumentPicker from 'expo-document-picker';
 import * as FileSystem from 'expo-file-system';
@@ -8,16 +8,26 @@ import { useRouter } from 'expo-router';
 import Colors from '@/constants/Colors';
 import AudioWaveform from '@/components/AudioWaveform';
 import { saveAudioToCache } from '@/utils/fileSystem';
+import { startSession } from '@/utils/session';
+import { useSession } from '@/hooks/useSession';
 
 export default function UploadScreen() {
-  const [audioUri, setAudioUri] = useState<string | null>(null);
-  const [fileName, setFileName] = useState<string | null>(null);
+  // The session's audio, which a picked file replaces
+  const source = useSession(state => state.source);
+  const audioUri = source?.uri ?? null;
   const [sound, setSound] = useState<Audio.Sound | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [duration, setDuration] = useState(0);
   const [position, setPosition] = useState(0);
   const router = useRouter();
 
+  // Load the session's audio for playback whenever it changes
+  useEffect(() => {
+    if (audioUri) {
+      loadAudio(audioUri);
+    }
+  }, [audioUri]);
+
   const pickAudio = async () => {
     try {
       const result = await DocumentPicker.getDocumentAsync({
@@ -29,15 +39,7 @@ export default function UploadScreen() {
         return;
       }
 
-      // Stop any current playback
-      if (sound) {
-        await sound.unloadAsync();
-        setSound(null);
-        setIsPlaying(false);
-      }
-
       const asset = result.assets[0];
-      setFileName(asset.name);
 
       // Check file size (limit to 50MB for example)
       if (asset.size && asset.size > 50 * 1024 * 1024) {
@@ -45,19 +47,23 @@ export default function UploadScreen() {
         return;
       }
 
+      // Stop any current playback
+      if (sound) {
+        await sound.unloadAsync();
+        setSound(null);
+        setIsPlaying(false);
+      }
+
       // Check if it's a valid audio file by attempting to read it
       try {
         // Save to app's cache directory for easier access
         const savedUri = await saveAudioToCache(asset.uri, asset.name);
-        setAudioUri(savedUri);
         
-        // Load audio for playback
-        loadAudio(savedUri);
+        // Start a project from it; the session change loads it for playback
+        await startSession(savedUri, asset.name);
       } catch (err) {
         console.error('Invalid audio file:', err);
         Alert.alert('Invalid File', 'Please select a valid audio file');
-        setAudioUri(null);
-        setFileName(null);
       }
     } catch (err) {
       console.error('Error picking document:', err);
@@ -67,6 +73,11 @@ export default function UploadScreen() {
 
   const loadAudio = async (uri: string) => {
     try {
+      if (sound) {
+        await sound.unloadAsync();
+        setIsPlaying(false);
+      }
+      
       const { sound: newSound } = await Audio.Sound.createAsync(
         { uri },
         { shouldPlay: false },
@@ -114,10 +125,7 @@ export default function UploadScreen() {
 
   const proceedToMixing = () => {
     if (audioUri) {
-      router.push({
-        pathname: '/editor',
-        params: { audioUri }
-      });
+      router.push('/editor');
     }
   };
 
@@ -135,7 +143,7 @@ export default function UploadScreen() {
             <View style={styles.fileInfoContainer}>
               <FileAudio color={Colors.primary} size={24} />
               <Text style={styles.fileName} numberOfLines={1} ellipsizeMode="middle">
-                {fileName || 'Audio file'}
+                {source?.name || 'Audio file'}
               </Text>
             </View>
             
@@ -1,14 +1,15 @@
-import React, { useEffect, useState } from 'react';
-import { View, StyleSheet, Dimensions } from 'react-native';
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, StyleSheet, LayoutChangeEvent } from 'react-native';
 import Colors from '@/constants/Colors';
-import Animated, { 
-  useAnimatedStyle, 
-  useSharedValue, 
-  withRepeat, 
+import Animated, {
+  useAnimatedStyle,
+  useSharedValue,
+  withRepeat,
   withTiming,
   cancelAnimation,
   Easing
 } from 'react-native-reanimated';
+import { WaveformPeaks, getWaveformPeaks, summarizePeaks } from '@/utils/peaks';
 
 interface AudioWaveformProps {
   audioUri: string | null;
@@ -17,27 +18,39 @@ interface AudioWaveformProps {
   duration: number;
 }
 
-const BAR_COUNT = 50;
-const MAX_BAR_HEIGHT = 80;
+// Each bar takes BAR_WIDTH + BAR_GAP pixels, so the bar count follows the width
+const BAR_WIDTH = 3;
+const BAR_GAP = 1;
 
-const AudioWaveform: React.FC<AudioWaveformProps> = ({ 
-  audioUri, 
+// Levels are scaled so the loudest peak fills the height, by at most this much for quiet files
+const MAX_GAIN = 8;
+
+const AudioWaveform: React.FC<AudioWaveformProps> = ({
+  audioUri,
   isRecording,
   position,
   duration
 }) => {
-  const [barHeights, setBarHeights] = useState<number[]>([]);
+  const [peaks, setPeaks] = useState<WaveformPeaks | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
   const animationProgress = useSharedValue(0);
-  
-  // Generate random bar heights when audio changes or when recording
+
+  // Load the peaks of the file; they are cached, so this is quick after the first time
   useEffect(() => {
-    if (audioUri || isRecording) {
-      generateRandomBars();
-    } else {
-      setBarHeights([]);
-    }
+    setPeaks(null);
+    if (!audioUri) return;
+
+    let cancelled = false;
+    getWaveformPeaks(audioUri)
+      .then(result => {
+        if (!cancelled) setPeaks(result);
+      })
+      .catch(err => console.error('Failed to load waveform', err));
+    return () => {
+      cancelled = true;
+    };
   }, [audioUri]);
-  
+
   // Update animation when recording status changes
   useEffect(() => {
     if (isRecording) {
@@ -50,66 +63,82 @@ const AudioWaveform: React.FC<AudioWaveformProps> = ({
     } else {
       cancelAnimation(animationProgress);
     }
-    
+
     return () => {
       cancelAnimation(animationProgress);
     };
   }, [isRecording]);
-  
-  // Generate random bar heights for visualization
-  const generateRandomBars = () => {
-    const heights: number[] = [];
-    
-    // Create some random but aesthetically pleasing waveform
-    for (let i = 0; i < BAR_COUNT; i++) {
-      // Generate a value between 0.1 and 1.0
-      const randomValue = 0.1 + Math.random() * 0.9;
-      
-      // Apply a bell curve to make the middle bars generally taller
-      const bellCurve = Math.sin((i / BAR_COUNT) * Math.PI);
-      const height = MAX_BAR_HEIGHT * randomValue * bellCurve;
-      
-      heights.push(Math.max(5, height)); // Ensure minimum height of 5
-    }
-    
-    setBarHeights(heights);
+
+  const onLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setSize({ width, height });
   };
-  
+
+  const barCount = Math.floor((size.width + BAR_GAP) / (BAR_WIDTH + BAR_GAP));
+
+  const bars = useMemo(
+    () => (peaks && barCount > 0 ? summarizePeaks(peaks, barCount) : null),
+    [peaks, barCount]
+  );
+
+  // The coarsest level holds the same extremes as the finest, in far fewer values
+  const gain = useMemo(() => {
+    if (!peaks) return 1;
+    const { min, max } = peaks.levels[peaks.levels.length - 1];
+    let loudest = 0;
+    for (let i = 0; i < min.length; i++) {
+      loudest = Math.max(loudest, -min[i], max[i]);
+    }
+    return loudest > 0 ? Math.min(MAX_GAIN, 1 / loudest) : 1;
+  }, [peaks]);
+
   // Animation style for recording
   const animatedStyle = useAnimatedStyle(() => {
     return {
       opacity: 0.7 + animationProgress.value * 0.3,
-      transform: [{ scaleY: 0.9 + animationProgress.value * 0.2 }],
+      transform: [{ scaleY: 1 + animationProgress.value * 2 }],
     };
   });
-  
-  // Calculate playback position for non-recording mode
-  const playbackPosition = duration > 0 ? (position / duration) * BAR_COUNT : 0;
-  
+
+  // Bars before the playback position are drawn as played
+  const playedBars = duration > 0 ? (position / duration) * barCount : 0;
+  const center = size.height / 2;
+
+  // Distance from the center line for a level, in pixels
+  const toPixels = (level: number) => Math.min(1, Math.abs(level) * gain) * center;
+
   return (
-    <View style={styles.container}>
-      {barHeights.length > 0 ? (
+    <View style={styles.container} onLayout={onLayout}>
+      {bars && !isRecording ? (
         <View style={styles.waveformContainer}>
-          {barHeights.map((height, index) => (
-            <Animated.View
-              key={index}
-              style={[
-                styles.bar,
-                {
-                  height: height,
-                  backgroundColor: isRecording
-                    ? Colors.waveformPrimary
-                    : index <= playbackPosition
-                      ? Colors.waveformPrimary
-                      : Colors.waveformSecondary,
-                },
-                isRecording && animatedStyle,
-              ]}
-            />
-          ))}
+          {Array.from(bars.max, (high, index) => {
+            const top = center - toPixels(high);
+            const bottom = center + toPixels(bars.min[index]);
+            const rms = toPixels(bars.rms[index]);
+            const color = index < playedBars ? Colors.waveformPrimary : Colors.waveformSecondary;
+            return (
+              <View
+                key={index}
+                style={[styles.barSlot, { left: index * (BAR_WIDTH + BAR_GAP) }]}
+              >
+                <View
+                  style={[
+                    styles.peakBar,
+                    { top, height: Math.max(1, bottom - top), backgroundColor: color },
+                  ]}
+                />
+                <View
+                  style={[
+                    styles.bar,
+                    { top: center - rms, height: Math.max(1, rms * 2), backgroundColor: color },
+                  ]}
+                />
+              </View>
+            );
+          })}
         </View>
       ) : (
-        <View style={styles.emptyWaveform} />
+        <Animated.View style={[styles.emptyWaveform, isRecording && styles.recordingLine, isRecording && animatedStyle]} />
       )}
     </View>
   );
@@ -118,19 +147,32 @@ const AudioWaveform: React.FC<AudioWaveformProps> = ({
 const styles = StyleSheet.create({
   container: {
     flex: 1,
+    alignSelf: 'stretch',
     justifyContent: 'center',
     alignItems: 'center',
   },
   waveformContainer: {
     width: '100%',
     height: '100%',
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'space-between',
   },
+  barSlot: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: BAR_WIDTH,
+  },
+  // Full range from the lowest to the highest sample
+  peakBar: {
+    position: 'absolute',
+    width: BAR_WIDTH,
+    borderRadius: BAR_WIDTH / 2,
+    opacity: 0.45,
+  },
+  // RMS level, drawn over the peak range
   bar: {
-    width: 4,
-    borderRadius: 2,
+    position: 'absolute',
+    width: BAR_WIDTH,
+    borderRadius: BAR_WIDTH / 2,
     backgroundColor: Colors.waveformPrimary,
   },
   emptyWaveform: {
@@ -139,6 +181,9 @@ const styles = StyleSheet.create({
     backgroundColor: Colors.border,
     borderRadius: 1,
   },
+  recordingLine: {
+    backgroundColor: Colors.waveformPrimary,
+  },
 });
 
-export default AudioWaveform;
\ No newline at end of file
+export default AudioWaveform;
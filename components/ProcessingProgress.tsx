@@ -0,0 +1,121 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { X } from 'lucide-react-native';
+import Colors from '@/constants/Colors';
+import { ProgressUpdate, STAGE_LABELS } from '@/utils/progress';
+
+interface ProcessingProgressProps {
+  title: string;
+  update: ProgressUpdate | null;
+  onCancel: () => void;
+  isCancelling?: boolean;
+}
+
+// Format a remaining time estimate for display
+const formatEta = (seconds: number) => {
+  const rounded = Math.max(1, Math.round(seconds));
+  if (rounded < 60) {
+    return `About ${rounded}s remaining`;
+  }
+  const mins = Math.floor(rounded / 60);
+  const secs = rounded % 60;
+  return `About ${mins}m ${secs < 10 ? '0' : ''}${secs}s remaining`;
+};
+
+const ProcessingProgress: React.FC<ProcessingProgressProps> = ({
+  title,
+  update,
+  onCancel,
+  isCancelling = false,
+}) => {
+  const percent = update ? Math.round(update.progress * 100) : 0;
+
+  return (
+    <View style={styles.container}>
+      <ActivityIndicator size="large" color={Colors.primary} />
+      <Text style={styles.title}>{title}</Text>
+
+      <View style={styles.progressTrack}>
+        <View style={[styles.progressFill, { width: `${percent}%` }]} />
+      </View>
+
+      <Text style={styles.stageText}>
+        {percent}% · {update ? STAGE_LABELS[update.stage] : 'Starting'}
+      </Text>
+
+      <Text style={styles.etaText}>
+        {update?.etaSeconds !== undefined ? formatEta(update.etaSeconds) : 'Estimating time left...'}
+      </Text>
+
+      <TouchableOpacity
+        style={[styles.cancelButton, isCancelling && styles.cancelButtonDisabled]}
+        onPress={onCancel}
+        disabled={isCancelling}
+      >
+        <X color={Colors.text} size={18} />
+        <Text style={styles.cancelButtonText}>
+          {isCancelling ? 'Cancelling...' : 'Cancel'}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    alignItems: 'center',
+  },
+  title: {
+    color: Colors.text,
+    fontSize: 16,
+    fontFamily: 'Inter-Medium',
+    textAlign: 'center',
+    marginTop: 16,
+    marginBottom: 16,
+  },
+  progressTrack: {
+    width: '100%',
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: Colors.border,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 3,
+    backgroundColor: Colors.primary,
+  },
+  stageText: {
+    color: Colors.text,
+    fontSize: 14,
+    fontFamily: 'Inter-Medium',
+    marginTop: 12,
+  },
+  etaText: {
+    color: Colors.subtext,
+    fontSize: 12,
+    fontFamily: 'Inter-Regular',
+    marginTop: 4,
+  },
+  cancelButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.error,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+    marginTop: 24,
+  },
+  cancelButtonDisabled: {
+    opacity: 0.6,
+  },
+  cancelButtonText: {
+    color: Colors.text,
+    fontSize: 14,
+    fontFamily: 'Inter-SemiBold',
+    marginLeft: 8,
+  },
+});
+
+export default ProcessingProgress;
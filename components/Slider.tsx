@@ -13,6 +13,9 @@ import Colors from '@/constants/Colors';
 interface SliderProps {
   value: number;
   onValueChange: (value: number) => void;
+  // Called when a drag starts and ends, so its changes can be treated as one
+  onSlidingStart?: () => void;
+  onSlidingComplete?: (value: number) => void;
   minimumValue: number;
   maximumValue: number;
   step?: number;
@@ -22,6 +25,8 @@ interface SliderProps {
 const Slider: React.FC<SliderProps> = ({
   value,
   onValueChange,
+  onSlidingStart,
+  onSlidingComplete,
   minimumValue,
   maximumValue,
   step = 0.01,
@@ -57,6 +62,9 @@ const Slider: React.FC<SliderProps> = ({
   const gestureHandler = useAnimatedGestureHandler({
     onStart: (_, ctx: any) => {
       ctx.startPosition = position.value;
+      if (onSlidingStart) {
+        runOnJS(onSlidingStart)();
+      }
     },
     onActive: (event, ctx) => {
       // Calculate new position based on pan
@@ -73,6 +81,12 @@ const Slider: React.FC<SliderProps> = ({
       // Optional: add spring animation at the end
       position.value = withSpring(position.value);
     },
+    // Runs after the drag ends, is cancelled or fails
+    onFinish: () => {
+      if (onSlidingComplete) {
+        runOnJS(onSlidingComplete)(calculateValue(position.value));
+      }
+    },
   });
 
   // Animated styles for thumb
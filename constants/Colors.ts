@@ -24,6 +24,11 @@ export default {
   waveformSecondary: '#FF9500',
   vocalTrack: '#764ABC',
   instrumentalTrack: '#34C759',
+  drumsTrack: '#FF9500',
+  bassTrack: '#FF2D55',
+  otherTrack: '#5AC8FA',
+  harmonicTrack: '#FFCC00',
+  percussiveTrack: '#AF52DE',
   
   // Processing states
   processingBackground: 'rgba(0, 0, 0, 0.7)',
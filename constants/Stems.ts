@@ -0,0 +1,45 @@
+import { Drum, Guitar, Mic, Music, Piano, Waves, Zap } from 'lucide-react-native';
+import Colors from './Colors';
+import { QualityTier, SeparationMode, StemName } from '@/utils/separation';
+
+// How each stem is presented in the mixer and export screens
+export const STEM_DISPLAY: Record<StemName, { label: string; color: string; Icon: typeof Mic }> = {
+  vocals: { label: 'Vocals', color: Colors.vocalTrack, Icon: Mic },
+  instrumental: { label: 'Instrumental', color: Colors.instrumentalTrack, Icon: Music },
+  drums: { label: 'Drums', color: Colors.drumsTrack, Icon: Drum },
+  bass: { label: 'Bass', color: Colors.bassTrack, Icon: Guitar },
+  other: { label: 'Other', color: Colors.otherTrack, Icon: Piano },
+  harmonic: { label: 'Harmonic', color: Colors.harmonicTrack, Icon: Waves },
+  percussive: { label: 'Percussive', color: Colors.percussiveTrack, Icon: Zap },
+};
+
+// Labels for the separation mode picker
+export const SEPARATION_MODE_LABELS: Record<SeparationMode, string> = {
+  'two-stem': '2 stems',
+  'four-stem': '4 stems',
+  'harmonic-percussive': 'Tonal / drums',
+};
+
+// Process button and info text for each separation mode
+export const SEPARATION_MODE_TEXT: Record<SeparationMode, { action: string; description: string }> = {
+  'two-stem': {
+    action: 'Separate Vocal & Instrumental',
+    description: 'This will separate the audio into vocal and instrumental tracks.',
+  },
+  'four-stem': {
+    action: 'Separate Vocals, Drums & Bass',
+    description: 'This will separate the audio into vocals, drums, bass and other tracks.',
+  },
+  'harmonic-percussive': {
+    action: 'Separate Harmonic & Percussive',
+    description:
+      'This will split sustained, tonal sound from drums and other transients. Handy for remixing and drum practice tracks.',
+  },
+};
+
+// Labels for the quality picker
+export const QUALITY_TIER_LABELS: Record<QualityTier, string> = {
+  fast: 'Fast',
+  balanced: 'Balanced',
+  high: 'High quality',
+};
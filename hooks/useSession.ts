@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import { SessionState, getSession, subscribeSession } from '@/utils/session';
+
+// Read the shared session, re-rendering when it changes. The selector should return a value
+// held in the state (not a new object) so unrelated changes do not re-render.
+export function useSession(): SessionState;
+export function useSession<T>(selector: (state: SessionState) => T): T;
+export function useSession<T>(selector?: (state: SessionState) => T) {
+  const select = () => (selector ? selector(getSession()) : getSession());
+  return useSyncExternalStore(subscribeSession, select);
+}
@@ -0,0 +1,93 @@
+import AVFoundation
+import ExpoModulesCore
+
+// Decodes compressed audio (M4A, AAC, MP3, ...) into a PCM WAV file with AVAudioFile.
+// The iOS counterpart of AudioDecoderModule.kt; the JS side (utils/audioDecoder.ts) parses
+// the resulting WAV.
+public class AudioDecoderModule: Module {
+  // Frames converted per step, so long files never sit in memory whole
+  private static let framesPerRead: AVAudioFrameCount = 65536
+
+  public func definition() -> ModuleDefinition {
+    Name("AudioDecoder")
+
+    AsyncFunction("decodeToWav") { (inputUri: String, outputUri: String) -> String in
+      guard let inputUrl = URL(string: inputUri), inputUrl.isFileURL else {
+        throw InvalidFileUriException(inputUri)
+      }
+      guard let outputUrl = URL(string: outputUri), outputUrl.isFileURL else {
+        throw InvalidFileUriException(outputUri)
+      }
+
+      do {
+        try Self.decode(from: inputUrl, to: outputUrl)
+      } catch {
+        try? FileManager.default.removeItem(at: outputUrl)
+        throw DecodeFailedException(error.localizedDescription)
+      }
+      return outputUri
+    }
+  }
+
+  private static func decode(from inputUrl: URL, to outputUrl: URL) throws {
+    let input = try AVAudioFile(forReading: inputUrl)
+    // Deinterleaved 32-bit float at the file's own rate and channel count
+    let format = input.processingFormat
+
+    try FileManager.default.createDirectory(
+      at: outputUrl.deletingLastPathComponent(),
+      withIntermediateDirectories: true
+    )
+    try? FileManager.default.removeItem(at: outputUrl)
+
+    // 32-bit float keeps decoder overshoots past full scale; the .wav extension selects WAVE
+    let settings: [String: Any] = [
+      AVFormatIDKey: kAudioFormatLinearPCM,
+      AVSampleRateKey: format.sampleRate,
+      AVNumberOfChannelsKey: format.channelCount,
+      AVLinearPCMBitDepthKey: 32,
+      AVLinearPCMIsFloatKey: true,
+      AVLinearPCMIsBigEndianKey: false,
+      AVLinearPCMIsNonInterleaved: false
+    ]
+    // The file is finished when output goes out of scope at the end of this function
+    let output = try AVAudioFile(
+      forWriting: outputUrl,
+      settings: settings,
+      commonFormat: .pcmFormatFloat32,
+      interleaved: false
+    )
+
+    guard let buffer = AVAudioPCMBuffer(pcmFormat: format, frameCapacity: framesPerRead) else {
+      throw DecodeFailedException("Cannot allocate a decode buffer")
+    }
+
+    while input.framePosition < input.length {
+      try input.read(into: buffer)
+      if buffer.frameLength == 0 {
+        break
+      }
+      try output.write(from: buffer)
+    }
+  }
+}
+
+internal class InvalidFileUriException: GenericException<String> {
+  override var code: String {
+    "E_AUDIO_DECODE"
+  }
+
+  override var reason: String {
+    "Not a file URI: \(param)"
+  }
+}
+
+internal class DecodeFailedException: GenericException<String> {
+  override var code: String {
+    "E_AUDIO_DECODE"
+  }
+
+  override var reason: String {
+    "Failed to decode audio: \(param)"
+  }
+}
@@ -0,0 +1,61 @@
+import ExpoModulesCore
+
+// Appends to files in place, so large files can be written piece by piece
+// (expo-file-system can only replace a whole file). The iOS counterpart of
+// AudioFileWriterModule.kt; used by utils/fileWriter.ts.
+public class AudioFileWriterModule: Module {
+  // A serial queue keeps appends to the same file in call order
+  private let queue = DispatchQueue(label: "AudioFileWriter")
+
+  public func definition() -> ModuleDefinition {
+    Name("AudioFileWriter")
+
+    AsyncFunction("appendBase64") { (fileUri: String, base64: String) in
+      guard let url = URL(string: fileUri), url.isFileURL else {
+        throw InvalidAppendUriException(fileUri)
+      }
+      guard let data = Data(base64Encoded: base64) else {
+        throw AppendFailedException("Invalid base64 data")
+      }
+
+      do {
+        try FileManager.default.createDirectory(
+          at: url.deletingLastPathComponent(),
+          withIntermediateDirectories: true
+        )
+        if !FileManager.default.fileExists(atPath: url.path) {
+          FileManager.default.createFile(atPath: url.path, contents: nil)
+        }
+        let handle = try FileHandle(forWritingTo: url)
+        defer {
+          handle.closeFile()
+        }
+        handle.seekToEndOfFile()
+        handle.write(data)
+      } catch {
+        throw AppendFailedException(error.localizedDescription)
+      }
+    }
+    .runOnQueue(queue)
+  }
+}
+
+internal class InvalidAppendUriException: GenericException<String> {
+  override var code: String {
+    "E_FILE_APPEND"
+  }
+
+  override var reason: String {
+    "Not a file URI: \(param)"
+  }
+}
+
+internal class AppendFailedException: GenericException<String> {
+  override var code: String {
+    "E_FILE_APPEND"
+  }
+
+  override var reason: String {
+    "Failed to append to file: \(param)"
+  }
+}
@@ -0,0 +1,227 @@
+// Headless separation quality evaluation.
+//
+// Runs a separation engine over reference mixtures with known stems through the same
+// processingAudio path the app uses, scores every stem (SDR/SIR/SAR) and prints a JSON report.
+// With a baseline report it exits non-zero when quality dropped.
+//
+//   npm run evaluate -- --dataset refs/dataset.json [--engine spectral] [--mode two-stem]
+//     [--quality balanced] [--output report.json] [--baseline baseline.json] [--tolerance 0.5]
+//
+// The dataset is a JSON file; paths are relative to it and must be WAV files:
+//   { "tracks": [{ "name": "song", "mixture": "song/mix.wav",
+//                  "stems": { "vocals": "song/vocals.wav", "instrumental": "song/inst.wav" } }] }
+//
+// Built by esbuild with react-native, expo-file-system and expo-modules-core replaced by
+// scripts/headless/.
+import { promises as fs } from 'fs';
+import { dirname, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import * as FileSystem from 'expo-file-system';
+import { processingAudio } from '../utils/audioProcessing';
+import { AudioStream, openAudioStream } from '../utils/audioDecoder';
+import { convertStream } from '../utils/audioFormat';
+import { DEFAULT_ENGINE_ID, getEngine } from '../utils/separationEngine';
+import { QualityTier, STEM_SETS, SeparatedStems, SeparationMode, StemName } from '../utils/separation';
+import {
+  DEFAULT_REGRESSION_TOLERANCE,
+  EVALUATION_WINDOW_SECONDS,
+  EvaluationReport,
+  TrackEvaluation,
+  compareWithBaseline,
+  evaluateStems,
+  summarizeEvaluations
+} from '../utils/evaluation';
+import { PCMAudio } from '../utils/wav';
+
+// Interface for one reference mixture in the dataset file
+interface DatasetTrack {
+  name: string;
+  mixture: string;
+  stems: Partial<Record<StemName, string>>;
+}
+
+// Interface for the command line options
+interface RunnerOptions {
+  dataset: string;
+  engineId: string;
+  mode?: SeparationMode;
+  quality?: QualityTier;
+  output?: string;
+  baseline?: string;
+  tolerance: number;
+}
+
+const USAGE =
+  'Usage: npm run evaluate -- --dataset <dataset.json> [--engine <id>] [--mode <mode>] ' +
+  '[--quality <tier>] [--output <report.json>] [--baseline <report.json>] [--tolerance <dB>]';
+
+const parseArgs = (args: string[]): RunnerOptions => {
+  const values: Record<string, string> = {};
+  for (let i = 0; i < args.length; i += 2) {
+    const flag = args[i];
+    const value = args[i + 1];
+    if (!flag.startsWith('--') || value === undefined) {
+      throw new Error(USAGE);
+    }
+    values[flag.slice(2)] = value;
+  }
+
+  if (!values.dataset) {
+    throw new Error(USAGE);
+  }
+  if (values.mode && !(values.mode in STEM_SETS)) {
+    throw new Error(`Unknown mode "${values.mode}".`);
+  }
+  const tolerance = values.tolerance ? Number(values.tolerance) : DEFAULT_REGRESSION_TOLERANCE;
+  if (!Number.isFinite(tolerance) || tolerance < 0) {
+    throw new Error(`Invalid tolerance "${values.tolerance}".`);
+  }
+
+  return {
+    dataset: resolve(values.dataset),
+    engineId: values.engine ?? DEFAULT_ENGINE_ID,
+    mode: values.mode as SeparationMode | undefined,
+    quality: values.quality as QualityTier | undefined,
+    output: values.output && resolve(values.output),
+    baseline: values.baseline && resolve(values.baseline),
+    tolerance
+  };
+};
+
+const readJson = async <T>(path: string): Promise<T> => JSON.parse(await fs.readFile(path, 'utf8'));
+
+const toUri = (path: string) => pathToFileURL(path).href;
+
+// Read a whole audio file, optionally through a conversion of its stream
+const readAudioFile = async (
+  uri: string,
+  convert: (stream: AudioStream) => AudioStream = (stream) => stream
+): Promise<PCMAudio> => {
+  const source = await openAudioStream(uri);
+  try {
+    const stream = convert(source);
+    return { sampleRate: stream.sampleRate, channels: await stream.read(0, stream.length) };
+  } finally {
+    await source.close();
+  }
+};
+
+// Separate one mixture and score the result against its reference stems
+const evaluateTrack = async (
+  track: DatasetTrack,
+  root: string,
+  options: RunnerOptions
+): Promise<TrackEvaluation> => {
+  const result = await processingAudio(toUri(resolve(root, track.mixture)), {
+    engineId: options.engineId,
+    mode: options.mode,
+    quality: options.quality,
+    // Always measure the engine, never a stored result
+    useCache: false
+  });
+  if (!result.success || !result.stems) {
+    throw new Error(`${track.name}: ${result.error ?? 'separation failed.'}`);
+  }
+
+  try {
+    const estimates: SeparatedStems = {};
+    for (const { name, uri } of result.stems) {
+      estimates[name] = await readAudioFile(uri);
+    }
+
+    // Engines output at the internal rate, and at most stereo; bring the references to match
+    const [{ sampleRate, channels }] = Object.values(estimates) as PCMAudio[];
+    const references: SeparatedStems = {};
+    for (const [name, path] of Object.entries(track.stems) as [StemName, string][]) {
+      references[name] = await readAudioFile(toUri(resolve(root, path)), (stream) =>
+        convertStream(stream, { sampleRate, channelCount: channels.length })
+      );
+    }
+
+    return { name: track.name, stems: evaluateStems(references, estimates) };
+  } finally {
+    for (const { uri } of result.stems) {
+      await FileSystem.deleteAsync(uri, { idempotent: true });
+    }
+  }
+};
+
+const formatDb = (value: number | null | undefined) =>
+  typeof value === 'number' ? value.toFixed(2).padStart(7) : '     --';
+
+const run = async () => {
+  const options = parseArgs(process.argv.slice(2));
+  const engine = getEngine(options.engineId);
+  if (!engine) {
+    throw new Error(`Unknown engine "${options.engineId}".`);
+  }
+
+  const { tracks: datasetTracks } = await readJson<{ tracks: DatasetTrack[] }>(options.dataset);
+  if (!Array.isArray(datasetTracks) || datasetTracks.length === 0) {
+    throw new Error(`${options.dataset} lists no tracks.`);
+  }
+  const root = dirname(options.dataset);
+
+  const tracks: TrackEvaluation[] = [];
+  for (const track of datasetTracks) {
+    const evaluation = await evaluateTrack(track, root, options);
+    tracks.push(evaluation);
+    for (const [name, metrics] of Object.entries(evaluation.stems)) {
+      console.error(
+        `${track.name} ${name.padEnd(12)} SDR ${formatDb(metrics?.sdr)}  ` +
+          `SIR ${formatDb(metrics?.sir)}  SAR ${formatDb(metrics?.sar)}`
+      );
+    }
+  }
+
+  const report: EvaluationReport = {
+    engine: { id: engine.id, version: engine.version },
+    mode: options.mode ?? engine.stemSets[0],
+    quality: options.quality ?? engine.qualityTiers[0],
+    windowSeconds: EVALUATION_WINDOW_SECONDS,
+    tracks,
+    ...summarizeEvaluations(tracks)
+  };
+
+  const json = JSON.stringify(report, null, 2);
+  if (options.output) {
+    await fs.writeFile(options.output, `${json}\n`);
+    console.error(`Report written to ${options.output}`);
+  } else {
+    console.log(json);
+  }
+
+  if (options.baseline) {
+    const baseline = await readJson<EvaluationReport>(options.baseline);
+    if (baseline.mode !== report.mode || baseline.quality !== report.quality) {
+      console.error(
+        `Warning: the baseline was measured with ${baseline.mode}/${baseline.quality}, ` +
+          `this run used ${report.mode}/${report.quality}.`
+      );
+    }
+    const regressions = compareWithBaseline(report, baseline, options.tolerance);
+    for (const { stem, metric, baseline: before, current } of regressions) {
+      console.error(
+        `Regression: ${stem} ${metric.toUpperCase()} ${formatDb(current).trim()} dB ` +
+          `(baseline ${before.toFixed(2)} dB)`
+      );
+    }
+    if (regressions.length > 0) {
+      process.exitCode = 1;
+    } else {
+      console.error(`No regressions against ${options.baseline} (tolerance ${options.tolerance} dB).`);
+    }
+  }
+};
+
+run()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    // Remove the headless scratch directory
+    if (FileSystem.cacheDirectory) {
+      await fs.rm(dirname(new URL(FileSystem.cacheDirectory).pathname), { recursive: true, force: true });
+    }
+  });
@@ -0,0 +1,111 @@
+// Node implementation of the parts of expo-file-system the processing modules use, so they
+// can run headless (see scripts/evaluate-separation.ts). URIs are file:// URLs as on device.
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+
+export enum EncodingType {
+  UTF8 = 'utf8',
+  Base64 = 'base64'
+}
+
+export enum FileSystemUploadType {
+  BINARY_CONTENT = 0,
+  MULTIPART = 1
+}
+
+// Each run gets its own scratch directory; the runner removes it when done
+const toDirectoryUri = (path: string) => `${pathToFileURL(path).href}/`;
+
+export const cacheDirectory: string | null = toDirectoryUri(
+  join(tmpdir(), `separation-headless-${process.pid}`, 'cache')
+);
+export const documentDirectory: string | null = toDirectoryUri(
+  join(tmpdir(), `separation-headless-${process.pid}`, 'documents')
+);
+
+const toPath = (uri: string) => fileURLToPath(uri);
+
+export const readAsStringAsync = async (
+  uri: string,
+  options: { encoding?: EncodingType; position?: number; length?: number } = {}
+): Promise<string> => {
+  const encoding = options.encoding ?? EncodingType.UTF8;
+  if (options.position === undefined && options.length === undefined) {
+    return fs.readFile(toPath(uri), encoding);
+  }
+
+  const file = await fs.open(toPath(uri), 'r');
+  try {
+    const position = options.position ?? 0;
+    const length = options.length ?? (await file.stat()).size - position;
+    const buffer = Buffer.alloc(Math.max(0, length));
+    const { bytesRead } = await file.read(buffer, 0, buffer.length, position);
+    return buffer.subarray(0, bytesRead).toString(encoding);
+  } finally {
+    await file.close();
+  }
+};
+
+export const writeAsStringAsync = async (
+  uri: string,
+  contents: string,
+  options: { encoding?: EncodingType } = {}
+): Promise<void> => {
+  await fs.writeFile(toPath(uri), contents, options.encoding ?? EncodingType.UTF8);
+};
+
+export const getInfoAsync = async (
+  uri: string,
+  options: { md5?: boolean; size?: boolean } = {}
+) => {
+  try {
+    const stats = await fs.stat(toPath(uri));
+    const md5 = options.md5 && stats.isFile()
+      ? createHash('md5').update(await fs.readFile(toPath(uri))).digest('hex')
+      : undefined;
+    return {
+      exists: true as const,
+      uri,
+      isDirectory: stats.isDirectory(),
+      size: stats.size,
+      modificationTime: stats.mtimeMs / 1000,
+      md5
+    };
+  } catch {
+    return { exists: false as const, uri, isDirectory: false as const };
+  }
+};
+
+export const makeDirectoryAsync = async (
+  uri: string,
+  options: { intermediates?: boolean } = {}
+): Promise<void> => {
+  await fs.mkdir(toPath(uri), { recursive: options.intermediates ?? false });
+};
+
+export const deleteAsync = async (
+  uri: string,
+  options: { idempotent?: boolean } = {}
+): Promise<void> => {
+  await fs.rm(toPath(uri), { recursive: true, force: options.idempotent ?? false });
+};
+
+export const moveAsync = async ({ from, to }: { from: string; to: string }): Promise<void> => {
+  await fs.rename(toPath(from), toPath(to));
+};
+
+export const copyAsync = async ({ from, to }: { from: string; to: string }): Promise<void> => {
+  await fs.cp(toPath(from), toPath(to), { recursive: true });
+};
+
+// Uploads and downloads belong to the remote engine, which the headless runner does not support
+export const createUploadTask = () => {
+  throw new Error('Uploads are not available when running headless.');
+};
+
+export const createDownloadResumable = () => {
+  throw new Error('Downloads are not available when running headless.');
+};
@@ -0,0 +1,15 @@
+// Stand-in for expo-modules-core when the processing modules run under Node (see
+// scripts/evaluate-separation.ts). Of the app's own native modules it has only the file writer,
+// backed by Node's fs, so files are still written in pieces.
+import { promises as fs } from 'fs';
+import { fileURLToPath } from 'url';
+
+const AudioFileWriter = {
+  appendBase64: (fileUri: string, base64: string) =>
+    fs.appendFile(fileURLToPath(fileUri), Buffer.from(base64, 'base64'))
+};
+
+const modules: Record<string, unknown> = { AudioFileWriter };
+
+export const requireOptionalNativeModule = <ModuleType = any>(moduleName: string): ModuleType | null =>
+  (modules[moduleName] as ModuleType | undefined) ?? null;
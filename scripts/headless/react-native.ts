@@ -0,0 +1,14 @@
+// Stand-in for react-native when the app's processing modules run under Node
+// (see scripts/evaluate-separation.ts). It reports a native platform without the app's own
+// native modules, so files go through expo-file-system (and the file writer stand-in in
+// expo-modules-core.ts) and only WAV input can be decoded.
+
+export type PlatformOSType = 'ios' | 'android' | 'macos' | 'windows' | 'web' | 'native';
+
+export const Platform = {
+  OS: 'ios' as PlatformOSType,
+  select: <T>(specifics: { [os in PlatformOSType | 'default']?: T }): T | undefined =>
+    specifics.ios ?? specifics.native ?? specifics.default
+};
+
+export const NativeModules: Record<string, unknown> = {};
@@ -0,0 +1,262 @@
+// Stand-in for the separation server, for developing and testing the remote engine offline.
+// Implements the API used by utils/remoteSeparation.ts with no dependencies beyond Node.
+//
+//   npm run mock-server
+//   EXPO_PUBLIC_SEPARATION_SERVER_URL=http://<this machine's LAN address>:8787 npm run dev
+//
+// "Separation" splits the input evenly across the stems, so the stems sum to the input.
+// Only 16-bit PCM and 32-bit float WAV uploads can be separated.
+//
+// Environment:
+//   PORT               port to listen on (default 8787)
+//   MOCK_JOB_MS        how long a job takes (default 3000)
+//   MOCK_FAILURE_RATE  share of requests answered with 503, to exercise retries (default 0)
+
+const http = require('http');
+const crypto = require('crypto');
+
+const PORT = Number(process.env.PORT || 8787);
+const JOB_MS = Number(process.env.MOCK_JOB_MS || 3000);
+const FAILURE_RATE = Number(process.env.MOCK_FAILURE_RATE || 0);
+
+const STEM_SETS = {
+  'two-stem': ['vocals', 'instrumental'],
+  'four-stem': ['vocals', 'drums', 'bass', 'other'],
+};
+
+const uploads = new Map();
+const jobs = new Map();
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+// Read the format and sample data of a WAV file
+const parseWav = (buffer) => {
+  if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Not a WAV file.');
+  }
+
+  let format = null;
+  for (let offset = 12; offset + 8 <= buffer.length; ) {
+    const id = buffer.toString('ascii', offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+    if (id === 'fmt ') {
+      format = {
+        encoding: buffer.readUInt16LE(body),
+        channels: buffer.readUInt16LE(body + 2),
+        sampleRate: buffer.readUInt32LE(body + 4),
+        bitsPerSample: buffer.readUInt16LE(body + 14),
+      };
+    } else if (id === 'data' && format) {
+      return { ...format, data: buffer.subarray(body, Math.min(buffer.length, body + size)) };
+    }
+    offset = body + size + (size % 2);
+  }
+  throw new Error('WAV file has no audio data.');
+};
+
+// Write one stem: the input scaled by the given gain, as 16-bit PCM
+const encodeStem = ({ encoding, channels, sampleRate, bitsPerSample, data }, gain) => {
+  let samples;
+  if (encoding === 1 && bitsPerSample === 16) {
+    samples = new Float32Array(data.length >> 1).map((_, i) => data.readInt16LE(i * 2) / 32768);
+  } else if (encoding === 3 && bitsPerSample === 32) {
+    samples = new Float32Array(data.length >> 2).map((_, i) => data.readFloatLE(i * 4));
+  } else {
+    throw new Error('The mock server only separates 16-bit PCM or 32-bit float WAV files.');
+  }
+
+  const out = Buffer.alloc(44 + samples.length * 2);
+  out.write('RIFF', 0, 'ascii');
+  out.writeUInt32LE(36 + samples.length * 2, 4);
+  out.write('WAVEfmt ', 8, 'ascii');
+  out.writeUInt32LE(16, 16);
+  out.writeUInt16LE(1, 20);
+  out.writeUInt16LE(channels, 22);
+  out.writeUInt32LE(sampleRate, 24);
+  out.writeUInt32LE(sampleRate * channels * 2, 28);
+  out.writeUInt16LE(channels * 2, 32);
+  out.writeUInt16LE(16, 34);
+  out.write('data', 36, 'ascii');
+  out.writeUInt32LE(samples.length * 2, 40);
+  for (let i = 0; i < samples.length; i++) {
+    const value = Math.max(-1, Math.min(1, samples[i] * gain));
+    out.writeInt16LE(Math.round(value * 32767), 44 + i * 2);
+  }
+  return out;
+};
+
+// Jobs finish by elapsed time; the stems are rendered when a job is first seen as done
+const getJobView = (job) => {
+  if (job.status === 'queued' || job.status === 'running') {
+    const progress = Math.min(1, (Date.now() - job.createdAt) / JOB_MS);
+    job.progress = progress;
+    job.status = progress > 0 ? 'running' : 'queued';
+
+    if (progress >= 1) {
+      try {
+        const wav = parseWav(job.source);
+        const names = STEM_SETS[job.mode];
+        job.stems = new Map(names.map((name) => [name, encodeStem(wav, 1 / names.length)]));
+        job.status = 'done';
+      } catch (err) {
+        job.status = 'failed';
+        job.error = err.message;
+      }
+    }
+  }
+
+  return {
+    id: job.id,
+    status: job.status,
+    progress: job.progress,
+    stems: job.stems
+      ? Array.from(job.stems, ([name, bytes]) => ({ name, size: bytes.length }))
+      : undefined,
+    error: job.error,
+  };
+};
+
+// Send a stem, honouring a single "bytes=start-end" range
+const sendStem = (req, res, bytes) => {
+  const match = /^bytes=(\d+)-(\d*)$/.exec(req.headers.range || '');
+  const headers = {
+    'Content-Type': 'audio/wav',
+    'Accept-Ranges': 'bytes',
+    'Access-Control-Allow-Origin': '*',
+  };
+
+  if (!match) {
+    res.writeHead(200, { ...headers, 'Content-Length': bytes.length });
+    res.end(bytes);
+    return;
+  }
+
+  const start = Number(match[1]);
+  const end = Math.min(bytes.length - 1, match[2] ? Number(match[2]) : bytes.length - 1);
+  if (start > end) {
+    res.writeHead(416, { ...headers, 'Content-Range': `bytes */${bytes.length}` });
+    res.end();
+    return;
+  }
+
+  res.writeHead(206, {
+    ...headers,
+    'Content-Length': end - start + 1,
+    'Content-Range': `bytes ${start}-${end}/${bytes.length}`,
+  });
+  res.end(bytes.subarray(start, end + 1));
+};
+
+const handle = async (req, res) => {
+  const { pathname } = new URL(req.url, 'http://localhost');
+  const parts = pathname.split('/').filter(Boolean);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, DELETE',
+      'Access-Control-Allow-Headers': 'Content-Type, Range',
+    });
+    res.end();
+    return;
+  }
+
+  if (FAILURE_RATE > 0 && Math.random() < FAILURE_RATE) {
+    sendJson(res, 503, { error: 'Injected failure.' });
+    return;
+  }
+
+  if (req.method === 'POST' && pathname === '/uploads') {
+    const id = crypto.randomUUID();
+    uploads.set(id, await readBody(req));
+    sendJson(res, 201, { id });
+    return;
+  }
+
+  if (req.method === 'POST' && pathname === '/jobs') {
+    let body;
+    try {
+      body = JSON.parse((await readBody(req)).toString() || '{}');
+    } catch {
+      sendJson(res, 400, { error: 'Request body is not valid JSON.' });
+      return;
+    }
+    const { uploadId, mode = 'two-stem' } = body;
+    if (!uploads.has(uploadId)) {
+      sendJson(res, 404, { error: 'Unknown upload.' });
+      return;
+    }
+    if (!STEM_SETS[mode]) {
+      sendJson(res, 400, { error: `Unsupported mode ${mode}.` });
+      return;
+    }
+
+    const job = {
+      id: crypto.randomUUID(),
+      status: 'queued',
+      progress: 0,
+      mode,
+      source: uploads.get(uploadId),
+      createdAt: Date.now(),
+    };
+    uploads.delete(uploadId);
+    jobs.set(job.id, job);
+    sendJson(res, 201, getJobView(job));
+    return;
+  }
+
+  const job = parts[0] === 'jobs' ? jobs.get(parts[1]) : undefined;
+  if (parts[0] === 'jobs' && !job) {
+    sendJson(res, 404, { error: 'Unknown job.' });
+    return;
+  }
+
+  if (job && parts.length === 2 && req.method === 'GET') {
+    sendJson(res, 200, getJobView(job));
+    return;
+  }
+
+  if (job && parts.length === 2 && req.method === 'DELETE') {
+    job.status = 'cancelled';
+    job.stems = undefined;
+    job.source = undefined;
+    res.writeHead(204, { 'Access-Control-Allow-Origin': '*' });
+    res.end();
+    return;
+  }
+
+  if (job && parts.length === 4 && parts[2] === 'stems' && req.method === 'GET') {
+    const bytes = job.stems && job.stems.get(parts[3]);
+    if (!bytes) {
+      sendJson(res, 404, { error: 'Unknown stem.' });
+      return;
+    }
+    sendStem(req, res, bytes);
+    return;
+  }
+
+  sendJson(res, 404, { error: 'Not found.' });
+};
+
+http
+  .createServer((req, res) => {
+    handle(req, res).catch((err) => {
+      console.error(err);
+      sendJson(res, 500, { error: 'Internal error.' });
+    });
+  })
+  .listen(PORT, () => {
+    console.log(`Mock separation server listening on http://localhost:${PORT}`);
+  });
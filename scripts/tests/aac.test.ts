@@ -0,0 +1,107 @@
+// Encoding AAC and decoding it again
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import { test } from 'node:test';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import { encodeAac } from '../../utils/aac';
+import { decodeAac } from './aacDecoder';
+import { createTone, readAudioFile } from './audio';
+
+// Bitrates the export screen offers for AAC
+const BITRATES = [96, 128, 192, 256];
+
+// Amplitude of a tone in samples and the ratio of its power to everything else, in dB,
+// from a least-squares fit of a sine and a cosine at its frequency
+const measureTone = (samples: Float32Array, frequency: number, sampleRate: number) => {
+  let ss = 0;
+  let cc = 0;
+  let sc = 0;
+  let xs = 0;
+  let xc = 0;
+  let xx = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const sin = Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+    const cos = Math.cos((2 * Math.PI * frequency * i) / sampleRate);
+    ss += sin * sin;
+    cc += cos * cos;
+    sc += sin * cos;
+    xs += samples[i] * sin;
+    xc += samples[i] * cos;
+    xx += samples[i] * samples[i];
+  }
+  const det = ss * cc - sc * sc;
+  const a = (xs * cc - xc * sc) / det;
+  const b = (xc * ss - xs * sc) / det;
+  const signal = a * xs + b * xc;
+  return { amplitude: Math.hypot(a, b), snr: 10 * Math.log10(signal / Math.max(1e-12, xx - signal)) };
+};
+
+// Strong pure tones put a single line far past what a quantized value can hold unless its
+// band's step is kept coarse enough; a clipped line comes back at a fraction of its level
+const cases = [
+  { frequency: 3000, sampleRate: 48000, channelCount: 1 },
+  { frequency: 1500, sampleRate: 48000, channelCount: 2 },
+  { frequency: 440, sampleRate: 44100, channelCount: 1 },
+  { frequency: 440, sampleRate: 44100, channelCount: 2 }
+];
+
+for (const { frequency, sampleRate, channelCount } of cases) {
+  test(`encodeAac keeps a ${frequency} Hz tone at ${sampleRate} Hz on ${channelCount} channel(s) intact`, () => {
+    const tone = createTone(frequency, 0.4, sampleRate, 1, channelCount);
+    for (const bitrate of BITRATES) {
+      const decoded = decodeAac(encodeAac(tone, bitrate));
+      assert.equal(decoded.sampleRate, sampleRate);
+      assert.equal(decoded.channels.length, channelCount);
+
+      const length = tone.channels[0].length;
+      for (const samples of decoded.channels) {
+        // Away from the edges, where the tone starts and stops
+        const { amplitude, snr } = measureTone(samples.subarray(2048, length - 2048), frequency, sampleRate);
+        assert.ok(Math.abs(amplitude - 0.4) < 0.004, `${bitrate} kbit/s: amplitude ${amplitude}`);
+        assert.ok(snr > 30, `${bitrate} kbit/s: SNR ${snr} dB`);
+      }
+    }
+  });
+}
+
+// The reference below checks the bitstream with a decoder that shares nothing with this repo.
+// fixtures/aac-reference.wav is FFmpeg's decoding of the file this test encodes:
+//   ffmpeg -i reference.m4a -acodec pcm_s16le aac-reference.wav
+// The hash pins the bitstream it was made from; a deliberate change to the encoder's output
+// needs the fixture decoded again.
+const REFERENCE_SHA256 = '8e2e342cca1fe7c1a58f4c4954dbd3d06218a73aa6d4fd0a8039303fe4f6f903';
+
+test('encodeAac output decodes with FFmpeg as with the test decoder', async () => {
+  // Different tones per channel, so swapped channels show
+  const input = {
+    sampleRate: 44100,
+    channels: [createTone(440, 0.4, 44100, 0.25).channels[0], createTone(1000, 0.4, 44100, 0.25).channels[0]]
+  };
+  const bytes = encodeAac(input, 128);
+  assert.equal(createHash('sha256').update(bytes).digest('hex'), REFERENCE_SHA256);
+
+  // npm test runs from the repository root
+  const referenceUri = pathToFileURL(join(process.cwd(), 'scripts/tests/fixtures/aac-reference.wav')).href;
+  const reference = await readAudioFile(referenceUri);
+  const decoded = decodeAac(bytes);
+  assert.equal(reference.sampleRate, 44100);
+  assert.equal(reference.channels.length, 2);
+
+  // Both decoders drop the encoder delay from the edit list and keep the last frame's padding
+  const length = input.channels[0].length;
+  assert.equal(reference.channels[0].length, decoded.channels[0].length);
+  reference.channels.forEach((samples, c) => {
+    let error = 0;
+    for (let i = 0; i < length; i++) {
+      error = Math.max(error, Math.abs(samples[i] - decoded.channels[c][i]));
+    }
+    // Within FFmpeg's 16-bit output, rounding included
+    assert.ok(error < 1e-3, `channel ${c}: differs from FFmpeg by ${error}`);
+
+    const frequency = c === 0 ? 440 : 1000;
+    const { amplitude, snr } = measureTone(samples.subarray(2048, length - 2048), frequency, 44100);
+    assert.ok(Math.abs(amplitude - 0.4) < 0.004, `channel ${c}: amplitude ${amplitude}`);
+    assert.ok(snr > 30, `channel ${c}: SNR ${snr} dB`);
+  });
+});
@@ -0,0 +1,193 @@
+// Minimal AAC-LC decoder for the subset utils/aac.ts writes: one SCE or CPE per frame, long
+// sine-windowed blocks only, no common window, pulse data, TNS or gain control. Enough to check
+// what the encoder produces without a platform decoder.
+import {
+  AAC_SAMPLE_RATES,
+  HuffmanCodebook,
+  LONG_WINDOW_BAND_OFFSETS,
+  SCALEFACTOR_CODEBOOK,
+  SPECTRUM_CODEBOOKS
+} from '../../utils/aacTables';
+import { PCMAudio } from '../../utils/wav';
+
+const FRAME_LENGTH = 1024;
+const WINDOW_LENGTH = 2 * FRAME_LENGTH;
+const ESCAPE_CODEBOOK = 11;
+
+// Largest magnitude each spectrum codebook codes, as in utils/aac.ts
+const CODEBOOK_LARGEST = [1, 1, 2, 2, 4, 4, 7, 7, 12, 12, 16];
+
+const readUint = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+const readType = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+// Body of the box at path, e.g. ['moov', 'trak', 'mdia']; full boxes keep their version and flags
+const findBox = (bytes: Uint8Array, path: string[], start = 0, end = bytes.length): Uint8Array => {
+  for (let offset = start; offset + 8 <= end; ) {
+    const size = readUint(bytes, offset);
+    if (readType(bytes, offset + 4) === path[0]) {
+      return path.length === 1
+        ? bytes.subarray(offset + 8, offset + size)
+        : findBox(bytes, path.slice(1), offset + 8, offset + size);
+    }
+    offset += size;
+  }
+  throw new Error(`No ${path[0]} box`);
+};
+
+const createBitReader = (bytes: Uint8Array) => {
+  let position = 0;
+  const read = (count: number) => {
+    let value = 0;
+    for (let i = 0; i < count; i++, position++) {
+      value = value * 2 + ((bytes[position >> 3] >> (7 - (position & 7))) & 1);
+    }
+    return value;
+  };
+  return { read };
+};
+
+type BitReader = ReturnType<typeof createBitReader>;
+
+// Decode a codeword by reading a bit at a time until it matches one of the book's codes
+const createHuffmanDecoder = ({ codes, lengths }: HuffmanCodebook) => {
+  const indices = new Map(codes.map((code, index) => [`${lengths[index]}:${code}`, index]));
+  return (reader: BitReader) => {
+    let code = 0;
+    for (let length = 1; length <= 32; length++) {
+      code = code * 2 + reader.read(1);
+      const index = indices.get(`${length}:${code}`);
+      if (index !== undefined) return index;
+    }
+    throw new Error('Invalid Huffman codeword');
+  };
+};
+
+const readScalefactor = createHuffmanDecoder(SCALEFACTOR_CODEBOOK);
+const readSpectrumCodes = SPECTRUM_CODEBOOKS.map(createHuffmanDecoder);
+
+// Read one individual_channel_stream and return its dequantized spectrum
+const readChannel = (reader: BitReader, bandOffsets: number[]): Float64Array => {
+  const globalGain = reader.read(8);
+  reader.read(1);
+  if (reader.read(2) !== 0) throw new Error('Only long blocks are supported');
+  reader.read(1);
+  const maxBand = reader.read(6);
+  if (reader.read(1) !== 0) throw new Error('Prediction is not supported');
+
+  const codebooks: number[] = [];
+  while (codebooks.length < maxBand) {
+    const codebook = reader.read(4);
+    let length = 0;
+    let increment: number;
+    do {
+      increment = reader.read(5);
+      length += increment;
+    } while (increment === 31);
+    for (let i = 0; i < length; i++) codebooks.push(codebook);
+  }
+
+  const scalefactors: number[] = [];
+  let scalefactor = globalGain;
+  for (let band = 0; band < maxBand; band++) {
+    if (codebooks[band] !== 0) scalefactor += readScalefactor(reader) - 60;
+    scalefactors.push(scalefactor);
+  }
+
+  if (reader.read(3) !== 0) throw new Error('Pulse data, TNS and gain control are not supported');
+
+  const spectrum = new Float64Array(FRAME_LENGTH);
+  for (let band = 0; band < maxBand; band++) {
+    const codebook = codebooks[band];
+    if (codebook === 0) continue;
+    const largest = CODEBOOK_LARGEST[codebook - 1];
+    const signed = codebook <= 6 && codebook !== 3 && codebook !== 4;
+    const dimension = codebook <= 4 ? 4 : 2;
+    const base = signed ? 2 * largest + 1 : largest + 1;
+    const gain = Math.pow(2, 0.25 * (scalefactors[band] - 100));
+
+    for (let i = bandOffsets[band]; i < bandOffsets[band + 1]; i += dimension) {
+      let index = readSpectrumCodes[codebook - 1](reader);
+      const values: number[] = [];
+      for (let j = 0; j < dimension; j++) {
+        values.unshift(index % base);
+        index = Math.floor(index / base);
+      }
+      const quantized = values.map((value) => (signed ? value - largest : value));
+      if (!signed) {
+        for (let j = 0; j < dimension; j++) {
+          if (quantized[j] !== 0 && reader.read(1)) quantized[j] = -quantized[j];
+        }
+      }
+      if (codebook === ESCAPE_CODEBOOK) {
+        for (let j = 0; j < dimension; j++) {
+          if (Math.abs(quantized[j]) !== 16) continue;
+          let extra = 0;
+          while (reader.read(1)) extra++;
+          const magnitude = (1 << (extra + 4)) + reader.read(extra + 4);
+          quantized[j] = Math.sign(quantized[j]) * magnitude;
+        }
+      }
+      for (let j = 0; j < dimension; j++) {
+        spectrum[i + j] = Math.sign(quantized[j]) * Math.pow(Math.abs(quantized[j]), 4 / 3) * gain;
+      }
+    }
+  }
+  return spectrum;
+};
+
+// Decode an .m4a file written by encodeAac, with the encoder delay from the edit list removed.
+// The padding of the last frame is kept.
+export const decodeAac = (bytes: Uint8Array): PCMAudio => {
+  const stbl = findBox(bytes, ['moov', 'trak', 'mdia', 'minf', 'stbl']);
+  // The sample entry's channel count and 16.16 rate follow the stsd header and 16 other bytes
+  const entry = findBox(stbl, ['stsd']).subarray(16);
+  const channelCount = (entry[16] << 8) | entry[17];
+  const sampleRate = readUint(entry, 24) / 0x10000;
+  const bandOffsets = LONG_WINDOW_BAND_OFFSETS[AAC_SAMPLE_RATES.indexOf(sampleRate)];
+
+  const stsz = findBox(stbl, ['stsz']);
+  const frameCount = readUint(stsz, 8);
+  let offset = readUint(findBox(stbl, ['stco']), 8);
+  const delay = readUint(findBox(bytes, ['moov', 'trak', 'edts', 'elst']), 12);
+
+  // IMDCT basis with the standard's 2 / N scale, and the sine window
+  const basis = new Float64Array(WINDOW_LENGTH * FRAME_LENGTH);
+  for (let n = 0; n < WINDOW_LENGTH; n++) {
+    for (let k = 0; k < FRAME_LENGTH; k++) {
+      basis[n * FRAME_LENGTH + k] =
+        (2 / WINDOW_LENGTH) *
+        Math.cos(((2 * Math.PI) / WINDOW_LENGTH) * (n + 0.5 + FRAME_LENGTH / 2) * (k + 0.5));
+    }
+  }
+  const window = Array.from({ length: WINDOW_LENGTH }, (_, n) => Math.sin((Math.PI / WINDOW_LENGTH) * (n + 0.5)));
+
+  const output = Array.from({ length: channelCount }, () => new Float32Array((frameCount + 1) * FRAME_LENGTH));
+  for (let frame = 0; frame < frameCount; frame++) {
+    const size = readUint(stsz, 12 + 4 * frame);
+    const reader = createBitReader(bytes.subarray(offset, offset + size));
+    offset += size;
+
+    reader.read(7);
+    if (channelCount === 2 && reader.read(1) !== 0) throw new Error('Common windows are not supported');
+    for (let c = 0; c < channelCount; c++) {
+      const spectrum = readChannel(reader, bandOffsets);
+      const samples = output[c];
+      for (let n = 0; n < WINDOW_LENGTH; n++) {
+        let sum = 0;
+        for (let k = 0; k < FRAME_LENGTH; k++) {
+          if (spectrum[k] !== 0) sum += spectrum[k] * basis[n * FRAME_LENGTH + k];
+        }
+        samples[frame * FRAME_LENGTH + n] += (sum * window[n]) / 32768;
+      }
+    }
+    if (reader.read(3) !== 7) throw new Error('Missing end of frame');
+  }
+
+  return {
+    sampleRate,
+    channels: output.map((samples) => samples.slice(delay, frameCount * FRAME_LENGTH))
+  };
+};
@@ -0,0 +1,44 @@
+// Helpers for building test audio in the headless scratch directory
+import * as FileSystem from 'expo-file-system';
+import { openAudioStream } from '../../utils/audioDecoder';
+import { bytesToBase64 } from '../../utils/base64';
+import { PCMAudio, WavBitDepth, encodeWav } from '../../utils/wav';
+
+// A sine tone on every channel
+export const createTone = (
+  frequency: number,
+  amplitude: number,
+  sampleRate: number,
+  seconds: number,
+  channelCount = 1
+): PCMAudio => {
+  const length = Math.round(seconds * sampleRate);
+  const samples = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    samples[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+  }
+  return {
+    sampleRate,
+    channels: Array.from({ length: channelCount }, () => samples.slice())
+  };
+};
+
+// Write audio as a WAV file in the cache directory and return its URI
+export const writeWavFile = async (name: string, audio: PCMAudio, bitDepth: WavBitDepth = 16) => {
+  await FileSystem.makeDirectoryAsync(FileSystem.cacheDirectory!, { intermediates: true });
+  const uri = `${FileSystem.cacheDirectory}${name}`;
+  await FileSystem.writeAsStringAsync(uri, bytesToBase64(encodeWav(audio, bitDepth)), {
+    encoding: FileSystem.EncodingType.Base64
+  });
+  return uri;
+};
+
+// Read a whole audio file, as the tests compare complete signals
+export const readAudioFile = async (uri: string): Promise<PCMAudio> => {
+  const stream = await openAudioStream(uri);
+  try {
+    return { sampleRate: stream.sampleRate, channels: await stream.read(0, stream.length) };
+  } finally {
+    await stream.close();
+  }
+};
@@ -0,0 +1,98 @@
+// Sample rate and channel layout conversion
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { AudioStream } from '../../utils/audioDecoder';
+import { convertAudio, convertStream, remixChannels, resample } from '../../utils/audioFormat';
+import { PCMAudio } from '../../utils/wav';
+import { createTone } from './audio';
+
+// Amplitude of a tone, from a least-squares fit of a sine and a cosine at its frequency
+const measureAmplitude = (samples: Float32Array, frequency: number, sampleRate: number) => {
+  let ss = 0;
+  let cc = 0;
+  let sc = 0;
+  let xs = 0;
+  let xc = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const sin = Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+    const cos = Math.cos((2 * Math.PI * frequency * i) / sampleRate);
+    ss += sin * sin;
+    cc += cos * cos;
+    sc += sin * cos;
+    xs += samples[i] * sin;
+    xc += samples[i] * cos;
+  }
+  const det = ss * cc - sc * sc;
+  return Math.hypot((xs * cc - xc * sc) / det, (xc * ss - xs * sc) / det);
+};
+
+const openMemoryStream = ({ sampleRate, channels }: PCMAudio): AudioStream => ({
+  sampleRate,
+  channelCount: channels.length,
+  length: channels[0].length,
+  read: async (start, count) => channels.map((samples) => samples.slice(start, start + count)),
+  close: async () => {}
+});
+
+test('resample keeps a tone in the passband at its level', () => {
+  for (const [from, to] of [[48000, 44100], [44100, 48000], [22050, 96000], [96000, 22050]]) {
+    const tone = createTone(1000, 0.5, from, 0.5);
+    const { sampleRate, channels } = resample(tone, to);
+    assert.equal(sampleRate, to);
+    assert.equal(channels[0].length, Math.round(0.5 * to));
+
+    // Away from the edges, where the filter runs into silence
+    const margin = Math.round(0.05 * to);
+    const amplitude = measureAmplitude(channels[0].subarray(margin, channels[0].length - margin), 1000, to);
+    assert.ok(Math.abs(amplitude - 0.5) < 0.005, `${from} -> ${to} Hz: amplitude ${amplitude}`);
+  }
+});
+
+test('resample removes what the lower rate cannot hold', () => {
+  // 23 kHz is above the Nyquist frequency of 44.1 kHz, so it would alias to 21.1 kHz
+  const { channels } = resample(createTone(23000, 0.5, 48000, 0.5), 44100);
+  const samples = channels[0].subarray(4410, channels[0].length - 4410);
+  const peak = samples.reduce((max, value) => Math.max(max, Math.abs(value)), 0);
+  assert.ok(peak < 0.5 * 0.001, `peak ${peak}`);
+});
+
+test('resample leaves audio at the target rate alone', () => {
+  const tone = createTone(440, 0.5, 44100, 0.1);
+  assert.equal(resample(tone, 44100), tone);
+});
+
+test('convertStream gives the same samples a window at a time as convertAudio does whole', async () => {
+  const tone = createTone(440, 0.5, 48000, 0.3, 2);
+  const whole = convertAudio(tone, { sampleRate: 44100, channelCount: 1 });
+  const stream = convertStream(openMemoryStream(tone), { sampleRate: 44100, channelCount: 1 });
+  assert.equal(stream.length, whole.channels[0].length);
+  assert.equal(stream.channelCount, 1);
+
+  const windowed = new Float32Array(stream.length);
+  for (let start = 0; start < stream.length; start += 1234) {
+    const [samples] = await stream.read(start, 1234);
+    windowed.set(samples, start);
+  }
+  for (let i = 0; i < windowed.length; i++) {
+    assert.ok(Math.abs(windowed[i] - whole.channels[0][i]) < 1e-6, `sample ${i}`);
+  }
+});
+
+test('remixChannels folds surround into stereo and averages down to mono', () => {
+  const constant = (value: number) => new Float32Array(4).fill(value);
+  // L, R, C, LFE, Ls, Rs
+  const surround = [constant(0.1), constant(0.2), constant(0.3), constant(1), constant(0.4), constant(0.5)];
+
+  const [left, right] = remixChannels(surround, 2);
+  assert.ok(Math.abs(left[0] - (0.1 + (0.3 + 0.4) * Math.SQRT1_2)) < 1e-6);
+  assert.ok(Math.abs(right[0] - (0.2 + (0.3 + 0.5) * Math.SQRT1_2)) < 1e-6);
+
+  const [mono] = remixChannels([constant(0.2), constant(0.4)], 1);
+  assert.ok(Math.abs(mono[0] - 0.3) < 1e-6);
+
+  // Mono goes to both sides of a stereo pair, and wider layouts stay silent beyond it
+  const up = remixChannels([constant(0.5)], 4);
+  assert.deepEqual(up.map((samples) => samples[0]), [0.5, 0.5, 0, 0]);
+
+  assert.throws(() => remixChannels([constant(0.5), constant(0.5)], 0), /Invalid channel count/);
+});
@@ -0,0 +1,68 @@
+// The separation pipeline, run end to end with the deterministic fake engine
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { processingAudio } from '../../utils/audioProcessing';
+import { createFakeEngine } from '../../utils/fakeSeparationEngine';
+import { ProgressUpdate } from '../../utils/progress';
+import { STEM_SETS } from '../../utils/separation';
+import { registerEngine, unregisterEngine } from '../../utils/separationEngine';
+import { createTone, readAudioFile, writeWavFile } from './audio';
+
+const engine = createFakeEngine();
+const input = createTone(440, 0.8, 44100, 2, 2);
+let inputUri = '';
+
+before(async () => {
+  registerEngine(engine);
+  inputUri = await writeWavFile('engine-input.wav', input);
+});
+
+after(() => {
+  unregisterEngine(engine.id);
+});
+
+test('processingAudio returns every stem of the fake engine', async () => {
+  const updates: ProgressUpdate[] = [];
+  const result = await processingAudio(inputUri, {
+    engineId: engine.id,
+    mode: 'four-stem',
+    useCache: false,
+    onProgress: (update) => updates.push(update)
+  });
+
+  assert.equal(result.success, true, result.error ?? 'separation failed');
+  assert.deepEqual(result.stems?.map(({ name }) => name).sort(), [...STEM_SETS['four-stem']].sort());
+
+  // Each stem is the input split evenly, within 16-bit rounding
+  for (const { uri } of result.stems!) {
+    const stem = await readAudioFile(uri);
+    assert.equal(stem.sampleRate, input.sampleRate);
+    assert.equal(stem.channels.length, input.channels.length);
+    stem.channels.forEach((samples, c) => {
+      assert.equal(samples.length, input.channels[c].length);
+      for (let i = 0; i < samples.length; i++) {
+        assert.ok(Math.abs(samples[i] - input.channels[c][i] / 4) < 1e-4, `sample ${i} of channel ${c}`);
+      }
+    });
+  }
+
+  // Progress only moves forward and finishes at 1
+  assert.ok(updates.some(({ stage }) => stage === 'separate'));
+  updates.forEach((update, i) => {
+    assert.ok(update.progress >= (updates[i - 1]?.progress ?? 0), `update ${i} went backwards`);
+  });
+  assert.equal(updates[updates.length - 1].progress, 1);
+});
+
+test('processingAudio reports a cancelled run', async () => {
+  const controller = new AbortController();
+  controller.abort();
+  const result = await processingAudio(inputUri, {
+    engineId: engine.id,
+    useCache: false,
+    signal: controller.signal
+  });
+
+  assert.equal(result.success, false);
+  assert.equal(result.cancelled, true);
+});
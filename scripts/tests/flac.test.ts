@@ -0,0 +1,115 @@
+// Encoding FLAC and decoding it again
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { FlacBitDepth, createFlacEncoder, encodeFlac } from '../../utils/flac';
+import { PCMAudio, toIntegerSample } from '../../utils/wav';
+import { decodeFlac } from './flacDecoder';
+
+// Seeded noise, so a failure can be reproduced
+const createNoise = (length: number, amplitude: number, seed: number) => {
+  let state = seed;
+  return Float32Array.from({ length }, () => {
+    state = (state * 1103515245 + 12345) % 0x80000000;
+    return amplitude * (2 * (state / 0x80000000) - 1);
+  });
+};
+
+const createSine = (length: number, frequency: number, amplitude: number, sampleRate: number) =>
+  Float32Array.from({ length }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+
+const mix = (a: Float32Array, b: Float32Array) => a.map((value, i) => value + b[i]);
+
+// FLAC is lossless: every sample comes back as the integer it was quantized to
+const assertLossless = (audio: PCMAudio, bitDepth: FlacBitDepth) => {
+  const decoded = decodeFlac(encodeFlac(audio, bitDepth));
+  assert.equal(decoded.sampleRate, audio.sampleRate);
+  assert.equal(decoded.bitDepth, bitDepth);
+  assert.equal(decoded.length, audio.channels[0].length);
+  assert.equal(decoded.channels.length, audio.channels.length);
+  audio.channels.forEach((samples, c) => {
+    const expected = Int32Array.from(samples, (value) => toIntegerSample(value, bitDepth));
+    assert.deepEqual(decoded.channels[c], expected, `channel ${c}`);
+  });
+  return decoded;
+};
+
+// Several blocks and a short last one
+const LENGTH = 4096 * 3 + 1001;
+
+for (const bitDepth of [16, 24] as FlacBitDepth[]) {
+  test(`encodeFlac round trips mono at ${bitDepth} bits`, () => {
+    const samples = mix(createSine(LENGTH, 440, 0.5, 44100), createNoise(LENGTH, 0.1, 1));
+    assertLossless({ sampleRate: 44100, channels: [samples] }, bitDepth);
+  });
+
+  test(`encodeFlac round trips stereo at ${bitDepth} bits coded independently and decorrelated`, () => {
+    const sine = createSine(LENGTH, 220, 0.6, 48000);
+    const noise = createNoise(LENGTH, 0.3, 2);
+    const near = createNoise(LENGTH, 0.01, 3);
+    const audio = {
+      sampleRate: 48000,
+      // Unrelated channels, then channels that differ a little, then opposite ones
+      channels: [
+        Float32Array.of(...noise.subarray(0, 4096), ...sine.subarray(4096, 8192), ...sine.subarray(8192)),
+        Float32Array.of(
+          ...createNoise(4096, 0.01, 4),
+          ...mix(sine, near).subarray(4096, 8192),
+          ...sine.subarray(8192).map((value) => -value)
+        )
+      ]
+    };
+    const { assignments } = assertLossless(audio, bitDepth);
+    assert.equal(assignments[0], 1, 'unrelated channels are coded independently');
+    assert.ok(assignments.some((assignment) => assignment >= 8), 'related channels are decorrelated');
+  });
+
+  test(`encodeFlac round trips full scale and clipped samples at ${bitDepth} bits`, () => {
+    // Side channels of opposite full scale samples need the extra bit
+    const edges = Float32Array.from({ length: 5000 }, (_, i) => [1, -1, 1.5, -1.5, 0][i % 5]);
+    assertLossless({ sampleRate: 44100, channels: [edges, edges.map((value) => -value)] }, bitDepth);
+  });
+}
+
+test('encodeFlac round trips more than two channels', () => {
+  const channels = Array.from({ length: 6 }, (_, c) => createNoise(LENGTH, 0.2 + c * 0.1, c + 10));
+  const { assignments } = assertLossless({ sampleRate: 96000, channels }, 16);
+  assert.ok(assignments.every((assignment) => assignment === 5));
+});
+
+test('encodeFlac codes silence and other constant blocks', () => {
+  const silence = new Float32Array(LENGTH);
+  const bytes = encodeFlac({ sampleRate: 44100, channels: [silence, silence.map(() => 0.25)] });
+  // A few bytes per frame instead of two bytes per sample
+  assert.ok(bytes.length < 200, `${bytes.length} bytes`);
+  assertLossless({ sampleRate: 44100, channels: [silence, silence.map(() => 0.25)] }, 16);
+});
+
+test('encodeFlac writes sample rates without a header code', () => {
+  for (const sampleRate of [11025, 12000, 64000, 100000]) {
+    assertLossless({ sampleRate, channels: [createSine(5000, 300, 0.5, sampleRate)] }, 16);
+  }
+});
+
+test('encodeFlac handles streams shorter than a block and empty ones', () => {
+  assertLossless({ sampleRate: 44100, channels: [createNoise(17, 0.5, 5)] }, 16);
+  const empty = decodeFlac(encodeFlac({ sampleRate: 44100, channels: [new Float32Array(0)] }));
+  assert.equal(empty.length, 0);
+});
+
+test('createFlacEncoder fed window by window writes the same file as encodeFlac', () => {
+  const channels = [createNoise(LENGTH, 0.4, 6), createSine(LENGTH, 1000, 0.4, 44100)];
+  const expected = encodeFlac({ sampleRate: 44100, channels }, 24);
+
+  const encoder = createFlacEncoder(44100, 2, LENGTH, 24);
+  const parts = [encoder.header];
+  for (let start = 0; start < LENGTH; start += 1000) {
+    parts.push(encoder.write(channels.map((samples) => samples.subarray(start, start + 1000))));
+  }
+  parts.push(encoder.finish());
+  assert.deepEqual(Buffer.concat(parts), Buffer.from(expected));
+});
+
+test('createFlacEncoder rejects unsupported channel counts', () => {
+  assert.throws(() => createFlacEncoder(44100, 0, 100), /1 to 8 channels/);
+  assert.throws(() => createFlacEncoder(44100, 9, 100), /1 to 8 channels/);
+});
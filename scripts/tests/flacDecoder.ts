@@ -0,0 +1,217 @@
+// Minimal FLAC decoder for the subset utils/flac.ts writes: constant, verbatim and fixed
+// subframes, partitioned Rice residuals and every stereo decorrelation. No LPC
+// subframes or wasted bits. Checks both frame CRCs, so a damaged frame fails loudly.
+
+// Interface for a decoded FLAC file, as integer samples
+export interface FlacAudio {
+  sampleRate: number;
+  bitDepth: number;
+  // Total sample count from STREAMINFO
+  length: number;
+  channels: Int32Array[];
+  // Channel assignment of every frame
+  assignments: number[];
+}
+
+const LEFT_SIDE = 8;
+const RIGHT_SIDE = 9;
+const MID_SIDE = 10;
+
+// Sample rates and sizes behind the frame header codes
+const SAMPLE_RATES: Record<number, number> = {
+  1: 88200,
+  2: 176400,
+  3: 192000,
+  4: 8000,
+  5: 16000,
+  6: 22050,
+  7: 24000,
+  8: 32000,
+  9: 44100,
+  10: 48000,
+  11: 96000
+};
+const SAMPLE_SIZES: Record<number, number> = { 4: 16, 6: 24 };
+
+const createBitReader = (bytes: Uint8Array, start = 0) => {
+  let position = start * 8;
+  const read = (count: number) => {
+    let value = 0;
+    for (let i = 0; i < count; i++, position++) {
+      value = value * 2 + ((bytes[position >> 3] >> (7 - (position & 7))) & 1);
+    }
+    return value;
+  };
+  const readSigned = (count: number) => {
+    const value = read(count);
+    return value >= Math.pow(2, count - 1) ? value - Math.pow(2, count) : value;
+  };
+  const readUnary = () => {
+    let count = 0;
+    while (read(1) === 0) count++;
+    return count;
+  };
+  const alignToByte = () => {
+    position = Math.ceil(position / 8) * 8;
+  };
+  return { read, readSigned, readUnary, alignToByte, getOffset: () => position >> 3 };
+};
+
+type BitReader = ReturnType<typeof createBitReader>;
+
+const crc8 = (bytes: Uint8Array) => {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+  }
+  return crc;
+};
+
+const crc16 = (bytes: Uint8Array) => {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+  }
+  return crc;
+};
+
+// Fixed predictor coefficients by order
+const FIXED_COEFFICIENTS = [[], [1], [2, -1], [3, -3, 1], [4, -6, 4, -1]];
+
+const readSubframe = (reader: BitReader, blockSize: number, bitDepth: number): Int32Array => {
+  reader.read(1);
+  const type = reader.read(6);
+  if (reader.read(1) !== 0) throw new Error('Wasted bits are not supported');
+
+  const samples = new Int32Array(blockSize);
+  if (type === 0) {
+    samples.fill(reader.readSigned(bitDepth));
+    return samples;
+  }
+  if (type === 1) {
+    for (let i = 0; i < blockSize; i++) samples[i] = reader.readSigned(bitDepth);
+    return samples;
+  }
+  if (type < 8 || type > 12) throw new Error(`Unsupported subframe type ${type}`);
+
+  const order = type - 8;
+  for (let i = 0; i < order; i++) samples[i] = reader.readSigned(bitDepth);
+
+  const method = reader.read(2);
+  if (method > 1) throw new Error(`Unknown residual coding method ${method}`);
+  const parameterBits = method === 0 ? 4 : 5;
+  const partitionOrder = reader.read(4);
+  const size = blockSize >> partitionOrder;
+  const residual = new Int32Array(blockSize);
+  for (let p = 0; p < 1 << partitionOrder; p++) {
+    const parameter = reader.read(parameterBits);
+    if (parameter === (1 << parameterBits) - 1) throw new Error('Escaped partitions are not supported');
+    for (let i = Math.max(p * size, order); i < (p + 1) * size; i++) {
+      const value = reader.readUnary() * Math.pow(2, parameter) + reader.read(parameter);
+      residual[i] = value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+    }
+  }
+
+  const coefficients = FIXED_COEFFICIENTS[order];
+  for (let i = order; i < blockSize; i++) {
+    let prediction = 0;
+    coefficients.forEach((coefficient, j) => {
+      prediction += coefficient * samples[i - 1 - j];
+    });
+    samples[i] = prediction + residual[i];
+  }
+  return samples;
+};
+
+// Frame numbers are coded like UTF-8 characters
+const readUtf8Number = (reader: BitReader) => {
+  const first = reader.read(8);
+  if (first < 0x80) return first;
+  let continuation = 0;
+  while (first & (0x40 >> continuation)) continuation++;
+  let value = first & (0x3f >> continuation);
+  for (let i = 0; i < continuation; i++) value = value * 64 + (reader.read(8) & 0x3f);
+  return value;
+};
+
+// Decode a FLAC file written by encodeFlac
+export const decodeFlac = (bytes: Uint8Array): FlacAudio => {
+  if (String.fromCharCode(...bytes.subarray(0, 4)) !== 'fLaC') throw new Error('Not a FLAC file');
+  const header = createBitReader(bytes, 4);
+  let last = header.read(1) === 1;
+  if (header.read(7) !== 0) throw new Error('Expected STREAMINFO first');
+  const blockLength = header.read(24);
+  header.read(16 + 16 + 24 + 24);
+  const sampleRate = header.read(20);
+  const channelCount = header.read(3) + 1;
+  const bitDepth = header.read(5) + 1;
+  const length = header.read(36);
+
+  const output = Array.from({ length: channelCount }, () => new Int32Array(length));
+  // Other metadata blocks, such as tags, are skipped
+  let offset = 8 + blockLength;
+  while (!last) {
+    const block = createBitReader(bytes, offset);
+    last = block.read(1) === 1;
+    block.read(7);
+    offset += 4 + block.read(24);
+  }
+  const assignments: number[] = [];
+  let written = 0;
+  for (let frameNumber = 0; offset < bytes.length; frameNumber++) {
+    const reader = createBitReader(bytes, offset);
+    if (reader.read(16) !== 0xfff8) throw new Error(`Frame ${frameNumber}: no sync code`);
+    const sizeCode = reader.read(4);
+    const rateCode = reader.read(4);
+    const assignment = reader.read(4);
+    const depth = SAMPLE_SIZES[reader.read(3)];
+    reader.read(1);
+    if (readUtf8Number(reader) !== frameNumber) throw new Error(`Frame ${frameNumber}: wrong frame number`);
+    const blockSize = sizeCode === 7 ? reader.read(16) + 1 : sizeCode === 12 ? 4096 : 0;
+    let rate = SAMPLE_RATES[rateCode];
+    if (rateCode === 13) rate = reader.read(16);
+    if (rateCode === 14) rate = reader.read(16) * 10;
+    if (rateCode === 0) rate = sampleRate;
+    if (!blockSize || rate !== sampleRate || depth !== bitDepth) throw new Error(`Frame ${frameNumber}: bad header`);
+    assignments.push(assignment);
+    const headerEnd = reader.getOffset();
+    if (reader.read(8) !== crc8(bytes.subarray(offset, headerEnd))) throw new Error(`Frame ${frameNumber}: bad CRC-8`);
+
+    // Side channels carry one more bit
+    const depths = Array.from({ length: channelCount }, (_, c) =>
+      (assignment === LEFT_SIDE && c === 1) ||
+      (assignment === RIGHT_SIDE && c === 0) ||
+      (assignment === MID_SIDE && c === 1)
+        ? bitDepth + 1
+        : bitDepth
+    );
+    const subframes = depths.map((subframeDepth) => readSubframe(reader, blockSize, subframeDepth));
+
+    if (assignment >= LEFT_SIDE) {
+      const [a, b] = subframes;
+      for (let i = 0; i < blockSize; i++) {
+        if (assignment === LEFT_SIDE) {
+          b[i] = a[i] - b[i];
+        } else if (assignment === RIGHT_SIDE) {
+          a[i] = a[i] + b[i];
+        } else {
+          const mid = a[i] * 2 + (b[i] & 1);
+          a[i] = (mid + b[i]) >> 1;
+          b[i] = (mid - b[i]) >> 1;
+        }
+      }
+    }
+
+    reader.alignToByte();
+    const frameEnd = reader.getOffset();
+    if (reader.read(16) !== crc16(bytes.subarray(offset, frameEnd))) throw new Error(`Frame ${frameNumber}: bad CRC-16`);
+    subframes.forEach((samples, c) => output[c].set(samples.subarray(0, length - written), written));
+    written += blockSize;
+    offset = frameEnd + 2;
+  }
+
+  if (written !== length) throw new Error(`Decoded ${written} samples, STREAMINFO says ${length}`);
+  return { sampleRate, bitDepth, length, channels: output, assignments };
+};
@@ -0,0 +1,122 @@
+// Undo/redo history and how the session coalesces gestures into steps
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { EMPTY_HISTORY, EditCommand, EditHistory, recordCommand, redoStep, undoStep } from '../../utils/history';
+import { getProject } from '../../utils/projects';
+import {
+  beginGesture,
+  closeSession,
+  endGesture,
+  flushSession,
+  getSession,
+  redo,
+  setVolume,
+  startSession,
+  undo
+} from '../../utils/session';
+import { createTone, writeWavFile } from './audio';
+
+const volume = (from: number, to: number): EditCommand => ({ type: 'volume', stem: 'vocals', from, to });
+
+// Record commands one after another, each extending the last step when asked to
+const recordAll = (commands: EditCommand[], extend = false) =>
+  commands.reduce<EditHistory>((history, command) => {
+    const last = history.past[history.past.length - 1];
+    return recordCommand(history, command, extend ? last : null)[0];
+  }, EMPTY_HISTORY);
+
+test('recordCommand adds steps and clears the ones to redo', () => {
+  const history = recordAll([volume(1, 0.5), volume(0.5, 0.2)]);
+  assert.deepEqual(history.past, [volume(1, 0.5), volume(0.5, 0.2)]);
+
+  const [undone] = undoStep(history);
+  assert.equal(undone.future.length, 1);
+  const [recorded, step] = recordCommand(undone, volume(0.5, 0.8));
+  assert.deepEqual(step, volume(0.5, 0.8));
+  assert.deepEqual(recorded, { past: [volume(1, 0.5), volume(0.5, 0.8)], future: [] });
+});
+
+test('recordCommand skips commands that change nothing', () => {
+  const [history, step] = recordCommand(EMPTY_HISTORY, volume(0.5, 0.5));
+  assert.equal(step, null);
+  assert.equal(history, EMPTY_HISTORY);
+
+  const settings = { engineId: 'fake', mode: 'two-stem' as const, quality: 'fast' as const };
+  assert.equal(recordCommand(EMPTY_HISTORY, { type: 'settings', from: settings, to: { ...settings } })[1], null);
+});
+
+test('recordCommand extends the last step from where it started', () => {
+  const history = recordAll([volume(1, 0.9), volume(0.9, 0.7), volume(0.7, 0.4)], true);
+  assert.deepEqual(history.past, [volume(1, 0.4)]);
+
+  // A drag back to its start leaves nothing to undo
+  const [back, step] = recordCommand(history, volume(0.4, 1), history.past[0]);
+  assert.equal(step, null);
+  assert.deepEqual(back, EMPTY_HISTORY);
+});
+
+test('recordCommand only extends the most recent step of the same kind', () => {
+  const first = volume(1, 0.5);
+  const [history] = recordCommand(recordCommand(EMPTY_HISTORY, first)[0], volume(0.5, 0.3));
+  // first is no longer the last step, so this is a step of its own
+  assert.equal(recordCommand(history, volume(0.3, 0.1), first)[0].past.length, 3);
+
+  // A settings change never extends a volume step
+  const settings = { engineId: 'fake', mode: 'two-stem' as const, quality: 'fast' as const };
+  const change: EditCommand = { type: 'settings', from: settings, to: { ...settings, quality: 'high' } };
+  assert.equal(recordCommand(history, change, history.past[1])[0].past.length, 3);
+});
+
+test('recordCommand keeps the last 100 steps', () => {
+  const commands = Array.from({ length: 120 }, (_, i) => volume(i, i + 1));
+  const { past } = recordAll(commands);
+  assert.equal(past.length, 100);
+  assert.deepEqual(past[0], volume(20, 21));
+});
+
+test('undoStep and redoStep move steps between the two stacks', () => {
+  const history = recordAll([volume(1, 0.5), volume(0.5, 0.2)]);
+  const [undone, undoCommand] = undoStep(history);
+  assert.deepEqual(undoCommand, volume(0.5, 0.2));
+  const [redone, redoCommand] = redoStep(undone);
+  assert.deepEqual(redoCommand, volume(0.5, 0.2));
+  assert.deepEqual(redone, history);
+
+  assert.deepEqual(undoStep(EMPTY_HISTORY), [EMPTY_HISTORY, null]);
+  assert.deepEqual(redoStep(history), [history, null]);
+});
+
+test('the session makes one step of a slider drag and saves the history with the project', async () => {
+  const uri = await writeWavFile('history-source.wav', createTone(440, 0.1, 8000, 0.05));
+  await startSession(uri, 'history.wav');
+
+  beginGesture();
+  for (const value of [0.9, 0.6, 0.3]) setVolume('vocals', value);
+  endGesture();
+  setVolume('vocals', 0.5);
+  assert.deepEqual(getSession().history.past, [volume(1, 0.3), volume(0.3, 0.5)]);
+
+  undo();
+  assert.equal(getSession().volumes.vocals, 0.3);
+  undo();
+  assert.equal(getSession().volumes.vocals, 1);
+  redo();
+  assert.equal(getSession().volumes.vocals, 0.3);
+
+  // A drag after an undo starts a new step and drops the one to redo
+  beginGesture();
+  setVolume('vocals', 0.2);
+  setVolume('vocals', 0.1);
+  assert.deepEqual(getSession().history, { past: [volume(1, 0.3), volume(0.3, 0.1)], future: [] });
+  // Undo ends the gesture, so later changes are steps of their own
+  undo();
+  setVolume('vocals', 0.7);
+  setVolume('vocals', 0.6);
+  assert.deepEqual(getSession().history.past, [volume(1, 0.3), volume(0.3, 0.7), volume(0.7, 0.6)]);
+
+  await flushSession();
+  const project = await getProject(getSession().projectId!);
+  assert.deepEqual(project?.history, getSession().history);
+  assert.deepEqual(project?.volumes, { vocals: 0.6 });
+  await closeSession();
+});
@@ -0,0 +1,31 @@
+// Headless tests for the processing modules, run with node:test by `npm test`.
+// Built by esbuild with react-native, expo-file-system and expo-modules-core replaced by
+// scripts/headless/, as scripts/evaluate-separation.ts is.
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { after } from 'node:test';
+import * as FileSystem from 'expo-file-system';
+import './aac.test';
+import './audioFormat.test';
+import './engine.test';
+import './flac.test';
+import './history.test';
+import './loudness.test';
+import './merge.test';
+import './mixdown.test';
+import './mp3.test';
+import './peaks.test';
+import './projects.test';
+import './resultCache.test';
+import './sha256.test';
+import './stft.test';
+import './tags.test';
+import './wav.test';
+import './zip.test';
+
+// Remove the headless scratch directory
+after(async () => {
+  if (FileSystem.cacheDirectory) {
+    await fs.rm(dirname(new URL(FileSystem.cacheDirectory).pathname), { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,85 @@
+// BS.1770 loudness, checked against the EBU Tech 3341 and 3342 test signals
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createLoudnessMeter, measureLoudness } from '../../utils/loudness';
+import { PCMAudio } from '../../utils/wav';
+
+// Stereo 1 kHz sine, in sections of [level in dBFS, seconds]
+const createSections = (sections: [number, number][], sampleRate = 48000): PCMAudio => {
+  const length = sections.reduce((sum, [, seconds]) => sum + Math.round(seconds * sampleRate), 0);
+  const samples = new Float32Array(length);
+  let offset = 0;
+  for (const [level, seconds] of sections) {
+    const amplitude = Math.pow(10, level / 20);
+    const end = offset + Math.round(seconds * sampleRate);
+    for (let i = offset; i < end; i++) {
+      samples[i] = amplitude * Math.sin((2 * Math.PI * 1000 * i) / sampleRate);
+    }
+    offset = end;
+  }
+  return { sampleRate, channels: [samples, samples.slice()] };
+};
+
+test('a -23 dBFS stereo sine measures -23 LUFS at any sample rate', () => {
+  for (const sampleRate of [44100, 48000, 96000]) {
+    const { integratedLufs, shortTermMaxLufs } = measureLoudness(createSections([[-23, 20]], sampleRate));
+    assert.ok(Math.abs(integratedLufs - -23) < 0.1, `${sampleRate} Hz: ${integratedLufs} LUFS`);
+    assert.ok(Math.abs(shortTermMaxLufs - -23) < 0.1, `${sampleRate} Hz: short-term ${shortTermMaxLufs} LUFS`);
+  }
+});
+
+test('the relative gate leaves quiet passages out of the integrated loudness', () => {
+  // Tech 3341 case 3
+  const { integratedLufs } = measureLoudness(createSections([[-36, 10], [-23, 60], [-36, 10]]));
+  assert.ok(Math.abs(integratedLufs - -23) < 0.1, `${integratedLufs} LUFS`);
+});
+
+test('loudness range spans the quiet and loud passages', () => {
+  // Tech 3342 cases 1 and 2
+  const cases: [[number, number][], number][] = [
+    [[[-20, 20], [-30, 20]], 10],
+    [[[-20, 20], [-15, 20]], 5]
+  ];
+  for (const [sections, expected] of cases) {
+    const { loudnessRangeLu } = measureLoudness(createSections(sections));
+    assert.ok(Math.abs(loudnessRangeLu - expected) < 1, `${loudnessRangeLu} LU, expected ${expected}`);
+  }
+  assert.ok(measureLoudness(createSections([[-20, 20]])).loudnessRangeLu < 0.1);
+});
+
+test('surround channels count more and the LFE not at all', () => {
+  const audio = createSections([[-23, 5]]);
+  const [tone] = audio.channels;
+  const silent = new Float32Array(tone.length);
+  const layout = (channel: number) => ({
+    sampleRate: audio.sampleRate,
+    channels: Array.from({ length: 6 }, (_, c) => (c === channel ? tone : silent))
+  });
+
+  const front = measureLoudness(layout(0)).integratedLufs;
+  assert.ok(Math.abs(measureLoudness(layout(4)).integratedLufs - front - 10 * Math.log10(1.41)) < 0.01);
+  assert.equal(measureLoudness(layout(3)).integratedLufs, -Infinity);
+});
+
+test('gain shifts the loudness and silence measures as -Infinity', () => {
+  const audio = createSections([[-23, 5]]);
+  const loud = measureLoudness(audio).integratedLufs;
+  assert.ok(Math.abs(measureLoudness(audio, 0.5).integratedLufs - (loud - 20 * Math.log10(2))) < 1e-6);
+
+  const silence = measureLoudness({ sampleRate: 48000, channels: [new Float32Array(48000)] });
+  assert.deepEqual(silence, { integratedLufs: -Infinity, shortTermMaxLufs: -Infinity, loudnessRangeLu: 0 });
+});
+
+test('a meter fed a window at a time agrees with one fed the whole signal', () => {
+  const audio = createSections([[-30, 4], [-18, 3], [-40, 3]], 44100);
+  const meter = createLoudnessMeter(audio.sampleRate, 2);
+  // A window size that does not line up with the 100 ms steps
+  for (let start = 0; start < audio.channels[0].length; start += 3001) {
+    meter.add(audio.channels.map((samples) => samples.subarray(start, start + 3001)));
+  }
+  const windowed = meter.finish();
+  const whole = measureLoudness(audio);
+  assert.ok(Math.abs(windowed.integratedLufs - whole.integratedLufs) < 1e-9);
+  assert.ok(Math.abs(windowed.shortTermMaxLufs - whole.shortTermMaxLufs) < 1e-9);
+  assert.ok(Math.abs(windowed.loudnessRangeLu - whole.loudnessRangeLu) < 1e-9);
+});
@@ -0,0 +1,93 @@
+// Merging stems read from disk into one file
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import * as FileSystem from 'expo-file-system';
+import { exportStems, mergeAudioTracks } from '../../utils/audioProcessing';
+import { base64ToBytes } from '../../utils/base64';
+import { measureLoudness } from '../../utils/loudness';
+import { decodeAac } from './aacDecoder';
+import { createTone, readAudioFile, writeWavFile } from './audio';
+
+test('mergeAudioTracks converts every track to the output format as it reads it', async () => {
+  const mono = await writeWavFile('merge-mono.wav', createTone(440, 0.25, 48000, 3));
+  const stereo = await writeWavFile('merge-stereo.wav', createTone(440, 0.25, 48000, 3, 2));
+
+  const result = await mergeAudioTracks(
+    [
+      { uri: mono, volume: 1 },
+      { uri: stereo, volume: 0.5 }
+    ],
+    { sampleRate: 44100 }
+  );
+  assert.equal(result.success, true, result.error ?? 'merge failed');
+
+  const mix = await readAudioFile(result.outputUri!);
+  assert.equal(mix.sampleRate, 44100);
+  assert.equal(mix.channels.length, 2);
+  assert.equal(mix.channels[0].length, 3 * 44100);
+
+  // The tones are in phase, so the mix peaks at 0.25 + 0.125 away from the resampler's edges
+  for (const samples of mix.channels) {
+    let peak = 0;
+    for (let i = 4410; i < samples.length - 4410; i++) {
+      peak = Math.max(peak, Math.abs(samples[i]));
+    }
+    assert.ok(Math.abs(peak - 0.375) < 0.005, `peak ${peak}`);
+  }
+});
+
+test('mergeAudioTracks measures the mix first and renders it at the loudness target', async () => {
+  const track = await writeWavFile('merge-loud.wav', createTone(1000, 0.05, 48000, 5));
+
+  const result = await mergeAudioTracks([{ uri: track, volume: 1 }], { loudnessTarget: -16 });
+  assert.equal(result.success, true, result.error ?? 'merge failed');
+  assert.ok(Math.abs(result.measurements!.mix.integratedLufs - -16) < 0.1);
+
+  const mix = await readAudioFile(result.outputUri!);
+  assert.equal(mix.channels[0].length, 5 * 48000);
+  assert.ok(Math.abs(measureLoudness(mix).integratedLufs - -16) < 0.1);
+});
+
+test('mergeAudioTracks writes the AAC header, which needs the frame sizes, ahead of the frames', async () => {
+  // Longer than one render window, so the frames span several writes
+  const track = await writeWavFile('merge-aac.wav', createTone(440, 0.25, 44100, 2));
+
+  const result = await mergeAudioTracks([{ uri: track, volume: 1 }], { encoder: { format: 'aac' } });
+  assert.equal(result.success, true, result.error ?? 'merge failed');
+
+  const bytes = base64ToBytes(
+    await FileSystem.readAsStringAsync(result.outputUri!, { encoding: FileSystem.EncodingType.Base64 })
+  );
+  const mix = decodeAac(bytes);
+  assert.equal(mix.sampleRate, 44100);
+  assert.ok(mix.channels[0].length >= 2 * 44100);
+
+  let peak = 0;
+  for (let i = 4410; i < 2 * 44100 - 4410; i++) {
+    peak = Math.max(peak, Math.abs(mix.channels[0][i]));
+  }
+  assert.ok(Math.abs(peak - 0.25) < 0.02, `peak ${peak}`);
+});
+
+test('exportStems measures every stem file, bundled or not', async () => {
+  const vocals = createTone(440, 0.5, 48000, 4);
+  const drums = createTone(880, 0.1, 48000, 4);
+  const stems = [
+    { uri: await writeWavFile('stems-vocals.wav', vocals), volume: 1, name: 'vocals' as const },
+    { uri: await writeWavFile('stems-drums.wav', drums), volume: 0.5, name: 'drums' as const }
+  ];
+
+  for (const bundle of [false, true]) {
+    const result = await exportStems(stems, { bundle });
+    assert.equal(result.success, true, result.error ?? 'export failed');
+    const measured = result.stemMeasurements!;
+    assert.equal(measured.length, 2);
+    // Without applyGain the stems are written as separated
+    [vocals, drums].forEach((audio, i) => {
+      assert.ok(Math.abs(measured[i].integratedLufs - measureLoudness(audio).integratedLufs) < 0.1);
+      assert.ok(Number.isFinite(measured[i].loudnessRangeLu));
+    });
+    assert.ok(Math.abs(measured[0].truePeakDb - 20 * Math.log10(0.5)) < 0.1);
+    assert.ok(Math.abs(measured[1].truePeakDb - 20 * Math.log10(0.1)) < 0.1);
+  }
+});
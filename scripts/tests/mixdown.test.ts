@@ -0,0 +1,119 @@
+// True-peak measurement and the limited mixdown
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import {
+  createMixAnalyzer,
+  createMixRenderer,
+  gainToDb,
+  measureTruePeak,
+  mixTracks
+} from '../../utils/mixdown';
+import { createTone } from './audio';
+
+const maxError = (a: Float32Array, b: Float32Array) => {
+  let error = 0;
+  for (let i = 0; i < a.length; i++) {
+    error = Math.max(error, Math.abs(a[i] - b[i]));
+  }
+  return error;
+};
+
+test('measureTruePeak finds peaks between samples', () => {
+  // A quarter of the sample rate at 45 degrees only ever samples 0.707 of its peak
+  const samples = Float32Array.from({ length: 4800 }, (_, i) => Math.sin((Math.PI * i) / 2 + Math.PI / 4));
+  const audio = { sampleRate: 48000, channels: [samples] };
+  assert.ok(Math.abs(gainToDb(Math.max(...samples))) > 2.9);
+  assert.ok(Math.abs(measureTruePeak(audio)) < 0.3, `true peak ${measureTruePeak(audio)} dBTP`);
+
+  assert.equal(measureTruePeak({ sampleRate: 48000, channels: [new Float32Array(100)] }), -Infinity);
+});
+
+test('mixTracks leaves a mix below the ceiling untouched', () => {
+  const a = createTone(440, 0.2, 44100, 1);
+  const b = createTone(660, 0.2, 44100, 1, 2);
+  const result = mixTracks([
+    { audio: a, gain: 1 },
+    { audio: b, gain: 0.5 }
+  ]);
+
+  // The limiter never engaged
+  assert.ok(result.maxGainReductionDb === 0);
+  // The mono track is spread to both channels of the stereo one
+  assert.equal(result.audio.channels.length, 2);
+  result.audio.channels.forEach((samples, c) => {
+    const expected = a.channels[0].map((value, i) => value + 0.5 * b.channels[c][i]);
+    assert.equal(samples.length, expected.length);
+    assert.ok(maxError(samples, expected) < 1e-6);
+  });
+});
+
+test('mixTracks limits a loud mix to the ceiling', () => {
+  const loud = createTone(997, 0.9, 48000, 1, 2);
+  const result = mixTracks(
+    [
+      { audio: loud, gain: 1 },
+      { audio: loud, gain: 1 }
+    ],
+    { ceilingDb: -1 }
+  );
+
+  assert.ok(result.inputPeakDb > 4);
+  assert.ok(result.maxGainReductionDb > 5);
+  // Measured again independently of the limiter's own figures
+  const peak = measureTruePeak(result.audio);
+  assert.ok(peak <= -1 + 0.05, `output peak ${peak} dBTP`);
+  assert.ok(Math.abs(result.outputPeakDb - peak) < 0.05);
+  assert.equal(result.audio.channels[0].length, loud.channels[0].length);
+});
+
+test('mixTracks normalizes to a loudness target', () => {
+  const result = mixTracks([{ audio: createTone(1000, 0.1, 48000, 4), gain: 1 }], { loudnessTarget: -20 });
+  assert.ok(Math.abs(result.output.integratedLufs - -20) < 0.05);
+  assert.ok(Math.abs(result.normalizationGainDb - (-20 - result.inputs[0].integratedLufs)) < 1e-9);
+});
+
+test('a mix rendered a window at a time matches the whole-buffer mix', () => {
+  const tracks = [createTone(440, 0.8, 44100, 1, 2), createTone(523, 0.8, 44100, 0.7)];
+  const formats = tracks.map((audio) => ({ channelCount: audio.channels.length, gain: 1 }));
+  const whole = mixTracks(tracks.map((audio) => ({ audio, gain: 1 })), { loudnessTarget: -10 });
+
+  // Windows of an awkward size, so the limiter's lookahead spans them
+  const windowSize = 1000;
+  const length = tracks[0].channels[0].length;
+  const windowsAt = (start: number) =>
+    tracks.map(({ channels }) => channels.map((samples) => samples.slice(start, start + windowSize)));
+
+  const analyzer = createMixAnalyzer(44100, formats, -10);
+  for (let start = 0; start < length; start += windowSize) analyzer.add(windowsAt(start));
+  const { normalizationGainDb } = analyzer.finish();
+  assert.equal(normalizationGainDb, whole.normalizationGainDb);
+
+  const renderer = createMixRenderer(44100, formats, normalizationGainDb);
+  const parts: Float32Array[][] = [];
+  for (let start = 0; start < length; start += windowSize) parts.push(renderer.process(windowsAt(start)));
+  const { channels: tail, stats } = renderer.finish();
+  parts.push(tail);
+
+  whole.audio.channels.forEach((samples, c) => {
+    const rendered = new Float32Array(length);
+    let offset = 0;
+    for (const part of parts) {
+      rendered.set(part[c], offset);
+      offset += part[c].length;
+    }
+    assert.equal(offset, length);
+    assert.equal(maxError(rendered, samples), 0);
+  });
+  assert.equal(stats.outputPeakDb, whole.outputPeakDb);
+});
+
+test('mixTracks rejects tracks at different sample rates', () => {
+  assert.throws(
+    () => mixTracks([
+      { audio: createTone(440, 0.1, 44100, 0.1), gain: 1 },
+      { audio: createTone(440, 0.1, 48000, 0.1), gain: 1 }
+    ]),
+    /same sample rate/
+  );
+  assert.throws(() => mixTracks([]), /Nothing to mix/);
+});
@@ -0,0 +1,90 @@
+// Encoding MP3 through lamejs
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createMp3Encoder, encodeMp3 } from '../../utils/mp3';
+import { createTone } from './audio';
+
+// Bitrates in kbit/s of MPEG-1 (44.1 and 48 kHz) and MPEG-2 (lower rates) layer III, by header index
+const MPEG1_BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MPEG2_BITRATES = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+const SAMPLE_RATES = [
+  [44100, 48000, 32000],
+  [22050, 24000, 16000],
+  [11025, 12000, 8000]
+];
+
+// Interface for the fields of an MPEG audio frame header
+interface FrameHeader {
+  sampleRate: number;
+  bitrate: number;
+  mono: boolean;
+  size: number;
+}
+
+// Read the layer III frame header at offset
+const readFrameHeader = (bytes: Uint8Array, offset: number): FrameHeader => {
+  const header = (bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3];
+  assert.equal(header >>> 21, 0x7ff, `frame sync at ${offset}`);
+  assert.equal((header >> 17) & 3, 1, 'layer III');
+  // 3: MPEG-1, 2: MPEG-2, 0: MPEG-2.5
+  const version = (header >> 19) & 3;
+  const sampleRate = SAMPLE_RATES[version === 3 ? 0 : version === 2 ? 1 : 2][(header >> 10) & 3];
+  const bitrate = (version === 3 ? MPEG1_BITRATES : MPEG2_BITRATES)[(header >> 12) & 15];
+  const padding = (header >> 9) & 1;
+  const size = Math.floor(((version === 3 ? 144 : 72) * bitrate * 1000) / sampleRate) + padding;
+  return { sampleRate, bitrate, mono: ((header >> 6) & 3) === 3, size };
+};
+
+// Walk the frames of a stream end to end
+const readFrames = (bytes: Uint8Array) => {
+  const frames: FrameHeader[] = [];
+  for (let offset = 0; offset < bytes.length; ) {
+    const frame = readFrameHeader(bytes, offset);
+    frames.push(frame);
+    offset += frame.size;
+  }
+  return frames;
+};
+
+const cases = [
+  { sampleRate: 44100, channelCount: 2, bitrate: 320 },
+  { sampleRate: 48000, channelCount: 1, bitrate: 128 },
+  { sampleRate: 22050, channelCount: 2, bitrate: 64 },
+  { sampleRate: 8000, channelCount: 1, bitrate: 32 }
+];
+
+for (const { sampleRate, channelCount, bitrate } of cases) {
+  test(`encodeMp3 writes ${bitrate} kbit/s frames at ${sampleRate} Hz on ${channelCount} channel(s)`, () => {
+    const tone = createTone(440, 0.5, sampleRate, 1, channelCount);
+    const frames = readFrames(encodeMp3(tone, bitrate));
+    for (const frame of frames) {
+      assert.equal(frame.sampleRate, sampleRate);
+      assert.equal(frame.bitrate, bitrate);
+      assert.equal(frame.mono, channelCount === 1);
+    }
+    // A second of audio, give or take the encoder delay and padding
+    const frameLength = sampleRate >= 32000 ? 1152 : 576;
+    const seconds = (frames.length * frameLength) / sampleRate;
+    assert.ok(seconds >= 1 && seconds < 1.2, `${seconds} s`);
+  });
+}
+
+test('createMp3Encoder fed window by window writes the same stream as encodeMp3', () => {
+  const tone = createTone(1000, 0.5, 44100, 1, 2);
+  const expected = encodeMp3(tone, 192);
+
+  const encoder = createMp3Encoder(44100, 2, 192);
+  const parts: Uint8Array[] = [];
+  // Windows that are not a whole number of frames
+  for (let start = 0; start < tone.channels[0].length; start += 5000) {
+    parts.push(encoder.write(tone.channels.map((samples) => samples.subarray(start, start + 5000))));
+  }
+  parts.push(encoder.finish());
+  assert.deepEqual(Buffer.concat(parts), Buffer.from(expected));
+});
+
+test('createMp3Encoder rejects unsupported sample rates and channel counts', () => {
+  assert.throws(() => createMp3Encoder(96000, 2, 128), /sample rate of 96000 Hz/);
+  assert.throws(() => createMp3Encoder(44100, 0, 128), /1 or 2 channels/);
+  assert.throws(() => createMp3Encoder(44100, 6, 128), /1 or 2 channels/);
+});
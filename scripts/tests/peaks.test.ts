@@ -0,0 +1,126 @@
+// Waveform peaks and their cache
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { test } from 'node:test';
+import { fileURLToPath } from 'url';
+import * as FileSystem from 'expo-file-system';
+import { WaveformPeaks, getWaveformPeaks, summarizePeaks } from '../../utils/peaks';
+import { createTone, writeWavFile } from './audio';
+
+// One peak covers this many frames at the finest level
+const BASE = 256;
+
+const assertClose = (actual: number, expected: number, tolerance = 1e-3) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} is not within ${tolerance} of ${expected}`);
+
+const getCacheUri = async (uri: string) => {
+  const md5 = createHash('md5').update(await fs.readFile(fileURLToPath(uri))).digest('hex');
+  return `${FileSystem.cacheDirectory}peaks/${md5}.json`;
+};
+
+// Peaks built by hand, for summarizePeaks
+const createPeaks = (values: number[][]): WaveformPeaks => ({
+  sampleRate: 8000,
+  length: values[0].length * BASE,
+  levels: values.map((level, i) => ({
+    samplesPerPeak: BASE << i,
+    min: Float32Array.from(level, (value) => -value),
+    max: Float32Array.from(level),
+    rms: Float32Array.from(level, (value) => value / 2)
+  }))
+});
+
+test('getWaveformPeaks summarizes every channel at halving zoom levels', async () => {
+  // 1000 Hz at 8000 Hz repeats every 8 frames, so every full peak sees the whole cycle
+  const tone = createTone(1000, 0.5, 8000, 5, 2);
+  const length = tone.channels[0].length;
+  // The second channel is quieter and its last sample goes past the first one's range
+  tone.channels[1] = tone.channels[1].map((value, i) => (i === length - 1 ? -0.9 : value / 2));
+  const peaks = await getWaveformPeaks(await writeWavFile('peaks-tone.wav', tone));
+
+  assert.equal(peaks.sampleRate, 8000);
+  assert.equal(peaks.length, length);
+  const [base] = peaks.levels;
+  assert.equal(base.samplesPerPeak, BASE);
+  assert.equal(base.min.length, Math.ceil(length / BASE));
+  assertClose(base.max[0], 0.5);
+  assertClose(base.min[0], -0.5);
+  // RMS over both channels, from their mean squares 0.5² / 2 and 0.25² / 2
+  assertClose(base.rms[0], Math.sqrt((0.125 + 0.03125) / 2));
+  assertClose(base.min[base.min.length - 1], -0.9);
+
+  peaks.levels.slice(1).forEach((level, i) => {
+    const finer = peaks.levels[i];
+    assert.equal(level.samplesPerPeak, finer.samplesPerPeak * 2);
+    assert.equal(level.min.length, Math.ceil(finer.min.length / 2));
+    assert.equal(level.max[0], Math.max(finer.max[0], finer.max[1]));
+    assertClose(level.rms[0], Math.sqrt((finer.rms[0] ** 2 + finer.rms[1] ** 2) / 2), 1e-6);
+  });
+  // Levels stop once one has no more than 64 peaks
+  assert.ok(peaks.levels[peaks.levels.length - 1].min.length <= 64);
+  assert.ok(peaks.levels[peaks.levels.length - 2].min.length > 64);
+});
+
+test('getWaveformPeaks keys files by their contents', async () => {
+  const tone = createTone(440, 0.3, 8000, 1);
+  const first = await getWaveformPeaks(await writeWavFile('peaks-same-a.wav', tone));
+  const second = await getWaveformPeaks(await writeWavFile('peaks-same-b.wav', tone));
+  assert.equal(second, first);
+
+  // A file rewritten in place is analyzed again
+  const uri = await writeWavFile('peaks-same-a.wav', createTone(440, 0.6, 8000, 1));
+  assertClose((await getWaveformPeaks(uri)).levels[0].max[0], 0.6, 0.01);
+});
+
+test('getWaveformPeaks stores peaks on disk and reads them back', async () => {
+  const uri = await writeWavFile('peaks-disk.wav', createTone(300, 0.4, 8000, 2));
+  const peaks = await getWaveformPeaks(uri);
+  const cacheUri = await getCacheUri(uri);
+  const stored = JSON.parse(await FileSystem.readAsStringAsync(cacheUri));
+  assert.equal(stored.length, peaks.length);
+
+  // Push the file out of memory, then mark the stored copy to see that it is what comes back
+  for (let i = 0; i < 8; i++) {
+    await getWaveformPeaks(await writeWavFile(`peaks-filler-${i}.wav`, createTone(200 + i, 0.1, 8000, 0.1)));
+  }
+  await FileSystem.writeAsStringAsync(cacheUri, JSON.stringify({ ...stored, sampleRate: 1234 }));
+  const reloaded = await getWaveformPeaks(uri);
+  assert.equal(reloaded.sampleRate, 1234);
+  assert.deepEqual(reloaded.levels, peaks.levels);
+
+  // Peaks stored by another version are analyzed again
+  for (let i = 0; i < 8; i++) {
+    await getWaveformPeaks(await writeWavFile(`peaks-filler-${i}.wav`, createTone(200 + i, 0.1, 8000, 0.1)));
+  }
+  await FileSystem.writeAsStringAsync(cacheUri, JSON.stringify({ ...stored, version: 0, sampleRate: 1234 }));
+  assert.equal((await getWaveformPeaks(uri)).sampleRate, 8000);
+  assert.equal(JSON.parse(await FileSystem.readAsStringAsync(cacheUri)).version, stored.version);
+});
+
+test('getWaveformPeaks rejects missing files', async () => {
+  await assert.rejects(getWaveformPeaks(`${FileSystem.cacheDirectory}peaks-missing.wav`), /Cannot read/);
+});
+
+test('summarizePeaks draws from the coarsest level with enough peaks', () => {
+  const peaks = createPeaks([
+    [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8],
+    [0.2, 0.4, 0.6, 0.8],
+    [0.4, 0.8]
+  ]);
+
+  const summary = summarizePeaks(peaks, 4);
+  assert.deepEqual(Array.from(summary.max), Array.from(Float32Array.of(0.2, 0.4, 0.6, 0.8)));
+
+  // Three points over the four peaks of the second level: the last one covers two peaks and
+  // takes their extremes and their combined power
+  const uneven = summarizePeaks(peaks, 3);
+  assert.deepEqual(Array.from(uneven.max), Array.from(Float32Array.of(0.2, 0.4, 0.8)));
+  assert.deepEqual(Array.from(uneven.min), Array.from(Float32Array.of(-0.2, -0.4, -0.8)));
+  assertClose(uneven.rms[2], Math.sqrt((0.3 ** 2 + 0.4 ** 2) / 2), 1e-6);
+});
+
+test('summarizePeaks repeats peaks when asked for more points than there are', () => {
+  const summary = summarizePeaks(createPeaks([[0.1, 0.2]]), 4);
+  assert.deepEqual(Array.from(summary.max), Array.from(Float32Array.of(0.1, 0.1, 0.2, 0.2)));
+});
@@ -0,0 +1,165 @@
+// The projects store
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import * as FileSystem from 'expo-file-system';
+import { EMPTY_HISTORY } from '../../utils/history';
+import {
+  DEFAULT_SEPARATION_SETTINGS,
+  ExportRecord,
+  addProjectExport,
+  createProject,
+  deleteProject,
+  duplicateProject,
+  getProject,
+  listProjects,
+  setProjectStems,
+  updateProject
+} from '../../utils/projects';
+import { StemName } from '../../utils/separation';
+import { createTone, writeWavFile } from './audio';
+
+let fileCount = 0;
+
+// A short WAV file of its own
+const createFile = () => writeWavFile(`project-${fileCount++}.wav`, createTone(440, 0.1, 8000, 0.05));
+
+const createStems = async (names: StemName[]) =>
+  Promise.all(names.map(async (name) => ({ name, uri: await createFile() })));
+
+const exists = async (uri: string) => (await FileSystem.getInfoAsync(uri)).exists;
+
+const readStored = async (uri: string) =>
+  JSON.parse(await FileSystem.readAsStringAsync(uri.replace(/[^/]+$/, 'project.json')));
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test('createProject copies the source into a new project named after it', async () => {
+  const source = await createFile();
+  const project = await createProject(source, 'Take 1.final.wav');
+
+  assert.equal(project.name, 'Take 1.final');
+  assert.equal(project.source.name, 'Take 1.final.wav');
+  assert.match(project.source.uri, new RegExp(`/projects/${project.id}/source\\.wav$`));
+  assert.ok(await exists(project.source.uri));
+  // The original stays where it was
+  assert.ok(await exists(source));
+  assert.deepEqual(project.settings, DEFAULT_SEPARATION_SETTINGS);
+  assert.deepEqual(project.stems, []);
+  assert.deepEqual(project.history, EMPTY_HISTORY);
+  assert.deepEqual(await getProject(project.id), project);
+
+  // File names are stored relative to the project folder
+  const stored = await readStored(project.source.uri);
+  assert.deepEqual(stored.source, { name: 'Take 1.final.wav', file: 'source.wav' });
+
+  assert.equal((await createProject(await createFile(), 'x.wav', 'Named')).name, 'Named');
+});
+
+test('updateProject saves the changes and listProjects puts the latest first', async () => {
+  const first = await createProject(await createFile(), 'first.wav');
+  await wait(2);
+  const second = await createProject(await createFile(), 'second.wav');
+  await wait(2);
+
+  const history = {
+    past: [{ type: 'volume' as const, stem: 'vocals' as const, from: 1, to: 0.5 }],
+    future: []
+  };
+  const updated = await updateProject(first.id, { name: 'Renamed', volumes: { vocals: 0.5 }, history });
+  assert.equal(updated.name, 'Renamed');
+  assert.ok(updated.updatedAt > first.updatedAt);
+
+  const ids = (await listProjects()).map(({ id }) => id);
+  assert.ok(ids.indexOf(first.id) < ids.indexOf(second.id));
+
+  const stored = await readStored(updated.source.uri);
+  assert.equal(stored.name, 'Renamed');
+  assert.deepEqual(stored.volumes, { vocals: 0.5 });
+  assert.deepEqual(stored.history, history);
+});
+
+test('updateProject writes overlapping changes in order', async () => {
+  const project = await createProject(await createFile(), 'song.wav');
+  await Promise.all([1, 2, 3, 4, 5].map((n) => updateProject(project.id, { name: `Name ${n}` })));
+  assert.equal((await readStored(project.source.uri)).name, 'Name 5');
+});
+
+test('setProjectStems takes stems into the project and removes the ones replaced', async () => {
+  const project = await createProject(await createFile(), 'song.wav');
+  const fourStems = await createStems(['vocals', 'drums', 'bass', 'other']);
+  const withFour = await setProjectStems(project.id, fourStems);
+
+  assert.deepEqual(
+    withFour.stems.map(({ name }) => name),
+    ['vocals', 'drums', 'bass', 'other']
+  );
+  for (const { uri } of withFour.stems) {
+    assert.match(uri, new RegExp(`/projects/${project.id}/stems/`));
+    assert.ok(await exists(uri));
+  }
+  // Files outside the result cache are copied, not moved
+  assert.ok(await exists(fourStems[0].uri));
+
+  // A smaller set leaves no stale stems behind
+  const withTwo = await setProjectStems(project.id, await createStems(['vocals', 'instrumental']));
+  for (const { uri } of withFour.stems.slice(1)) {
+    assert.equal(await exists(uri), false);
+  }
+  assert.deepEqual((await readStored(project.source.uri)).stems, [
+    { name: 'vocals', file: 'stems/vocals.wav' },
+    { name: 'instrumental', file: 'stems/instrumental.wav' }
+  ]);
+
+  // Handing the project its own stems keeps them
+  const again = await setProjectStems(project.id, withTwo.stems);
+  assert.deepEqual(again.stems, withTwo.stems);
+  for (const { uri } of again.stems) {
+    assert.ok(await exists(uri));
+  }
+});
+
+test('addProjectExport keeps the most recent exports first', async () => {
+  const project = await createProject(await createFile(), 'song.wav');
+  const createRecord = (n: number): ExportRecord => ({
+    exportedAt: n,
+    output: 'mix',
+    encoder: { format: 'wav', bitDepth: 16 },
+    stems: ['vocals'],
+    files: [`song ${n}.wav`]
+  });
+
+  let updated = project;
+  for (let n = 1; n <= 25; n++) {
+    updated = await addProjectExport(project.id, createRecord(n));
+  }
+  assert.equal(updated.exports.length, 20);
+  assert.equal(updated.exports[0].exportedAt, 25);
+  assert.equal(updated.exports[19].exportedAt, 6);
+});
+
+test('duplicateProject copies the files and deleteProject removes them', async () => {
+  const project = await createProject(await createFile(), 'song.wav');
+  const original = await setProjectStems(project.id, await createStems(['vocals', 'instrumental']));
+  await wait(2);
+  const copy = await duplicateProject(project.id);
+
+  assert.notEqual(copy.id, original.id);
+  assert.equal(copy.name, 'song (copy)');
+  assert.ok(copy.createdAt > original.createdAt);
+  assert.deepEqual(
+    copy.stems.map(({ name }) => name),
+    ['vocals', 'instrumental']
+  );
+
+  await deleteProject(original.id);
+  assert.equal(await getProject(original.id), null);
+  assert.equal(await exists(original.source.uri), false);
+  // The copy has files of its own
+  for (const uri of [copy.source.uri, ...copy.stems.map(({ uri }) => uri)]) {
+    assert.ok(await exists(uri), uri);
+  }
+  assert.equal((await readStored(copy.source.uri)).name, 'song (copy)');
+
+  await assert.rejects(updateProject(original.id, { name: 'Gone' }), /not found/);
+  await deleteProject(copy.id);
+});
@@ -0,0 +1,119 @@
+// The result cache and the projects that take stems from it
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import * as FileSystem from 'expo-file-system';
+import { createFakeEngine } from '../../utils/fakeSeparationEngine';
+import { createProject, deleteProject, setProjectStems } from '../../utils/projects';
+import { clearResultCache, getCacheKey, getCachedResult, storeResult } from '../../utils/resultCache';
+import { registerEngine, unregisterEngine } from '../../utils/separationEngine';
+import { createTone, writeWavFile } from './audio';
+
+const engine = createFakeEngine();
+const settings = { mode: 'two-stem' as const, quality: 'balanced' as const };
+
+// Stems for a fresh result; the cache moves them, so every store needs its own files
+let stemCount = 0;
+const createStems = async () => {
+  stemCount++;
+  const tone = createTone(440, 0.1, 8000, 0.1);
+  return [
+    { name: 'vocals' as const, uri: await writeWavFile(`stem-${stemCount}-vocals.wav`, tone) },
+    { name: 'instrumental' as const, uri: await writeWavFile(`stem-${stemCount}-instrumental.wav`, tone) }
+  ];
+};
+
+const exists = async (uri: string) => (await FileSystem.getInfoAsync(uri)).exists;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test('getCacheKey depends on the content, engine and settings but not the file name', async () => {
+  const audio = createTone(440, 0.5, 8000, 0.1);
+  const a = await writeWavFile('key-a.wav', audio);
+  const b = await writeWavFile('key-b.wav', audio);
+  const other = await writeWavFile('key-other.wav', createTone(441, 0.5, 8000, 0.1));
+
+  const key = await getCacheKey(a, engine, settings);
+  assert.match(key, /^[a-zA-Z0-9_-]+$/);
+  assert.equal(await getCacheKey(b, engine, settings), key);
+
+  const variants = [
+    await getCacheKey(other, engine, settings),
+    await getCacheKey(a, { ...engine, version: '2' }, settings),
+    await getCacheKey(a, engine, { ...settings, mode: 'four-stem' }),
+    await getCacheKey(a, engine, { ...settings, quality: 'high' }),
+    await getCacheKey(a, engine, { ...settings, tuning: { hardness: 0.5 } })
+  ];
+  assert.equal(new Set([key, ...variants]).size, variants.length + 1);
+});
+
+test('getCachedResult misses once a stem file has gone', async () => {
+  await clearResultCache();
+  const stored = await storeResult('gone', engine, await createStems());
+  assert.deepEqual(await getCachedResult('gone'), stored);
+
+  await FileSystem.deleteAsync(stored[0].uri);
+  assert.equal(await getCachedResult('gone'), null);
+  // The rest of the entry goes with it
+  assert.equal(await exists(stored[1].uri), false);
+});
+
+test('storeResult evicts the least recently used results', async () => {
+  await clearResultCache();
+  const first = await storeResult('entry-0', engine, await createStems());
+  for (let i = 1; i < 20; i++) {
+    await wait(2);
+    await storeResult(`entry-${i}`, engine, await createStems());
+  }
+
+  // Using the oldest entry makes entry-1 the one to go
+  await wait(2);
+  assert.deepEqual(await getCachedResult('entry-0'), first);
+  await wait(2);
+  await storeResult('entry-20', engine, await createStems());
+
+  assert.notEqual(await getCachedResult('entry-0'), null);
+  assert.equal(await getCachedResult('entry-1'), null);
+  assert.notEqual(await getCachedResult('entry-2'), null);
+  await clearResultCache();
+});
+
+test('results of a replaced engine version are dropped', async () => {
+  await clearResultCache();
+  const cacheEngine = createFakeEngine({ id: 'cache-test' });
+  registerEngine(cacheEngine);
+  try {
+    const stored = await storeResult('stale', cacheEngine, await createStems());
+    assert.notEqual(await getCachedResult('stale'), null);
+
+    registerEngine({ ...cacheEngine, version: '2' });
+    assert.equal(await getCachedResult('stale'), null);
+    assert.equal(await exists(stored[0].uri), false);
+  } finally {
+    unregisterEngine(cacheEngine.id);
+  }
+});
+
+test('setProjectStems moves cached stems into the project and the cache follows them', async () => {
+  const source = await writeWavFile('cache-source.wav', createTone(440, 0.5, 44100, 1));
+  const key = await getCacheKey(source, engine, settings);
+  const cached = await storeResult(key, engine, await createStems());
+
+  const project = await createProject(source, 'song.wav');
+  const { stems: projectStems } = await setProjectStems(project.id, cached);
+
+  // Each stem exists once, in the project, and a cache hit returns it there
+  for (const { uri } of cached) {
+    assert.equal(await exists(uri), false);
+  }
+  assert.deepEqual(await getCachedResult(key), projectStems);
+
+  // Taking the same result again leaves the project's files in place
+  const again = await setProjectStems(project.id, projectStems);
+  for (const { uri } of again.stems) {
+    assert.equal(await exists(uri), true);
+  }
+
+  // Once the project is gone the entry is a miss
+  await deleteProject(project.id);
+  assert.equal(await getCachedResult(key), null);
+});
@@ -0,0 +1,21 @@
+// SHA-256 fed in pieces, checked against Node's implementation
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import { test } from 'node:test';
+import { createSha256 } from '../../utils/sha256';
+
+test('createSha256 matches a one-shot hash however the input is split', () => {
+  // Lengths around the 56-byte padding boundary and the 64-byte block
+  for (const length of [0, 1, 55, 56, 63, 64, 65, 119, 120, 1000, 100000]) {
+    const bytes = Uint8Array.from({ length }, (_, i) => (i * 31 + 7) & 0xff);
+    const expected = createHash('sha256').update(bytes).digest('hex');
+
+    for (const pieceSize of [1, 13, 64, 4096]) {
+      const hash = createSha256();
+      for (let i = 0; i < length; i += pieceSize) {
+        hash.update(bytes.subarray(i, i + pieceSize));
+      }
+      assert.equal(hash.digest(), expected, `${length} bytes in pieces of ${pieceSize}`);
+    }
+  }
+});
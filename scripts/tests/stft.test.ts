@@ -0,0 +1,82 @@
+// Short-time Fourier analysis and resynthesis
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { WindowType, fft, istft, stft } from '../../utils/stft';
+
+// Deterministic noise, so failures reproduce
+const createNoise = (length: number, seed = 1) => {
+  const samples = new Float32Array(length);
+  let state = seed;
+  for (let i = 0; i < length; i++) {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    samples[i] = state / 1073741824 - 1;
+  }
+  return samples;
+};
+
+test('fft matches a direct DFT and inverts back to its input', () => {
+  const n = 64;
+  const input = createNoise(n);
+  const re = input.slice();
+  const im = new Float32Array(n);
+  fft(re, im);
+
+  for (const k of [0, 1, 7, 32, 63]) {
+    let sumRe = 0;
+    let sumIm = 0;
+    for (let t = 0; t < n; t++) {
+      sumRe += input[t] * Math.cos((2 * Math.PI * k * t) / n);
+      sumIm -= input[t] * Math.sin((2 * Math.PI * k * t) / n);
+    }
+    assert.ok(Math.abs(re[k] - sumRe) < 1e-4, `bin ${k} real`);
+    assert.ok(Math.abs(im[k] - sumIm) < 1e-4, `bin ${k} imaginary`);
+  }
+
+  // The inverse is unscaled
+  fft(re, im, true);
+  for (let t = 0; t < n; t++) {
+    assert.ok(Math.abs(re[t] / n - input[t]) < 1e-5, `sample ${t}`);
+  }
+});
+
+test('fft rejects sizes that are not a power of two', () => {
+  assert.throws(() => fft(new Float32Array(48), new Float32Array(48)));
+});
+
+test('istft reconstructs the signal for every window and overlap', () => {
+  const signal = createNoise(5000, 7);
+  const windows: WindowType[] = ['hann', 'hamming', 'blackman'];
+  for (const window of windows) {
+    for (const [frameSize, hopSize] of [[256, 64], [512, 128], [1024, 256]]) {
+      const spectrogram = stft(signal, { frameSize, hopSize, window });
+      assert.equal(spectrogram.real[0].length, frameSize / 2 + 1);
+
+      const output = istft(spectrogram);
+      assert.equal(output.length, signal.length);
+      let error = 0;
+      for (let i = 0; i < signal.length; i++) {
+        error = Math.max(error, Math.abs(output[i] - signal[i]));
+      }
+      assert.ok(error < 1e-4, `${window} ${frameSize}/${hopSize}: error ${error}`);
+    }
+  }
+});
+
+test('stft puts a tone in its bin', () => {
+  const frameSize = 1024;
+  const bin = 40;
+  const signal = new Float32Array(8192).map((_, i) => Math.sin((2 * Math.PI * bin * i) / frameSize));
+  const { real, imag } = stft(signal, { frameSize, hopSize: 256 });
+
+  // A frame well inside the signal
+  const frame = 10;
+  const magnitudes = real[frame].map((re, k) => Math.hypot(re, imag[frame][k]));
+  const loudest = magnitudes.indexOf(Math.max(...magnitudes));
+  assert.equal(loudest, bin);
+});
+
+test('stft rejects invalid settings', () => {
+  const signal = new Float32Array(100);
+  assert.throws(() => stft(signal, { frameSize: 1000, hopSize: 250 }), /power of two/);
+  assert.throws(() => stft(signal, { frameSize: 1024, hopSize: 1024 }), /Hop size/);
+});
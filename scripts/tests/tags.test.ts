@@ -0,0 +1,159 @@
+// Writing tags into exported files and reading them back
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import * as FileSystem from 'expo-file-system';
+import { bytesToBase64 } from '../../utils/base64';
+import { ExportFormat, createEncoderStream } from '../../utils/encoders';
+import { AudioTags, getTagEntries, hasTags, withStemInfo } from '../../utils/metadata';
+import { readAudioTags } from '../../utils/tagReader';
+import { writeHeaderTags, writeTags } from '../../utils/tagWriter';
+import { encodeUtf8 } from '../../utils/utf8';
+import { decodeWav } from '../../utils/wav';
+import { decodeAac } from './aacDecoder';
+import { createTone } from './audio';
+import { decodeFlac } from './flacDecoder';
+
+const FORMATS: ExportFormat[] = ['wav', 'flac', 'aac', 'mp3'];
+
+const TAGS: AudioTags = withStemInfo(
+  {
+    title: 'Chœur & <Cordes>',
+    artist: 'Ensemble ♪',
+    album: 'Stems',
+    year: '2024',
+    genre: 'Classical',
+    comment: 'Two\nlines'
+  },
+  { type: 'mix', stems: [{ name: 'vocals', volume: 0.8 }], gainApplied: true }
+);
+
+const concat = (parts: Uint8Array[]) => new Uint8Array(Buffer.concat(parts));
+
+// Encode a file in pieces, as exports do, keeping the header apart
+const encodeFile = (format: ExportFormat) => {
+  const tone = createTone(440, 0.5, 44100, 0.5, 2);
+  const stream = createEncoderStream({ sampleRate: 44100, channelCount: 2, length: 22050 }, { format });
+  const data = stream.write(tone.channels);
+  const end = stream.finish();
+  return { header: (stream.header ?? end.header)!, data: concat([data, end.data]) };
+};
+
+let fileCount = 0;
+
+// Write bytes to a scratch file and return its URI
+const writeFile = async (format: ExportFormat, bytes: Uint8Array) => {
+  await FileSystem.makeDirectoryAsync(FileSystem.cacheDirectory!, { intermediates: true });
+  const uri = `${FileSystem.cacheDirectory}tags-${fileCount++}.${format === 'aac' ? 'm4a' : format}`;
+  await FileSystem.writeAsStringAsync(uri, bytesToBase64(bytes), { encoding: FileSystem.EncodingType.Base64 });
+  return uri;
+};
+
+// MP3 frames after the ID3v2 tag; its size is syncsafe, seven bits per byte
+const getMp3Frames = (bytes: Uint8Array) => {
+  const tagSize = bytes[6] * 0x200000 + bytes[7] * 0x4000 + bytes[8] * 0x80 + bytes[9];
+  return Buffer.from(String.fromCharCode(...bytes.subarray(0, 3)) === 'ID3' ? bytes.subarray(10 + tagSize) : bytes);
+};
+
+// Decoded audio of a file; MP3, which the tests cannot decode, by its frames
+const AUDIO_READERS: Record<ExportFormat, (bytes: Uint8Array) => unknown> = {
+  wav: decodeWav,
+  flac: decodeFlac,
+  aac: decodeAac,
+  mp3: getMp3Frames
+};
+
+// The audio must come through tagging untouched
+const assertSameAudio = (format: ExportFormat, tagged: Uint8Array, untagged: Uint8Array) => {
+  assert.deepEqual(AUDIO_READERS[format](tagged), AUDIO_READERS[format](untagged));
+};
+
+for (const format of FORMATS) {
+  test(`writeTags and readAudioTags round trip ${format} tags`, async () => {
+    const { header, data } = encodeFile(format);
+    const untagged = concat([header, data]);
+    const tagged = writeTags(untagged, format, TAGS);
+    assert.deepEqual(await readAudioTags(await writeFile(format, tagged)), TAGS);
+    assertSameAudio(format, tagged, untagged);
+  });
+
+  test(`writeTags replaces the ${format} tags already in a file`, async () => {
+    const { header, data } = encodeFile(format);
+    const untagged = concat([header, data]);
+    const once = writeTags(untagged, format, TAGS);
+    const retagged = writeTags(once, format, { title: 'Renamed' });
+    assert.deepEqual(await readAudioTags(await writeFile(format, retagged)), { title: 'Renamed' });
+    // Tagging the same way twice gives the same file
+    assert.deepEqual(writeTags(once, format, TAGS), once);
+    assertSameAudio(format, retagged, untagged);
+  });
+
+  test(`writeHeaderTags tags a ${format} file whose audio is written separately`, async () => {
+    const { header, data } = encodeFile(format);
+    const tags = writeHeaderTags(header, format, TAGS);
+    const file = concat([tags.header, data, tags.trailer]);
+    assert.deepEqual(await readAudioTags(await writeFile(format, file)), TAGS);
+    assertSameAudio(format, file, concat([header, data]));
+    if (format === 'wav') {
+      assert.equal(new DataView(file.buffer).getUint32(4, true), file.length - 8, 'RIFF size');
+    }
+  });
+}
+
+test('writeTags leaves files alone without tags', () => {
+  const { header, data } = encodeFile('flac');
+  const bytes = concat([header, data]);
+  assert.equal(writeTags(bytes, 'flac', { title: '  ', custom: { NOTE: '' } }), bytes);
+  assert.equal(hasTags({ title: '  ', custom: { NOTE: '' } }), false);
+});
+
+test('getTagEntries trims values and keeps the editor order', () => {
+  const entries = getTagEntries({ comment: ' note ', title: ' Song ', album: '', custom: { '': 'x', KEY: ' v ' } });
+  assert.deepEqual(entries, {
+    fields: [
+      ['title', 'Song'],
+      ['comment', 'note']
+    ],
+    custom: [['KEY', 'v']]
+  });
+});
+
+test('withStemInfo records the stems with rounded volumes', () => {
+  const tags = withStemInfo(
+    { title: 'Song', custom: { OTHER: 'kept' } },
+    { type: 'stem', stems: [{ name: 'drums', volume: 0.123456 }], gainApplied: false }
+  );
+  assert.equal(tags.custom?.OTHER, 'kept');
+  assert.deepEqual(JSON.parse(tags.custom!.STEM_INFO), {
+    type: 'stem',
+    stems: [{ name: 'drums', volume: 0.12 }],
+    gainApplied: false
+  });
+});
+
+// An ID3v2.3 text frame: a plain 32-bit size, then an encoding byte
+const id3v23Frame = (id: string, encoding: number, text: Uint8Array) => {
+  const frame = new Uint8Array(11 + text.length);
+  frame.set(encodeUtf8(id));
+  new DataView(frame.buffer).setUint32(4, 1 + text.length);
+  frame[10] = encoding;
+  frame.set(text, 11);
+  return frame;
+};
+
+// UTF-16 with a little endian byte order mark
+const utf16 = (text: string) => concat([Uint8Array.of(0xff, 0xfe), new Uint8Array(Buffer.from(text, 'utf16le'))]);
+
+test('readAudioTags reads ID3v2.3 tags written by other software', async () => {
+  const frames = concat([
+    id3v23Frame('TIT2', 1, utf16('Título')),
+    id3v23Frame('TPE1', 0, encodeUtf8('Artist')),
+    // An ID3v1 genre number in front of the name
+    id3v23Frame('TCON', 0, encodeUtf8('(17)Rock')),
+    id3v23Frame('TYER', 0, encodeUtf8('1999'))
+  ]);
+  // Syncsafe size, small enough here to fit in the last byte
+  const header = Uint8Array.of(0x49, 0x44, 0x33, 3, 0, 0, 0, 0, 0, frames.length);
+  const { data } = encodeFile('mp3');
+  const uri = await writeFile('mp3', concat([header, frames, data]));
+  assert.deepEqual(await readAudioTags(uri), { title: 'Título', artist: 'Artist', genre: 'Rock', year: '1999' });
+});
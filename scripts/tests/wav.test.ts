@@ -0,0 +1,104 @@
+// Reading and writing WAV files
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { WavBitDepth, decodeWav, encodeWav, isWav, parseWavHeader, toIntegerSample } from '../../utils/wav';
+
+const createRamp = (length: number) => Float32Array.from({ length }, (_, i) => (2 * i) / (length - 1) - 1);
+
+// A chunk with a four character id and the given body
+const createChunk = (id: string, body: Uint8Array) => {
+  const bytes = new Uint8Array(8 + body.length + (body.length % 2));
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < 4; i++) bytes[i] = id.charCodeAt(i);
+  view.setUint32(4, body.length, true);
+  bytes.set(body, 8);
+  return bytes;
+};
+
+const concat = (...parts: Uint8Array[]) => {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+};
+
+test('encodeWav and decodeWav round trip at every bit depth', () => {
+  const audio = { sampleRate: 22050, channels: [createRamp(1001), createRamp(1001).reverse()] };
+  // Integers are written at (2^(n-1) - 1) per unit and read at 2^(n-1), plus half a step of rounding
+  const tolerances: [WavBitDepth, number][] = [[16, 2 / 32768], [24, 2 / 8388608], [32, 0]];
+  for (const [bitDepth, tolerance] of tolerances) {
+    const bytes = encodeWav(audio, bitDepth);
+    assert.equal(bytes.length, 44 + 1001 * 2 * (bitDepth / 8));
+    assert.ok(isWav(bytes));
+
+    const decoded = decodeWav(bytes);
+    assert.equal(decoded.sampleRate, 22050);
+    assert.equal(decoded.channels.length, 2);
+    decoded.channels.forEach((samples, c) => {
+      assert.equal(samples.length, 1001);
+      for (let i = 0; i < samples.length; i++) {
+        assert.ok(Math.abs(samples[i] - audio.channels[c][i]) <= tolerance, `${bitDepth}-bit sample ${i}`);
+      }
+    });
+  }
+});
+
+test('toIntegerSample clamps to full scale', () => {
+  assert.equal(toIntegerSample(1, 16), 32767);
+  assert.equal(toIntegerSample(-1, 16), -32768);
+  assert.equal(toIntegerSample(2, 16), 32767);
+  assert.equal(toIntegerSample(-2, 24), -8388608);
+  assert.equal(toIntegerSample(0, 24), 0);
+});
+
+test('parseWavHeader skips other chunks and finds the audio after them', () => {
+  const wav = encodeWav({ sampleRate: 8000, channels: [createRamp(10)] });
+  const fmt = wav.subarray(12, 36);
+  const data = wav.subarray(36);
+  // An odd-sized chunk before the data, which must be padded to a word
+  const bytes = concat(wav.subarray(0, 12), fmt, createChunk('LIST', new Uint8Array(5)), data);
+
+  const format = parseWavHeader(bytes);
+  assert.equal(format.dataOffset, 12 + fmt.length + 14 + 8);
+  assert.equal(format.dataSize, 20);
+  assert.deepEqual(decodeWav(bytes).channels[0], decodeWav(wav).channels[0]);
+});
+
+test('parseWavHeader takes what is there when the data size was never written', () => {
+  const wav = encodeWav({ sampleRate: 8000, channels: [createRamp(10)] });
+  for (const size of [0, 0xffffffff]) {
+    const bytes = wav.slice();
+    new DataView(bytes.buffer).setUint32(40, size, true);
+    assert.equal(parseWavHeader(bytes).dataSize, 20);
+  }
+});
+
+test('parseWavHeader reads the format of an extensible file', () => {
+  const wav = encodeWav({ sampleRate: 48000, channels: [createRamp(4)] }, 32);
+  const fmt = new Uint8Array(40);
+  fmt.set(wav.subarray(20, 36));
+  const view = new DataView(fmt.buffer);
+  view.setUint16(0, 0xfffe, true);
+  view.setUint16(16, 22, true);
+  // The sub-format GUID starts with the real format tag
+  view.setUint16(24, 3, true);
+  const bytes = concat(wav.subarray(0, 12), createChunk('fmt ', fmt), wav.subarray(36));
+
+  const format = parseWavHeader(bytes);
+  assert.equal(format.encoding, 'float');
+  assert.equal(format.sampleRate, 48000);
+});
+
+test('parseWavHeader rejects what it cannot read', () => {
+  assert.throws(() => parseWavHeader(new Uint8Array(44)), /Not a WAV file/);
+
+  const wav = encodeWav({ sampleRate: 8000, channels: [createRamp(4)] });
+  const adpcm = wav.slice();
+  new DataView(adpcm.buffer).setUint16(20, 2, true);
+  assert.throws(() => parseWavHeader(adpcm), /Unsupported WAV encoding/);
+
+  assert.throws(() => parseWavHeader(wav.subarray(0, 36)), /no audio data/);
+});
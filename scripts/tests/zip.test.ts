@@ -0,0 +1,133 @@
+// Building ZIP archives
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createZipBuilder } from '../../utils/zip';
+
+// Interface for an entry as the central directory and its local header describe it
+interface ReadEntry {
+  name: string;
+  flags: number;
+  crc: number;
+  time: number;
+  date: number;
+  data: Uint8Array;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const concat = (parts: Uint8Array[]) => Buffer.concat(parts);
+
+// Read an archive from its end record, checking that local headers agree with the directory
+const readZip = (bytes: Uint8Array): ReadEntry[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+  const end = bytes.length - 22;
+  assert.equal(view.getUint32(end, true), 0x06054b50, 'end record');
+  const count = view.getUint16(end + 10, true);
+  const directorySize = view.getUint32(end + 12, true);
+  const directoryOffset = view.getUint32(end + 16, true);
+  assert.equal(directoryOffset + directorySize, end, 'directory runs up to the end record');
+
+  const entries: ReadEntry[] = [];
+  let at = directoryOffset;
+  for (let i = 0; i < count; i++) {
+    assert.equal(view.getUint32(at, true), 0x02014b50, 'central header');
+    const flags = view.getUint16(at + 8, true);
+    assert.equal(view.getUint16(at + 10, true), 0, 'stored');
+    const crc = view.getUint32(at + 16, true);
+    const size = view.getUint32(at + 20, true);
+    assert.equal(view.getUint32(at + 24, true), size, 'stored entries keep their size');
+    const nameLength = view.getUint16(at + 28, true);
+    const offset = view.getUint32(at + 42, true);
+    const name = decoder.decode(bytes.subarray(at + 46, at + 46 + nameLength));
+
+    assert.equal(view.getUint32(offset, true), 0x04034b50, `local header of ${name}`);
+    assert.equal(view.getUint16(offset + 6, true), flags);
+    // With a data descriptor the local header leaves the CRC and sizes at zero
+    const streamed = (flags & 0x0008) !== 0;
+    assert.equal(view.getUint32(offset + 14, true), streamed ? 0 : crc);
+    assert.equal(view.getUint32(offset + 18, true), streamed ? 0 : size);
+    assert.equal(view.getUint16(offset + 26, true), nameLength);
+    const dataStart = offset + 30 + nameLength + view.getUint16(offset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + size);
+    if (streamed) {
+      const descriptor = dataStart + size;
+      assert.equal(view.getUint32(descriptor, true), 0x08074b50, `data descriptor of ${name}`);
+      assert.equal(view.getUint32(descriptor + 4, true), crc);
+      assert.equal(view.getUint32(descriptor + 8, true), size);
+      assert.equal(view.getUint32(descriptor + 12, true), size);
+    }
+
+    entries.push({ name, flags, crc, time: view.getUint16(at + 12, true), date: view.getUint16(at + 14, true), data });
+    at += 46 + nameLength;
+  }
+  return entries;
+};
+
+test('createZipBuilder stores whole entries with their CRC-32', () => {
+  const zip = createZipBuilder();
+  const parts = [
+    ...zip.addEntry('check.txt', encoder.encode('123456789')),
+    ...zip.addEntry('empty.txt', new Uint8Array(0)),
+    zip.finish()
+  ];
+  const [check, empty] = readZip(concat(parts));
+
+  assert.equal(check.name, 'check.txt');
+  assert.equal(decoder.decode(check.data), '123456789');
+  // The standard check value of CRC-32
+  assert.equal(check.crc, 0xcbf43926);
+  assert.equal(empty.data.length, 0);
+  assert.equal(empty.crc, 0);
+});
+
+test('createZipBuilder streams entries with a data descriptor', () => {
+  const zip = createZipBuilder();
+  const parts = [...zip.addEntry('first.wav', encoder.encode('whole'))];
+  const { header, writer } = zip.startEntry('second.wav');
+  parts.push(header);
+  for (const piece of ['1234', '', '56789']) {
+    parts.push(writer.write(encoder.encode(piece)));
+  }
+  parts.push(writer.finish(), ...zip.addEntry('third.wav', encoder.encode('after')), zip.finish());
+
+  const entries = readZip(concat(parts));
+  assert.deepEqual(
+    entries.map(({ name, data }) => [name, decoder.decode(data)]),
+    [
+      ['first.wav', 'whole'],
+      ['second.wav', '123456789'],
+      ['third.wav', 'after']
+    ]
+  );
+  assert.equal(entries[1].crc, 0xcbf43926);
+  assert.equal(entries[1].flags & 0x0008, 0x0008);
+  assert.equal(entries[0].flags & 0x0008, 0);
+});
+
+test('createZipBuilder marks names as UTF-8 and dates entries in DOS format', () => {
+  const zip = createZipBuilder(new Date(2024, 2, 15, 13, 45, 31));
+  const [entry] = readZip(concat([...zip.addEntry('Chœur – stems/vocals ♪.wav', new Uint8Array(1)), zip.finish()]));
+  assert.equal(entry.name, 'Chœur – stems/vocals ♪.wav');
+  assert.equal(entry.flags & 0x0800, 0x0800);
+  // Two-second resolution
+  assert.equal(entry.time, (13 << 11) | (45 << 5) | 15);
+  assert.equal(entry.date, ((2024 - 1980) << 9) | (3 << 5) | 15);
+});
+
+test('createZipBuilder writes an empty archive as a bare end record', () => {
+  const bytes = createZipBuilder().finish();
+  assert.equal(bytes.length, 22);
+  assert.deepEqual(readZip(bytes), []);
+});
+
+test('createZipBuilder rejects archives past the limits of plain ZIP', () => {
+  const zip = createZipBuilder();
+  for (let i = 0; i < 0xffff; i++) zip.addEntry(`${i}`, new Uint8Array(0));
+  assert.throws(() => zip.addEntry('one more', new Uint8Array(0)), /Too many files/);
+  assert.throws(() => zip.startEntry('one more'), /Too many files/);
+
+  // Only the length is looked at before the size check fails
+  const { writer } = createZipBuilder().startEntry('huge.wav');
+  assert.throws(() => writer.write({ length: 0x100000000 } as Uint8Array), /too large/);
+});
@@ -0,0 +1,9 @@
+// lamejs (a JavaScript port of LAME), with the global scope fix; the package ships no types
+declare module 'lamejs-fixed' {
+  export class Mp3Encoder {
+    constructor(channels: number, sampleRate: number, kbps: number);
+    // Encode 16-bit samples; right is ignored for mono
+    encodeBuffer(left: Int16Array, right?: Int16Array): Int8Array;
+    flush(): Int8Array;
+  }
+}
@@ -0,0 +1,619 @@
+import { PCMAudio } from './wav';
+import { fft } from './stft';
+import { BitWriter, createBitWriter } from './bitWriter';
+import { writeM4aHeader } from './mp4';
+import {
+  AAC_SAMPLE_RATES,
+  HuffmanCodebook,
+  LONG_WINDOW_BAND_OFFSETS,
+  SCALEFACTOR_CODEBOOK,
+  SPECTRUM_CODEBOOKS
+} from './aacTables';
+
+// AAC-LC encoder writing .m4a files.
+// Every frame is one long sine-windowed MDCT; short blocks, TNS and joint stereo are not used.
+// Each band's quantizer step follows its own level, raised where louder neighbouring bands
+// mask it, and one offset for the whole frame is searched to meet the bitrate. A bit
+// reservoir lets demanding frames borrow what quiet ones did not use.
+
+// Samples per frame
+export const AAC_FRAME_LENGTH = 1024;
+
+export const AAC_MAX_CHANNELS = 2;
+
+export { AAC_SAMPLE_RATES };
+
+const WINDOW_LENGTH = 2 * AAC_FRAME_LENGTH;
+
+// Largest bit count a channel may use in one frame
+const MAX_CHANNEL_BITS = 6144;
+
+// Quantized values above 15 are escape coded, up to this magnitude
+const MAX_QUANTIZED = 8191;
+
+// Largest line, in quantizer steps, that still quantizes within MAX_QUANTIZED
+const MAX_QUANTIZABLE = Math.pow(MAX_QUANTIZED, 4 / 3);
+
+// Rounding offset of the quantizer; slightly below 0.5 suits the 4/3 power law
+const ROUNDING = 0.4054;
+
+// Range of the per-frame quantizer offset, in 1.5 dB units
+const MIN_OFFSET = -60;
+const MAX_OFFSET = 60;
+
+// Scalefactors are coded as differences within this range
+const MAX_SCALEFACTOR_STEP = 60;
+
+// How fast masking falls off per band away from a loud band, towards higher and lower bands
+const MASKING_SLOPE_UP = Math.pow(10, -8 / 20);
+const MASKING_SLOPE_DOWN = Math.pow(10, -15 / 20);
+
+// Tonal bands get quantizer steps this much finer (in 1.5 dB units) than noise-like ones,
+// which mask their own quantization noise far better
+const TONAL_STEP_REDUCTION = 12;
+
+// Spectral flatness (in dB) of white noise and of a clearly tonal band
+const NOISE_FLATNESS_DB = -5.5;
+const TONAL_FLATNESS_DB = -30;
+
+// Bands more than 90 dB below the loudest one are not coded
+const SILENT_BAND_RATIO = 1e-9;
+
+// Audio bandwidth for a per-channel bitrate in kbit/s; linear in between
+const BANDWIDTH: [number, number][] = [
+  [32, 11000],
+  [48, 14000],
+  [64, 16000],
+  [96, 18500],
+  [128, 20000]
+];
+
+// Syntax element ids
+const ID_SCE = 0;
+const ID_CPE = 1;
+const ID_END = 7;
+
+// Interface for the layout of a spectrum codebook
+interface CodebookShape {
+  dimension: 2 | 4;
+  signed: boolean;
+  // Largest magnitude the book codes (16 means escape for codebook 11)
+  largest: number;
+}
+
+const CODEBOOK_SHAPES: CodebookShape[] = [
+  { dimension: 4, signed: true, largest: 1 },
+  { dimension: 4, signed: true, largest: 1 },
+  { dimension: 4, signed: false, largest: 2 },
+  { dimension: 4, signed: false, largest: 2 },
+  { dimension: 2, signed: true, largest: 4 },
+  { dimension: 2, signed: true, largest: 4 },
+  { dimension: 2, signed: false, largest: 7 },
+  { dimension: 2, signed: false, largest: 7 },
+  { dimension: 2, signed: false, largest: 12 },
+  { dimension: 2, signed: false, largest: 12 },
+  { dimension: 2, signed: false, largest: 16 }
+];
+
+const ESCAPE_CODEBOOK = 11;
+
+// Codebooks worth trying for the largest value in a band; larger books only cost more
+const getCandidateCodebooks = (largest: number): number[] => {
+  if (largest <= 1) return [1, 2, 3, 4, 5, 6];
+  if (largest <= 2) return [3, 4, 5, 6];
+  if (largest <= 4) return [5, 6, 7, 8];
+  if (largest <= 7) return [7, 8, 9, 10];
+  if (largest <= 12) return [9, 10, 11];
+  return [ESCAPE_CODEBOOK];
+};
+
+// MDCT of a 2048-sample block to 1024 lines, as a DCT-IV computed with a 256-point FFT.
+// Scaled like the standard's forward transform, so decoders restore the input level.
+const createMdct = () => {
+  const half = AAC_FRAME_LENGTH;
+  const quarter = half / 2;
+  const folded = new Float32Array(half);
+  const re = new Float32Array(quarter);
+  const im = new Float32Array(quarter);
+  const preCos = new Float32Array(quarter);
+  const preSin = new Float32Array(quarter);
+  const postCos = new Float32Array(quarter);
+  const postSin = new Float32Array(quarter);
+  for (let n = 0; n < quarter; n++) {
+    const pre = (-Math.PI * (4 * n + 1)) / (4 * half);
+    preCos[n] = Math.cos(pre);
+    preSin[n] = Math.sin(pre);
+    const post = (-Math.PI * n) / half;
+    postCos[n] = Math.cos(post);
+    postSin[n] = Math.sin(post);
+  }
+
+  return (block: Float32Array, output: Float32Array) => {
+    // Fold the four quarters (a, b, c, d) into (-c reversed - d, a - b reversed)
+    const h = quarter;
+    for (let n = 0; n < h; n++) {
+      folded[n] = -block[3 * h - 1 - n] - block[3 * h + n];
+      folded[h + n] = block[n] - block[half - 1 - n];
+    }
+    for (let n = 0; n < quarter; n++) {
+      const a = folded[2 * n];
+      const b = folded[half - 1 - 2 * n];
+      re[n] = a * preCos[n] - b * preSin[n];
+      im[n] = a * preSin[n] + b * preCos[n];
+    }
+    fft(re, im);
+    for (let k = 0; k < quarter; k++) {
+      const yr = re[k] * postCos[k] - im[k] * postSin[k];
+      const yi = re[k] * postSin[k] + im[k] * postCos[k];
+      output[2 * k] = 2 * yr;
+      output[half - 1 - 2 * k] = -2 * yi;
+    }
+  };
+};
+
+// Interface for one channel's spectrum, quantized and ready to write
+interface QuantizedChannel {
+  globalGain: number;
+  // Coded bands, from the lowest
+  maxBand: number;
+  // Per band: codebook (0 for an all-zero band) and scalefactor
+  codebooks: number[];
+  scalefactors: number[];
+  values: Int16Array;
+  bits: number;
+}
+
+// Interface for one channel's spectrum with its per-band analysis
+interface ChannelSpectrum {
+  lines: Float32Array;
+  // Base quantizer step of each band, as a scalefactor before the frame offset
+  steps: number[];
+  // Finest scalefactor of each band at which its largest line does not overflow
+  minScalefactors: number[];
+  // Bands with nothing worth coding
+  silent: boolean[];
+}
+
+const getSectionBits = (codebooks: number[]) => {
+  let bits = 0;
+  for (let band = 0; band < codebooks.length; ) {
+    let end = band + 1;
+    while (end < codebooks.length && codebooks[end] === codebooks[band]) end++;
+    bits += 4 + 5 * (Math.floor((end - band) / 31) + 1);
+    band = end;
+  }
+  return bits;
+};
+
+const getEscapeBits = (value: number) => (value < 16 ? 0 : 2 * Math.floor(Math.log2(value)) - 3);
+
+// Codebook index of a group of quantized values
+const getCodebookIndex = (values: Int16Array, start: number, shape: CodebookShape) => {
+  const base = shape.signed ? 2 * shape.largest + 1 : shape.largest + 1;
+  let index = 0;
+  for (let i = start; i < start + shape.dimension; i++) {
+    const value = values[i];
+    index = index * base + (shape.signed ? value + shape.largest : Math.min(Math.abs(value), shape.largest));
+  }
+  return index;
+};
+
+// Bits a band costs in one codebook
+const getBandBits = (values: Int16Array, start: number, end: number, codebook: number) => {
+  const shape = CODEBOOK_SHAPES[codebook - 1];
+  const { lengths } = SPECTRUM_CODEBOOKS[codebook - 1];
+  let bits = 0;
+  for (let i = start; i < end; i += shape.dimension) {
+    bits += lengths[getCodebookIndex(values, i, shape)];
+    if (!shape.signed) {
+      for (let j = i; j < i + shape.dimension; j++) {
+        const magnitude = Math.abs(values[j]);
+        if (magnitude !== 0) bits++;
+        if (codebook === ESCAPE_CODEBOOK) bits += getEscapeBits(magnitude);
+      }
+    }
+  }
+  return bits;
+};
+
+// Quantize a channel's spectrum with every band step raised by offset (in 1.5 dB units)
+const quantizeChannel = (
+  spectrum: ChannelSpectrum,
+  bandOffsets: number[],
+  maxBand: number,
+  offset: number
+): QuantizedChannel => {
+  const { lines, steps, minScalefactors, silent } = spectrum;
+  const values = new Int16Array(AAC_FRAME_LENGTH);
+  const codebooks = new Array<number>(maxBand).fill(0);
+  const scalefactors = new Array<number>(maxBand).fill(0);
+  let previous = -1;
+  let globalGain = 0;
+  let scalefactorBits = 0;
+  let spectralBits = 0;
+
+  for (let band = 0; band < maxBand; band++) {
+    if (silent[band]) continue;
+    const start = bandOffsets[band];
+    const end = bandOffsets[band + 1];
+
+    // Scalefactor differences are limited, and the first one sets the global gain. However fine
+    // the offset asks for, a band's step never gets so fine that its lines overflow.
+    let scalefactor = Math.max(0, Math.min(255, Math.max(minScalefactors[band], steps[band] + offset)));
+    if (previous >= 0) {
+      scalefactor = Math.max(previous - MAX_SCALEFACTOR_STEP, Math.min(previous + MAX_SCALEFACTOR_STEP, scalefactor));
+    }
+
+    const inverseStep = Math.pow(2, -0.25 * (scalefactor - 100));
+    let largest = 0;
+    for (let i = start; i < end; i++) {
+      const scaled = Math.abs(lines[i]) * inverseStep;
+      // The limit only bites when the difference limit held the step below the band's minimum
+      const magnitude = Math.min(MAX_QUANTIZED, Math.floor(Math.sqrt(scaled * Math.sqrt(scaled)) + ROUNDING));
+      values[i] = lines[i] < 0 ? -magnitude : magnitude;
+      if (magnitude > largest) largest = magnitude;
+    }
+    if (largest === 0) continue;
+
+    let best = 0;
+    let bestBits = Infinity;
+    for (const codebook of getCandidateCodebooks(largest)) {
+      const bits = getBandBits(values, start, end, codebook);
+      if (bits < bestBits) {
+        best = codebook;
+        bestBits = bits;
+      }
+    }
+
+    codebooks[band] = best;
+    scalefactors[band] = scalefactor;
+    spectralBits += bestBits;
+    if (previous < 0) {
+      globalGain = scalefactor;
+    } else {
+      scalefactorBits += SCALEFACTOR_CODEBOOK.lengths[scalefactor - previous + MAX_SCALEFACTOR_STEP];
+    }
+    previous = scalefactor;
+  }
+
+  // Trailing zero bands need not be sent
+  let codedBands = maxBand;
+  while (codedBands > 0 && codebooks[codedBands - 1] === 0) codedBands--;
+  codebooks.length = codedBands;
+  scalefactors.length = codedBands;
+
+  // Global gain and ics_info, section data, scalefactors, three absent tool flags, spectrum
+  const bits = 8 + 11 + getSectionBits(codebooks) + scalefactorBits + 3 + spectralBits;
+  return { globalGain, maxBand: codedBands, codebooks, scalefactors, values, bits };
+};
+
+const writeCode = (writer: BitWriter, codebook: HuffmanCodebook, index: number) => {
+  writer.write(codebook.codes[index], codebook.lengths[index]);
+};
+
+const writeChannel = (writer: BitWriter, channel: QuantizedChannel, bandOffsets: number[]) => {
+  const { globalGain, maxBand, codebooks, scalefactors, values } = channel;
+  writer.write(globalGain, 8);
+
+  // ics_info: reserved bit, only long sequence, sine window, max_sfb, no prediction
+  writer.write(0, 1);
+  writer.write(0, 2);
+  writer.write(0, 1);
+  writer.write(maxBand, 6);
+  writer.write(0, 1);
+
+  // Section data: runs of bands sharing a codebook; lengths of 31 and over are escaped
+  for (let band = 0; band < maxBand; ) {
+    let end = band + 1;
+    while (end < maxBand && codebooks[end] === codebooks[band]) end++;
+    writer.write(codebooks[band], 4);
+    let length = end - band;
+    for (; length >= 31; length -= 31) {
+      writer.write(31, 5);
+    }
+    writer.write(length, 5);
+    band = end;
+  }
+
+  let previous = globalGain;
+  for (let band = 0; band < maxBand; band++) {
+    if (codebooks[band] === 0) continue;
+    writeCode(writer, SCALEFACTOR_CODEBOOK, scalefactors[band] - previous + MAX_SCALEFACTOR_STEP);
+    previous = scalefactors[band];
+  }
+
+  // No pulse data, TNS or gain control
+  writer.write(0, 3);
+
+  for (let band = 0; band < maxBand; band++) {
+    const codebook = codebooks[band];
+    if (codebook === 0) continue;
+    const shape = CODEBOOK_SHAPES[codebook - 1];
+    for (let i = bandOffsets[band]; i < bandOffsets[band + 1]; i += shape.dimension) {
+      writeCode(writer, SPECTRUM_CODEBOOKS[codebook - 1], getCodebookIndex(values, i, shape));
+      if (shape.signed) continue;
+      for (let j = i; j < i + shape.dimension; j++) {
+        if (values[j] !== 0) writer.write(values[j] < 0 ? 1 : 0, 1);
+      }
+      if (codebook !== ESCAPE_CODEBOOK) continue;
+      for (let j = i; j < i + shape.dimension; j++) {
+        const magnitude = Math.abs(values[j]);
+        if (magnitude < 16) continue;
+        // Escape: N ones, a zero, then the value in N + 4 bits without its leading one
+        const extra = Math.floor(Math.log2(magnitude)) - 4;
+        writer.write((1 << (extra + 1)) - 2, extra + 1);
+        writer.write(magnitude - (1 << (extra + 4)), extra + 4);
+      }
+    }
+  }
+};
+
+// Per-band analysis: quantization noise may rise with the masking level of each band, which
+// is its own level or that of a louder band nearby, whichever is higher, and sits lower in
+// tonal bands than in noise-like ones
+const analyzeSpectrum = (lines: Float32Array, bandOffsets: number[], maxBand: number): ChannelSpectrum => {
+  const levels = new Array<number>(maxBand);
+  const tonality = new Array<number>(maxBand);
+  const minScalefactors = new Array<number>(maxBand);
+  let loudest = 0;
+  for (let band = 0; band < maxBand; band++) {
+    const start = bandOffsets[band];
+    const end = bandOffsets[band + 1];
+    let energy = 0;
+    let logEnergy = 0;
+    let peak = 0;
+    for (let i = start; i < end; i++) {
+      const power = lines[i] * lines[i];
+      energy += power;
+      logEnergy += Math.log10(power + 1e-6);
+      peak = Math.max(peak, Math.abs(lines[i]));
+    }
+    // A step of 2^((scalefactor - 100) / 4) must bring the peak within MAX_QUANTIZABLE
+    minScalefactors[band] = peak > 0 ? Math.ceil(100 + 4 * Math.log2(peak / MAX_QUANTIZABLE)) : 0;
+    const mean = energy / (end - start);
+    levels[band] = Math.sqrt(mean);
+    loudest = Math.max(loudest, mean);
+
+    // Spectral flatness: geometric over arithmetic mean of the line powers
+    const flatnessDb = 10 * (logEnergy / (end - start) - Math.log10(mean + 1e-6));
+    tonality[band] = Math.max(
+      0,
+      Math.min(1, (flatnessDb - NOISE_FLATNESS_DB) / (TONAL_FLATNESS_DB - NOISE_FLATNESS_DB))
+    );
+  }
+
+  // Masking spreads from every band to its neighbours, falling off with distance
+  const masking = levels.slice();
+  for (let band = 1; band < maxBand; band++) {
+    masking[band] = Math.max(masking[band], masking[band - 1] * MASKING_SLOPE_UP);
+  }
+  for (let band = maxBand - 2; band >= 0; band--) {
+    masking[band] = Math.max(masking[band], masking[band + 1] * MASKING_SLOPE_DOWN);
+  }
+
+  const steps: number[] = [];
+  const silent: boolean[] = [];
+  for (let band = 0; band < maxBand; band++) {
+    silent.push(levels[band] * levels[band] <= loudest * SILENT_BAND_RATIO);
+    const step = 100 + Math.round(4 * Math.log2(masking[band]) - TONAL_STEP_REDUCTION * tonality[band]);
+    steps.push(masking[band] > 0 ? step : 0);
+  }
+  return { lines, steps, minScalefactors, silent };
+};
+
+const getBandwidth = (bitratePerChannel: number) => {
+  const kbps = bitratePerChannel / 1000;
+  if (kbps <= BANDWIDTH[0][0]) return BANDWIDTH[0][1];
+  for (let i = 1; i < BANDWIDTH.length; i++) {
+    const [rate, hz] = BANDWIDTH[i];
+    if (kbps <= rate) {
+      const [previousRate, previousHz] = BANDWIDTH[i - 1];
+      return previousHz + ((hz - previousHz) * (kbps - previousRate)) / (rate - previousRate);
+    }
+  }
+  return BANDWIDTH[BANDWIDTH.length - 1][1];
+};
+
+// Interface for an AAC encoder fed a window of audio at a time
+export interface AacEncoder {
+  // Encode the next window; returns the frames it completes
+  write: (channels: Float32Array[]) => Uint8Array;
+  // Encode the last frames and return them with the .m4a header that goes before all frames
+  finish: () => { data: Uint8Array; header: Uint8Array };
+}
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+};
+
+// Encode an AAC-LC stream at about bitrate kbit/s, a window at a time.
+// The .m4a header lists every frame's size, so it can only be written once all frames are.
+export const createAacEncoder = (sampleRate: number, channelCount: number, bitrate: number): AacEncoder => {
+  const rateIndex = AAC_SAMPLE_RATES.indexOf(sampleRate);
+  if (rateIndex < 0) {
+    throw new Error(`AAC does not support a sample rate of ${sampleRate} Hz.`);
+  }
+  if (channelCount < 1 || channelCount > AAC_MAX_CHANNELS) {
+    throw new Error(`The AAC encoder supports 1 or ${AAC_MAX_CHANNELS} channels, got ${channelCount}.`);
+  }
+
+  const bandOffsets = LONG_WINDOW_BAND_OFFSETS[rateIndex];
+  const bitsPerSecond = bitrate * 1000;
+
+  // Bands that start above the bandwidth are never coded
+  const cutoffLine = (getBandwidth(bitsPerSecond / channelCount) / (sampleRate / 2)) * AAC_FRAME_LENGTH;
+  let maxBand = 0;
+  while (maxBand < bandOffsets.length - 1 && bandOffsets[maxBand] < cutoffLine) maxBand++;
+
+  const window = new Float32Array(WINDOW_LENGTH);
+  for (let n = 0; n < WINDOW_LENGTH; n++) {
+    window[n] = Math.sin((Math.PI / WINDOW_LENGTH) * (n + 0.5));
+  }
+  const mdct = createMdct();
+  const block = new Float32Array(WINDOW_LENGTH);
+
+  const frameBudget = (bitsPerSecond * AAC_FRAME_LENGTH) / sampleRate;
+  const maxReservoir = Math.max(0, MAX_CHANNEL_BITS * channelCount - frameBudget);
+  let reservoir = 0;
+  let previousOffset = 0;
+  const frameSizes: number[] = [];
+  let length = 0;
+
+  // Frame f transforms samples [(f - 1) * 1024, (f + 1) * 1024): the previous frame's input
+  // and its own, so decoded audio lags the input by one frame. Both are kept at 16-bit integer
+  // scale, which decoders work at; the previous one starts as silence.
+  let previous = Array.from({ length: channelCount }, () => new Float32Array(AAC_FRAME_LENGTH));
+  let current = Array.from({ length: channelCount }, () => new Float32Array(AAC_FRAME_LENGTH));
+  let filled = 0;
+
+  const encodeFrame = (): Uint8Array => {
+    const spectra = current.map((samples, c) => {
+      for (let n = 0; n < AAC_FRAME_LENGTH; n++) {
+        block[n] = previous[c][n] * window[n];
+        block[n + AAC_FRAME_LENGTH] = samples[n] * window[n + AAC_FRAME_LENGTH];
+      }
+      const lines = new Float32Array(AAC_FRAME_LENGTH);
+      mdct(block, lines);
+      return analyzeSpectrum(lines, bandOffsets, maxBand);
+    });
+
+    // Finest offset whose frame fits the target; larger offsets mean coarser steps.
+    // Neighbouring frames need similar offsets, so the search brackets the previous one.
+    const target = Math.min(frameBudget + reservoir / 4, MAX_CHANNEL_BITS * channelCount) - 16;
+    const quantize = (offset: number) =>
+      spectra.map((spectrum) => quantizeChannel(spectrum, bandOffsets, maxBand, offset));
+    const fits = (attempt: QuantizedChannel[]) =>
+      attempt.reduce((sum, { bits }) => sum + bits, 0) <= target;
+
+    // Everything at low or below is too fine; high fits (or is the coarsest allowed)
+    let low = MIN_OFFSET - 1;
+    let high = previousOffset;
+    let quantized = quantize(high);
+    let step = 1;
+    if (fits(quantized)) {
+      while (high > low + 1) {
+        const probe = Math.max(low + 1, high - step);
+        const attempt = quantize(probe);
+        if (!fits(attempt)) {
+          low = probe;
+          break;
+        }
+        high = probe;
+        quantized = attempt;
+        step *= 2;
+      }
+    } else {
+      low = high;
+      while (high < MAX_OFFSET) {
+        high = Math.min(MAX_OFFSET, low + step);
+        quantized = quantize(high);
+        if (fits(quantized)) break;
+        low = high;
+        step *= 2;
+      }
+    }
+    while (high - low > 1) {
+      const middle = (low + high) >> 1;
+      const attempt = quantize(middle);
+      if (fits(attempt)) {
+        high = middle;
+        quantized = attempt;
+      } else {
+        low = middle;
+      }
+    }
+    previousOffset = high;
+
+    // Even the coarsest steps may not fit a channel's hard limit; drop bands from the top
+    quantized = quantized.map((channel, c) => {
+      let band = channel.maxBand;
+      while (channel.bits > MAX_CHANNEL_BITS - 16 && band > 0) {
+        band--;
+        channel = quantizeChannel(spectra[c], bandOffsets, band, high);
+      }
+      return channel;
+    });
+
+    const writer = createBitWriter();
+    if (channelCount === 1) {
+      writer.write(ID_SCE, 3);
+      writer.write(0, 4);
+    } else {
+      writer.write(ID_CPE, 3);
+      writer.write(0, 4);
+      // Each channel has its own ics_info
+      writer.write(0, 1);
+    }
+    quantized.forEach((channel) => writeChannel(writer, channel, bandOffsets));
+    writer.write(ID_END, 3);
+    writer.alignToByte();
+
+    const bytes = writer.getBytes();
+    frameSizes.push(bytes.length);
+    reservoir = Math.max(0, Math.min(maxReservoir, reservoir + frameBudget - bytes.length * 8));
+
+    [previous, current] = [current, previous];
+    current.forEach((samples) => samples.fill(0));
+    filled = 0;
+    return bytes;
+  };
+
+  return {
+    write: (channels) => {
+      const frames: Uint8Array[] = [];
+      const count = channels[0]?.length ?? 0;
+      for (let start = 0; start < count; ) {
+        const take = Math.min(AAC_FRAME_LENGTH - filled, count - start);
+        channels.forEach((samples, c) => {
+          for (let i = 0; i < take; i++) {
+            current[c][filled + i] = samples[start + i] * 32768;
+          }
+        });
+        filled += take;
+        start += take;
+        if (filled === AAC_FRAME_LENGTH) frames.push(encodeFrame());
+      }
+      length += count;
+      return concat(frames);
+    },
+
+    finish: () => {
+      // The last partial frame is padded with silence; one frame more flushes the overlap
+      const frames: Uint8Array[] = [];
+      if (filled > 0) frames.push(encodeFrame());
+      frames.push(encodeFrame());
+
+      // AudioSpecificConfig: AAC-LC (2), frequency index, channel configuration, 1024-sample frames
+      const decoderConfig = new Uint8Array([
+        (2 << 3) | (rateIndex >> 1),
+        ((rateIndex & 1) << 7) | (channelCount << 3)
+      ]);
+
+      const header = writeM4aHeader({
+        sampleRate,
+        channelCount,
+        decoderConfig,
+        frameSizes,
+        frameLength: AAC_FRAME_LENGTH,
+        delay: AAC_FRAME_LENGTH,
+        length,
+        bitrate: bitsPerSecond
+      });
+      return { data: concat(frames), header };
+    }
+  };
+};
+
+// Encode per-channel float samples as an AAC-LC .m4a file at about bitrate kbit/s
+export const encodeAac = (audio: PCMAudio, bitrate: number): Uint8Array => {
+  const encoder = createAacEncoder(audio.sampleRate, audio.channels.length, bitrate);
+  const frames = encoder.write(audio.channels);
+  const { data, header } = encoder.finish();
+  return concat([header, frames, data]);
+};
@@ -0,0 +1,196 @@
+import { NativeModules, Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { requireOptionalNativeModule } from 'expo-modules-core';
+import { base64ToBytes } from './base64';
+import { PCMAudio, WavFormat, decodeWavSamples, isWav, parseWavHeader } from './wav';
+
+// Native module that decodes compressed audio to a WAV file with the platform codec
+// (MediaCodec on Android, see AudioDecoderModule.kt; AVAudioFile on iOS, see
+// modules/audio-native)
+interface NativeAudioDecoder {
+  decodeToWav(inputUri: string, outputUri: string): Promise<string>;
+}
+
+// Android registers a React Native module, iOS an Expo module
+const nativeDecoder: NativeAudioDecoder | undefined =
+  NativeModules.AudioDecoder ?? requireOptionalNativeModule('AudioDecoder') ?? undefined;
+
+// Interface for audio read a window at a time instead of all at once
+export interface AudioStream {
+  sampleRate: number;
+  channelCount: number;
+  // Length in sample frames
+  length: number;
+  // Read count frames starting at frame start, one array per channel
+  read: (start: number, count: number) => Promise<Float32Array[]>;
+  // Release the stream and any temporary files behind it
+  close: () => Promise<void>;
+}
+
+// How much of a WAV file to read when looking for its data chunk
+const WAV_HEADER_PROBE_SIZE = 64 * 1024;
+
+// Read the raw bytes of a file URI
+export const readFileBytes = async (uri: string): Promise<Uint8Array> => {
+  if (Platform.OS === 'web') {
+    const response = await fetch(uri);
+    if (!response.ok) {
+      throw new Error(`Failed to read ${uri} (HTTP ${response.status}).`);
+    }
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  const base64 = await FileSystem.readAsStringAsync(uri, {
+    encoding: FileSystem.EncodingType.Base64
+  });
+  return base64ToBytes(base64);
+};
+
+// Read a byte range of a native file URI without loading the rest of it
+export const readFileRange = async (
+  uri: string,
+  position: number,
+  length: number
+): Promise<Uint8Array> => {
+  const base64 = await FileSystem.readAsStringAsync(uri, {
+    encoding: FileSystem.EncodingType.Base64,
+    position,
+    length
+  });
+  return base64ToBytes(base64);
+};
+
+// Safari before 14.1 only has the prefixed constructor
+type WebAudioWindow = Window & { webkitAudioContext?: typeof AudioContext };
+
+// Decode compressed audio with the browser's Web Audio decoder
+const webDecodeAudio = async (bytes: Uint8Array): Promise<PCMAudio> => {
+  const AudioContextClass = window.AudioContext ?? (window as WebAudioWindow).webkitAudioContext;
+  if (!AudioContextClass) {
+    throw new Error('This browser cannot decode compressed audio. Please use a WAV file.');
+  }
+  const context = new AudioContextClass();
+
+  try {
+    // decodeAudioData detaches the buffer it is given, so hand it a copy
+    const data = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+    const buffer = await context.decodeAudioData(data as ArrayBuffer);
+    return {
+      sampleRate: buffer.sampleRate,
+      channels: Array.from({ length: buffer.numberOfChannels }, (_, c) =>
+        buffer.getChannelData(c).slice()
+      ),
+    };
+  } finally {
+    context.close();
+  }
+};
+
+// Interface for random access to the bytes of a file
+export interface RangeReader {
+  size: number;
+  read: (position: number, length: number) => Promise<Uint8Array>;
+}
+
+// Create a byte range reader for a file URI
+export const openRangeReader = async (uri: string): Promise<RangeReader> => {
+  if (Platform.OS === 'web') {
+    const response = await fetch(uri);
+    if (!response.ok) {
+      throw new Error(`Failed to read ${uri} (HTTP ${response.status}).`);
+    }
+    const blob = await response.blob();
+    return {
+      size: blob.size,
+      read: async (position: number, length: number) =>
+        new Uint8Array(await blob.slice(position, position + length).arrayBuffer())
+    };
+  }
+
+  const info = await FileSystem.getInfoAsync(uri, { size: true });
+  if (!info.exists) {
+    throw new Error(`File not found: ${uri}`);
+  }
+  return {
+    size: info.size,
+    read: (position: number, length: number) => readFileRange(uri, position, length)
+  };
+};
+
+// Stream a WAV file straight from disk
+const openWavStream = async (
+  reader: RangeReader,
+  onClose?: () => Promise<void>
+): Promise<AudioStream> => {
+  let header = await reader.read(0, Math.min(reader.size, WAV_HEADER_PROBE_SIZE));
+  let format: WavFormat;
+  try {
+    format = parseWavHeader(header, reader.size);
+  } catch (err) {
+    // Large metadata chunks can push the data chunk past the probe; read the whole header area
+    if (header.length >= reader.size) throw err;
+    header = await reader.read(0, reader.size);
+    format = parseWavHeader(header, reader.size);
+  }
+
+  const frameSize = format.channelCount * (format.bitsPerSample / 8);
+  const { dataOffset } = format;
+
+  return {
+    sampleRate: format.sampleRate,
+    channelCount: format.channelCount,
+    length: Math.floor(format.dataSize / frameSize),
+    read: async (start, count) => {
+      const bytes = await reader.read(dataOffset + start * frameSize, count * frameSize);
+      return decodeWavSamples(bytes, format);
+    },
+    close: async () => {
+      await onClose?.();
+    }
+  };
+};
+
+// Stream over audio that is already decoded in memory
+const openMemoryStream = ({ sampleRate, channels }: PCMAudio): AudioStream => ({
+  sampleRate,
+  channelCount: channels.length,
+  length: channels[0]?.length ?? 0,
+  read: async (start, count) => channels.map((samples) => samples.slice(start, start + count)),
+  close: async () => {}
+});
+
+// Open an audio file for reading a window at a time.
+// WAV files are read from disk as needed. Compressed files are decoded first: natively to a
+// temporary WAV file that is then streamed. On web the browser can only decode a whole file at
+// once, so compressed input is the one case held fully in memory; its size is bounded by the
+// source length rather than kept constant.
+export const openAudioStream = async (uri: string): Promise<AudioStream> => {
+  let stream: AudioStream;
+  const reader = await openRangeReader(uri);
+
+  if (isWav(await reader.read(0, 12))) {
+    stream = await openWavStream(reader);
+  } else if (Platform.OS === 'web') {
+    stream = openMemoryStream(await webDecodeAudio(await readFileBytes(uri)));
+  } else {
+    if (!nativeDecoder) {
+      throw new Error('Decoding compressed audio is not supported on this device. Please use a WAV file.');
+    }
+    const wavUri = `${FileSystem.cacheDirectory}decoded_${Date.now()}.wav`;
+    const removeWav = () => FileSystem.deleteAsync(wavUri, { idempotent: true });
+    try {
+      await nativeDecoder.decodeToWav(uri, wavUri);
+      stream = await openWavStream(await openRangeReader(wavUri), removeWav);
+    } catch (err) {
+      await removeWav();
+      throw err;
+    }
+  }
+
+  if (stream.channelCount === 0 || stream.length === 0) {
+    await stream.close();
+    throw new Error('The audio file contains no samples.');
+  }
+
+  return stream;
+};
@@ -0,0 +1,228 @@
+import { PCMAudio } from './wav';
+import { AudioStream } from './audioDecoder';
+
+// Sample rate and channel layout conversion.
+// Resampling uses a Kaiser-windowed sinc filter evaluated at the exact input position of
+// every output sample, so any ratio works (44.1k <-> 48k included) and the output is the same
+// whether a signal is converted whole or a window at a time.
+
+// Interface for a target format; anything left out is kept as it is
+export interface AudioFormat {
+  sampleRate?: number;
+  channelCount?: number;
+}
+
+// Separation always runs at this rate
+export const INTERNAL_SAMPLE_RATE = 44100;
+
+// Zero crossings of the sinc on each side of the center; more is sharper and slower
+const ZERO_CROSSINGS = 32;
+
+// Passband as a fraction of the lower Nyquist frequency
+const ROLLOFF = 0.95;
+
+// Kaiser window shape; 9 gives roughly 90 dB of stopband attenuation
+const KAISER_BETA = 9;
+
+// Filter table resolution in entries per input sample; values in between are interpolated
+const TABLE_RESOLUTION = 512;
+
+// Downmix weight of the center and surround channels (-3 dB)
+const SURROUND_WEIGHT = Math.SQRT1_2;
+
+// Interface for a prepared sample rate converter
+interface Resampler {
+  // Output samples per input sample
+  ratio: number;
+  // Input samples on each side of an output sample that contribute to it
+  halfWidth: number;
+  // Output length for an input of the given length
+  getOutputLength: (inputLength: number) => number;
+  // Compute output samples [start, start + count) from input that begins at input index offset.
+  // Input outside the given samples is treated as silence.
+  process: (input: Float32Array, offset: number, start: number, count: number) => Float32Array;
+}
+
+// Zeroth-order modified Bessel function of the first kind, for the Kaiser window
+const besselI0 = (x: number): number => {
+  let sum = 1;
+  let term = 1;
+  for (let k = 1; k < 50; k++) {
+    term *= (x / (2 * k)) * (x / (2 * k));
+    sum += term;
+    if (term < sum * 1e-12) break;
+  }
+  return sum;
+};
+
+// Build a converter between two sample rates
+const createResampler = (fromRate: number, toRate: number): Resampler => {
+  if (!(fromRate > 0 && toRate > 0)) {
+    throw new Error(`Cannot resample from ${fromRate} Hz to ${toRate} Hz.`);
+  }
+
+  const ratio = toRate / fromRate;
+  // Cutoff in cycles per input sample: below the lower of the two Nyquist frequencies
+  const cutoff = 0.5 * Math.min(1, ratio) * ROLLOFF;
+  const halfWidth = Math.ceil(ZERO_CROSSINGS / (2 * cutoff));
+
+  // One side of the symmetric filter, indexed by distance in input samples
+  const tableLength = halfWidth * TABLE_RESOLUTION + 2;
+  const table = new Float32Array(tableLength);
+  const norm = besselI0(KAISER_BETA);
+  for (let i = 0; i < tableLength; i++) {
+    const distance = i / TABLE_RESOLUTION;
+    if (distance >= halfWidth) break;
+    const x = 2 * cutoff * distance;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    const position = distance / halfWidth;
+    const window = besselI0(KAISER_BETA * Math.sqrt(1 - position * position)) / norm;
+    table[i] = 2 * cutoff * sinc * window;
+  }
+
+  const tap = (distance: number) => {
+    const scaled = Math.abs(distance) * TABLE_RESOLUTION;
+    const index = Math.floor(scaled);
+    const fraction = scaled - index;
+    return table[index] + (table[index + 1] - table[index]) * fraction;
+  };
+
+  return {
+    ratio,
+    halfWidth,
+    getOutputLength: (inputLength) => Math.round(inputLength * ratio),
+    process: (input, offset, start, count) => {
+      const output = new Float32Array(count);
+      for (let n = 0; n < count; n++) {
+        // Exact input position of this output sample
+        const time = (start + n) / ratio;
+        const center = Math.floor(time);
+        const from = Math.max(center - halfWidth + 1, offset);
+        const to = Math.min(center + halfWidth, offset + input.length - 1);
+        let sum = 0;
+        for (let k = from; k <= to; k++) {
+          sum += input[k - offset] * tap(time - k);
+        }
+        output[n] = sum;
+      }
+      return output;
+    }
+  };
+};
+
+// Resample every channel of a buffer
+export const resample = (audio: PCMAudio, sampleRate: number): PCMAudio => {
+  if (audio.sampleRate === sampleRate) return audio;
+
+  const resampler = createResampler(audio.sampleRate, sampleRate);
+  return {
+    sampleRate,
+    channels: audio.channels.map((samples) =>
+      resampler.process(samples, 0, 0, resampler.getOutputLength(samples.length))
+    )
+  };
+};
+
+// Convert between channel counts.
+// Down to mono averages every channel. Down to stereo from more channels assumes the usual
+// WAV order (L, R, C, LFE, Ls, Rs, ...): center and surrounds are folded in at -3 dB and the
+// LFE is dropped. Up-mixing copies mono to the first two channels, or the existing channels
+// into the first ones, and leaves the rest silent.
+export const remixChannels = (channels: Float32Array[], channelCount: number): Float32Array[] => {
+  const sourceCount = channels.length;
+  if (sourceCount === channelCount || sourceCount === 0) return channels;
+  if (channelCount < 1) {
+    throw new Error(`Invalid channel count ${channelCount}.`);
+  }
+  const length = channels[0].length;
+
+  if (channelCount === 1) {
+    const mono = new Float32Array(length);
+    for (const samples of channels) {
+      for (let i = 0; i < length; i++) {
+        mono[i] += samples[i] / sourceCount;
+      }
+    }
+    return [mono];
+  }
+
+  if (channelCount === 2 && sourceCount > 2) {
+    const [left, right] = [channels[0].slice(), channels[1].slice()];
+    for (let c = 2; c < sourceCount; c++) {
+      // The LFE carries nothing a stereo mix should keep
+      if (c === 3) continue;
+      const samples = channels[c];
+      // Center goes to both sides, further channels alternate left and right
+      const toLeft = c === 2 || c % 2 === 0;
+      const toRight = c === 2 || c % 2 === 1;
+      for (let i = 0; i < length; i++) {
+        if (toLeft) left[i] += samples[i] * SURROUND_WEIGHT;
+        if (toRight) right[i] += samples[i] * SURROUND_WEIGHT;
+      }
+    }
+    return [left, right];
+  }
+
+  const output = Array.from({ length: channelCount }, () => new Float32Array(length));
+  if (sourceCount === 1) {
+    output[0].set(channels[0]);
+    output[1].set(channels[0]);
+  } else {
+    for (let c = 0; c < Math.min(sourceCount, channelCount); c++) {
+      output[c].set(channels[c]);
+    }
+  }
+  return output;
+};
+
+// Convert a buffer to a target format
+export const convertAudio = (audio: PCMAudio, format: AudioFormat): PCMAudio => {
+  const channels = format.channelCount
+    ? remixChannels(audio.channels, format.channelCount)
+    : audio.channels;
+  const remixed = { sampleRate: audio.sampleRate, channels };
+  return format.sampleRate ? resample(remixed, format.sampleRate) : remixed;
+};
+
+// Convert a stream to a target format as it is read.
+// Each read fetches the input window its output depends on, filter margins included.
+export const convertStream = (stream: AudioStream, format: AudioFormat): AudioStream => {
+  const sampleRate = format.sampleRate ?? stream.sampleRate;
+  const channelCount = format.channelCount ?? stream.channelCount;
+  if (sampleRate === stream.sampleRate && channelCount === stream.channelCount) {
+    return stream;
+  }
+
+  const remix = (channels: Float32Array[]) => remixChannels(channels, channelCount);
+
+  if (sampleRate === stream.sampleRate) {
+    return {
+      ...stream,
+      channelCount,
+      read: async (start, count) => remix(await stream.read(start, count))
+    };
+  }
+
+  const resampler = createResampler(stream.sampleRate, sampleRate);
+  const length = resampler.getOutputLength(stream.length);
+
+  return {
+    sampleRate,
+    channelCount,
+    length,
+    read: async (start, count) => {
+      count = Math.max(0, Math.min(count, length - start));
+      const first = Math.max(0, Math.floor(start / resampler.ratio) - resampler.halfWidth + 1);
+      const last = Math.min(
+        stream.length - 1,
+        Math.floor((start + count - 1) / resampler.ratio) + resampler.halfWidth
+      );
+      const input = await stream.read(first, Math.max(0, last - first + 1));
+      // Remix first: it is cheaper on the lower channel count when down-mixing
+      const channels = channelCount < stream.channelCount ? remix(input) : input;
+      const output = channels.map((samples) => resampler.process(samples, first, start, count));
+      return channelCount < stream.channelCount ? output : remix(output);
+    },
+    close: () => stream.close()
+  };
+};
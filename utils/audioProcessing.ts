@@ -1,185 +1,619 @@
 import { Platform } from 'react-native';
-import * as FileSystem from 'expo-file-system';
-import { createTempDirectory, cleanupTempFiles } from './fileSystem';
+import { AudioStream, openAudioStream, openRangeReader } from './audioDecoder';
+import {
+  AudioEncoder,
+  DEFAULT_ENCODER_SETTINGS,
+  EncoderSettings,
+  getEncoder,
+  getSupportedSampleRate,
+  resolveEncoderSettings
+} from './encoders';
+import { convertStream } from './audioFormat';
+import { MaskTuning, QualityTier, SeparationMode, StemName } from './separation';
+import {
+  DEFAULT_ENGINE_ID,
+  StemTrack,
+  getEngine,
+  isEngineSupported
+} from './separationEngine';
+import { AudioMeasurement } from './mixdown';
+import { RenderJob, RenderResult } from './render';
+import { startRender } from './audioWorker';
+import { getCacheKey, getCachedResult, storeResult } from './resultCache';
+import { FileAppender, createFileAppender } from './fileWriter';
+import { discardJobOutput } from './fileSystem';
+import { createZipBuilder } from './zip';
+import { encodeUtf8 } from './utf8';
+import { AudioTags, StemInfo, withStemInfo } from './metadata';
+import {
+  JobOptions,
+  ProcessingStage,
+  createProgressReporter,
+  isCancelledError,
+  throwIfCancelled,
+  yieldToEventLoop
+} from './progress';
 
 // Interface for processing result
-interface ProcessingResult {
+export interface ProcessingResult {
   success: boolean;
-  vocalTrack?: string;
-  instrumentalTrack?: string;
+  stems?: StemTrack[];
   error?: string;
+  cancelled?: boolean;
+  // True when the stems came from the result cache
+  cached?: boolean;
+}
+
+// Interface for one input to a merge
+export interface MixInput {
+  uri: string;
+  volume: number;
+  // Stem the track holds; recorded in the output's tags when every input has one
+  name?: StemName;
+}
+
+// Interface for the loudness measurements taken during a merge
+export interface MixMeasurements {
+  // One per input track, in order, at its mixer volume
+  tracks: AudioMeasurement[];
+  mix: AudioMeasurement;
+  // Gain applied to reach the loudness target, in dB
+  normalizationGainDb: number;
 }
 
 // Interface for merging result
 interface MergeResult {
   success: boolean;
   outputUri?: string;
+  measurements?: MixMeasurements;
+  error?: string;
+  cancelled?: boolean;
+}
+
+// Options accepted by processingAudio
+export interface ProcessingOptions extends JobOptions {
+  // Separation engine to use; defaults to the built-in spectral engine
+  engineId?: string;
+  // Which set of stems to separate into; defaults to the engine's first stem set
+  mode?: SeparationMode;
+  // Defaults to the engine's first quality tier
+  quality?: QualityTier;
+  // Advanced mask settings, for engines that support them
+  tuning?: MaskTuning;
+  // Set to false to always run the engine; defaults to true
+  useCache?: boolean;
+}
+
+// Options accepted by mergeAudioTracks
+export interface MergeOptions extends JobOptions {
+  // Output sample rate; defaults to the first track's rate
+  sampleRate?: number;
+  // Output channel count; defaults to the most channels among the tracks
+  channelCount?: number;
+  // Integrated loudness to normalize the mix to, in LUFS; leave out to keep the mixer levels
+  loudnessTarget?: number;
+  // Output file format; defaults to 16-bit WAV. The sample rate and channel count are moved
+  // to the nearest ones the format supports.
+  encoder?: EncoderSettings;
+  // Tags for the output files; a STEM_INFO field describing each file is added
+  tags?: AudioTags;
+}
+
+// Interface for one stem to export on its own
+export interface StemInput extends MixInput {
+  name: StemName;
+}
+
+// Options accepted by exportStems
+export interface StemExportOptions extends MergeOptions {
+  // Apply each stem's mixer volume to its file; by default the stems are written as separated
+  applyGain?: boolean;
+  // Pack the stems, their mix and a manifest into one ZIP instead of writing separate files.
+  // The loudness target only applies to the mix.
+  bundle?: boolean;
+}
+
+// Interface for a written export file
+export interface ExportedFile {
+  // Name to offer when downloading or sharing
+  name: string;
+  // Blob URL on web, cache file URI on native
+  uri: string;
+  mimeType: string;
+}
+
+// Interface for the manifest.json of a stem bundle; levels that measure as silence are null
+export interface StemManifest {
+  version: 1;
+  createdAt: string;
+  format: EncoderSettings & { sampleRate: number; channelCount: number };
+  // Whether the stem files have their mixer volume applied
+  gainApplied: boolean;
+  loudnessTarget: number | null;
+  stems: { name: StemName; file: string; volume: number }[];
+  mix: {
+    file: string;
+    integratedLufs: number | null;
+    truePeakDb: number | null;
+    normalizationGainDb: number;
+  };
+}
+
+// Interface for stem export result
+interface StemExportResult {
+  success: boolean;
+  files?: ExportedFile[];
+  // One per stem file, in order, as written
+  stemMeasurements?: AudioMeasurement[];
+  // Bundles only: measurements of the mix inside
+  measurements?: MixMeasurements;
   error?: string;
+  cancelled?: boolean;
 }
 
-// Web-specific functions for WebAssembly processing
-const webProcessAudio = async (audioUri: string): Promise<ProcessingResult> => {
+// Rough share of the total time spent in each stage, used for overall progress and ETA.
+// A merge with a loudness target reads the tracks twice: once to measure the mix, once to
+// render it.
+const MERGE_STAGES: [ProcessingStage, number][] = [['encode', 1]];
+const NORMALIZED_MERGE_STAGES: [ProcessingStage, number][] = [
+  ['mix', 0.4],
+  ['encode', 0.6]
+];
+
+// Stem exports render every stem (and for bundles, the mix as well) as one stage
+const STEM_EXPORT_STAGES: [ProcessingStage, number][] = [['encode', 1]];
+
+const MANIFEST_FILE_NAME = 'manifest.json';
+const ZIP_MIME_TYPE = 'application/zip';
+
+const CANCELLED_MESSAGE = 'Processing was cancelled.';
+
+// Main processing function: runs the chosen separation engine
+export const processingAudio = async (
+  audioUri: string,
+  options: ProcessingOptions = {}
+): Promise<ProcessingResult> => {
+  const engine = getEngine(options.engineId ?? DEFAULT_ENGINE_ID);
+  if (!engine || !isEngineSupported(engine)) {
+    return { success: false, error: 'The selected separation engine is not available.' };
+  }
+
+  const mode = options.mode ?? engine.stemSets[0];
+  if (!engine.stemSets.includes(mode)) {
+    return { success: false, error: `${engine.name} does not support this stem set.` };
+  }
+
+  const quality = options.quality && engine.qualityTiers.includes(options.quality)
+    ? options.quality
+    : engine.qualityTiers[0];
+
+  // A failing cache never fails the separation; it only costs the speed-up
+  let cacheKey: string | null = null;
+  if (options.useCache !== false) {
+    try {
+      cacheKey = await getCacheKey(audioUri, engine, { mode, quality, tuning: options.tuning });
+      const cachedStems = await getCachedResult(cacheKey);
+      if (cachedStems) {
+        return { success: true, stems: cachedStems, cached: true };
+      }
+    } catch (error) {
+      console.warn('Stem cache lookup failed:', error);
+    }
+  }
+
   try {
-    // In a real implementation, this would:
-    // 1. Load the WebAssembly module
-    // 2. Pass the audio data to the module
-    // 3. Get separated tracks back from the module
-    
-    // For demo purposes, we'll simulate the processing
-    await new Promise(resolve => setTimeout(resolve, 3000)); // Simulate processing time
-    
-    // Create simulated output URIs
-    // In a real implementation, these would be Blob URLs to the processed audio
-    const vocalTrack = `${audioUri}_vocals`;
-    const instrumentalTrack = `${audioUri}_instrumental`;
-    
+    let stems = await engine.process(audioUri, {
+      mode,
+      quality,
+      tuning: options.tuning,
+      onProgress: options.onProgress,
+      signal: options.signal
+    });
+
+    if (cacheKey) {
+      try {
+        stems = await storeResult(cacheKey, engine, stems);
+      } catch (error) {
+        console.warn('Storing stems in the cache failed:', error);
+      }
+    }
+
     return {
       success: true,
-      vocalTrack,
-      instrumentalTrack
+      stems
     };
   } catch (error) {
-    console.error('Web audio processing error:', error);
+    if (isCancelledError(error)) {
+      return { success: false, cancelled: true, error: CANCELLED_MESSAGE };
+    }
+    console.error(`Audio processing error (${engine.id}):`, error);
     return {
       success: false,
-      error: 'Failed to process audio with WebAssembly.'
+      error: `Failed to process audio with the ${engine.name} engine.`
     };
   }
 };
 
-// Native-specific functions for audio processing
-const nativeProcessAudio = async (audioUri: string): Promise<ProcessingResult> => {
+// Interface for the output format of a render, resolved against the encoder
+interface OutputFormat {
+  settings: EncoderSettings;
+  encoder: AudioEncoder;
+  sampleRate: number;
+  channelCount?: number;
+}
+
+// Helper: the encoder and the sample rate and channel count it can store.
+// Without a chosen rate, the first track's rate (or the nearest one the format supports) is used.
+const resolveOutputFormat = (options: MergeOptions, firstSampleRate: number): OutputFormat => {
+  const settings = options.encoder ?? DEFAULT_ENCODER_SETTINGS;
+  const encoder = getEncoder(settings.format);
+  return {
+    settings,
+    encoder,
+    sampleRate: getSupportedSampleRate(encoder, options.sampleRate ?? firstSampleRate),
+    channelCount: options.channelCount === undefined
+      ? undefined
+      : Math.min(options.channelCount, encoder.maxChannels)
+  };
+};
+
+// Frames read from every track per step while rendering
+const RENDER_WINDOW_FRAMES = 65536;
+
+// Bytes copied per step when a file's body is moved behind its header
+const COPY_CHUNK_SIZE = 1024 * 1024;
+
+const closeStreams = async (streams: AudioStream[]) => {
+  await Promise.all(streams.map((stream) => stream.close()));
+};
+
+// Helper: open every track, converting it to the output format as it is read.
+// Tracks with more channels than the format holds are downmixed.
+const openTracks = async (
+  tracks: MixInput[],
+  options: MergeOptions
+): Promise<{ format: OutputFormat; streams: AudioStream[] }> => {
+  const sources: AudioStream[] = [];
   try {
-    // In a real implementation, this would use a native module
-    // or connect to a server for processing
-    
-    // For demo purposes, we'll simulate the processing
-    await new Promise(resolve => setTimeout(resolve, 3000)); // Simulate processing time
-    
-    // Create simulated output files in the cache directory
-    const tempDir = await createTempDirectory();
-    const vocalTrack = `${tempDir}vocals.mp3`;
-    const instrumentalTrack = `${tempDir}instrumental.mp3`;
-    
-    // In a real implementation, we would actually create these files
-    // with the processed audio data
-    
-    // For demo, we'll just copy the original file as a placeholder
-    await FileSystem.copyAsync({
-      from: audioUri,
-      to: vocalTrack
-    });
-    
-    await FileSystem.copyAsync({
-      from: audioUri,
-      to: instrumentalTrack
-    });
-    
-    return {
-      success: true,
-      vocalTrack,
-      instrumentalTrack
-    };
+    for (const { uri } of tracks) {
+      sources.push(await openAudioStream(uri));
+    }
   } catch (error) {
-    console.error('Native audio processing error:', error);
-    return {
-      success: false,
-      error: 'Failed to process audio on device.'
+    await closeStreams(sources);
+    throw error;
+  }
+
+  const format = resolveOutputFormat(options, sources[0].sampleRate);
+  const { encoder, channelCount } = format;
+  const streams = sources.map((source) =>
+    convertStream(source, {
+      sampleRate: format.sampleRate,
+      channelCount:
+        channelCount ?? (source.channelCount > encoder.maxChannels ? encoder.maxChannels : undefined)
+    })
+  );
+  return { format, streams };
+};
+
+// Helper: read the window at start from every stream; streams that have ended give empty windows
+const readWindows = (streams: AudioStream[], start: number): Promise<Float32Array[][]> =>
+  Promise.all(
+    streams.map((stream) => {
+      const count = Math.min(RENDER_WINDOW_FRAMES, stream.length - start);
+      return count > 0
+        ? stream.read(start, count)
+        : Promise.resolve(Array.from({ length: stream.channelCount }, () => new Float32Array(0)));
+    })
+  );
+
+// Helper: render one file from the streams a window at a time, handing its bytes to write in
+// order. With a loudness target the streams are read twice, to measure and then to render.
+// A header that depends on the whole file is written last: the rest waits in a temporary file
+// and is copied in behind it.
+const renderFile = async (
+  streams: AudioStream[],
+  job: RenderJob,
+  write: (bytes: Uint8Array) => Promise<void>,
+  signal: AbortSignal | undefined,
+  onProgress: (stage: ProcessingStage, fraction: number) => void
+): Promise<RenderResult> => {
+  const put = async (bytes: Uint8Array) => {
+    if (bytes.length > 0) await write(bytes);
+  };
+
+  const render = await startRender(job, signal);
+  let body: FileAppender | null = null;
+  let bodyUri: string | null = null;
+  try {
+    if (render.header) {
+      await put(render.header);
+    } else {
+      body = await createFileAppender(`render_${Date.now()}.tmp`);
+    }
+    const putBody = async (bytes: Uint8Array) => {
+      if (bytes.length > 0) await (body ? body.append(bytes) : write(bytes));
     };
+
+    const stages: ProcessingStage[] = job.loudnessTarget === undefined ? ['encode'] : ['mix', 'encode'];
+    for (const stage of stages) {
+      onProgress(stage, 0);
+      for (let start = 0; start < job.length; start += RENDER_WINDOW_FRAMES) {
+        const windows = await readWindows(streams, start);
+        throwIfCancelled(signal);
+        if (stage === 'mix') {
+          await render.analyze(windows);
+        } else {
+          await putBody(await render.write(windows));
+        }
+        onProgress(stage, Math.min(1, (start + RENDER_WINDOW_FRAMES) / job.length));
+        await yieldToEventLoop();
+      }
+    }
+
+    const output = await render.finish();
+    await putBody(output.data);
+    if (body && output.header) {
+      await put(output.header);
+      bodyUri = await body.close();
+      body = null;
+      const reader = await openRangeReader(bodyUri);
+      for (let position = 0; position < reader.size; position += COPY_CHUNK_SIZE) {
+        await put(await reader.read(position, Math.min(COPY_CHUNK_SIZE, reader.size - position)));
+        throwIfCancelled(signal);
+      }
+    }
+    await put(output.trailer);
+    return output.result;
+  } finally {
+    render.close();
+    await body?.abort();
+    if (bodyUri) await discardJobOutput([bodyUri]);
   }
 };
 
-// Main processing function
-export const processingAudio = async (audioUri: string): Promise<ProcessingResult> => {
-  if (Platform.OS === 'web') {
-    return webProcessAudio(audioUri);
-  } else {
-    return nativeProcessAudio(audioUri);
+// Helper: the tags of an output file, with its STEM_INFO field
+const getFileTags = (info: StemInfo | null, tags: AudioTags = {}) =>
+  info ? withStemInfo(tags, info) : tags;
+
+// Helper: STEM_INFO of a mix, or null when a track has no stem name
+const getMixInfo = (tracks: MixInput[]): StemInfo | null =>
+  tracks.every(({ name }) => name)
+    ? { type: 'mix', stems: tracks.map(({ name, volume }) => ({ name: name!, volume })), gainApplied: true }
+    : null;
+
+// Helper: the job that mixes the streams with the tracks' volumes, normalizes the loudness if
+// asked and limits the sum. Tracks were converted to the output format as they are read, so the
+// limiter sees the final signal.
+const getMixJob = (
+  tracks: MixInput[],
+  streams: AudioStream[],
+  format: OutputFormat,
+  options: MergeOptions
+): RenderJob => ({
+  sampleRate: format.sampleRate,
+  length: Math.max(...streams.map((stream) => stream.length)),
+  tracks: streams.map((stream, i) => ({ channelCount: stream.channelCount, gain: tracks[i].volume })),
+  mix: true,
+  loudnessTarget: options.loudnessTarget,
+  settings: format.settings,
+  tags: getFileTags(getMixInfo(tracks), options.tags)
+});
+
+// Helper shared by both platforms: mix the tracks a window at a time and write the result.
+// Returns a Blob URL on web and a cache file URI on native, with the measurements.
+// A cancelled or failed merge leaves no file behind.
+const renderMix = async (
+  tracks: MixInput[],
+  options: MergeOptions
+): Promise<{ outputUri: string; measurements: MixMeasurements }> => {
+  const report = createProgressReporter(
+    options.loudnessTarget === undefined ? MERGE_STAGES : NORMALIZED_MERGE_STAGES,
+    options.onProgress
+  );
+  const { format, streams } = await openTracks(tracks, options);
+
+  try {
+    const { encoder } = format;
+    const output = await createFileAppender(`mixed_${Date.now()}.${encoder.extension}`, {
+      mimeType: encoder.mimeType
+    });
+    try {
+      const { inputs, output: mix, normalizationGainDb } = await renderFile(
+        streams,
+        getMixJob(tracks, streams, format, options),
+        output.append,
+        options.signal,
+        report
+      );
+      const outputUri = await output.close();
+      report('encode', 1);
+      return { outputUri, measurements: { tracks: inputs, mix, normalizationGainDb } };
+    } catch (error) {
+      await output.abort();
+      throw error;
+    }
+  } finally {
+    await closeStreams(streams);
   }
 };
 
-// Web-specific function for merging audio
-const webMergeAudio = async (
-  vocalUri: string,
-  instrumentalUri: string,
-  vocalVolume: number,
-  instrumentalVolume: number
+// Main merging function: renders any combination of stems with their volumes
+export const mergeAudioTracks = async (
+  tracks: MixInput[],
+  options: MergeOptions = {}
 ): Promise<MergeResult> => {
+  if (tracks.length === 0) {
+    return { success: false, error: 'Select at least one track to export.' };
+  }
+
   try {
-    // In a real implementation, this would:
-    // 1. Load both audio tracks
-    // 2. Mix them together with the specified volumes
-    // 3. Create a new audio file
-    
-    // For demo purposes, we'll simulate the merging
-    await new Promise(resolve => setTimeout(resolve, 2000)); // Simulate processing time
-    
-    // Create a simulated output URI
-    // In a real implementation, this would be a Blob URL to the merged audio
-    const outputUri = `mixed_${Date.now()}.mp3`;
-    
-    return {
-      success: true,
-      outputUri
-    };
+    const { outputUri, measurements } = await renderMix(tracks, options);
+    return { success: true, outputUri, measurements };
   } catch (error) {
-    console.error('Web audio merging error:', error);
+    if (isCancelledError(error)) {
+      return { success: false, cancelled: true, error: CANCELLED_MESSAGE };
+    }
+    console.error('Audio merging error:', error);
     return {
       success: false,
-      error: 'Failed to merge audio tracks in browser.'
+      error: Platform.OS === 'web'
+        ? 'Failed to merge audio tracks in browser.'
+        : 'Failed to merge audio tracks on device.'
     };
   }
 };
 
-// Native-specific function for merging audio
-const nativeMergeAudio = async (
-  vocalUri: string,
-  instrumentalUri: string,
-  vocalVolume: number,
-  instrumentalVolume: number
-): Promise<MergeResult> => {
-  try {
-    // In a real implementation, this would use a native module
-    // to mix the audio tracks
-    
-    // For demo purposes, we'll simulate the merging
-    await new Promise(resolve => setTimeout(resolve, 2000)); // Simulate processing time
-    
-    // Create a simulated output file in the cache directory
-    const outputUri = `${FileSystem.cacheDirectory}mixed_${Date.now()}.mp3`;
-    
-    // In a real implementation, we would actually create this file
-    // with the merged audio data
-    
-    // For demo, we'll just copy one of the input files as a placeholder
-    await FileSystem.copyAsync({
-      from: vocalUri,
-      to: outputUri
-    });
-    
+// Helper: JSON has no infinities, and silence measures as -Infinity
+const finiteOrNull = (value: number) => (Number.isFinite(value) ? value : null);
+
+// Helper: write each stem as a file, or all of them with their mix and a manifest as one ZIP,
+// rendering one file at a time. A cancelled or failed export leaves no files behind.
+const renderStems = async (
+  stems: StemInput[],
+  options: StemExportOptions
+): Promise<{ files: ExportedFile[]; stemMeasurements: AudioMeasurement[]; measurements?: MixMeasurements }> => {
+  const report = createProgressReporter(STEM_EXPORT_STAGES, options.onProgress);
+  const { format, streams } = await openTracks(stems, options);
+  const { encoder, settings } = format;
+  const gainApplied = options.applyGain ?? false;
+  const timestamp = Date.now();
+  const fileNames = stems.map(({ name }) => `${name}.${encoder.extension}`);
+  const fileCount = stems.length + (options.bundle ? 1 : 0);
+
+  // Each file is an equal share of the stage; a mix measured first splits its share in two
+  const getFileProgress = (file: number, twoPass: boolean) => (stage: ProcessingStage, fraction: number) =>
+    report('encode', (file + (twoPass ? (stage === 'encode' ? 0.5 : 0) + fraction / 2 : fraction)) / fileCount);
+
+  // A stem with its gain applied goes through the same peak limiter as the full mix; otherwise
+  // it is written as separated
+  const getStemJob = (i: number): RenderJob => {
+    const { name, volume } = stems[i];
     return {
-      success: true,
-      outputUri
+      sampleRate: format.sampleRate,
+      length: streams[i].length,
+      tracks: [{ channelCount: streams[i].channelCount, gain: gainApplied ? volume : 1 }],
+      mix: gainApplied,
+      settings,
+      tags: getFileTags({ type: 'stem', stems: [{ name, volume }], gainApplied }, options.tags)
     };
-  } catch (error) {
-    console.error('Native audio merging error:', error);
-    return {
-      success: false,
-      error: 'Failed to merge audio tracks on device.'
+  };
+  // Every stem file is measured as it is written, in both kinds of export
+  const stemMeasurements: AudioMeasurement[] = [];
+  const renderStem = async (i: number, write: (bytes: Uint8Array) => Promise<void>) => {
+    const result = await renderFile([streams[i]], getStemJob(i), write, options.signal, getFileProgress(i, false));
+    stemMeasurements.push(result.output);
+    return result;
+  };
+
+  try {
+    report('encode', 0);
+
+    if (!options.bundle) {
+      const files: ExportedFile[] = [];
+      try {
+        for (let i = 0; i < stems.length; i++) {
+          const output = await createFileAppender(`${stems[i].name}_${timestamp}.${encoder.extension}`, {
+            mimeType: encoder.mimeType
+          });
+          try {
+            await renderStem(i, output.append);
+            files.push({ name: fileNames[i], uri: await output.close(), mimeType: encoder.mimeType });
+          } catch (error) {
+            await output.abort();
+            throw error;
+          }
+        }
+      } catch (error) {
+        await discardJobOutput(files.map(({ uri }) => uri));
+        throw error;
+      }
+      report('encode', 1);
+      return { files, stemMeasurements };
+    }
+
+    // The archive is written entry by entry as each file is rendered
+    const zip = createZipBuilder();
+    const archive = await createFileAppender(`stems_${timestamp}.zip`, { mimeType: ZIP_MIME_TYPE });
+    const addEntry = async (name: string, render: (write: (bytes: Uint8Array) => Promise<void>) => Promise<RenderResult>) => {
+      const { header, writer } = zip.startEntry(name);
+      await archive.append(header);
+      const result = await render((bytes) => archive.append(writer.write(bytes)));
+      await archive.append(writer.finish());
+      return result;
     };
+
+    try {
+      for (let i = 0; i < stems.length; i++) {
+        await addEntry(fileNames[i], (write) => renderStem(i, write));
+      }
+
+      // The mix needs the stems at their mixer volumes, whatever is applied to the stem files
+      const mixFileName = `mix.${encoder.extension}`;
+      const mixJob = getMixJob(stems, streams, format, options);
+      const mix = await addEntry(mixFileName, (write) =>
+        renderFile(streams, mixJob, write, options.signal, getFileProgress(stems.length, mixJob.loudnessTarget !== undefined))
+      );
+
+      const manifest: StemManifest = {
+        version: 1,
+        createdAt: new Date(timestamp).toISOString(),
+        format: {
+          ...resolveEncoderSettings(settings),
+          sampleRate: format.sampleRate,
+          channelCount: Math.max(...mixJob.tracks.map(({ channelCount }) => channelCount))
+        },
+        gainApplied,
+        loudnessTarget: options.loudnessTarget ?? null,
+        stems: stems.map(({ name, volume }, i) => ({ name, file: fileNames[i], volume })),
+        mix: {
+          file: mixFileName,
+          integratedLufs: finiteOrNull(mix.output.integratedLufs),
+          truePeakDb: finiteOrNull(mix.output.truePeakDb),
+          normalizationGainDb: mix.normalizationGainDb
+        }
+      };
+      for (const part of zip.addEntry(MANIFEST_FILE_NAME, encodeUtf8(JSON.stringify(manifest, null, 2)))) {
+        await archive.append(part);
+      }
+      await archive.append(zip.finish());
+      const uri = await archive.close();
+      report('encode', 1);
+
+      return {
+        files: [{ name: 'stems.zip', uri, mimeType: ZIP_MIME_TYPE }],
+        stemMeasurements,
+        measurements: {
+          tracks: mix.inputs,
+          mix: mix.output,
+          normalizationGainDb: mix.normalizationGainDb
+        }
+      };
+    } catch (error) {
+      await archive.abort();
+      throw error;
+    }
+  } finally {
+    await closeStreams(streams);
   }
 };
 
-// Main merging function
-export const mergeAudioTracks = async (
-  vocalUri: string,
-  instrumentalUri: string,
-  vocalVolume: number,
-  instrumentalVolume: number
-): Promise<MergeResult> => {
-  if (Platform.OS === 'web') {
-    return webMergeAudio(vocalUri, instrumentalUri, vocalVolume, instrumentalVolume);
-  } else {
-    return nativeMergeAudio(vocalUri, instrumentalUri, vocalVolume, instrumentalVolume);
+// Stem export: writes each stem as its own file, or a ZIP bundle with the mix and a manifest
+export const exportStems = async (
+  stems: StemInput[],
+  options: StemExportOptions = {}
+): Promise<StemExportResult> => {
+  if (stems.length === 0) {
+    return { success: false, error: 'Select at least one track to export.' };
   }
-};
\ No newline at end of file
+
+  try {
+    const { files, stemMeasurements, measurements } = await renderStems(stems, options);
+    return { success: true, files, stemMeasurements, measurements };
+  } catch (error) {
+    if (isCancelledError(error)) {
+      return { success: false, cancelled: true, error: CANCELLED_MESSAGE };
+    }
+    console.error('Stem export error:', error);
+    return { success: false, error: 'Failed to export the stems.' };
+  }
+};
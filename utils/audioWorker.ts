@@ -0,0 +1,216 @@
+import { Platform } from 'react-native';
+import { PCMAudio } from './wav';
+import { SeparatedStems, SeparationOptions, separateStems } from './separation';
+import { RenderJob, RenderOutput, createRenderSession } from './render';
+import { CancelledError, throwIfCancelled } from './progress';
+import { WorkerRequest, WorkerResponse, getTransferables } from '../workers/audioWorkerProtocol';
+
+// Runs separation, mixing and encoding in a Web Worker on web so the UI stays responsive.
+// Everywhere else, or when the worker script cannot be loaded, the work runs on the calling
+// thread exactly as before.
+
+// Built from workers/audioWorker.ts by `npm run build:worker` and served from public/
+const WORKER_URL = '/audio-worker.js';
+
+// Interface for a request waiting for its reply
+interface PendingRequest {
+  resolve: (response: WorkerResponse) => void;
+  reject: (error: Error) => void;
+  onProgress?: (fraction: number) => void;
+}
+
+let workerPromise: Promise<Worker | null> | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, PendingRequest>();
+
+// Start the worker once and wait for it to report ready; resolves null if it cannot start
+const getWorker = (): Promise<Worker | null> => {
+  if (!workerPromise) {
+    workerPromise = new Promise((resolve) => {
+      if (Platform.OS !== 'web' || typeof Worker === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      let worker: Worker;
+      try {
+        worker = new Worker(WORKER_URL);
+      } catch (err) {
+        console.warn('Audio worker unavailable, processing on the main thread', err);
+        resolve(null);
+        return;
+      }
+
+      worker.onerror = (event) => {
+        // A failure before the ready message means the script did not load
+        console.warn('Audio worker unavailable, processing on the main thread', event.message);
+        worker.terminate();
+        resolve(null);
+      };
+
+      worker.onmessage = ({ data }: MessageEvent<WorkerResponse>) => {
+        if (data.type === 'ready') {
+          worker.onerror = (event) => {
+            console.error('Audio worker error:', event.message);
+            for (const request of pending.values()) {
+              request.reject(new Error(event.message || 'Audio worker failed.'));
+            }
+            pending.clear();
+          };
+          resolve(worker);
+          return;
+        }
+
+        const request = pending.get(data.id);
+        if (!request) return;
+
+        if (data.type === 'progress') {
+          request.onProgress?.(data.fraction);
+          return;
+        }
+
+        pending.delete(data.id);
+        if (data.type === 'error') {
+          request.reject(data.cancelled ? new CancelledError() : new Error(data.message));
+        } else {
+          request.resolve(data);
+        }
+      };
+    });
+  }
+  return workerPromise;
+};
+
+// Send a request and wait for its reply. Cancelling rejects at once; a late reply is ignored.
+const request = (
+  worker: Worker,
+  id: number,
+  message: WorkerRequest,
+  transfer: Transferable[],
+  signal?: AbortSignal,
+  onProgress?: (fraction: number) => void
+): Promise<WorkerResponse> => {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      pending.delete(id);
+      const cancel: WorkerRequest = { type: 'cancel', id };
+      worker.postMessage(cancel);
+      reject(new CancelledError());
+    };
+
+    pending.set(id, {
+      resolve: (response) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(response);
+      },
+      reject: (error) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+      onProgress
+    });
+    signal?.addEventListener('abort', onAbort);
+    worker.postMessage(message, transfer);
+  });
+};
+
+const unexpectedReply = () => new Error('Unexpected reply from the audio worker.');
+
+// Separate stems in the worker when available.
+// The input's sample buffers are transferred to the worker and unusable afterwards.
+export const runSeparation = async (
+  audio: PCMAudio,
+  options: SeparationOptions = {}
+): Promise<SeparatedStems> => {
+  const worker = await getWorker();
+  if (!worker) {
+    return separateStems(audio, options);
+  }
+  throwIfCancelled(options.signal);
+
+  const id = nextRequestId++;
+  const response = await request(
+    worker,
+    id,
+    {
+      type: 'separate',
+      id,
+      mode: options.mode ?? 'two-stem',
+      quality: options.quality,
+      tuning: options.tuning,
+      audio
+    },
+    getTransferables([audio]),
+    options.signal,
+    options.onProgress
+  );
+
+  if (response.type !== 'separated') {
+    throw unexpectedReply();
+  }
+  const stems: SeparatedStems = {};
+  for (const { name, audio: stem } of response.stems) {
+    stems[name] = stem;
+  }
+  return stems;
+};
+
+// Interface for a render running in the worker or on this thread (see utils/render.ts)
+export interface RenderHandle {
+  header: Uint8Array | null;
+  analyze: (windows: Float32Array[][]) => Promise<void>;
+  write: (windows: Float32Array[][]) => Promise<Uint8Array>;
+  finish: () => Promise<RenderOutput>;
+  // Give up on the render; does nothing once it has finished
+  close: () => void;
+}
+
+// Render a file in the worker when available.
+// The windows passed in are transferred to the worker and unusable afterwards.
+export const startRender = async (job: RenderJob, signal?: AbortSignal): Promise<RenderHandle> => {
+  const worker = await getWorker();
+  if (!worker) {
+    const render = createRenderSession(job);
+    return {
+      header: render.header,
+      analyze: async (windows) => render.analyze(windows),
+      write: async (windows) => render.write(windows),
+      finish: async () => render.finish(),
+      close: () => {}
+    };
+  }
+  throwIfCancelled(signal);
+
+  const session = nextRequestId++;
+  const send = (build: (id: number) => WorkerRequest, windows: Float32Array[][] = []) => {
+    const id = nextRequestId++;
+    return request(worker, id, build(id), getTransferables(windows.map((channels) => ({ channels }))), signal);
+  };
+
+  const started = await send((id) => ({ type: 'render-start', id, session, job }));
+  if (started.type !== 'render-started') {
+    throw unexpectedReply();
+  }
+
+  return {
+    header: started.header,
+    analyze: async (windows) => {
+      const response = await send((id) => ({ type: 'render-analyze', id, session, windows }), windows);
+      if (response.type !== 'render-analyzed') throw unexpectedReply();
+    },
+    write: async (windows) => {
+      const response = await send((id) => ({ type: 'render-write', id, session, windows }), windows);
+      if (response.type !== 'render-written') throw unexpectedReply();
+      return response.bytes;
+    },
+    finish: async () => {
+      const response = await send((id) => ({ type: 'render-finish', id, session }));
+      if (response.type !== 'render-finished') throw unexpectedReply();
+      return response.output;
+    },
+    close: () => {
+      const message: WorkerRequest = { type: 'render-close', session };
+      worker.postMessage(message);
+    }
+  };
+};
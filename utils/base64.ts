@@ -0,0 +1,64 @@
+// Base64 helpers for moving binary audio data through expo-file-system,
+// which only reads and writes strings on native platforms
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// Reverse lookup table from character code to 6-bit value
+const LOOKUP = (() => {
+  const table = new Uint8Array(256).fill(255);
+  for (let i = 0; i < ALPHABET.length; i++) {
+    table[ALPHABET.charCodeAt(i)] = i;
+  }
+  return table;
+})();
+
+// Decode a base64 string into raw bytes
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+  const byteLength = Math.floor((clean.length * 3) / 4);
+  const bytes = new Uint8Array(byteLength);
+
+  let byteIndex = 0;
+  for (let i = 0; i < clean.length; i += 4) {
+    const a = LOOKUP[clean.charCodeAt(i)];
+    const b = LOOKUP[clean.charCodeAt(i + 1)];
+    const c = i + 2 < clean.length ? LOOKUP[clean.charCodeAt(i + 2)] : 0;
+    const d = i + 3 < clean.length ? LOOKUP[clean.charCodeAt(i + 3)] : 0;
+    const triple = (a << 18) | (b << 12) | (c << 6) | d;
+
+    if (byteIndex < byteLength) bytes[byteIndex++] = (triple >> 16) & 0xff;
+    if (byteIndex < byteLength) bytes[byteIndex++] = (triple >> 8) & 0xff;
+    if (byteIndex < byteLength) bytes[byteIndex++] = triple & 0xff;
+  }
+
+  return bytes;
+};
+
+// Encode raw bytes as a base64 string
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  const parts: string[] = [];
+  // Build the output in slices to avoid huge intermediate strings
+  const SLICE = 3 * 4096;
+
+  for (let start = 0; start < bytes.length; start += SLICE) {
+    const end = Math.min(start + SLICE, bytes.length);
+    let out = '';
+
+    for (let i = start; i < end; i += 3) {
+      const remaining = end - i;
+      const triple =
+        (bytes[i] << 16) |
+        ((remaining > 1 ? bytes[i + 1] : 0) << 8) |
+        (remaining > 2 ? bytes[i + 2] : 0);
+
+      out += ALPHABET[(triple >> 18) & 0x3f];
+      out += ALPHABET[(triple >> 12) & 0x3f];
+      out += remaining > 1 ? ALPHABET[(triple >> 6) & 0x3f] : '=';
+      out += remaining > 2 ? ALPHABET[triple & 0x3f] : '=';
+    }
+
+    parts.push(out);
+  }
+
+  return parts.join('');
+};
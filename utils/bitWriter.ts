@@ -0,0 +1,61 @@
+// Most significant bit first writer for the FLAC and AAC bitstreams
+
+// Interface for a growing bitstream
+export interface BitWriter {
+  // Write the low count bits of value (count up to 32)
+  write: (value: number, count: number) => void;
+  // Write count zero bits followed by a one
+  writeUnary: (count: number) => void;
+  // Pad with zero bits up to the next byte boundary
+  alignToByte: () => void;
+  // Bits written so far
+  getBitLength: () => number;
+  // The bytes written so far; the last one is zero padded
+  getBytes: () => Uint8Array;
+}
+
+const INITIAL_CAPACITY = 4096;
+
+export const createBitWriter = (): BitWriter => {
+  let buffer = new Uint8Array(INITIAL_CAPACITY);
+  let bytePosition = 0;
+  // Bits already used in the current byte
+  let bitPosition = 0;
+
+  const advance = () => {
+    bytePosition++;
+    bitPosition = 0;
+    if (bytePosition === buffer.length) {
+      const grown = new Uint8Array(buffer.length * 2);
+      grown.set(buffer);
+      buffer = grown;
+    }
+  };
+
+  const write = (value: number, count: number) => {
+    while (count > 0) {
+      const free = 8 - bitPosition;
+      const take = free < count ? free : count;
+      const chunk = (value >>> (count - take)) & ((1 << take) - 1);
+      buffer[bytePosition] |= chunk << (free - take);
+      count -= take;
+      bitPosition += take;
+      if (bitPosition === 8) advance();
+    }
+  };
+
+  return {
+    write,
+    writeUnary: (count) => {
+      for (; count >= 32; count -= 32) {
+        write(0, 32);
+      }
+      write(1, count + 1);
+    },
+    alignToByte: () => {
+      if (bitPosition > 0) advance();
+    },
+    getBitLength: () => bytePosition * 8 + bitPosition,
+    getBytes: () => buffer.slice(0, bytePosition + (bitPosition > 0 ? 1 : 0))
+  };
+};
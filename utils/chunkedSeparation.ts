@@ -0,0 +1,87 @@
+import { PCMAudio } from './wav';
+import { AudioStream } from './audioDecoder';
+import { SeparatedStems, StemName } from './separation';
+import { throwIfCancelled } from './progress';
+
+// Interface for chunked separation options
+export interface ChunkedSeparationOptions {
+  // Called with the fraction of the input processed, 0..1
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+// Separates one chunk; fraction reports progress within the chunk
+export type ChunkSeparator = (
+  audio: PCMAudio,
+  onProgress: (fraction: number) => void
+) => Promise<SeparatedStems>;
+
+// Receives each stem's finished samples in order, one block at a time
+export type StemWriter = (name: StemName, channels: Float32Array[]) => Promise<void>;
+
+// Length of each chunk and of the overlap crossfaded between neighbouring chunks.
+// The overlap hides the edge effects of separating each chunk on its own.
+const CHUNK_SECONDS = 30;
+const OVERLAP_SECONDS = 2;
+
+// Raised-cosine fade-in; the matching fade-out is 1 - fade, so the two always sum to 1
+const createFade = (length: number): Float32Array => {
+  const fade = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    fade[i] = 0.5 - 0.5 * Math.cos((Math.PI * (i + 0.5)) / length);
+  }
+  return fade;
+};
+
+// Separate a stream in overlapping chunks and hand the stems to write as they are finished.
+// Only one chunk and the overlap tails are held at a time, so memory does not grow with the
+// input length. Because the fades sum to 1, stems that sum to their chunk still sum to the input.
+export const separateInChunks = async (
+  stream: AudioStream,
+  separate: ChunkSeparator,
+  write: StemWriter,
+  options: ChunkedSeparationOptions = {}
+): Promise<void> => {
+  const { sampleRate, length } = stream;
+  const chunkLength = Math.round(CHUNK_SECONDS * sampleRate);
+  const overlap = Math.round(OVERLAP_SECONDS * sampleRate);
+  const hop = chunkLength - overlap;
+  // Every chunk after the first is longer than the overlap
+  const chunkCount = length <= chunkLength ? 1 : Math.ceil((length - overlap) / hop);
+  const fade = createFade(overlap);
+
+  // End of the previous chunk's stems, still to be crossfaded
+  const tails: Partial<Record<StemName, Float32Array[]>> = {};
+
+  for (let k = 0; k < chunkCount; k++) {
+    throwIfCancelled(options.signal);
+    const start = k * hop;
+    const count = Math.min(chunkLength, length - start);
+    const last = k === chunkCount - 1;
+
+    const channels = await stream.read(start, count);
+    const stems = await separate({ sampleRate, channels }, (fraction) =>
+      options.onProgress?.((k + fraction) / chunkCount)
+    );
+
+    for (const name of Object.keys(stems) as StemName[]) {
+      const output = stems[name]!.channels;
+
+      const tail = tails[name];
+      if (tail) {
+        for (let c = 0; c < output.length; c++) {
+          for (let i = 0; i < overlap; i++) {
+            output[c][i] = tail[c][i] * (1 - fade[i]) + output[c][i] * fade[i];
+          }
+        }
+      }
+
+      // Hold back the overlap for the next chunk
+      const end = last ? count : count - overlap;
+      await write(name, output.map((samples) => samples.subarray(0, end)));
+      tails[name] = last ? undefined : output.map((samples) => samples.slice(end));
+    }
+  }
+
+  options.onProgress?.(1);
+};
@@ -0,0 +1,170 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import type { ExportedFile } from './audioProcessing';
+import { appendBase64 } from './fileWriter';
+
+// Saving exported files where the user can find them outside the app:
+// - Android: a folder the user picks through the Storage Access Framework; the grant is
+//   remembered, so the picker only shows again if it is revoked or the user changes folder
+// - iOS: the app's Music folder, which the Files app lists under On My iPhone/iPad (the photo
+//   library behind the media library API only takes images and videos)
+// - Web: a browser download
+
+// Interface for where a file ended up
+export interface SaveResult {
+  success: boolean;
+  // Name of the saved file, after resolving collisions
+  name?: string;
+  // Readable description of the folder, for telling the user
+  location?: string;
+  // The user declined to pick a folder
+  cancelled?: boolean;
+  error?: string;
+}
+
+const { StorageAccessFramework } = FileSystem;
+
+const SETTINGS_URI = `${FileSystem.documentDirectory}storage.json`;
+const IOS_FOLDER = 'Music';
+const IOS_DIR = `${FileSystem.documentDirectory}${IOS_FOLDER}/`;
+
+// Bytes copied into a SAF document per step, so a long export is never in memory as a whole
+const COPY_RANGE_SIZE = 1024 * 1024;
+
+// Interface for the remembered save settings
+interface StorageSettings {
+  // Android: the tree URI the user granted access to
+  directoryUri?: string;
+}
+
+const loadSettings = async (): Promise<StorageSettings> => {
+  try {
+    const info = await FileSystem.getInfoAsync(SETTINGS_URI);
+    return info.exists ? JSON.parse(await FileSystem.readAsStringAsync(SETTINGS_URI)) : {};
+  } catch (err) {
+    console.warn('Storage settings unreadable, starting empty', err);
+    return {};
+  }
+};
+
+const saveSettings = (settings: StorageSettings) =>
+  FileSystem.writeAsStringAsync(SETTINGS_URI, JSON.stringify(settings));
+
+// Split "song.mp3" into "song" and ".mp3"; names without an extension keep an empty one
+const splitExtension = (name: string): [string, string] => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+};
+
+// Pick a name that is not taken, as "song (1).mp3", "song (2).mp3" and so on.
+// Shared storage is case-insensitive, so names are compared that way.
+export const resolveFileName = (name: string, taken: string[]): string => {
+  const existing = new Set(taken.map((entry) => entry.toLowerCase()));
+  if (!existing.has(name.toLowerCase())) return name;
+
+  const [base, extension] = splitExtension(name);
+  for (let n = 1; ; n++) {
+    const candidate = `${base} (${n})${extension}`;
+    if (!existing.has(candidate.toLowerCase())) return candidate;
+  }
+};
+
+// The last path segment of a file or SAF document URI, decoded.
+// SAF URIs encode the document path, as in ".../document/primary%3AMusic%2Fsong.mp3".
+const getUriName = (uri: string): string => {
+  const decoded = decodeURIComponent(uri);
+  return decoded.slice(decoded.lastIndexOf('/') + 1);
+};
+
+// A readable name for a SAF tree URI: "primary:Music/Stems" becomes "Music/Stems"
+const describeTreeUri = (uri: string): string => {
+  const path = decodeURIComponent(uri.slice(uri.indexOf('/tree/') + 6));
+  const relative = path.slice(path.indexOf(':') + 1);
+  return relative || 'the selected storage';
+};
+
+// Ask for a folder and remember it; returns null if the user backed out
+const requestAndroidDirectory = async (): Promise<string | null> => {
+  const permission = await StorageAccessFramework.requestDirectoryPermissionsAsync();
+  if (!permission.granted) return null;
+
+  await saveSettings({ ...(await loadSettings()), directoryUri: permission.directoryUri });
+  return permission.directoryUri;
+};
+
+const saveToAndroid = async (file: ExportedFile, chooseFolder: boolean): Promise<SaveResult> => {
+  let directoryUri = chooseFolder ? null : (await loadSettings()).directoryUri ?? null;
+
+  // A remembered folder can stop working if the grant was revoked or the folder removed
+  let existing: string[] | null = null;
+  if (directoryUri) {
+    try {
+      existing = await StorageAccessFramework.readDirectoryAsync(directoryUri);
+    } catch (err) {
+      console.warn('Saved folder no longer accessible, asking again', err);
+      directoryUri = null;
+    }
+  }
+  if (!directoryUri) {
+    directoryUri = await requestAndroidDirectory();
+    if (!directoryUri) return { success: false, cancelled: true };
+    existing = await StorageAccessFramework.readDirectoryAsync(directoryUri);
+  }
+
+  const name = resolveFileName(file.name, existing!.map(getUriName));
+  // Created as a generic binary: with the real type, document providers may append a second
+  // extension when theirs differs from ours (audio/x-wav for .wav, for example)
+  const uri = await StorageAccessFramework.createFileAsync(directoryUri, name, 'application/octet-stream');
+  try {
+    const info = await FileSystem.getInfoAsync(file.uri, { size: true });
+    if (!info.exists) {
+      throw new Error(`File not found: ${file.uri}`);
+    }
+    for (let position = 0; position < info.size; position += COPY_RANGE_SIZE) {
+      const data = await FileSystem.readAsStringAsync(file.uri, {
+        encoding: FileSystem.EncodingType.Base64,
+        position,
+        length: Math.min(COPY_RANGE_SIZE, info.size - position)
+      });
+      await appendBase64(uri, data);
+    }
+  } catch (err) {
+    await StorageAccessFramework.deleteAsync(uri, { idempotent: true }).catch(() => {});
+    throw err;
+  }
+
+  // The provider has the last word on the name
+  return { success: true, name: getUriName(uri), location: describeTreeUri(directoryUri) };
+};
+
+const saveToIos = async (file: ExportedFile): Promise<SaveResult> => {
+  await FileSystem.makeDirectoryAsync(IOS_DIR, { intermediates: true });
+  const name = resolveFileName(file.name, await FileSystem.readDirectoryAsync(IOS_DIR));
+  await FileSystem.copyAsync({ from: file.uri, to: `${IOS_DIR}${name}` });
+  return { success: true, name, location: `the ${IOS_FOLDER} folder of this app in the Files app` };
+};
+
+const saveToWeb = (file: ExportedFile): SaveResult => {
+  const link = document.createElement('a');
+  link.href = file.uri;
+  link.download = file.name;
+  link.click();
+  // The browser resolves collisions itself
+  return { success: true, name: file.name, location: 'your downloads folder' };
+};
+
+// Save an exported file to the device.
+// On Android, chooseFolder shows the folder picker even if a folder is remembered.
+export const saveToDevice = async (
+  file: ExportedFile,
+  { chooseFolder = false }: { chooseFolder?: boolean } = {}
+): Promise<SaveResult> => {
+  try {
+    if (Platform.OS === 'web') return saveToWeb(file);
+    if (Platform.OS === 'android') return await saveToAndroid(file, chooseFolder);
+    return await saveToIos(file);
+  } catch (err) {
+    console.error('Error saving file to device:', err);
+    return { success: false, error: err instanceof Error ? err.message : String(err) };
+  }
+};
@@ -0,0 +1,198 @@
+import { WavBitDepth, encodeWavHeader, encodeWavSamples } from './wav';
+import { createFlacEncoder } from './flac';
+import { AAC_MAX_CHANNELS, AAC_SAMPLE_RATES, createAacEncoder } from './aac';
+import { MP3_MAX_CHANNELS, MP3_SAMPLE_RATES, createMp3Encoder } from './mp3';
+
+// Export formats behind one encoder interface.
+// Every encoder is plain JavaScript with no platform codecs involved, so web and native
+// produce the same bytes for the same audio and settings.
+
+export type ExportFormat = 'wav' | 'flac' | 'aac' | 'mp3';
+
+// Interface for the settings of one export
+export interface EncoderSettings {
+  format: ExportFormat;
+  // Lossless formats only; defaults to the encoder's default
+  bitDepth?: number;
+  // Lossy formats only, in kbit/s; defaults to the encoder's default
+  bitrate?: number;
+}
+
+// Interface for the audio a stream will carry
+export interface StreamFormat {
+  sampleRate: number;
+  channelCount: number;
+  // Length in sample frames
+  length: number;
+}
+
+// Interface for an encoder fed a window of audio at a time
+export interface EncoderStream {
+  // Bytes that start the file, or null when they depend on all the audio and come from finish
+  header: Uint8Array | null;
+  // Encode the next window; returns the bytes it completes
+  write: (channels: Float32Array[]) => Uint8Array;
+  // Encode what is still buffered; returns the last bytes and the header if it was held back
+  finish: () => { data: Uint8Array; header: Uint8Array | null };
+}
+
+const EMPTY = new Uint8Array(0);
+
+// Interface for an audio encoder
+export interface AudioEncoder {
+  format: ExportFormat;
+  name: string;
+  // File extension without the dot
+  extension: string;
+  mimeType: string;
+  lossless: boolean;
+  // Choices offered for lossless formats; empty for lossy ones
+  bitDepths: number[];
+  defaultBitDepth?: number;
+  // Choices offered for lossy formats, in kbit/s; empty for lossless ones
+  bitrates: number[];
+  defaultBitrate?: number;
+  // Sample rates the format can store; undefined means any
+  sampleRates?: number[];
+  maxChannels: number;
+  createStream: (format: StreamFormat, settings: EncoderSettings) => EncoderStream;
+}
+
+// Sample rates above this are not offered for AAC: the .m4a sample entry cannot hold them
+const AAC_MAX_SAMPLE_RATE = 48000;
+
+export const ENCODERS: AudioEncoder[] = [
+  {
+    format: 'wav',
+    name: 'WAV',
+    extension: 'wav',
+    mimeType: 'audio/wav',
+    lossless: true,
+    bitDepths: [16, 24, 32],
+    defaultBitDepth: 16,
+    bitrates: [],
+    maxChannels: 8,
+    createStream: ({ sampleRate, channelCount, length }, settings) => {
+      const bitDepth = (settings.bitDepth ?? 16) as WavBitDepth;
+      const dataSize = length * channelCount * (bitDepth / 8);
+      return {
+        header: encodeWavHeader(sampleRate, channelCount, bitDepth, dataSize),
+        write: (channels) => encodeWavSamples(channels, bitDepth),
+        finish: () => ({ data: EMPTY, header: null })
+      };
+    }
+  },
+  {
+    format: 'flac',
+    name: 'FLAC',
+    extension: 'flac',
+    mimeType: 'audio/flac',
+    lossless: true,
+    bitDepths: [16, 24],
+    defaultBitDepth: 16,
+    bitrates: [],
+    maxChannels: 8,
+    createStream: ({ sampleRate, channelCount, length }, settings) => {
+      const encoder = createFlacEncoder(sampleRate, channelCount, length, settings.bitDepth === 24 ? 24 : 16);
+      return {
+        header: encoder.header,
+        write: encoder.write,
+        finish: () => ({ data: encoder.finish(), header: null })
+      };
+    }
+  },
+  {
+    format: 'aac',
+    name: 'AAC (M4A)',
+    extension: 'm4a',
+    mimeType: 'audio/mp4',
+    lossless: false,
+    bitDepths: [],
+    bitrates: [96, 128, 192, 256],
+    defaultBitrate: 192,
+    sampleRates: AAC_SAMPLE_RATES.filter((rate) => rate <= AAC_MAX_SAMPLE_RATE),
+    maxChannels: AAC_MAX_CHANNELS,
+    createStream: ({ sampleRate, channelCount }, settings) => {
+      const encoder = createAacEncoder(sampleRate, channelCount, settings.bitrate ?? 192);
+      return { header: null, write: encoder.write, finish: encoder.finish };
+    }
+  },
+  {
+    format: 'mp3',
+    name: 'MP3',
+    extension: 'mp3',
+    mimeType: 'audio/mpeg',
+    lossless: false,
+    bitDepths: [],
+    bitrates: [128, 192, 256, 320],
+    defaultBitrate: 192,
+    sampleRates: MP3_SAMPLE_RATES,
+    maxChannels: MP3_MAX_CHANNELS,
+    createStream: ({ sampleRate, channelCount }, settings) => {
+      const encoder = createMp3Encoder(sampleRate, channelCount, settings.bitrate ?? 192);
+      return {
+        header: EMPTY,
+        write: encoder.write,
+        finish: () => ({ data: encoder.finish(), header: null })
+      };
+    }
+  }
+];
+
+export const DEFAULT_ENCODER_SETTINGS: EncoderSettings = { format: 'wav', bitDepth: 16 };
+
+export const getEncoder = (format: ExportFormat): AudioEncoder => {
+  const encoder = ENCODERS.find((candidate) => candidate.format === format);
+  if (!encoder) {
+    throw new Error(`Unknown export format: ${format}`);
+  }
+  return encoder;
+};
+
+// Check whether an encoder can store audio at this sample rate
+export const supportsSampleRate = (encoder: AudioEncoder, sampleRate: number): boolean =>
+  !encoder.sampleRates || encoder.sampleRates.includes(sampleRate);
+
+// The sample rate to encode at: the requested one if the format can store it,
+// otherwise the closest one it can (the higher one on a tie)
+export const getSupportedSampleRate = (encoder: AudioEncoder, sampleRate: number): number => {
+  if (supportsSampleRate(encoder, sampleRate)) {
+    return sampleRate;
+  }
+  return encoder.sampleRates!.reduce((best, rate) => {
+    const distance = Math.abs(rate - sampleRate);
+    const bestDistance = Math.abs(best - sampleRate);
+    return distance < bestDistance || (distance === bestDistance && rate > best) ? rate : best;
+  });
+};
+
+// Fill in the encoder's defaults and replace options it does not offer
+export const resolveEncoderSettings = (settings: EncoderSettings): EncoderSettings => {
+  const encoder = getEncoder(settings.format);
+  return encoder.lossless
+    ? {
+        format: encoder.format,
+        bitDepth: encoder.bitDepths.includes(settings.bitDepth ?? 0)
+          ? settings.bitDepth
+          : encoder.defaultBitDepth
+      }
+    : {
+        format: encoder.format,
+        bitrate: encoder.bitrates.includes(settings.bitrate ?? 0)
+          ? settings.bitrate
+          : encoder.defaultBitrate
+      };
+};
+
+// Start encoding a stream of audio.
+// The audio must already be at a sample rate and channel count the format supports.
+export const createEncoderStream = (format: StreamFormat, settings: EncoderSettings): EncoderStream => {
+  const encoder = getEncoder(settings.format);
+  if (!supportsSampleRate(encoder, format.sampleRate)) {
+    throw new Error(`${encoder.name} does not support a sample rate of ${format.sampleRate} Hz.`);
+  }
+  if (format.channelCount > encoder.maxChannels) {
+    throw new Error(`${encoder.name} supports at most ${encoder.maxChannels} channels.`);
+  }
+  return encoder.createStream(format, resolveEncoderSettings(settings));
+};
@@ -0,0 +1,259 @@
+import { PCMAudio } from './wav';
+import { SeparatedStems, SeparationMode, StemName } from './separation';
+
+// Objective separation quality in the style of BSS Eval: each estimate is split into the part
+// explained by its own reference (target), by the other references (interference) and the
+// rest (artifacts). Projections use gains only, without BSS Eval's distortion filters, so the
+// numbers are comparable between runs of this harness but not with published museval scores.
+
+// Interface for the quality of one estimated stem, in dB; null when no window could be scored
+export interface SeparationMetrics {
+  // Signal to distortion ratio: overall quality
+  sdr: number | null;
+  // Signal to interference ratio: how little of the other sources leaks in
+  sir: number | null;
+  // Signal to artifacts ratio: how little the separation itself adds
+  sar: number | null;
+}
+
+export type StemMetrics = Partial<Record<StemName, SeparationMetrics>>;
+
+// Interface for the scores of one reference mixture
+export interface TrackEvaluation {
+  name: string;
+  stems: StemMetrics;
+}
+
+// Interface for a complete evaluation run, as written to JSON
+export interface EvaluationReport {
+  engine: { id: string; version: string };
+  mode: SeparationMode;
+  quality: string;
+  windowSeconds: number;
+  tracks: TrackEvaluation[];
+  // Mean over tracks, per stem
+  average: StemMetrics;
+  // Mean over every stem of every track
+  overall: SeparationMetrics;
+}
+
+// Interface for a metric that dropped below its baseline
+export interface Regression {
+  stem: StemName | 'overall';
+  metric: keyof SeparationMetrics;
+  baseline: number;
+  current: number | null;
+}
+
+// Scores are taken per window and the median kept, so a few silent or broken seconds
+// do not dominate a track
+export const EVALUATION_WINDOW_SECONDS = 1;
+
+// How far a metric may fall below the baseline before it counts as a regression, in dB
+export const DEFAULT_REGRESSION_TOLERANCE = 0.5;
+
+const METRICS: (keyof SeparationMetrics)[] = ['sdr', 'sir', 'sar'];
+
+// Windows whose reference is quieter than this (mean square) are skipped
+const SILENCE_THRESHOLD = 1e-8;
+
+const EPSILON = 1e-12;
+
+// Helper: inner product of two multichannel signals over a window
+const dot = (a: Float32Array[], b: Float32Array[], start: number, end: number): number => {
+  let sum = 0;
+  for (let c = 0; c < a.length; c++) {
+    const x = a[c];
+    const y = b[c];
+    for (let i = start; i < end; i++) {
+      sum += x[i] * y[i];
+    }
+  }
+  return sum;
+};
+
+// Solve a small linear system by Gaussian elimination with partial pivoting.
+// A lightly regularized diagonal keeps silent or identical references solvable.
+const solve = (matrix: number[][], vector: number[]): number[] => {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+  for (let i = 0; i < n; i++) {
+    a[i][i] += EPSILON * (1 + a[i][i]);
+  }
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) {
+        a[row][k] -= factor * a[col][k];
+      }
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) {
+      sum -= a[row][k] * x[k];
+    }
+    x[row] = sum / a[row][row];
+  }
+  return x;
+};
+
+const toDb = (numerator: number, denominator: number) =>
+  10 * Math.log10((numerator + EPSILON) / (denominator + EPSILON));
+
+// Median of the finite values, or null when there are none
+const medianOf = (values: number[]): number | null => {
+  const sorted = values.filter(Number.isFinite).sort((a, b) => a - b);
+  if (sorted.length === 0) return null;
+  const middle = sorted.length >> 1;
+  return sorted.length % 2 === 1 ? sorted[middle] : 0.5 * (sorted[middle - 1] + sorted[middle]);
+};
+
+// Mean of the values that are present, or null when there are none
+const meanOf = (values: (number | null | undefined)[]): number | null => {
+  const present = values.filter((value): value is number => typeof value === 'number');
+  return present.length > 0 ? present.reduce((sum, value) => sum + value, 0) / present.length : null;
+};
+
+// Score every estimated stem that has a reference. All references of the track take part in
+// the interference projection, so they should together make up the mixture.
+export const evaluateStems = (
+  references: SeparatedStems,
+  estimates: SeparatedStems,
+  windowSeconds = EVALUATION_WINDOW_SECONDS
+): StemMetrics => {
+  const names = Object.keys(references) as StemName[];
+  const sources = names.map((name) => references[name] as PCMAudio);
+  if (sources.length === 0) {
+    throw new Error('No reference stems to evaluate against.');
+  }
+
+  const { sampleRate } = sources[0];
+  const channelCount = sources[0].channels.length;
+  let length = Math.min(...sources.map(({ channels }) => channels[0]?.length ?? 0));
+
+  for (const audio of [...sources, ...Object.values(estimates)] as PCMAudio[]) {
+    if (audio.sampleRate !== sampleRate || audio.channels.length !== channelCount) {
+      throw new Error('Reference and estimated stems must share sample rate and channel count.');
+    }
+    length = Math.min(length, audio.channels[0]?.length ?? 0);
+  }
+
+  const windowLength = Math.max(1, Math.round(windowSeconds * sampleRate));
+  const result: StemMetrics = {};
+
+  for (const name of Object.keys(estimates) as StemName[]) {
+    const target = names.indexOf(name);
+    if (target < 0) continue;
+    const estimate = (estimates[name] as PCMAudio).channels;
+    const scores: Record<keyof SeparationMetrics, number[]> = { sdr: [], sir: [], sar: [] };
+
+    for (let start = 0; start + windowLength <= length; start += windowLength) {
+      const end = start + windowLength;
+      const reference = sources[target].channels;
+      const targetEnergy = dot(reference, reference, start, end);
+      if (targetEnergy / (windowLength * channelCount) < SILENCE_THRESHOLD) continue;
+
+      // Project the estimate onto the span of all references
+      const gram = sources.map((a) => sources.map((b) => dot(a.channels, b.channels, start, end)));
+      const projections = sources.map((source) => dot(source.channels, estimate, start, end));
+      const weights = solve(gram, projections);
+
+      // Energies of the parts, from inner products only:
+      // target = g * s_j, all = sum_i w_i * s_i, interference = all - target, artifacts = est - all
+      const gain = projections[target] / targetEnergy;
+      let allEnergy = 0;
+      for (let i = 0; i < sources.length; i++) {
+        for (let k = 0; k < sources.length; k++) {
+          allEnergy += weights[i] * weights[k] * gram[i][k];
+        }
+      }
+      let allDotTarget = 0;
+      for (let i = 0; i < sources.length; i++) {
+        allDotTarget += weights[i] * gram[i][target];
+      }
+      const estimateEnergy = dot(estimate, estimate, start, end);
+      const estimateDotAll = weights.reduce((sum, w, i) => sum + w * projections[i], 0);
+
+      const targetPart = gain * gain * targetEnergy;
+      const interference = Math.max(0, allEnergy - 2 * gain * allDotTarget + targetPart);
+      const artifacts = Math.max(0, estimateEnergy - 2 * estimateDotAll + allEnergy);
+      const distortion = Math.max(0, estimateEnergy - 2 * gain * projections[target] + targetPart);
+
+      scores.sdr.push(toDb(targetPart, distortion));
+      scores.sir.push(toDb(targetPart, interference));
+      scores.sar.push(toDb(allEnergy, artifacts));
+    }
+
+    result[name] = {
+      sdr: medianOf(scores.sdr),
+      sir: medianOf(scores.sir),
+      sar: medianOf(scores.sar)
+    };
+  }
+
+  return result;
+};
+
+// Average the per-track scores per stem and over everything
+export const summarizeEvaluations = (
+  tracks: TrackEvaluation[]
+): Pick<EvaluationReport, 'average' | 'overall'> => {
+  const average: StemMetrics = {};
+  const names = new Set(tracks.flatMap(({ stems }) => Object.keys(stems) as StemName[]));
+
+  for (const name of names) {
+    const scores = tracks.map(({ stems }) => stems[name]).filter(Boolean) as SeparationMetrics[];
+    average[name] = {
+      sdr: meanOf(scores.map(({ sdr }) => sdr)),
+      sir: meanOf(scores.map(({ sir }) => sir)),
+      sar: meanOf(scores.map(({ sar }) => sar))
+    };
+  }
+
+  const all = tracks.flatMap(({ stems }) => Object.values(stems) as SeparationMetrics[]);
+  const overall: SeparationMetrics = {
+    sdr: meanOf(all.map(({ sdr }) => sdr)),
+    sir: meanOf(all.map(({ sir }) => sir)),
+    sar: meanOf(all.map(({ sar }) => sar))
+  };
+
+  return { average, overall };
+};
+
+// List every average or overall score that fell more than tolerance dB below the baseline.
+// A score the baseline has but the report lacks counts as a regression.
+export const compareWithBaseline = (
+  report: EvaluationReport,
+  baseline: EvaluationReport,
+  tolerance = DEFAULT_REGRESSION_TOLERANCE
+): Regression[] => {
+  const regressions: Regression[] = [];
+
+  const check = (stem: Regression['stem'], current?: SeparationMetrics, previous?: SeparationMetrics) => {
+    for (const metric of METRICS) {
+      const before = previous?.[metric];
+      if (typeof before !== 'number') continue;
+      const after = current?.[metric] ?? null;
+      if (after === null || after < before - tolerance) {
+        regressions.push({ stem, metric, baseline: before, current: after });
+      }
+    }
+  };
+
+  for (const name of Object.keys(baseline.average) as StemName[]) {
+    check(name, report.average[name], baseline.average[name]);
+  }
+  check('overall', report.overall, baseline.overall);
+
+  return regressions;
+};
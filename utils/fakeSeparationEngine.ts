@@ -0,0 +1,37 @@
+import { PCMAudio } from './wav';
+import { STEM_SETS, SeparatedStems } from './separation';
+import { SeparationEngine, createPcmEngine } from './separationEngine';
+
+// Deterministic stand-in for a real separator, for tests and UI work.
+// Every stem is the input scaled by 1 / stem count, so the stems always sum to the input
+// and the output depends only on the input samples and the stem set.
+export const createFakeEngine = (overrides: Partial<SeparationEngine> = {}): SeparationEngine => {
+  const engine = createPcmEngine({
+    id: 'fake',
+    name: 'Fake',
+    description: 'Splits the input evenly across the stems. For testing only.',
+    version: '1',
+    capabilities: {
+      platforms: ['web', 'ios', 'android'],
+      requiresNetwork: false,
+      maskTuning: false
+    },
+    stemSets: ['two-stem', 'four-stem', 'harmonic-percussive'],
+    qualityTiers: ['fast', 'balanced', 'high'],
+    separate: async (audio, { mode, onSeparateProgress }) => {
+      const names = STEM_SETS[mode];
+      const stems: SeparatedStems = {};
+      for (const name of names) {
+        const stem: PCMAudio = {
+          sampleRate: audio.sampleRate,
+          channels: audio.channels.map((samples) => samples.map((sample) => sample / names.length))
+        };
+        stems[name] = stem;
+      }
+      onSeparateProgress(1);
+      return stems;
+    }
+  });
+
+  return { ...engine, ...overrides };
+};
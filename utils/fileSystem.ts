@@ -72,4 +72,17 @@ export const cleanupTempFiles = async (files: string[]): Promise<void> => {
   } catch (err) {
     console.error('Error cleaning up temp files:', err);
   }
-};
\ No newline at end of file
+};
+
+// Helper to discard the output of a job that did not finish:
+// revokes Blob URLs on web and deletes the files (and their directory, if any) on native
+export const discardJobOutput = async (uris: string[], tempDir?: string): Promise<void> => {
+  if (Platform.OS === 'web') {
+    for (const uri of uris) {
+      URL.revokeObjectURL(uri);
+    }
+    return;
+  }
+  
+  await cleanupTempFiles(tempDir ? [...uris, tempDir] : uris);
+};
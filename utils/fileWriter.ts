@@ -0,0 +1,83 @@
+import { NativeModules, Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { requireOptionalNativeModule } from 'expo-modules-core';
+import { bytesToBase64 } from './base64';
+
+// Native module that appends to a file in place (see AudioFileWriterModule.kt on Android and
+// modules/audio-native on iOS)
+interface NativeFileWriter {
+  appendBase64(fileUri: string, base64: string): Promise<void>;
+}
+
+// Android registers a React Native module, iOS an Expo module
+const nativeWriter: NativeFileWriter | undefined =
+  NativeModules.AudioFileWriter ?? requireOptionalNativeModule('AudioFileWriter') ?? undefined;
+
+// Interface for a file written in pieces
+export interface FileAppender {
+  append: (bytes: Uint8Array) => Promise<void>;
+  // Finish the file; returns a file URI on native platforms and a Blob URL on web
+  close: () => Promise<string>;
+  // Give up on the file and remove what was written
+  abort: () => Promise<void>;
+}
+
+// Interface for appender options
+export interface FileAppenderOptions {
+  // Native only: directory URI (with trailing slash) to write into; defaults to the cache directory
+  directory?: string;
+  // Web only: content type of the resulting Blob
+  mimeType?: string;
+  // Native only: keep what the file already holds and append after it
+  resume?: boolean;
+}
+
+// The native writer; without it nothing can be written in pieces
+const requireNativeWriter = (): NativeFileWriter => {
+  if (!nativeWriter) {
+    throw new Error('Writing files in pieces needs the AudioFileWriter native module.');
+  }
+  return nativeWriter;
+};
+
+// Append base64 data to a file, or on Android to a Storage Access Framework document
+export const appendBase64 = (uri: string, base64: string): Promise<void> =>
+  requireNativeWriter().appendBase64(uri, base64);
+
+// Open a file for writing in pieces.
+// On Android and iOS each piece goes straight to disk. On web the pieces become Blob parts,
+// which the browser may keep on disk. Without the native writer this fails rather than holding
+// a whole file in memory.
+export const createFileAppender = async (
+  fileName: string,
+  options: FileAppenderOptions = {}
+): Promise<FileAppender> => {
+  if (Platform.OS === 'web') {
+    let parts: Blob[] = [];
+    return {
+      append: async (bytes) => {
+        parts.push(new Blob([bytes]));
+      },
+      close: async () => URL.createObjectURL(new Blob(parts, { type: options.mimeType })),
+      abort: async () => {
+        parts = [];
+      }
+    };
+  }
+
+  const writer = requireNativeWriter();
+  const uri = `${options.directory ?? FileSystem.cacheDirectory}${fileName}`;
+  const existing = options.resume ? await FileSystem.getInfoAsync(uri) : undefined;
+  // Start from an empty file unless resuming one
+  if (!existing?.exists) {
+    await FileSystem.writeAsStringAsync(uri, '');
+  }
+
+  return {
+    append: (bytes) => writer.appendBase64(uri, bytesToBase64(bytes)),
+    close: async () => uri,
+    abort: async () => {
+      await FileSystem.deleteAsync(uri, { idempotent: true });
+    }
+  };
+};
@@ -0,0 +1,430 @@
+import { PCMAudio, toIntegerSample } from './wav';
+import { createBitWriter, BitWriter } from './bitWriter';
+
+// FLAC encoder using the fixed polynomial predictors (orders 0-4) with partitioned Rice coding
+// and stereo decorrelation chosen per frame. That is the toolset of `flac -0`/`-2`: a little
+// less compression than LPC for a fraction of the work. The MD5 signature is left unset,
+// which the format allows.
+
+// Sample widths the encoder can write
+export type FlacBitDepth = 16 | 24;
+
+const BLOCK_SIZE = 4096;
+const MAX_FIXED_ORDER = 4;
+const MAX_PARTITION_ORDER = 8;
+const MAX_CHANNELS = 8;
+
+// Frame header codes for the common sample rates; others are written out in full
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 1,
+  176400: 2,
+  192000: 3,
+  8000: 4,
+  16000: 5,
+  22050: 6,
+  24000: 7,
+  32000: 8,
+  44100: 9,
+  48000: 10,
+  96000: 11
+};
+
+// Codes for a sample rate that follows the header in Hz or in tens of Hz
+const SAMPLE_RATE_IN_HZ = 13;
+const SAMPLE_RATE_IN_TENS = 14;
+
+const SAMPLE_SIZE_CODES: Record<FlacBitDepth, number> = { 16: 4, 24: 6 };
+
+// Channel assignments besides independent channels (which are coded as channel count - 1)
+const LEFT_SIDE = 8;
+const RIGHT_SIDE = 9;
+const MID_SIDE = 10;
+
+// Rice parameter limits of the two residual coding methods
+const RICE_LIMIT = 14;
+const RICE2_LIMIT = 30;
+
+// CRC-8 (polynomial 0x07) and CRC-16 (polynomial 0x8005) tables
+const CRC8_TABLE = new Uint8Array(256);
+const CRC16_TABLE = new Uint16Array(256);
+for (let i = 0; i < 256; i++) {
+  let crc8 = i;
+  let crc16 = i << 8;
+  for (let bit = 0; bit < 8; bit++) {
+    crc8 = crc8 & 0x80 ? (crc8 << 1) ^ 0x07 : crc8 << 1;
+    crc16 = crc16 & 0x8000 ? (crc16 << 1) ^ 0x8005 : crc16 << 1;
+  }
+  CRC8_TABLE[i] = crc8 & 0xff;
+  CRC16_TABLE[i] = crc16 & 0xffff;
+}
+
+const crc8 = (bytes: Uint8Array) => {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC8_TABLE[crc ^ bytes[i]];
+  }
+  return crc;
+};
+
+const crc16 = (bytes: Uint8Array) => {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ bytes[i]];
+  }
+  return crc;
+};
+
+// Residual of a fixed predictor of the given order; the first order samples are warm-up
+const computeFixedResidual = (samples: Int32Array, order: number): Int32Array => {
+  const residual = new Int32Array(samples.length);
+  for (let i = order; i < samples.length; i++) {
+    const s = samples;
+    switch (order) {
+      case 0:
+        residual[i] = s[i];
+        break;
+      case 1:
+        residual[i] = s[i] - s[i - 1];
+        break;
+      case 2:
+        residual[i] = s[i] - 2 * s[i - 1] + s[i - 2];
+        break;
+      case 3:
+        residual[i] = s[i] - 3 * s[i - 1] + 3 * s[i - 2] - s[i - 3];
+        break;
+      default:
+        residual[i] = s[i] - 4 * s[i - 1] + 6 * s[i - 2] - 4 * s[i - 3] + s[i - 4];
+    }
+  }
+  return residual;
+};
+
+// Map signed residuals to unsigned values: 0, -1, 1, -2, ... -> 0, 1, 2, 3, ...
+const zigzag = (value: number) => (value >= 0 ? 2 * value : -2 * value - 1);
+
+// Interface for how a residual will be coded
+interface RicePlan {
+  partitionOrder: number;
+  parameters: number[];
+  bits: number;
+}
+
+// Pick the partition order and Rice parameters that code the residual in the fewest bits.
+// Bits are estimated from the partition sums, as the reference encoder does.
+const planRice = (residual: Int32Array, order: number): RicePlan => {
+  const blockSize = residual.length;
+  let maxOrder = 0;
+  while (
+    maxOrder < MAX_PARTITION_ORDER &&
+    blockSize % (1 << (maxOrder + 1)) === 0 &&
+    blockSize >> (maxOrder + 1) > order
+  ) {
+    maxOrder++;
+  }
+
+  // Sums of the finest partitions, merged pairwise for the coarser orders
+  let sums: number[] = [];
+  const finest = blockSize >> maxOrder;
+  for (let p = 0; p < 1 << maxOrder; p++) {
+    let sum = 0;
+    for (let i = Math.max(p * finest, order); i < (p + 1) * finest; i++) {
+      sum += zigzag(residual[i]);
+    }
+    sums.push(sum);
+  }
+
+  let best: RicePlan | null = null;
+  for (let partitionOrder = maxOrder; partitionOrder >= 0; partitionOrder--) {
+    const size = blockSize >> partitionOrder;
+    const parameters: number[] = [];
+    let bits = 4;
+    sums.forEach((sum, p) => {
+      const count = p === 0 ? size - order : size;
+      // The parameter near log2 of the mean is optimal
+      const mean = count > 0 ? sum / count : 0;
+      let parameter = mean > 1 ? Math.min(RICE2_LIMIT, Math.floor(Math.log2(mean))) : 0;
+      let partitionBits = count * (parameter + 1) + Math.floor(sum / Math.pow(2, parameter));
+      if (parameter > 0) {
+        const lower = count * parameter + Math.floor(sum / Math.pow(2, parameter - 1));
+        if (lower < partitionBits) {
+          parameter--;
+          partitionBits = lower;
+        }
+      }
+      parameters.push(parameter);
+      bits += partitionBits + 5;
+    });
+
+    if (!best || bits < best.bits) {
+      best = { partitionOrder, parameters, bits };
+    }
+
+    const merged: number[] = [];
+    for (let p = 0; p < sums.length; p += 2) {
+      merged.push(sums[p] + (sums[p + 1] ?? 0));
+    }
+    sums = merged;
+  }
+
+  return best as RicePlan;
+};
+
+// Interface for the cheapest way found to code one subframe
+interface SubframePlan {
+  type: 'constant' | 'fixed' | 'verbatim';
+  order: number;
+  residual: Int32Array | null;
+  rice: RicePlan | null;
+  bits: number;
+}
+
+const planSubframe = (samples: Int32Array, bitDepth: number): SubframePlan => {
+  const header = 8;
+  if (samples.every((value) => value === samples[0])) {
+    return { type: 'constant', order: 0, residual: null, rice: null, bits: header + bitDepth };
+  }
+
+  let best: SubframePlan = {
+    type: 'verbatim',
+    order: 0,
+    residual: null,
+    rice: null,
+    bits: header + samples.length * bitDepth
+  };
+  for (let order = 0; order <= Math.min(MAX_FIXED_ORDER, samples.length - 1); order++) {
+    const residual = computeFixedResidual(samples, order);
+    const rice = planRice(residual, order);
+    const bits = header + order * bitDepth + 2 + rice.bits;
+    if (bits < best.bits) {
+      best = { type: 'fixed', order, residual, rice, bits };
+    }
+  }
+  return best;
+};
+
+const writeSubframe = (writer: BitWriter, samples: Int32Array, plan: SubframePlan, bitDepth: number) => {
+  if (plan.type === 'constant') {
+    writer.write(0, 8);
+    writer.write(samples[0], bitDepth);
+    return;
+  }
+  if (plan.type === 'verbatim') {
+    writer.write(1 << 1, 8);
+    for (let i = 0; i < samples.length; i++) {
+      writer.write(samples[i], bitDepth);
+    }
+    return;
+  }
+
+  const { order } = plan;
+  const residual = plan.residual as Int32Array;
+  const rice = plan.rice as RicePlan;
+  writer.write((8 | order) << 1, 8);
+  for (let i = 0; i < order; i++) {
+    writer.write(samples[i], bitDepth);
+  }
+
+  // Method 1 allows five-bit parameters, for the residuals of 24-bit audio
+  const wide = rice.parameters.some((parameter) => parameter > RICE_LIMIT);
+  writer.write(wide ? 1 : 0, 2);
+  writer.write(rice.partitionOrder, 4);
+  const size = residual.length >> rice.partitionOrder;
+  rice.parameters.forEach((parameter, p) => {
+    writer.write(parameter, wide ? 5 : 4);
+    for (let i = Math.max(p * size, order); i < (p + 1) * size; i++) {
+      const value = zigzag(residual[i]);
+      writer.writeUnary(Math.floor(value / Math.pow(2, parameter)));
+      if (parameter > 0) writer.write(value, parameter);
+    }
+  });
+};
+
+// Frame numbers are coded like UTF-8 characters
+const writeUtf8Number = (writer: BitWriter, value: number) => {
+  if (value < 0x80) {
+    writer.write(value, 8);
+    return;
+  }
+  let continuation = 1;
+  while (value >= Math.pow(2, 5 * continuation + 6) && continuation < 5) continuation++;
+  const leading = (0xff00 >> (continuation + 1)) & 0xff;
+  writer.write(leading | (value >>> (6 * continuation)), 8);
+  for (let i = continuation - 1; i >= 0; i--) {
+    writer.write(0x80 | ((value >>> (6 * i)) & 0x3f), 8);
+  }
+};
+
+const encodeFrame = (
+  channels: Int32Array[],
+  frameNumber: number,
+  sampleRate: number,
+  bitDepth: FlacBitDepth
+): Uint8Array => {
+  const blockSize = channels[0].length;
+
+  // Try the stereo decorrelations and keep the cheapest
+  let assignment = channels.length - 1;
+  let subframes = channels.map((samples) => ({ samples, bitDepth: bitDepth as number }));
+  let plans = subframes.map(({ samples }) => planSubframe(samples, bitDepth));
+
+  if (channels.length === 2) {
+    const [left, right] = channels;
+    const mid = new Int32Array(blockSize);
+    const side = new Int32Array(blockSize);
+    for (let i = 0; i < blockSize; i++) {
+      mid[i] = (left[i] + right[i]) >> 1;
+      side[i] = left[i] - right[i];
+    }
+    const midPlan = planSubframe(mid, bitDepth);
+    const sidePlan = planSubframe(side, bitDepth + 1);
+    const [leftPlan, rightPlan] = plans;
+
+    const options = [
+      { assignment: 1, bits: leftPlan.bits + rightPlan.bits },
+      { assignment: LEFT_SIDE, bits: leftPlan.bits + sidePlan.bits },
+      { assignment: RIGHT_SIDE, bits: sidePlan.bits + rightPlan.bits },
+      { assignment: MID_SIDE, bits: midPlan.bits + sidePlan.bits }
+    ];
+    const best = options.reduce((a, b) => (b.bits < a.bits ? b : a));
+    assignment = best.assignment;
+
+    const sideFrame = { samples: side, bitDepth: bitDepth + 1 };
+    if (assignment === LEFT_SIDE) {
+      subframes = [subframes[0], sideFrame];
+      plans = [leftPlan, sidePlan];
+    } else if (assignment === RIGHT_SIDE) {
+      subframes = [sideFrame, subframes[1]];
+      plans = [sidePlan, rightPlan];
+    } else if (assignment === MID_SIDE) {
+      subframes = [{ samples: mid, bitDepth }, sideFrame];
+      plans = [midPlan, sidePlan];
+    }
+  }
+
+  const writer = createBitWriter();
+  writer.write(0xfff8, 16);
+  const customSize = blockSize !== BLOCK_SIZE;
+  let rateCode = SAMPLE_RATE_CODES[sampleRate];
+  if (rateCode === undefined) {
+    // Rates no code covers fall back to STREAMINFO (0)
+    rateCode = sampleRate < 0x10000 ? SAMPLE_RATE_IN_HZ : sampleRate % 10 === 0 ? SAMPLE_RATE_IN_TENS : 0;
+  }
+  writer.write(customSize ? 7 : 12, 4);
+  writer.write(rateCode, 4);
+  writer.write(assignment, 4);
+  writer.write(SAMPLE_SIZE_CODES[bitDepth], 3);
+  writer.write(0, 1);
+  writeUtf8Number(writer, frameNumber);
+  if (customSize) writer.write(blockSize - 1, 16);
+  if (rateCode === SAMPLE_RATE_IN_HZ) writer.write(sampleRate, 16);
+  if (rateCode === SAMPLE_RATE_IN_TENS) writer.write(sampleRate / 10, 16);
+  writer.write(crc8(writer.getBytes()), 8);
+
+  subframes.forEach(({ samples, bitDepth: depth }, c) => writeSubframe(writer, samples, plans[c], depth));
+
+  writer.alignToByte();
+  writer.write(crc16(writer.getBytes()), 16);
+  return writer.getBytes();
+};
+
+// Interface for a FLAC encoder fed a window of audio at a time
+export interface FlacEncoder {
+  // "fLaC" and the STREAMINFO block
+  header: Uint8Array;
+  // Encode the next window; returns the frames it completes
+  write: (channels: Float32Array[]) => Uint8Array;
+  // Encode the last, shorter frame
+  finish: () => Uint8Array;
+}
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+};
+
+// Encode a stream of the given length, a window at a time.
+// The header is written before any frame exists, so STREAMINFO leaves the minimum and maximum
+// frame sizes at 0 (unknown), which the format allows.
+export const createFlacEncoder = (
+  sampleRate: number,
+  channelCount: number,
+  length: number,
+  bitDepth: FlacBitDepth = 16
+): FlacEncoder => {
+  if (channelCount < 1 || channelCount > MAX_CHANNELS) {
+    throw new Error(`FLAC supports 1 to ${MAX_CHANNELS} channels, got ${channelCount}.`);
+  }
+
+  const info = createBitWriter();
+  info.write(BLOCK_SIZE, 16);
+  info.write(BLOCK_SIZE, 16);
+  info.write(0, 24);
+  info.write(0, 24);
+  info.write(sampleRate, 20);
+  info.write(channelCount - 1, 3);
+  info.write(bitDepth - 1, 5);
+  // 36-bit total sample count
+  info.write(Math.floor(length / 0x100000000), 4);
+  info.write(length >>> 0, 32);
+  // MD5 signature, unset
+  for (let i = 0; i < 4; i++) {
+    info.write(0, 32);
+  }
+
+  // "fLaC", then STREAMINFO as the last metadata block
+  const streamInfo = info.getBytes();
+  const header = createBitWriter();
+  header.write(0x664c6143, 32);
+  header.write(1, 1);
+  header.write(0, 7);
+  header.write(streamInfo.length, 24);
+
+  // Samples of the frame being filled
+  const block = Array.from({ length: channelCount }, () => new Int32Array(BLOCK_SIZE));
+  let filled = 0;
+  let frameNumber = 0;
+
+  const encodeBlock = () => {
+    const frame = encodeFrame(
+      block.map((samples) => samples.slice(0, filled)),
+      frameNumber++,
+      sampleRate,
+      bitDepth
+    );
+    filled = 0;
+    return frame;
+  };
+
+  return {
+    header: concat([header.getBytes(), streamInfo]),
+    write: (channels) => {
+      const frames: Uint8Array[] = [];
+      const count = channels[0]?.length ?? 0;
+      for (let start = 0; start < count; ) {
+        const take = Math.min(BLOCK_SIZE - filled, count - start);
+        channels.forEach((samples, c) => {
+          for (let i = 0; i < take; i++) {
+            block[c][filled + i] = toIntegerSample(samples[start + i], bitDepth);
+          }
+        });
+        filled += take;
+        start += take;
+        if (filled === BLOCK_SIZE) frames.push(encodeBlock());
+      }
+      return concat(frames);
+    },
+    finish: () => (filled > 0 ? encodeBlock() : new Uint8Array(0))
+  };
+};
+
+// Encode per-channel float samples as a complete FLAC file
+export const encodeFlac = (audio: PCMAudio, bitDepth: FlacBitDepth = 16): Uint8Array => {
+  const { sampleRate, channels } = audio;
+  const encoder = createFlacEncoder(sampleRate, channels.length, channels[0]?.length ?? 0, bitDepth);
+  return concat([encoder.header, encoder.write(channels), encoder.finish()]);
+};
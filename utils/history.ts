@@ -0,0 +1,75 @@
+import { SeparationSettings } from './projects';
+import { StemName } from './separation';
+
+// Undo/redo history for the editor. Each step is a command holding the values before and
+// after the change, so it can be applied in either direction and stored as JSON with the
+// project. The session (see session.ts) records and applies the commands.
+
+// Interface for a change to one stem's mixer volume
+export interface VolumeCommand {
+  type: 'volume';
+  stem: StemName;
+  from: number;
+  to: number;
+}
+
+// Interface for a change to the separation settings
+export interface SettingsCommand {
+  type: 'settings';
+  from: SeparationSettings;
+  to: SeparationSettings;
+}
+
+export type EditCommand = VolumeCommand | SettingsCommand;
+
+// Interface for the history of a session
+export interface EditHistory {
+  // Oldest first; the last command is the next to undo
+  past: EditCommand[];
+  // The last command is the next to redo
+  future: EditCommand[];
+}
+
+export const EMPTY_HISTORY: EditHistory = { past: [], future: [] };
+
+// Older steps are dropped beyond this
+const MAX_HISTORY_STEPS = 100;
+
+const isNoChange = (command: EditCommand) =>
+  JSON.stringify(command.from) === JSON.stringify(command.to);
+
+// Add a command, clearing the redo steps. Passing the last step as extend makes the command
+// continue that step instead (as the updates of one slider drag do), keeping its starting value.
+// Returns the new history and the step recorded, or null if it ended where it started.
+export const recordCommand = (
+  history: EditHistory,
+  command: EditCommand,
+  extend?: EditCommand | null
+): [EditHistory, EditCommand | null] => {
+  const past = [...history.past];
+  const extending = extend && past[past.length - 1] === extend && extend.type === command.type;
+  if (extending) {
+    past.pop();
+    command = { ...command, from: extend.from } as EditCommand;
+  }
+  if (isNoChange(command)) {
+    // Nothing to undo; a drag back to its start removes its step
+    return [extending ? { past, future: [] } : history, null];
+  }
+  past.push(command);
+  return [{ past: past.slice(-MAX_HISTORY_STEPS), future: [] }, command];
+};
+
+// Take the next step to undo; returns the new history and the command, or null if there is none
+export const undoStep = (history: EditHistory): [EditHistory, EditCommand | null] => {
+  const command = history.past[history.past.length - 1];
+  if (!command) return [history, null];
+  return [{ past: history.past.slice(0, -1), future: [...history.future, command] }, command];
+};
+
+// Take the next step to redo, as undoStep
+export const redoStep = (history: EditHistory): [EditHistory, EditCommand | null] => {
+  const command = history.future[history.future.length - 1];
+  if (!command) return [history, null];
+  return [{ past: [...history.past, command], future: history.future.slice(0, -1) }, command];
+};
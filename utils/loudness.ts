@@ -0,0 +1,196 @@
+import { PCMAudio } from './wav';
+
+// Loudness measurement following ITU-R BS.1770-4 and EBU R 128 / Tech 3342:
+// K-weighted mean square over 400 ms blocks (integrated, with the absolute and relative gates)
+// and 3 s windows (short-term and loudness range). Silence measures as -Infinity.
+
+// Interface for the loudness of a signal
+export interface LoudnessStats {
+  // Gated loudness of the whole signal, in LUFS
+  integratedLufs: number;
+  // Loudest 3 s window, in LUFS
+  shortTermMaxLufs: number;
+  // Spread between quiet and loud passages (10th to 95th percentile of short-term loudness), in LU
+  loudnessRangeLu: number;
+}
+
+// Measurement blocks are built from 100 ms steps
+const STEP_SECONDS = 0.1;
+const MOMENTARY_STEPS = 4;
+const SHORT_TERM_STEPS = 30;
+
+const ABSOLUTE_GATE_LUFS = -70;
+const INTEGRATED_RELATIVE_GATE_LU = -10;
+const RANGE_RELATIVE_GATE_LU = -20;
+const RANGE_LOW_PERCENTILE = 0.1;
+const RANGE_HIGH_PERCENTILE = 0.95;
+
+// Surround channels count 1.41 times (+1.5 dB); the LFE is not measured.
+// Channel order as in WAV files: L, R, C, LFE, Ls, Rs
+const getChannelWeight = (channel: number, channelCount: number) => {
+  if (channelCount < 4 || channel < 3) return 1;
+  if (channel === 3) return 0;
+  return 1.41;
+};
+
+// Biquad coefficients of the two K-weighting stages (high shelf and high-pass) for any
+// sample rate, by the bilinear transform of the analog prototypes in BS.1770
+const createKWeighting = (sampleRate: number) => {
+  let k = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let q = 0.7071752369554196;
+  const vh = Math.pow(10, 3.999843853973347 / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  let a0 = 1 + k / q + k * k;
+  const shelf = {
+    b: [(vh + (vb * k) / q + k * k) / a0, (2 * (k * k - vh)) / a0, (vh - (vb * k) / q + k * k) / a0],
+    a: [(2 * (k * k - 1)) / a0, (1 - k / q + k * k) / a0]
+  };
+
+  k = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  q = 0.5003270373238773;
+  a0 = 1 + k / q + k * k;
+  const highPass = {
+    b: [1, -2, 1],
+    a: [(2 * (k * k - 1)) / a0, (1 - k / q + k * k) / a0]
+  };
+
+  return [shelf, highPass];
+};
+
+// Mean power of each window of the given number of steps, advancing one step at a time.
+// A signal shorter than one window is measured as a single window.
+const computeWindowPowers = (steps: Float64Array, windowSteps: number): number[] => {
+  if (steps.length === 0) return [];
+  const size = Math.min(windowSteps, steps.length);
+  const powers: number[] = [];
+  let sum = 0;
+  for (let i = 0; i < steps.length; i++) {
+    sum += steps[i];
+    if (i >= size) sum -= steps[i - size];
+    if (i >= size - 1) powers.push(Math.max(0, sum) / size);
+  }
+  return powers;
+};
+
+const toLufs = (power: number) => (power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity);
+
+const fromLufs = (lufs: number) => Math.pow(10, (lufs + 0.691) / 10);
+
+const meanPower = (powers: number[]) =>
+  powers.length > 0 ? powers.reduce((sum, power) => sum + power, 0) / powers.length : 0;
+
+// Apply the absolute gate, then the relative gate set relative to what passed it
+const gate = (powers: number[], relativeGateLu: number): number[] => {
+  const absolute = fromLufs(ABSOLUTE_GATE_LUFS);
+  const loud = powers.filter((power) => power > absolute);
+  const relative = fromLufs(toLufs(meanPower(loud)) + relativeGateLu);
+  return loud.filter((power) => power > relative);
+};
+
+// Linearly interpolated percentile of sorted values
+const percentile = (sorted: number[], fraction: number) => {
+  const position = (sorted.length - 1) * fraction;
+  const index = Math.floor(position);
+  const next = Math.min(index + 1, sorted.length - 1);
+  return sorted[index] + (sorted[next] - sorted[index]) * (position - index);
+};
+
+// Interface for a loudness measurement fed a window of audio at a time
+export interface LoudnessMeter {
+  add: (channels: Float32Array[]) => void;
+  finish: () => LoudnessStats;
+}
+
+// Direct form I state of both K-weighting stages for one channel, and its partial step sum
+interface ChannelState {
+  x1: number;
+  x2: number;
+  y1: number;
+  y2: number;
+  z1: number;
+  z2: number;
+  sum: number;
+}
+
+// Measure a signal's loudness as it would be after applying gain, a window at a time.
+// The K-weighted mean square of every complete 100 ms step is kept, summed over channels with
+// their weights; a partial step at the end is left out.
+export const createLoudnessMeter = (sampleRate: number, channelCount: number, gain = 1): LoudnessMeter => {
+  const stepLength = Math.round(STEP_SECONDS * sampleRate);
+  const [shelf, highPass] = createKWeighting(sampleRate);
+  const weights = Array.from(
+    { length: channelCount },
+    (_, c) => getChannelWeight(c, channelCount) * gain * gain
+  );
+  const states: ChannelState[] = weights.map(() => ({ x1: 0, x2: 0, y1: 0, y2: 0, z1: 0, z2: 0, sum: 0 }));
+  const steps: number[] = [];
+  // Frames of the current step already seen
+  let stepPosition = 0;
+
+  const add = (channels: Float32Array[]) => {
+    const count = channels[0]?.length ?? 0;
+    const firstStep = steps.length;
+    for (let i = Math.floor((stepPosition + count) / stepLength); i > 0; i--) {
+      steps.push(0);
+    }
+
+    channels.forEach((samples, c) => {
+      const weight = weights[c];
+      if (weight === 0) return;
+
+      const state = states[c];
+      let { x1, x2, y1, y2, z1, z2, sum } = state;
+      let position = stepPosition;
+      let step = firstStep;
+
+      for (let i = 0; i < count; i++) {
+        const x = samples[i];
+        const y = shelf.b[0] * x + shelf.b[1] * x1 + shelf.b[2] * x2 - shelf.a[0] * y1 - shelf.a[1] * y2;
+        x2 = x1;
+        x1 = x;
+        const z = highPass.b[0] * y + highPass.b[1] * y1 + highPass.b[2] * y2 - highPass.a[0] * z1 - highPass.a[1] * z2;
+        y2 = y1;
+        y1 = y;
+        z2 = z1;
+        z1 = z;
+
+        sum += z * z;
+        if (++position === stepLength) {
+          steps[step++] += (weight * sum) / stepLength;
+          position = 0;
+          sum = 0;
+        }
+      }
+
+      Object.assign(state, { x1, x2, y1, y2, z1, z2, sum });
+    });
+
+    stepPosition = (stepPosition + count) % stepLength;
+  };
+
+  const finish = (): LoudnessStats => {
+    const powers = Float64Array.from(steps);
+
+    const momentary = computeWindowPowers(powers, MOMENTARY_STEPS);
+    const integratedLufs = toLufs(meanPower(gate(momentary, INTEGRATED_RELATIVE_GATE_LU)));
+
+    const shortTerm = computeWindowPowers(powers, SHORT_TERM_STEPS);
+    const shortTermMaxLufs = toLufs(shortTerm.reduce((max, power) => Math.max(max, power), 0));
+
+    const ranged = gate(shortTerm, RANGE_RELATIVE_GATE_LU).map(toLufs).sort((a, b) => a - b);
+    const loudnessRangeLu = ranged.length > 0
+      ? percentile(ranged, RANGE_HIGH_PERCENTILE) - percentile(ranged, RANGE_LOW_PERCENTILE)
+      : 0;
+
+    return { integratedLufs, shortTermMaxLufs, loudnessRangeLu };
+  };
+
+  return { add, finish };
+};
+
+// Measure a signal's loudness as it would be after applying gain
+export const measureLoudness = (audio: PCMAudio, gain = 1): LoudnessStats => {
+  const meter = createLoudnessMeter(audio.sampleRate, audio.channels.length, gain);
+  meter.add(audio.channels);
+  return meter.finish();
+};
@@ -0,0 +1,114 @@
+import { StemName } from './separation';
+
+// Metadata written into exported files. Every tag format stores the same fields under its
+// own names (see tagWriter.ts and tagReader.ts).
+
+// Interface for the tags of one file; empty fields are not written
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  // Release year or date, as entered
+  year?: string;
+  genre?: string;
+  // Free-text notes
+  comment?: string;
+  // Additional fields by name, such as STEM_INFO_TAG
+  custom?: Record<string, string>;
+}
+
+export type TagField = 'title' | 'artist' | 'album' | 'year' | 'genre' | 'comment';
+
+// Standard fields in the order the editor shows them
+export const TAG_FIELDS: TagField[] = ['title', 'artist', 'album', 'year', 'genre', 'comment'];
+
+// Names of the standard fields in each tag format
+export const ID3_FRAME_IDS: Record<TagField, string> = {
+  title: 'TIT2',
+  artist: 'TPE1',
+  album: 'TALB',
+  year: 'TDRC',
+  genre: 'TCON',
+  comment: 'COMM'
+};
+
+export const VORBIS_COMMENT_NAMES: Record<TagField, string> = {
+  title: 'TITLE',
+  artist: 'ARTIST',
+  album: 'ALBUM',
+  year: 'DATE',
+  genre: 'GENRE',
+  comment: 'COMMENT'
+};
+
+export const RIFF_INFO_IDS: Record<TagField, string> = {
+  title: 'INAM',
+  artist: 'IART',
+  album: 'IPRD',
+  year: 'ICRD',
+  genre: 'IGNR',
+  comment: 'ICMT'
+};
+
+// iTunes atoms; the first character is the copyright sign (byte 0xA9)
+export const MP4_ATOM_NAMES: Record<TagField, string> = {
+  title: '\u00a9nam',
+  artist: '\u00a9ART',
+  album: '\u00a9alb',
+  year: '\u00a9day',
+  genre: '\u00a9gen',
+  comment: '\u00a9cmt'
+};
+
+// Written as the encoder or software name where a format has one
+export const TAG_VENDOR = 'Voice-Instrument-Separation';
+
+// Custom field recording what an exported file was made from
+export const STEM_INFO_TAG = 'STEM_INFO';
+
+// Interface for the contents of the STEM_INFO field
+export interface StemInfo {
+  // A mix of several stems, or a single stem file
+  type: 'mix' | 'stem';
+  // Stems in the file with their mixer volumes (1 is unchanged)
+  stems: { name: StemName; volume: number }[];
+  // Whether the volumes were applied to the audio; always true for a mix
+  gainApplied: boolean;
+}
+
+// Interface for tags ready to write: trimmed, with empty fields left out
+export interface TagEntries {
+  // In TAG_FIELDS order
+  fields: [TagField, string][];
+  custom: [string, string][];
+}
+
+export const getTagEntries = (tags: AudioTags): TagEntries => {
+  const fields: [TagField, string][] = [];
+  for (const field of TAG_FIELDS) {
+    const value = tags[field]?.trim();
+    if (value) fields.push([field, value]);
+  }
+  const custom: [string, string][] = [];
+  for (const [name, value] of Object.entries(tags.custom ?? {})) {
+    if (name && value.trim()) custom.push([name, value.trim()]);
+  }
+  return { fields, custom };
+};
+
+export const hasTags = (tags: AudioTags): boolean => {
+  const { fields, custom } = getTagEntries(tags);
+  return fields.length > 0 || custom.length > 0;
+};
+
+// Add the STEM_INFO field to a set of tags, stored as compact JSON
+export const withStemInfo = (tags: AudioTags, info: StemInfo): AudioTags => ({
+  ...tags,
+  custom: {
+    ...tags.custom,
+    [STEM_INFO_TAG]: JSON.stringify({
+      ...info,
+      stems: info.stems.map(({ name, volume }) => ({ name, volume: Math.round(volume * 100) / 100 }))
+    })
+  }
+});
@@ -0,0 +1,425 @@
+import { PCMAudio } from './wav';
+import { LoudnessStats, createLoudnessMeter } from './loudness';
+
+// Interface for one input to the mixdown
+export interface MixTrack {
+  audio: PCMAudio;
+  gain: number;
+}
+
+// Interface for mixdown settings
+export interface MixdownOptions {
+  // Highest allowed true peak in dBTP
+  ceilingDb?: number;
+  // Limiter lookahead (also the attack time) in milliseconds
+  lookaheadMs?: number;
+  // Limiter release time constant in milliseconds
+  releaseMs?: number;
+  // Integrated loudness to normalize the mix to, in LUFS; the limiter still has the last word
+  loudnessTarget?: number;
+}
+
+// Interface for the loudness and true peak of a signal
+export interface AudioMeasurement extends LoudnessStats {
+  truePeakDb: number;
+}
+
+// Interface for what the first pass over a mix measures
+export interface MixAnalysis {
+  // Each track as it enters the mix, with its gain applied
+  inputs: AudioMeasurement[];
+  // Gain applied to reach the loudness target, in dB (0 without a target)
+  normalizationGainDb: number;
+}
+
+// Interface for the measurements of a rendered mix
+export interface MixRenderStats {
+  // True peak of the summed (and normalized) signal before limiting, in dBTP
+  inputPeakDb: number;
+  // True peak of the final output, in dBTP
+  outputPeakDb: number;
+  // Largest gain reduction applied by the limiter, in dB (0 when it never engaged)
+  maxGainReductionDb: number;
+  // The final output
+  output: AudioMeasurement;
+}
+
+// Interface for the mixdown result
+export interface MixdownResult extends MixAnalysis, MixRenderStats {
+  audio: PCMAudio;
+}
+
+// Interface for one track of a mix rendered a window at a time
+export interface MixTrackFormat {
+  channelCount: number;
+  gain: number;
+}
+
+// Interface for the first pass over a mix, fed one window of every track at a time
+export interface MixAnalyzer {
+  add: (windows: Float32Array[][]) => void;
+  finish: () => MixAnalysis;
+}
+
+// Interface for the second pass, which renders the mix a window at a time
+export interface MixRenderer {
+  // Mix one window of every track; returns the output frames the limiter is done with,
+  // which lag the input by its lookahead
+  process: (windows: Float32Array[][]) => Float32Array[];
+  // Returns the rest of the output and the measurements
+  finish: () => { channels: Float32Array[]; stats: MixRenderStats };
+}
+
+// Interface for a measurement of loudness and true peak fed a window at a time
+export interface AudioMeter {
+  add: (channels: Float32Array[]) => void;
+  finish: () => AudioMeasurement;
+}
+
+const DEFAULT_CEILING_DB = -1;
+const DEFAULT_LOOKAHEAD_MS = 1.5;
+const DEFAULT_RELEASE_MS = 80;
+
+// 4x oversampling interpolator used for true-peak detection (ITU-R BS.1770 style)
+const OVERSAMPLE = 4;
+const TAPS_PER_PHASE = 12;
+
+// Polyphase windowed-sinc coefficients; phase 0 is the original sample and is skipped
+const INTERPOLATION_PHASES: Float32Array[] = (() => {
+  const phases: Float32Array[] = [];
+  const half = TAPS_PER_PHASE / 2;
+  for (let p = 1; p < OVERSAMPLE; p++) {
+    const coefficients = new Float32Array(TAPS_PER_PHASE);
+    const fraction = p / OVERSAMPLE;
+    for (let t = 0; t < TAPS_PER_PHASE; t++) {
+      // Distance from the interpolated point to input sample (i - half + 1 + t)
+      const x = t - half + 1 - fraction;
+      const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+      const window = 0.5 + 0.5 * Math.cos((Math.PI * x) / half);
+      coefficients[t] = sinc * window;
+    }
+    phases.push(coefficients);
+  }
+  return phases;
+})();
+
+export const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+export const gainToDb = (gain: number) => (gain > 0 ? 20 * Math.log10(gain) : -Infinity);
+
+const concatSamples = (a: Float32Array, b: Float32Array): Float32Array => {
+  const samples = new Float32Array(a.length + b.length);
+  samples.set(a);
+  samples.set(b, a.length);
+  return samples;
+};
+
+const maxOf = (values: Float32Array, start = 0) => {
+  let max = start;
+  for (let i = 0; i < values.length; i++) {
+    max = Math.max(max, values[i]);
+  }
+  return max;
+};
+
+// Per-frame true peak (max over channels and oversampled points between i and i + 1), a window
+// at a time. A frame's peak needs the samples up to half the taps ahead, so the peaks lag the
+// input by that much until flush pads the end with silence, as it pads the start.
+const createPeakDetector = (channelCount: number) => {
+  const half = TAPS_PER_PHASE / 2;
+  // Per channel: the frames not measured yet, after the half - 1 frames before them
+  let tails = Array.from({ length: channelCount }, () => new Float32Array(half - 1));
+
+  const process = (channels: Float32Array[]): Float32Array => {
+    const buffers = tails.map((tail, c) => concatSamples(tail, channels[c]));
+    const count = Math.max(0, buffers[0].length - TAPS_PER_PHASE + 1);
+    const peaks = new Float32Array(count);
+
+    for (const samples of buffers) {
+      for (let i = 0; i < count; i++) {
+        // Frame i sits at i + half - 1, its taps start at i
+        let peak = Math.abs(samples[i + half - 1]);
+        for (const coefficients of INTERPOLATION_PHASES) {
+          let value = 0;
+          for (let t = 0; t < TAPS_PER_PHASE; t++) {
+            value += samples[i + t] * coefficients[t];
+          }
+          peak = Math.max(peak, Math.abs(value));
+        }
+        peaks[i] = Math.max(peaks[i], peak);
+      }
+    }
+
+    tails = buffers.map((samples) => samples.slice(count));
+    return peaks;
+  };
+
+  const flush = () => process(tails.map(() => new Float32Array(half)));
+
+  return { process, flush };
+};
+
+// Measure loudness and true peak as they would be after applying gain, a window at a time
+export const createAudioMeter = (sampleRate: number, channelCount: number, gain = 1): AudioMeter => {
+  const loudness = createLoudnessMeter(sampleRate, channelCount, gain);
+  const detector = createPeakDetector(channelCount);
+  let peak = 0;
+
+  return {
+    add: (channels) => {
+      loudness.add(channels);
+      peak = maxOf(detector.process(channels), peak);
+    },
+    finish: () => {
+      peak = maxOf(detector.flush(), peak);
+      return { ...loudness.finish(), truePeakDb: gainToDb(peak) + gainToDb(gain) };
+    }
+  };
+};
+
+// Measure the true peak of a signal in dBTP
+export const measureTruePeak = (audio: PCMAudio): number => {
+  const detector = createPeakDetector(audio.channels.length);
+  return gainToDb(maxOf(detector.flush(), maxOf(detector.process(audio.channels))));
+};
+
+// Measure loudness and true peak as they would be after applying gain
+export const measureAudio = (audio: PCMAudio, gain = 1): AudioMeasurement => {
+  const meter = createAudioMeter(audio.sampleRate, audio.channels.length, gain);
+  meter.add(audio.channels);
+  return meter.finish();
+};
+
+// True-peak limiter run a window at a time. The gain keeps every frame peak below the ceiling:
+// each requirement is held over the following lookahead window (sliding minimum), the gain
+// recovers slowly after it, and a moving average over the lookahead window ramps it down before
+// each peak. The gain applied at i is the average of held[i .. i + lookahead], which never
+// exceeds the requirement at i because every term in that window holds it. The output lags the
+// input by the lookahead and the peak detector's delay.
+const createLimiter = (
+  channelCount: number,
+  ceiling: number,
+  lookahead: number,
+  releaseCoefficient: number
+) => {
+  const detector = createPeakDetector(channelCount);
+  const window = lookahead + 1;
+
+  // Sliding minimum of the requirements: frame indices and their values, oldest first
+  let queue: number[] = [];
+  let queueValues: number[] = [];
+  let head = 0;
+  let frame = 0;
+  let previous = 1;
+
+  // Held gains and input samples from the first frame not output yet
+  let held = new Float32Array(0);
+  let pending = Array.from({ length: channelCount }, () => new Float32Array(0));
+
+  let inputPeak = 0;
+  let minGain = 1;
+
+  const hold = (peaks: Float32Array) => {
+    const values = new Float32Array(peaks.length);
+    for (let i = 0; i < peaks.length; i++, frame++) {
+      inputPeak = Math.max(inputPeak, peaks[i]);
+      const required = Math.fround(peaks[i] > ceiling ? ceiling / peaks[i] : 1);
+      while (queue.length > head && queueValues[queue.length - 1] >= required) {
+        queue.pop();
+        queueValues.pop();
+      }
+      queue.push(frame);
+      queueValues.push(required);
+      if (queue[head] < frame - lookahead) {
+        head++;
+      }
+      previous = Math.min(queueValues[head], previous + (1 - previous) * releaseCoefficient);
+      values[i] = previous;
+    }
+    queue = queue.slice(head);
+    queueValues = queueValues.slice(head);
+    head = 0;
+    held = concatSamples(held, values);
+  };
+
+  // Apply the gain to every frame whose lookahead window is complete; at the end the last held
+  // gain is repeated past it
+  const emit = (final: boolean): Float32Array[] => {
+    const count = final ? held.length : Math.max(0, held.length - lookahead);
+    const last = held[held.length - 1];
+    const at = (i: number) => (i < held.length ? held[i] : last);
+    let sum = 0;
+    for (let i = 0; i < window; i++) {
+      sum += at(i);
+    }
+
+    const output = pending.map(() => new Float32Array(count));
+    for (let i = 0; i < count; i++) {
+      const gain = sum / window;
+      minGain = Math.min(minGain, gain);
+      for (let c = 0; c < channelCount; c++) {
+        output[c][i] = pending[c][i] * gain;
+      }
+      sum += at(i + window) - held[i];
+    }
+
+    held = held.slice(count);
+    pending = pending.map((samples) => samples.slice(count));
+    return output;
+  };
+
+  return {
+    process: (channels: Float32Array[]) => {
+      pending = pending.map((samples, c) => concatSamples(samples, channels[c]));
+      hold(detector.process(channels));
+      return emit(false);
+    },
+    flush: () => {
+      hold(detector.flush());
+      return emit(true);
+    },
+    getStats: () => ({ inputPeak, minGain })
+  };
+};
+
+// Sum one window of every track with its gain, then scale the sum.
+// Shorter windows are padded with silence; mono tracks are spread to every output channel.
+const sumWindows = (
+  windows: Float32Array[][],
+  tracks: MixTrackFormat[],
+  channelCount: number,
+  scale = 1
+): Float32Array[] => {
+  const length = Math.max(0, ...windows.map((channels) => channels[0]?.length ?? 0));
+  const output = Array.from({ length: channelCount }, () => new Float32Array(length));
+
+  windows.forEach((channels, t) => {
+    const { gain } = tracks[t];
+    if (gain === 0 || channels.length === 0) return;
+    for (let c = 0; c < channelCount; c++) {
+      const source = channels[Math.min(c, channels.length - 1)];
+      const samples = output[c];
+      for (let i = 0; i < source.length; i++) {
+        samples[i] += source[i] * gain;
+      }
+    }
+  });
+
+  if (scale !== 1) {
+    for (const samples of output) {
+      for (let i = 0; i < length; i++) {
+        samples[i] *= scale;
+      }
+    }
+  }
+  return output;
+};
+
+const getChannelCount = (tracks: MixTrackFormat[]) =>
+  Math.max(...tracks.map(({ channelCount }) => channelCount));
+
+// First pass over a mix: measures every track at its gain and, with a loudness target, the
+// summed signal to find the normalization gain
+export const createMixAnalyzer = (
+  sampleRate: number,
+  tracks: MixTrackFormat[],
+  loudnessTarget?: number
+): MixAnalyzer => {
+  const channelCount = getChannelCount(tracks);
+  const meters = tracks.map(({ channelCount: count, gain }) => createAudioMeter(sampleRate, count, gain));
+  const mixMeter = loudnessTarget === undefined ? null : createLoudnessMeter(sampleRate, channelCount);
+
+  return {
+    add: (windows) => {
+      windows.forEach((channels, t) => meters[t].add(channels));
+      mixMeter?.add(sumWindows(windows, tracks, channelCount));
+    },
+    finish: () => {
+      let normalizationGainDb = 0;
+      if (mixMeter && loudnessTarget !== undefined) {
+        const { integratedLufs } = mixMeter.finish();
+        // Silence stays silent
+        if (Number.isFinite(integratedLufs)) {
+          normalizationGainDb = loudnessTarget - integratedLufs;
+        }
+      }
+      return { inputs: meters.map((meter) => meter.finish()), normalizationGainDb };
+    }
+  };
+};
+
+// Second pass: sums the tracks with their gains, applies the normalization gain and runs the
+// true-peak limiter. The output is measured along the way.
+export const createMixRenderer = (
+  sampleRate: number,
+  tracks: MixTrackFormat[],
+  normalizationGainDb = 0,
+  options: MixdownOptions = {}
+): MixRenderer => {
+  const channelCount = getChannelCount(tracks);
+  const normalization = dbToGain(normalizationGainDb);
+
+  const ceiling = dbToGain(options.ceilingDb ?? DEFAULT_CEILING_DB);
+  const lookaheadMs = options.lookaheadMs ?? DEFAULT_LOOKAHEAD_MS;
+  const lookahead = Math.max(1, Math.round((lookaheadMs * sampleRate) / 1000));
+  const releaseSamples = ((options.releaseMs ?? DEFAULT_RELEASE_MS) * sampleRate) / 1000;
+  const releaseCoefficient = 1 - Math.exp(-1 / Math.max(1, releaseSamples));
+
+  const limiter = createLimiter(channelCount, ceiling, lookahead, releaseCoefficient);
+  const meter = createAudioMeter(sampleRate, channelCount);
+  const measure = (channels: Float32Array[]) => {
+    meter.add(channels);
+    return channels;
+  };
+
+  return {
+    process: (windows) => measure(limiter.process(sumWindows(windows, tracks, channelCount, normalization))),
+    finish: () => {
+      const channels = measure(limiter.flush());
+      const { inputPeak, minGain } = limiter.getStats();
+      const output = meter.finish();
+      return {
+        channels,
+        stats: {
+          inputPeakDb: gainToDb(inputPeak),
+          outputPeakDb: output.truePeakDb,
+          maxGainReductionDb: -gainToDb(minGain),
+          output
+        }
+      };
+    }
+  };
+};
+
+// Sum tracks sample by sample with their gains, normalize the loudness if asked and run a
+// true-peak limiter. Every track and the result are measured along the way.
+// All tracks must share a sample rate; mono tracks are spread to every output channel.
+// Runs both passes over whole buffers; renders from files use createMixAnalyzer and
+// createMixRenderer a window at a time instead.
+export const mixTracks = (tracks: MixTrack[], options: MixdownOptions = {}): MixdownResult => {
+  if (tracks.length === 0) {
+    throw new Error('Nothing to mix.');
+  }
+
+  const sampleRate = tracks[0].audio.sampleRate;
+  if (tracks.some(({ audio }) => audio.sampleRate !== sampleRate)) {
+    throw new Error('All tracks must share the same sample rate.');
+  }
+
+  const formats = tracks.map(({ audio, gain }) => ({ channelCount: audio.channels.length, gain }));
+  const windows = tracks.map(({ audio }) => audio.channels);
+
+  const analyzer = createMixAnalyzer(sampleRate, formats, options.loudnessTarget);
+  analyzer.add(windows);
+  const analysis = analyzer.finish();
+
+  const renderer = createMixRenderer(sampleRate, formats, analysis.normalizationGainDb, options);
+  const head = renderer.process(windows);
+  const { channels: tail, stats } = renderer.finish();
+
+  return {
+    audio: { sampleRate, channels: head.map((samples, c) => concatSamples(samples, tail[c])) },
+    ...analysis,
+    ...stats
+  };
+};
@@ -0,0 +1,74 @@
+import { Mp3Encoder as LameEncoder } from 'lamejs-fixed';
+import { PCMAudio, toIntegerSample } from './wav';
+
+// MP3 encoding through lamejs, a JavaScript port of LAME, so it runs the same on every platform
+
+// Sample rates of MPEG-1, 2 and 2.5 layer III
+export const MP3_SAMPLE_RATES = [8000, 11025, 12000, 16000, 22050, 24000, 32000, 44100, 48000];
+
+export const MP3_MAX_CHANNELS = 2;
+
+// Samples per MPEG-1 layer III frame; the encoder is fed this much at a time
+const FRAME_LENGTH = 1152;
+
+// Interface for an MP3 encoder fed a window of audio at a time
+export interface Mp3Encoder {
+  // Encode the next window; returns the frames LAME has finished
+  write: (channels: Float32Array[]) => Uint8Array;
+  // Flush the frames still buffered
+  finish: () => Uint8Array;
+}
+
+const toBytes = (parts: Int8Array[]): Uint8Array => {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(new Uint8Array(part.buffer, part.byteOffset, part.length), offset);
+    offset += part.length;
+  }
+  return bytes;
+};
+
+// Encode a constant bitrate MP3 stream at bitrate kbit/s, a window at a time
+export const createMp3Encoder = (sampleRate: number, channelCount: number, bitrate: number): Mp3Encoder => {
+  if (!MP3_SAMPLE_RATES.includes(sampleRate)) {
+    throw new Error(`MP3 does not support a sample rate of ${sampleRate} Hz.`);
+  }
+  if (channelCount < 1 || channelCount > MP3_MAX_CHANNELS) {
+    throw new Error(`MP3 supports 1 or ${MP3_MAX_CHANNELS} channels, got ${channelCount}.`);
+  }
+
+  const encoder = new LameEncoder(channelCount, sampleRate, bitrate);
+  return {
+    write: (channels) => {
+      const samples = channels.map((channel) => {
+        const integers = new Int16Array(channel.length);
+        for (let i = 0; i < channel.length; i++) {
+          integers[i] = toIntegerSample(channel[i], 16);
+        }
+        return integers;
+      });
+
+      const parts: Int8Array[] = [];
+      const length = samples[0].length;
+      for (let start = 0; start < length; start += FRAME_LENGTH) {
+        const end = Math.min(start + FRAME_LENGTH, length);
+        const [left, right] = samples.map((channel) => channel.subarray(start, end));
+        parts.push(encoder.encodeBuffer(left, right));
+      }
+      return toBytes(parts);
+    },
+    finish: () => toBytes([encoder.flush()])
+  };
+};
+
+// Encode per-channel float samples as a constant bitrate MP3 file at bitrate kbit/s
+export const encodeMp3 = (audio: PCMAudio, bitrate: number): Uint8Array => {
+  const encoder = createMp3Encoder(audio.sampleRate, audio.channels.length, bitrate);
+  const data = encoder.write(audio.channels);
+  const end = encoder.finish();
+  const bytes = new Uint8Array(data.length + end.length);
+  bytes.set(data);
+  bytes.set(end, data.length);
+  return bytes;
+};
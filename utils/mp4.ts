@@ -0,0 +1,196 @@
+// Minimal MP4 (ISO base media file) writer for a single AAC audio track: the .m4a layout
+// iTunes and every player read. The moov box comes first, so files play while downloading.
+
+// Interface for an encoded audio track
+export interface Mp4AudioTrack {
+  sampleRate: number;
+  channelCount: number;
+  // AudioSpecificConfig, carried in the esds box
+  decoderConfig: Uint8Array;
+  // Size in bytes of each encoded frame, each decoding to frameLength samples
+  frameSizes: number[];
+  frameLength: number;
+  // Samples of encoder delay at the start, and the length of the actual audio after it
+  delay: number;
+  length: number;
+  // Average bitrate in bits per second
+  bitrate: number;
+}
+
+// Movie-level durations are in milliseconds
+const MOVIE_TIMESCALE = 1000;
+
+// Unity transform matrix of mvhd and tkhd
+const MATRIX = [0x10000, 0, 0, 0, 0x10000, 0, 0, 0, 0x40000000];
+
+// Helper: big-endian unsigned integer of the given byte width
+const uint = (value: number, width: number): Uint8Array => {
+  const bytes = new Uint8Array(width);
+  for (let i = width - 1; i >= 0; i--) {
+    bytes[i] = value & 0xff;
+    value = Math.floor(value / 256);
+  }
+  return bytes;
+};
+
+const ascii = (text: string) => Uint8Array.from(text, (char) => char.charCodeAt(0));
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+};
+
+const box = (type: string, ...content: Uint8Array[]): Uint8Array => {
+  const body = concat(content);
+  return concat([uint(8 + body.length, 4), ascii(type), body]);
+};
+
+const fullBox = (type: string, version: number, flags: number, ...content: Uint8Array[]) =>
+  box(type, uint(version, 1), uint(flags, 3), ...content);
+
+// MPEG-4 descriptor (inside esds) with a one-byte size
+const descriptor = (tag: number, ...content: Uint8Array[]): Uint8Array => {
+  const body = concat(content);
+  return concat([uint(tag, 1), uint(body.length, 1), body]);
+};
+
+const createEsds = (track: Mp4AudioTrack, bufferSize: number) =>
+  fullBox(
+    'esds',
+    0,
+    0,
+    descriptor(
+      0x03,
+      uint(1, 2), // ES_ID
+      uint(0, 1), // No dependencies, URL or OCR stream
+      descriptor(
+        0x04,
+        uint(0x40, 1), // Object type: MPEG-4 audio
+        uint(0x15, 1), // Stream type: audio
+        uint(bufferSize, 3),
+        uint(track.bitrate, 4), // Maximum bitrate
+        uint(track.bitrate, 4), // Average bitrate
+        descriptor(0x05, track.decoderConfig)
+      ),
+      descriptor(0x06, uint(0x02, 1)) // SL config: predefined for MP4
+    )
+  );
+
+const createSampleTable = (track: Mp4AudioTrack, dataOffset: number) => {
+  const sizes = track.frameSizes;
+  const bufferSize = sizes.reduce((max, size) => Math.max(max, size), 0);
+
+  return box(
+    'stbl',
+    fullBox(
+      'stsd',
+      0,
+      0,
+      uint(1, 4),
+      box(
+        'mp4a',
+        uint(0, 6), // Reserved
+        uint(1, 2), // Data reference index
+        uint(0, 8), // Reserved
+        uint(track.channelCount, 2),
+        uint(16, 2), // Sample size
+        uint(0, 4), // Pre-defined and reserved
+        // 16.16 fixed point; rates above 65535 Hz are only in the decoder config
+        uint(track.sampleRate < 0x10000 ? track.sampleRate * 0x10000 : 0, 4),
+        createEsds(track, bufferSize)
+      )
+    ),
+    // Every frame has the same duration
+    fullBox('stts', 0, 0, uint(1, 4), uint(sizes.length, 4), uint(track.frameLength, 4)),
+    // All frames in one chunk
+    fullBox('stsc', 0, 0, uint(1, 4), uint(1, 4), uint(sizes.length, 4), uint(1, 4)),
+    fullBox('stsz', 0, 0, uint(0, 4), uint(sizes.length, 4), ...sizes.map((size) => uint(size, 4))),
+    fullBox('stco', 0, 0, uint(1, 4), uint(dataOffset, 4))
+  );
+};
+
+const createMovie = (track: Mp4AudioTrack, dataOffset: number) => {
+  const mediaDuration = track.frameSizes.length * track.frameLength;
+  const duration = Math.round((track.length / track.sampleRate) * MOVIE_TIMESCALE);
+  const matrix = MATRIX.map((value) => uint(value, 4));
+
+  return box(
+    'moov',
+    fullBox(
+      'mvhd',
+      0,
+      0,
+      uint(0, 8), // Creation and modification time
+      uint(MOVIE_TIMESCALE, 4),
+      uint(duration, 4),
+      uint(0x10000, 4), // Rate 1.0
+      uint(0x100, 2), // Volume 1.0
+      uint(0, 10), // Reserved
+      ...matrix,
+      uint(0, 24), // Pre-defined
+      uint(2, 4) // Next track id
+    ),
+    box(
+      'trak',
+      fullBox(
+        'tkhd',
+        0,
+        3, // Enabled, in movie
+        uint(0, 8), // Creation and modification time
+        uint(1, 4), // Track id
+        uint(0, 4), // Reserved
+        uint(duration, 4),
+        uint(0, 8), // Reserved
+        uint(0, 4), // Layer and alternate group
+        uint(0x100, 2), // Volume 1.0
+        uint(0, 2), // Reserved
+        ...matrix,
+        uint(0, 8) // Width and height
+      ),
+      // The edit list skips the encoder delay, so playback starts at the first real sample
+      box(
+        'edts',
+        fullBox('elst', 0, 0, uint(1, 4), uint(duration, 4), uint(track.delay, 4), uint(0x10000, 4))
+      ),
+      box(
+        'mdia',
+        fullBox(
+          'mdhd',
+          0,
+          0,
+          uint(0, 8), // Creation and modification time
+          uint(track.sampleRate, 4),
+          uint(mediaDuration, 4),
+          uint(0x55c4, 2), // Language: und
+          uint(0, 2)
+        ),
+        fullBox('hdlr', 0, 0, uint(0, 4), ascii('soun'), uint(0, 12), ascii('SoundHandler\0')),
+        box(
+          'minf',
+          fullBox('smhd', 0, 0, uint(0, 4)),
+          box('dinf', fullBox('dref', 0, 0, uint(1, 4), fullBox('url ', 0, 1))),
+          createSampleTable(track, dataOffset)
+        )
+      )
+    )
+  );
+};
+
+// Write everything that goes before the frames of an .m4a file: ftyp, moov and the mdat header.
+// The frames follow in order.
+export const writeM4aHeader = (track: Mp4AudioTrack): Uint8Array => {
+  const fileType = box('ftyp', ascii('M4A '), uint(0, 4), ascii('M4A '), ascii('mp42'), ascii('isom'));
+  const dataSize = track.frameSizes.reduce((sum, size) => sum + size, 0);
+
+  // The sample table points into mdat, whose position depends on the size of moov itself
+  const movieSize = createMovie(track, 0).length;
+  const dataOffset = fileType.length + movieSize + 8;
+  const movie = createMovie(track, dataOffset);
+
+  return concat([fileType, movie, uint(8 + dataSize, 4), ascii('mdat')]);
+};
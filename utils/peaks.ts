@@ -0,0 +1,251 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { AudioStream, openAudioStream } from './audioDecoder';
+import { base64ToBytes, bytesToBase64 } from './base64';
+import { yieldToEventLoop } from './progress';
+
+// Waveform peaks: min, max and RMS summaries of an audio file at several zoom levels. The
+// finest level covers BASE_SAMPLES_PER_PEAK frames per peak and each coarser level halves it.
+// Results are cached per file, in memory and (on native) on disk, so a file is only read once.
+
+// Interface for the peaks of one zoom level
+export interface PeakLevel {
+  // Sample frames summarized by each peak
+  samplesPerPeak: number;
+  // Lowest and highest sample across all channels, and the RMS level
+  min: Float32Array;
+  max: Float32Array;
+  rms: Float32Array;
+}
+
+// Interface for a file's peaks
+export interface WaveformPeaks {
+  sampleRate: number;
+  // Length in sample frames
+  length: number;
+  // Finest first
+  levels: PeakLevel[];
+}
+
+// Interface for peaks reduced to a given number of points for drawing
+export interface PeakSummary {
+  min: Float32Array;
+  max: Float32Array;
+  rms: Float32Array;
+}
+
+const BASE_SAMPLES_PER_PEAK = 256;
+
+// Coarser levels stop once a level has this few peaks
+const MIN_LEVEL_PEAKS = 64;
+
+// Frames read per step; a whole number of peaks so peaks never straddle two reads
+const READ_FRAMES = BASE_SAMPLES_PER_PEAK * 256;
+
+// Files kept in memory; the least recently used are dropped first
+const MAX_MEMORY_ENTRIES = 8;
+
+// Bump when the stored format or the analysis changes
+const PEAKS_VERSION = 1;
+
+const CACHE_DIR = `${FileSystem.cacheDirectory}peaks/`;
+
+// Interface for a cached file as stored on disk: the finest level only
+interface StoredPeaks {
+  version: number;
+  sampleRate: number;
+  length: number;
+  // min, max and rms of the finest level, one after the other, as base64 Float32 data
+  data: string;
+}
+
+// Peaks by file key, most recently used last; pending results are shared
+const memoryCache = new Map<string, Promise<WaveformPeaks>>();
+
+const computeBaseLevel = async (stream: AudioStream): Promise<PeakLevel> => {
+  const count = Math.ceil(stream.length / BASE_SAMPLES_PER_PEAK);
+  const min = new Float32Array(count);
+  const max = new Float32Array(count);
+  const rms = new Float32Array(count);
+
+  for (let start = 0; start < stream.length; start += READ_FRAMES) {
+    const frames = Math.min(READ_FRAMES, stream.length - start);
+    const channels = await stream.read(start, frames);
+
+    for (let offset = 0; offset < frames; offset += BASE_SAMPLES_PER_PEAK) {
+      const end = Math.min(offset + BASE_SAMPLES_PER_PEAK, frames);
+      let low = 0;
+      let high = 0;
+      let sumSquares = 0;
+      for (const samples of channels) {
+        for (let i = offset; i < end; i++) {
+          const value = samples[i];
+          if (value < low) low = value;
+          if (value > high) high = value;
+          sumSquares += value * value;
+        }
+      }
+
+      const index = (start + offset) / BASE_SAMPLES_PER_PEAK;
+      min[index] = low;
+      max[index] = high;
+      rms[index] = Math.sqrt(sumSquares / ((end - offset) * channels.length));
+    }
+
+    // Keep the UI responsive on long files
+    await yieldToEventLoop();
+  }
+
+  return { samplesPerPeak: BASE_SAMPLES_PER_PEAK, min, max, rms };
+};
+
+// Merge pairs of peaks into the next zoom level
+const halveLevel = (level: PeakLevel): PeakLevel => {
+  const count = Math.ceil(level.min.length / 2);
+  const min = new Float32Array(count);
+  const max = new Float32Array(count);
+  const rms = new Float32Array(count);
+
+  for (let i = 0; i < count; i++) {
+    const a = i * 2;
+    const b = Math.min(a + 1, level.min.length - 1);
+    min[i] = Math.min(level.min[a], level.min[b]);
+    max[i] = Math.max(level.max[a], level.max[b]);
+    rms[i] = Math.sqrt((level.rms[a] ** 2 + level.rms[b] ** 2) / 2);
+  }
+
+  return { samplesPerPeak: level.samplesPerPeak * 2, min, max, rms };
+};
+
+const buildLevels = (base: PeakLevel): PeakLevel[] => {
+  const levels = [base];
+  while (levels[levels.length - 1].min.length > MIN_LEVEL_PEAKS) {
+    levels.push(halveLevel(levels[levels.length - 1]));
+  }
+  return levels;
+};
+
+const toStoredPeaks = ({ sampleRate, length, levels: [base] }: WaveformPeaks): StoredPeaks => {
+  const count = base.min.length;
+  const data = new Float32Array(count * 3);
+  data.set(base.min, 0);
+  data.set(base.max, count);
+  data.set(base.rms, count * 2);
+  return {
+    version: PEAKS_VERSION,
+    sampleRate,
+    length,
+    data: bytesToBase64(new Uint8Array(data.buffer))
+  };
+};
+
+const fromStoredPeaks = ({ sampleRate, length, data }: StoredPeaks): WaveformPeaks => {
+  const values = new Float32Array(base64ToBytes(data).buffer);
+  const count = values.length / 3;
+  const base: PeakLevel = {
+    samplesPerPeak: BASE_SAMPLES_PER_PEAK,
+    min: values.subarray(0, count),
+    max: values.subarray(count, count * 2),
+    rms: values.subarray(count * 2)
+  };
+  return { sampleRate, length, levels: buildLevels(base) };
+};
+
+const analyzeFile = async (uri: string): Promise<WaveformPeaks> => {
+  const stream = await openAudioStream(uri);
+  try {
+    const base = await computeBaseLevel(stream);
+    return { sampleRate: stream.sampleRate, length: stream.length, levels: buildLevels(base) };
+  } finally {
+    await stream.close();
+  }
+};
+
+// Key a file by its contents on native, where the same path can be rewritten (a new recording,
+// for example), and by its Blob URL on web
+const getFileKey = async (uri: string): Promise<string> => {
+  if (Platform.OS === 'web') return uri;
+
+  const info = await FileSystem.getInfoAsync(uri, { md5: true });
+  if (!info.exists || !info.md5) {
+    throw new Error(`Cannot read ${uri}.`);
+  }
+  return info.md5;
+};
+
+// Read peaks from the disk cache, or analyze the file and store them there
+const loadPeaks = async (uri: string, key: string): Promise<WaveformPeaks> => {
+  if (Platform.OS === 'web') {
+    return analyzeFile(uri);
+  }
+
+  const cacheUri = `${CACHE_DIR}${key}.json`;
+  try {
+    if ((await FileSystem.getInfoAsync(cacheUri)).exists) {
+      const stored: StoredPeaks = JSON.parse(await FileSystem.readAsStringAsync(cacheUri));
+      if (stored.version === PEAKS_VERSION) {
+        return fromStoredPeaks(stored);
+      }
+    }
+  } catch (err) {
+    console.warn('Cached peaks unreadable, analyzing again', err);
+  }
+
+  const peaks = await analyzeFile(uri);
+  try {
+    await FileSystem.makeDirectoryAsync(CACHE_DIR, { intermediates: true });
+    await FileSystem.writeAsStringAsync(cacheUri, JSON.stringify(toStoredPeaks(peaks)));
+  } catch (err) {
+    console.warn('Failed to cache peaks', err);
+  }
+  return peaks;
+};
+
+// Get the peaks of an audio file, analyzing it on first use
+export const getWaveformPeaks = async (uri: string): Promise<WaveformPeaks> => {
+  const key = await getFileKey(uri);
+  let pending = memoryCache.get(key);
+  if (pending) {
+    memoryCache.delete(key);
+  } else {
+    pending = loadPeaks(uri, key);
+    // A failed analysis is not kept, so the next call tries again
+    pending.catch(() => memoryCache.delete(key));
+  }
+
+  memoryCache.set(key, pending);
+  for (const oldest of memoryCache.keys()) {
+    if (memoryCache.size <= MAX_MEMORY_ENTRIES) break;
+    memoryCache.delete(oldest);
+  }
+  return pending;
+};
+
+// Reduce peaks to count points for drawing, from the coarsest level that still has at least
+// that many peaks. Files shorter than count peaks repeat peaks to fill every point.
+export const summarizePeaks = (peaks: WaveformPeaks, count: number): PeakSummary => {
+  const level =
+    [...peaks.levels].reverse().find(({ min }) => min.length >= count) ?? peaks.levels[0];
+  const total = level.min.length;
+  const min = new Float32Array(count);
+  const max = new Float32Array(count);
+  const rms = new Float32Array(count);
+
+  for (let i = 0; i < count; i++) {
+    const start = Math.floor((i * total) / count);
+    const end = Math.max(start + 1, Math.floor(((i + 1) * total) / count));
+    let low = 0;
+    let high = 0;
+    let sumSquares = 0;
+    for (let j = start; j < end; j++) {
+      low = Math.min(low, level.min[j]);
+      high = Math.max(high, level.max[j]);
+      sumSquares += level.rms[j] ** 2;
+    }
+    min[i] = low;
+    max[i] = high;
+    rms[i] = Math.sqrt(sumSquares / (end - start));
+  }
+
+  return { min, max, rms };
+};
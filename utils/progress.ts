@@ -0,0 +1,109 @@
+// Stages reported by long-running audio jobs
+export type ProcessingStage = 'upload' | 'decode' | 'separate' | 'mix' | 'encode' | 'download';
+
+// Interface for a progress report
+export interface ProgressUpdate {
+  stage: ProcessingStage;
+  // Progress within the current stage, 0..1
+  stageProgress: number;
+  // Overall progress of the job, 0..1
+  progress: number;
+  // Estimated seconds until the job finishes, once there is enough data to guess
+  etaSeconds?: number;
+}
+
+export type ProgressCallback = (update: ProgressUpdate) => void;
+
+// Interface for the options shared by cancellable, progress-reporting jobs
+export interface JobOptions {
+  onProgress?: ProgressCallback;
+  signal?: AbortSignal;
+}
+
+// Human readable stage names for the UI
+export const STAGE_LABELS: Record<ProcessingStage, string> = {
+  upload: 'Uploading audio',
+  decode: 'Decoding audio',
+  separate: 'Separating tracks',
+  mix: 'Mixing tracks',
+  encode: 'Writing files',
+  download: 'Downloading stems',
+};
+
+// Error thrown when a job is cancelled through its AbortSignal
+export class CancelledError extends Error {
+  constructor() {
+    super('The operation was cancelled.');
+    this.name = 'CancelledError';
+  }
+}
+
+export const isCancelledError = (error: unknown): boolean => {
+  return error instanceof CancelledError || (error instanceof Error && error.name === 'AbortError');
+};
+
+// Throw if the job has been cancelled
+export const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new CancelledError();
+  }
+};
+
+// Give the event loop a turn so the UI can render progress and handle a cancel tap
+export const yieldToEventLoop = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+// Wait for a while; rejects with CancelledError as soon as the signal fires
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort);
+  });
+
+// Don't guess the remaining time until this much of the job is done
+const MIN_PROGRESS_FOR_ETA = 0.03;
+
+// Create a reporter that turns per-stage progress into overall progress and a time estimate.
+// Stage weights describe roughly how much of the total time each stage takes.
+export const createProgressReporter = (
+  stages: [ProcessingStage, number][],
+  onProgress?: ProgressCallback
+) => {
+  const startedAt = Date.now();
+  const totalWeight = stages.reduce((sum, [, weight]) => sum + weight, 0);
+
+  return (stage: ProcessingStage, stageProgress: number) => {
+    if (!onProgress) return;
+
+    let completed = 0;
+    let weight = 0;
+    for (const [name, stageWeight] of stages) {
+      if (name === stage) {
+        weight = stageWeight;
+        break;
+      }
+      completed += stageWeight;
+    }
+
+    const clamped = Math.min(1, Math.max(0, stageProgress));
+    const progress = totalWeight > 0 ? (completed + weight * clamped) / totalWeight : 0;
+    const elapsed = (Date.now() - startedAt) / 1000;
+
+    onProgress({
+      stage,
+      stageProgress: clamped,
+      progress,
+      etaSeconds: progress >= MIN_PROGRESS_FOR_ETA ? (elapsed * (1 - progress)) / progress : undefined,
+    });
+  };
+};
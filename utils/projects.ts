@@ -0,0 +1,295 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { EncoderSettings } from './encoders';
+import { EMPTY_HISTORY, EditHistory } from './history';
+import { moveCachedStem } from './resultCache';
+import { MaskTuning, QualityTier, SeparationMode, StemName } from './separation';
+import { DEFAULT_ENGINE_ID, StemTrack } from './separationEngine';
+
+// Projects keep a source file together with its stems, settings, mixer state and exports so
+// a session survives restarts. On native each project is a folder under the document
+// directory with a project.json next to a copy of the source and the stems, which are moved
+// out of the result cache rather than copied (the cache follows them). File names are stored
+// relative to that folder, as iOS may move the document directory when the app is updated.
+// On web the files are Blob URLs, so projects are kept for the session only. Each project
+// holds its own URLs for its stems, so the result cache revoking its URLs leaves them working.
+
+// Interface for the settings a separation runs with
+export interface SeparationSettings {
+  engineId: string;
+  mode: SeparationMode;
+  quality: QualityTier;
+  tuning?: MaskTuning;
+}
+
+// What an export produced: the mix, each stem as its own file, or both in a ZIP
+export type ExportOutput = 'mix' | 'stems' | 'bundle';
+
+// Interface for one export made from a project
+export interface ExportRecord {
+  exportedAt: number;
+  output: ExportOutput;
+  encoder: EncoderSettings;
+  // Stems included in the export
+  stems: StemName[];
+  // Names of the files produced
+  files: string[];
+}
+
+// Interface for a project with its file URIs resolved
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  source: { name: string; uri: string };
+  settings: SeparationSettings;
+  // Empty until the source has been separated
+  stems: StemTrack[];
+  volumes: Partial<Record<StemName, number>>;
+  // Undo/redo steps of the editor
+  history: EditHistory;
+  // Most recent first
+  exports: ExportRecord[];
+}
+
+// Fields that can be changed directly
+export type ProjectChanges = Partial<Pick<Project, 'name' | 'settings' | 'volumes' | 'history'>>;
+
+// Interface for a project as stored: file names instead of URIs (Blob URLs on web)
+interface ProjectRecord extends Omit<Project, 'source' | 'stems'> {
+  source: { name: string; file: string };
+  stems: { name: StemName; file: string }[];
+}
+
+export const DEFAULT_SEPARATION_SETTINGS: SeparationSettings = {
+  engineId: DEFAULT_ENGINE_ID,
+  mode: 'two-stem',
+  quality: 'balanced'
+};
+
+// Only the most recent exports are listed
+const MAX_EXPORT_RECORDS = 20;
+
+const PROJECTS_DIR = `${FileSystem.documentDirectory}projects/`;
+const PROJECT_FILE = 'project.json';
+
+// All projects by ID, once loaded
+let records: Map<string, ProjectRecord> | null = Platform.OS === 'web' ? new Map() : null;
+
+// Writes of project.json files, one at a time so a later state never gets overwritten
+let writeQueue: Promise<void> = Promise.resolve();
+
+const getProjectDir = (id: string) => `${PROJECTS_DIR}${id}/`;
+
+const resolveFile = (id: string, file: string) =>
+  Platform.OS === 'web' ? file : `${getProjectDir(id)}${file}`;
+
+const toProject = (record: ProjectRecord): Project => ({
+  ...record,
+  // Projects saved before the history was added have none
+  history: record.history ?? EMPTY_HISTORY,
+  source: { name: record.source.name, uri: resolveFile(record.id, record.source.file) },
+  stems: record.stems.map(({ name, file }) => ({ name, uri: resolveFile(record.id, file) }))
+});
+
+const createId = () => `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+// The extension of a file name or URI, with its dot; empty if there is none
+const getExtension = (uri: string): string => {
+  const name = uri.slice(uri.lastIndexOf('/') + 1).split('?')[0];
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot) : '';
+};
+
+// Give a Blob URL's contents a URL of their own; Blobs are immutable, so nothing is copied
+const copyBlobUrl = async (uri: string): Promise<string> =>
+  URL.createObjectURL(await (await fetch(uri)).blob());
+
+// Release the stem URLs a web project owns
+const revokeStemUrls = (record: ProjectRecord) => {
+  for (const { file } of record.stems) {
+    URL.revokeObjectURL(file);
+  }
+};
+
+// Load every project.json; folders without a readable one are skipped
+const loadRecords = async (): Promise<Map<string, ProjectRecord>> => {
+  if (records) return records;
+
+  const loaded = new Map<string, ProjectRecord>();
+  const info = await FileSystem.getInfoAsync(PROJECTS_DIR);
+  if (info.exists) {
+    for (const id of await FileSystem.readDirectoryAsync(PROJECTS_DIR)) {
+      try {
+        const record: ProjectRecord = JSON.parse(
+          await FileSystem.readAsStringAsync(`${getProjectDir(id)}${PROJECT_FILE}`)
+        );
+        loaded.set(record.id, record);
+      } catch (err) {
+        console.warn(`Project ${id} unreadable, skipping`, err);
+      }
+    }
+  }
+  records = loaded;
+  return records;
+};
+
+const saveRecord = (record: ProjectRecord): Promise<void> => {
+  if (Platform.OS === 'web') return Promise.resolve();
+
+  const json = JSON.stringify(record);
+  writeQueue = writeQueue
+    .catch(() => {})
+    .then(() => FileSystem.writeAsStringAsync(`${getProjectDir(record.id)}${PROJECT_FILE}`, json));
+  return writeQueue;
+};
+
+const getRecord = async (id: string): Promise<ProjectRecord> => {
+  const record = (await loadRecords()).get(id);
+  if (!record) {
+    throw new Error(`Project ${id} not found.`);
+  }
+  return record;
+};
+
+// Apply changes to a stored project and write it out
+const modifyRecord = async (
+  id: string,
+  change: (record: ProjectRecord) => Partial<ProjectRecord>
+): Promise<Project> => {
+  const all = await loadRecords();
+  const record = await getRecord(id);
+  const updated: ProjectRecord = { ...record, ...change(record), updatedAt: Date.now() };
+  all.set(id, updated);
+  await saveRecord(updated);
+  return toProject(updated);
+};
+
+// All projects, most recently changed first
+export const listProjects = async (): Promise<Project[]> => {
+  const all = await loadRecords();
+  return [...all.values()].sort((a, b) => b.updatedAt - a.updatedAt).map(toProject);
+};
+
+export const getProject = async (id: string): Promise<Project | null> => {
+  const record = (await loadRecords()).get(id);
+  return record ? toProject(record) : null;
+};
+
+// Start a project from a recorded or uploaded file; the file is copied into the project.
+// The project is named after the file unless a name is given.
+export const createProject = async (
+  sourceUri: string,
+  sourceName: string,
+  name?: string
+): Promise<Project> => {
+  const all = await loadRecords();
+  const id = createId();
+  const now = Date.now();
+
+  let file = sourceUri;
+  if (Platform.OS !== 'web') {
+    file = `source${getExtension(sourceName) || getExtension(sourceUri)}`;
+    await FileSystem.makeDirectoryAsync(getProjectDir(id), { intermediates: true });
+    await FileSystem.copyAsync({ from: sourceUri, to: resolveFile(id, file) });
+  }
+
+  const record: ProjectRecord = {
+    id,
+    name: name ?? (sourceName.replace(/\.[^.]+$/, '') || 'Untitled'),
+    createdAt: now,
+    updatedAt: now,
+    source: { name: sourceName, file },
+    settings: DEFAULT_SEPARATION_SETTINGS,
+    stems: [],
+    volumes: {},
+    history: EMPTY_HISTORY,
+    exports: []
+  };
+  all.set(id, record);
+  await saveRecord(record);
+  return toProject(record);
+};
+
+export const updateProject = (id: string, changes: ProjectChanges): Promise<Project> =>
+  modifyRecord(id, () => changes);
+
+// Replace a project's stems with a fresh separation; the tracks are moved or copied into the
+// project, so the stems of the returned project (not the ones passed in) should be used from here on
+export const setProjectStems = async (id: string, stems: StemTrack[]): Promise<Project> => {
+  const record = await getRecord(id);
+
+  const stored: ProjectRecord['stems'] = [];
+  if (Platform.OS === 'web') {
+    for (const { name, uri } of stems) {
+      stored.push({ name, file: await copyBlobUrl(uri) });
+    }
+    revokeStemUrls(record);
+  } else {
+    // Old stems go first; a stem set can shrink when the mode changes. A cache hit can hand
+    // back this project's own files, which stay where they are.
+    const incoming = new Set(stems.map(({ uri }) => uri));
+    for (const { file } of record.stems) {
+      const uri = resolveFile(id, file);
+      if (!incoming.has(uri)) await FileSystem.deleteAsync(uri, { idempotent: true });
+    }
+    await FileSystem.makeDirectoryAsync(`${getProjectDir(id)}stems/`, { intermediates: true });
+    for (const { name, uri } of stems) {
+      const file = `stems/${name}${getExtension(uri)}`;
+      const target = resolveFile(id, file);
+      if (uri !== target && !(await moveCachedStem(uri, target))) {
+        await FileSystem.copyAsync({ from: uri, to: target });
+      }
+      stored.push({ name, file });
+    }
+  }
+
+  return modifyRecord(id, () => ({ stems: stored }));
+};
+
+export const addProjectExport = (id: string, entry: ExportRecord): Promise<Project> =>
+  modifyRecord(id, (record) => ({
+    exports: [entry, ...record.exports].slice(0, MAX_EXPORT_RECORDS)
+  }));
+
+// Copy a project, files included, under a new name
+export const duplicateProject = async (id: string): Promise<Project> => {
+  const all = await loadRecords();
+  const record = await getRecord(id);
+  const copyId = createId();
+  const now = Date.now();
+
+  let stems = record.stems;
+  if (Platform.OS === 'web') {
+    stems = [];
+    for (const { name, file } of record.stems) {
+      stems.push({ name, file: await copyBlobUrl(file) });
+    }
+  } else {
+    await FileSystem.copyAsync({ from: getProjectDir(id), to: getProjectDir(copyId) });
+  }
+
+  const copy: ProjectRecord = {
+    ...record,
+    id: copyId,
+    name: `${record.name} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+    stems
+  };
+  all.set(copyId, copy);
+  await saveRecord(copy);
+  return toProject(copy);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const all = await loadRecords();
+  const record = all.get(id);
+  all.delete(id);
+  if (Platform.OS === 'web') {
+    if (record) revokeStemUrls(record);
+  } else {
+    await FileSystem.deleteAsync(getProjectDir(id), { idempotent: true });
+  }
+};
@@ -0,0 +1,485 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { base64ToBytes } from './base64';
+import { createTempDirectory, discardJobOutput } from './fileSystem';
+import { createFileAppender } from './fileWriter';
+import { StemName } from './separation';
+import type { EngineProcessOptions, SeparationEngine, StemTrack } from './separationEngine';
+import {
+  ProcessingStage,
+  createProgressReporter,
+  isCancelledError,
+  sleep,
+  throwIfCancelled
+} from './progress';
+
+// Client for a separation server.
+// API (JSON unless noted):
+//   POST   /uploads                 raw audio body        -> { id }
+//   POST   /jobs                    { uploadId, mode, quality } -> RemoteJob
+//   GET    /jobs/:id                                      -> RemoteJob
+//   DELETE /jobs/:id                cancels the job
+//   GET    /jobs/:id/stems/:name    WAV bytes, supports Range requests
+
+// Interface for a stem the server has finished
+export interface RemoteStem {
+  name: StemName;
+  // Size of the stem file in bytes
+  size: number;
+}
+
+// Interface for a job as reported by the server
+export interface RemoteJob {
+  id: string;
+  status: 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+  // Separation progress on the server, 0..1
+  progress: number;
+  stems?: RemoteStem[];
+  error?: string;
+}
+
+// Interface for remote engine settings
+export interface RemoteEngineConfig {
+  // Server address, e.g. http://192.168.1.20:8787
+  baseUrl: string;
+  id?: string;
+  name?: string;
+}
+
+// Error for a request the server answered with a failure status
+export class RemoteRequestError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'RemoteRequestError';
+    this.status = status;
+  }
+}
+
+// Rough share of the total time spent in each stage, used for overall progress and ETA
+const REMOTE_STAGES: [ProcessingStage, number][] = [
+  ['upload', 0.2],
+  ['separate', 0.6],
+  ['download', 0.2]
+];
+
+// Wait between attempts of a failed request; one retry per entry
+const RETRY_DELAYS_MS = [500, 1000, 2000, 4000];
+
+const POLL_INTERVAL_MS = 1000;
+
+// Stems are downloaded in ranges of this many bytes
+const DOWNLOAD_CHUNK_SIZE = 3 * 1024 * 1024;
+
+// Interface for a job that was started but whose stems are not all downloaded yet. It is saved
+// after every range, so a restart or a failed run picks up where the last one stopped instead
+// of uploading and separating again.
+interface PendingJob {
+  // Server, source and settings the job was started for
+  key: string;
+  jobId: string;
+  // Native only: directory holding the stem files
+  directory: string;
+  // Bytes of each stem already written
+  offsets: Partial<Record<StemName, number>>;
+}
+
+// Native pending jobs are saved as JSON in the cache directory. Web keeps them for the session,
+// together with the bytes downloaded so far, since a reload loses those anyway.
+const PENDING_JOBS_URI = `${FileSystem.cacheDirectory}remote-jobs.json`;
+let pendingJobs: PendingJob[] | null = Platform.OS === 'web' ? [] : null;
+const webPartialStems = new Map<string, Blob>();
+
+// Load the saved pending jobs; a missing or unreadable file means none
+const loadPendingJobs = async (): Promise<PendingJob[]> => {
+  if (pendingJobs) return pendingJobs;
+
+  try {
+    const info = await FileSystem.getInfoAsync(PENDING_JOBS_URI);
+    pendingJobs = info.exists ? JSON.parse(await FileSystem.readAsStringAsync(PENDING_JOBS_URI)) : [];
+  } catch (err) {
+    console.warn('Pending separation jobs unreadable, starting fresh', err);
+    pendingJobs = [];
+  }
+  return pendingJobs!;
+};
+
+const savePendingJobs = async () => {
+  if (Platform.OS === 'web' || !pendingJobs) return;
+  await FileSystem.writeAsStringAsync(PENDING_JOBS_URI, JSON.stringify(pendingJobs));
+};
+
+const getPartialKey = (job: PendingJob, name: StemName) => `${job.jobId}/${name}`;
+
+// Forget a pending job once its stems are handed over, or for good with discard
+const removePendingJob = async (job: PendingJob, discard = false) => {
+  pendingJobs = (await loadPendingJobs()).filter((pending) => pending !== job);
+  await savePendingJobs();
+  for (const name of Object.keys(job.offsets) as StemName[]) {
+    webPartialStems.delete(getPartialKey(job, name));
+  }
+  if (discard) {
+    await discardJobOutput([], job.directory || undefined);
+  }
+};
+
+// The saved job for this request, if the server still has it
+const findPendingJob = async (
+  baseUrl: string,
+  key: string,
+  signal?: AbortSignal
+): Promise<PendingJob | undefined> => {
+  const pending = (await loadPendingJobs()).find((job) => job.key === key);
+  if (!pending) return undefined;
+
+  try {
+    const job = await requestJson<RemoteJob>(`${baseUrl}/jobs/${pending.jobId}`, { method: 'GET' }, signal);
+    if (job.status !== 'failed' && job.status !== 'cancelled') {
+      return pending;
+    }
+  } catch (error) {
+    if (!(error instanceof RemoteRequestError && error.status === 404)) throw error;
+  }
+  await removePendingJob(pending, true);
+  return undefined;
+};
+
+// Timeouts, rate limits, server errors and network failures are worth another try
+const isRetryable = (error: unknown) => {
+  if (isCancelledError(error)) return false;
+  if (error instanceof RemoteRequestError) {
+    return error.status === 408 || error.status === 429 || error.status >= 500;
+  }
+  return true;
+};
+
+// Run a request, retrying transient failures with backoff
+const withRetry = async <T>(request: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    throwIfCancelled(signal);
+    try {
+      return await request();
+    } catch (error) {
+      if (attempt >= RETRY_DELAYS_MS.length || !isRetryable(error)) {
+        throw error;
+      }
+      console.warn(`Separation server request failed, retrying (${attempt + 1})`, error);
+      await sleep(RETRY_DELAYS_MS[attempt], signal);
+    }
+  }
+};
+
+// Helper to turn a failed response into an error that carries its status
+const checkResponse = async (response: Response): Promise<Response> => {
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new RemoteRequestError(response.status, text || `Server responded with ${response.status}.`);
+  }
+  return response;
+};
+
+const requestJson = async <T>(url: string, init: RequestInit, signal?: AbortSignal): Promise<T> => {
+  return withRetry(async () => {
+    const response = await checkResponse(await fetch(url, { ...init, signal }));
+    return response.json() as Promise<T>;
+  }, signal);
+};
+
+// Upload the source file; returns the server's upload id
+const uploadSource = async (
+  baseUrl: string,
+  audioUri: string,
+  onProgress: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<string> => {
+  const url = `${baseUrl}/uploads`;
+  const headers = { 'Content-Type': 'application/octet-stream' };
+
+  if (Platform.OS === 'web') {
+    const source = await (await fetch(audioUri)).blob();
+    const { id } = await requestJson<{ id: string }>(url, { method: 'POST', headers, body: source }, signal);
+    onProgress(1);
+    return id;
+  }
+
+  return withRetry(async () => {
+    const task = FileSystem.createUploadTask(
+      url,
+      audioUri,
+      {
+        httpMethod: 'POST',
+        uploadType: FileSystem.FileSystemUploadType.BINARY_CONTENT,
+        headers
+      },
+      ({ totalBytesSent, totalBytesExpectedToSend }) => {
+        if (totalBytesExpectedToSend > 0) {
+          onProgress(totalBytesSent / totalBytesExpectedToSend);
+        }
+      }
+    );
+
+    const onAbort = () => task.cancelAsync();
+    signal?.addEventListener('abort', onAbort);
+    try {
+      const result = await task.uploadAsync();
+      throwIfCancelled(signal);
+      if (!result || result.status < 200 || result.status >= 300) {
+        throw new RemoteRequestError(result?.status ?? 0, result?.body || 'Upload failed.');
+      }
+      return (JSON.parse(result.body) as { id: string }).id;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }, signal);
+};
+
+// Poll a job until it finishes; reports the server's progress
+const waitForJob = async (
+  baseUrl: string,
+  jobId: string,
+  onProgress: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<RemoteJob> => {
+  for (;;) {
+    const job = await requestJson<RemoteJob>(`${baseUrl}/jobs/${jobId}`, { method: 'GET' }, signal);
+    onProgress(job.progress);
+
+    if (job.status === 'done') {
+      return job;
+    }
+    if (job.status === 'failed' || job.status === 'cancelled') {
+      throw new Error(job.error || `Separation job ${job.status}.`);
+    }
+
+    await sleep(POLL_INTERVAL_MS, signal);
+  }
+};
+
+// Ask the server to stop a job; best effort, the job is abandoned either way
+const cancelJob = async (baseUrl: string, jobId: string) => {
+  try {
+    await fetch(`${baseUrl}/jobs/${jobId}`, { method: 'DELETE' });
+  } catch (err) {
+    console.warn('Failed to cancel separation job', err);
+  }
+};
+
+// Helper: the byte ranges a file of the given size is downloaded in, from offset on
+const getChunkRanges = (size: number, offset: number): [number, number][] => {
+  const ranges: [number, number][] = [];
+  for (let start = offset; start < size; start += DOWNLOAD_CHUNK_SIZE) {
+    ranges.push([start, Math.min(size, start + DOWNLOAD_CHUNK_SIZE) - 1]);
+  }
+  return ranges;
+};
+
+// Download a stem in ranges into a Blob URL, after the bytes already downloaded.
+// A failed range is retried on its own, so an interrupted download resumes where it stopped.
+const webDownloadStem = async (
+  url: string,
+  size: number,
+  downloaded: Blob,
+  onRange: (bytes: number, downloaded: Blob) => Promise<void>,
+  signal?: AbortSignal
+): Promise<string> => {
+  for (const [start, end] of getChunkRanges(size, downloaded.size)) {
+    const part = await withRetry(async () => {
+      const response = await checkResponse(
+        await fetch(url, { headers: { Range: `bytes=${start}-${end}` }, signal })
+      );
+      // A server that ignores the range sends the whole file
+      return { whole: response.status === 200, bytes: await response.arrayBuffer() };
+    }, signal);
+
+    downloaded = part.whole ? new Blob([part.bytes]) : new Blob([downloaded, part.bytes]);
+    await onRange(part.whole ? size : end + 1, downloaded);
+    if (part.whole) break;
+  }
+
+  return URL.createObjectURL(new Blob([downloaded], { type: 'audio/wav' }));
+};
+
+// Download a stem in ranges, appending each range to the destination as it arrives, so only
+// one range is ever held in memory. The destination already holds the first offset bytes.
+// A failed range is retried on its own, so an interrupted download resumes where it stopped.
+const nativeDownloadStem = async (
+  url: string,
+  size: number,
+  directory: string,
+  fileName: string,
+  offset: number,
+  onRange: (bytes: number) => Promise<void>,
+  signal?: AbortSignal
+): Promise<string> => {
+  const destination = `${directory}${fileName}`;
+  const partUri = `${destination}.part`;
+  const output = await createFileAppender(fileName, { directory, resume: offset > 0 });
+
+  try {
+    for (const [start, end] of getChunkRanges(size, offset)) {
+      const status = await withRetry(async () => {
+        const download = FileSystem.createDownloadResumable(url, partUri, {
+          headers: { Range: `bytes=${start}-${end}` }
+        });
+        const onAbort = () => download.cancelAsync();
+        signal?.addEventListener('abort', onAbort);
+        try {
+          const result = await download.downloadAsync();
+          throwIfCancelled(signal);
+          if (!result || (result.status !== 200 && result.status !== 206)) {
+            const status = result?.status ?? 0;
+            throw new RemoteRequestError(status, `Stem download failed with ${status}.`);
+          }
+          return result.status;
+        } finally {
+          signal?.removeEventListener('abort', onAbort);
+        }
+      }, signal);
+
+      // A server that ignores the range sends the whole file
+      if (status === 200) {
+        await output.abort();
+        await FileSystem.moveAsync({ from: partUri, to: destination });
+        await onRange(size);
+        return destination;
+      }
+
+      const part = await FileSystem.readAsStringAsync(partUri, {
+        encoding: FileSystem.EncodingType.Base64
+      });
+      await output.append(base64ToBytes(part));
+      await onRange(end + 1);
+    }
+
+    return await output.close();
+  } finally {
+    await FileSystem.deleteAsync(partUri, { idempotent: true });
+  }
+};
+
+// Helper: bytes of a stem already downloaded by an earlier run
+const getDownloadedBytes = async (job: PendingJob, name: StemName): Promise<number> => {
+  const offset = job.offsets[name] ?? 0;
+  if (Platform.OS === 'web') {
+    return webPartialStems.get(getPartialKey(job, name))?.size === offset ? offset : 0;
+  }
+  // A run that stopped between appending a range and saving its offset leaves a longer file;
+  // start that stem over
+  const info = await FileSystem.getInfoAsync(`${job.directory}${name}.wav`);
+  return info.exists && info.size === offset ? offset : 0;
+};
+
+// Run a whole job: upload, separate on the server, download the stems into a temp directory.
+// A job saved by an earlier run for the same source and settings is resumed instead.
+const runRemoteJob = async (
+  baseUrl: string,
+  audioUri: string,
+  options: EngineProcessOptions
+): Promise<StemTrack[]> => {
+  const { signal } = options;
+  const report = createProgressReporter(REMOTE_STAGES, options.onProgress);
+  const key = JSON.stringify([baseUrl, audioUri, options.mode, options.quality]);
+  const tracks: StemTrack[] = [];
+  let pending = await findPendingJob(baseUrl, key, signal);
+  let tempDir = pending?.directory;
+
+  try {
+    if (!pending) {
+      tempDir = await createTempDirectory();
+      report('upload', 0);
+      const uploadId = await uploadSource(baseUrl, audioUri, (fraction) => report('upload', fraction), signal);
+
+      const job = await requestJson<RemoteJob>(
+        `${baseUrl}/jobs`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ uploadId, mode: options.mode, quality: options.quality })
+        },
+        signal
+      );
+      pending = { key, jobId: job.id, directory: tempDir, offsets: {} };
+      (await loadPendingJobs()).push(pending);
+      await savePendingJobs();
+    } else if (tempDir) {
+      await FileSystem.makeDirectoryAsync(tempDir, { intermediates: true });
+    }
+    const job = pending;
+    report('upload', 1);
+
+    report('separate', 0);
+    const { stems = [] } = await waitForJob(baseUrl, job.jobId, (fraction) => report('separate', fraction), signal);
+
+    // Download the stems, saving how far each one got
+    const totalBytes = stems.reduce((sum, { size }) => sum + size, 0);
+    let finishedBytes = 0;
+    report('download', 0);
+
+    for (const { name, size } of stems) {
+      const url = `${baseUrl}/jobs/${job.jobId}/stems/${name}`;
+      const offset = await getDownloadedBytes(job, name);
+      const onRange = async (bytes: number) => {
+        job.offsets[name] = bytes;
+        await savePendingJobs();
+        report('download', (finishedBytes + bytes) / Math.max(1, totalBytes));
+      };
+
+      const uri = Platform.OS === 'web'
+        ? await webDownloadStem(
+            url,
+            size,
+            webPartialStems.get(getPartialKey(job, name))?.slice(0, offset) ?? new Blob([]),
+            (bytes, downloaded) => {
+              webPartialStems.set(getPartialKey(job, name), downloaded);
+              return onRange(bytes);
+            },
+            signal
+          )
+        : await nativeDownloadStem(url, size, job.directory, `${name}.wav`, offset, onRange, signal);
+      tracks.push({ name, uri });
+      finishedBytes += size;
+    }
+    report('download', 1);
+
+    await removePendingJob(job);
+    return tracks;
+  } catch (error) {
+    if (pending && !isCancelledError(error)) {
+      // Keep the job and the downloaded bytes for the next run; only the Blob URLs go
+      await discardJobOutput(Platform.OS === 'web' ? tracks.map(({ uri }) => uri) : []);
+      throw error;
+    }
+    if (pending) {
+      await cancelJob(baseUrl, pending.jobId);
+      await removePendingJob(pending);
+    }
+    // Remove partial output, including part files of an unfinished download
+    await discardJobOutput(tracks.map(({ uri }) => uri), tempDir || undefined);
+    throw error;
+  }
+};
+
+// Create an engine that runs separation on a server
+export const createRemoteEngine = ({
+  baseUrl,
+  id = 'remote',
+  name = 'Server'
+}: RemoteEngineConfig): SeparationEngine => {
+  const url = baseUrl.replace(/\/+$/, '');
+
+  return {
+    id,
+    name,
+    description: 'Separates tracks on a separation server.',
+    version: '1',
+    capabilities: {
+      platforms: ['web', 'ios', 'android'],
+      requiresNetwork: true,
+      maskTuning: false
+    },
+    stemSets: ['two-stem', 'four-stem'],
+    qualityTiers: ['balanced', 'fast', 'high'],
+    process: (audioUri, options) => runRemoteJob(url, audioUri, options)
+  };
+};
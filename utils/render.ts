@@ -0,0 +1,142 @@
+import { EncoderSettings, createEncoderStream } from './encoders';
+import {
+  AudioMeasurement,
+  MixAnalysis,
+  MixRenderer,
+  MixTrackFormat,
+  createAudioMeter,
+  createMixAnalyzer,
+  createMixRenderer
+} from './mixdown';
+import { AudioTags } from './metadata';
+import { writeHeaderTags } from './tagWriter';
+
+// Renders one output file a window at a time: mixes the input tracks through the limiter (or
+// passes a single track through), measures the result and encodes it with its tags. The caller
+// reads the inputs and writes the bytes, so the same session runs on the calling thread or in
+// the web worker.
+
+// Interface for one output file to render
+export interface RenderJob {
+  sampleRate: number;
+  // Output length in frames: the length of the longest track
+  length: number;
+  // One per input track, in the order their windows are passed
+  tracks: MixTrackFormat[];
+  // Mix the tracks with their gains and limit the sum; otherwise the only track is encoded as is
+  mix: boolean;
+  // Integrated loudness to normalize a mix to, in LUFS. The tracks must first be passed through
+  // analyze, then through write.
+  loudnessTarget?: number;
+  settings: EncoderSettings;
+  tags: AudioTags;
+}
+
+// Interface for the measurements of a rendered file
+export interface RenderResult {
+  // Mixes only: each track as it enters the mix, with its gain applied
+  inputs: AudioMeasurement[];
+  // Gain applied to reach the loudness target, in dB (0 without a target)
+  normalizationGainDb: number;
+  // The audio as encoded
+  output: AudioMeasurement;
+}
+
+// Interface for what is left to write when a render finishes
+export interface RenderOutput {
+  // Follows the bytes write returned
+  data: Uint8Array;
+  // The header, when it could not be written first; it goes before all the other bytes
+  header: Uint8Array | null;
+  // Ends the file, after data
+  trailer: Uint8Array;
+  result: RenderResult;
+}
+
+// Interface for a render in progress
+export interface RenderSession {
+  // Bytes that start the file, or null when the header comes from finish
+  header: Uint8Array | null;
+  // First pass, for a loudness target: measure one window of every track
+  analyze: (windows: Float32Array[][]) => void;
+  // Render and encode one window of every track; returns the bytes that follow so far
+  write: (windows: Float32Array[][]) => Uint8Array;
+  finish: () => RenderOutput;
+}
+
+const concat = (a: Uint8Array, b: Uint8Array): Uint8Array => {
+  const bytes = new Uint8Array(a.length + b.length);
+  bytes.set(a);
+  bytes.set(b, a.length);
+  return bytes;
+};
+
+export const createRenderSession = (job: RenderJob): RenderSession => {
+  const { sampleRate, length, tracks, loudnessTarget, settings, tags } = job;
+  if (tracks.length === 0 || (!job.mix && tracks.length > 1)) {
+    throw new Error('A render needs one track, or at least one to mix.');
+  }
+
+  const channelCount = Math.max(...tracks.map((track) => track.channelCount));
+  const stream = createEncoderStream({ sampleRate, channelCount, length }, settings);
+  const tagged = stream.header ? writeHeaderTags(stream.header, settings.format, tags) : null;
+
+  const analyzer = job.mix ? createMixAnalyzer(sampleRate, tracks, loudnessTarget) : null;
+  const meter = job.mix ? null : createAudioMeter(sampleRate, channelCount);
+  // With a loudness target the first pass has to be complete before the mix can be rendered;
+  // without one, the tracks are measured as they are rendered
+  const twoPass = loudnessTarget !== undefined;
+  let analysis: MixAnalysis | null = null;
+  let renderer: MixRenderer | null = null;
+
+  const getRenderer = (): MixRenderer => {
+    if (!renderer) {
+      if (twoPass) analysis = analyzer!.finish();
+      renderer = createMixRenderer(sampleRate, tracks, analysis?.normalizationGainDb ?? 0);
+    }
+    return renderer;
+  };
+
+  return {
+    header: tagged?.header ?? null,
+
+    analyze: (windows) => {
+      if (!analyzer || !twoPass || renderer) {
+        throw new Error('Only a mix with a loudness target is analyzed, before it is written.');
+      }
+      analyzer.add(windows);
+    },
+
+    write: (windows) => {
+      if (!analyzer) {
+        meter!.add(windows[0]);
+        return stream.write(windows[0]);
+      }
+      const mixer = getRenderer();
+      if (!twoPass) analyzer.add(windows);
+      return stream.write(mixer.process(windows));
+    },
+
+    finish: () => {
+      let rest = new Uint8Array(0);
+      let result: RenderResult;
+      if (analyzer) {
+        const { channels, stats } = getRenderer().finish();
+        rest = stream.write(channels);
+        const { inputs, normalizationGainDb } = analysis ?? analyzer.finish();
+        result = { inputs, normalizationGainDb, output: stats.output };
+      } else {
+        result = { inputs: [], normalizationGainDb: 0, output: meter!.finish() };
+      }
+
+      const end = stream.finish();
+      const deferred = end.header ? writeHeaderTags(end.header, settings.format, tags) : null;
+      return {
+        data: concat(rest, end.data),
+        header: deferred?.header ?? null,
+        trailer: (deferred ?? tagged)!.trailer,
+        result
+      };
+    }
+  };
+};
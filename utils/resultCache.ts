@@ -0,0 +1,246 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { cleanupTempFiles } from './fileSystem';
+import { MaskTuning, QualityTier, SeparationMode } from './separation';
+import { SeparationEngine, StemTrack, getEngine } from './separationEngine';
+import { createSha256 } from './sha256';
+
+// Cache of separation results, keyed on the source audio's content hash plus the engine,
+// its version and its settings. On native the stems live in their own folder under the cache
+// directory with a JSON index; on web the Blob URLs are kept for the session. A project that
+// takes a result moves the stems into its own folder (see moveCachedStem) and the entry keeps
+// pointing at them there, so they are stored once.
+
+// Interface for the settings a result depends on
+export interface CacheSettings {
+  mode: SeparationMode;
+  quality: QualityTier;
+  tuning?: MaskTuning;
+}
+
+// Interface for one cached result
+interface CacheEntry {
+  key: string;
+  engineId: string;
+  engineVersion: string;
+  stems: StemTrack[];
+  // Total size of the stem files in bytes
+  size: number;
+  lastUsed: number;
+}
+
+// Limits; the least recently used results are evicted first
+const MAX_CACHE_BYTES = 1024 * 1024 * 1024;
+const MAX_CACHE_ENTRIES = 20;
+
+const CACHE_DIR = `${FileSystem.cacheDirectory}stem-cache/`;
+const INDEX_URI = `${CACHE_DIR}index.json`;
+
+// Web entries, and the native index once loaded
+let entries: CacheEntry[] | null = Platform.OS === 'web' ? [] : null;
+
+// Load the native index; a missing or unreadable index is an empty cache
+const loadEntries = async (): Promise<CacheEntry[]> => {
+  if (entries) return entries;
+
+  try {
+    const info = await FileSystem.getInfoAsync(INDEX_URI);
+    entries = info.exists ? JSON.parse(await FileSystem.readAsStringAsync(INDEX_URI)) : [];
+  } catch (err) {
+    console.warn('Stem cache index unreadable, starting empty', err);
+    entries = [];
+  }
+  return entries!;
+};
+
+const saveEntries = async () => {
+  if (Platform.OS === 'web' || !entries) return;
+  await FileSystem.makeDirectoryAsync(CACHE_DIR, { intermediates: true });
+  await FileSystem.writeAsStringAsync(INDEX_URI, JSON.stringify(entries));
+};
+
+// Release an entry's stems. Stems moved out to a project are not the cache's to delete;
+// their entry simply goes stale once the project drops them.
+const deleteEntry = async (entry: CacheEntry) => {
+  if (Platform.OS === 'web') {
+    for (const { uri } of entry.stems) {
+      URL.revokeObjectURL(uri);
+    }
+    return;
+  }
+  await FileSystem.deleteAsync(`${CACHE_DIR}${entry.key}/`, { idempotent: true });
+};
+
+// Bytes of a Blob hashed per step, so a long source is never in memory as a whole
+const HASH_SLICE_SIZE = 4 * 1024 * 1024;
+
+// Hash the source's bytes: MD5 from the native file system, SHA-256 in the browser
+const hashSource = async (audioUri: string): Promise<string> => {
+  if (Platform.OS === 'web') {
+    const blob = await (await fetch(audioUri)).blob();
+    const hash = createSha256();
+    for (let position = 0; position < blob.size; position += HASH_SLICE_SIZE) {
+      hash.update(new Uint8Array(await blob.slice(position, position + HASH_SLICE_SIZE).arrayBuffer()));
+    }
+    return hash.digest();
+  }
+
+  const info = await FileSystem.getInfoAsync(audioUri, { md5: true });
+  if (!info.exists || !info.md5) {
+    throw new Error(`Cannot hash ${audioUri}.`);
+  }
+  return info.md5;
+};
+
+// Build the cache key for a source, engine and settings
+export const getCacheKey = async (
+  audioUri: string,
+  engine: SeparationEngine,
+  settings: CacheSettings
+): Promise<string> => {
+  const hash = await hashSource(audioUri);
+  const { hardness, vocalLowHz, vocalHighHz } = settings.tuning ?? {};
+  const parts = [hash, engine.id, engine.version, settings.mode, settings.quality];
+  if (hardness !== undefined || vocalLowHz !== undefined || vocalHighHz !== undefined) {
+    parts.push(`h${hardness ?? ''}v${vocalLowHz ?? ''}-${vocalHighHz ?? ''}`);
+  }
+  // Keep the key safe to use as a folder name
+  return parts.join('_').replace(/[^a-zA-Z0-9_-]/g, '-');
+};
+
+// Remove results from engine versions that are no longer registered; their keys can never
+// be looked up again
+export const pruneStaleResults = async () => {
+  const all = await loadEntries();
+  const stale = all.filter(({ engineId, engineVersion }) => {
+    const engine = getEngine(engineId);
+    return engine !== undefined && engine.version !== engineVersion;
+  });
+  if (stale.length === 0) return;
+
+  for (const entry of stale) {
+    await deleteEntry(entry);
+  }
+  entries = all.filter((entry) => !stale.includes(entry));
+  await saveEntries();
+};
+
+// Look up a stored result; returns null on a miss or when its files have gone missing
+export const getCachedResult = async (key: string): Promise<StemTrack[] | null> => {
+  await pruneStaleResults();
+  const all = await loadEntries();
+  const entry = all.find((candidate) => candidate.key === key);
+  if (!entry) return null;
+
+  if (Platform.OS !== 'web') {
+    // The OS may clear the cache directory behind our back
+    for (const { uri } of entry.stems) {
+      const info = await FileSystem.getInfoAsync(uri);
+      if (!info.exists) {
+        await deleteEntry(entry);
+        entries = all.filter((candidate) => candidate !== entry);
+        await saveEntries();
+        return null;
+      }
+    }
+  }
+
+  entry.lastUsed = Date.now();
+  await saveEntries();
+  return entry.stems;
+};
+
+// Evict the least recently used results until the cache is within its limits
+const evict = async (keep: string) => {
+  const all = await loadEntries();
+  all.sort((a, b) => b.lastUsed - a.lastUsed);
+
+  let total = all.reduce((sum, { size }) => sum + size, 0);
+  while (all.length > 1 && (all.length > MAX_CACHE_ENTRIES || total > MAX_CACHE_BYTES)) {
+    const victim = all[all.length - 1];
+    if (victim.key === keep) break;
+    all.pop();
+    total -= victim.size;
+    await deleteEntry(victim);
+  }
+};
+
+// Store a fresh result. On native the stems are moved into the cache, so the returned
+// tracks (not the ones passed in) must be used from here on.
+export const storeResult = async (
+  key: string,
+  engine: SeparationEngine,
+  stems: StemTrack[]
+): Promise<StemTrack[]> => {
+  const all = await loadEntries();
+  const existing = all.find((entry) => entry.key === key);
+  if (existing) {
+    await deleteEntry(existing);
+    all.splice(all.indexOf(existing), 1);
+  }
+
+  let cached = stems;
+  let size = 0;
+
+  if (Platform.OS === 'web') {
+    for (const { uri } of stems) {
+      size += (await (await fetch(uri)).blob()).size;
+    }
+  } else {
+    const dir = `${CACHE_DIR}${key}/`;
+    await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+    cached = [];
+    for (const { name, uri } of stems) {
+      const target = `${dir}${name}.wav`;
+      await FileSystem.moveAsync({ from: uri, to: target });
+      const info = await FileSystem.getInfoAsync(target, { size: true });
+      size += info.exists ? info.size : 0;
+      cached.push({ name, uri: target });
+    }
+
+    // The engine's temp_<timestamp>/ folders are empty now
+    const sourceDirs = new Set(stems.map(({ uri }) => uri.slice(0, uri.lastIndexOf('/') + 1)));
+    await cleanupTempFiles([...sourceDirs].filter((dir) => /\/temp_\d+\/$/.test(dir)));
+  }
+
+  all.push({
+    key,
+    engineId: engine.id,
+    engineVersion: engine.version,
+    stems: cached,
+    size,
+    lastUsed: Date.now()
+  });
+  await evict(key);
+  await saveEntries();
+
+  return cached;
+};
+
+// Move a cached stem file to its new owner at target instead of copying it. The entry points
+// at the new location from then on and no longer counts the file against the cache's size.
+// Returns false when the file is not in the cache's own folder, for the caller to copy it.
+export const moveCachedStem = async (uri: string, target: string): Promise<boolean> => {
+  if (Platform.OS === 'web' || !uri.startsWith(CACHE_DIR)) return false;
+
+  const all = await loadEntries();
+  const entry = all.find(({ stems }) => stems.some((stem) => stem.uri === uri));
+  if (!entry) return false;
+
+  const info = await FileSystem.getInfoAsync(uri, { size: true });
+  await FileSystem.moveAsync({ from: uri, to: target });
+  entry.stems = entry.stems.map((stem) => (stem.uri === uri ? { ...stem, uri: target } : stem));
+  entry.size -= info.exists ? info.size : 0;
+  await saveEntries();
+  return true;
+};
+
+// Drop every cached result
+export const clearResultCache = async () => {
+  const all = await loadEntries();
+  for (const entry of all) {
+    await deleteEntry(entry);
+  }
+  entries = [];
+  await saveEntries();
+};
@@ -0,0 +1,554 @@
+import { PCMAudio } from './wav';
+import { throwIfCancelled, yieldToEventLoop } from './progress';
+import {
+  StftOptions,
+  analyzeFrame,
+  createOverlapAdd,
+  createWindow,
+  getFrameCount,
+  getFrameStart,
+} from './stft';
+
+// Names of the stems the separator can produce
+export type StemName =
+  | 'vocals'
+  | 'instrumental'
+  | 'drums'
+  | 'bass'
+  | 'other'
+  | 'harmonic'
+  | 'percussive';
+
+// Separation modes and the stems each one produces, in display order
+export type SeparationMode = 'two-stem' | 'four-stem' | 'harmonic-percussive';
+
+export const STEM_SETS: Record<SeparationMode, StemName[]> = {
+  'two-stem': ['vocals', 'instrumental'],
+  'four-stem': ['vocals', 'drums', 'bass', 'other'],
+  'harmonic-percussive': ['harmonic', 'percussive'],
+};
+
+// Stems produced by the separator, keyed by name; together they sum to the input
+export type SeparatedStems = Partial<Record<StemName, PCMAudio>>;
+
+// Speed/quality trade-offs
+export type QualityTier = 'fast' | 'balanced' | 'high';
+
+// Interface for the advanced mask settings; anything left out uses the default
+export interface MaskTuning {
+  // 1 is the default; higher values push the masks towards all-or-nothing,
+  // lower values let more of each source bleed into the others
+  hardness?: number;
+  // Frequency range where vocal energy is expected
+  vocalLowHz?: number;
+  vocalHighHz?: number;
+}
+
+// Interface for separation options
+export interface SeparationOptions {
+  mode?: SeparationMode;
+  // Defaults to balanced
+  quality?: QualityTier;
+  tuning?: MaskTuning;
+  // Called with the fraction of frames processed, 0..1
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+// Interface for one analyzed STFT frame
+interface SpectralFrame {
+  re: Float32Array[];
+  im: Float32Array[];
+  // Power spectrum averaged over channels
+  power: Float32Array;
+}
+
+// Fills one mask per synthesized stem for the center frame of a context window.
+// Context frames that fall outside the signal are null.
+type MaskFunction = (frames: (SpectralFrame | null)[], masks: Float32Array[]) => void;
+
+// Interface for what a quality tier changes
+interface QualityPreset {
+  frameSize: number;
+  // Frames overlapping each sample; the hop is frameSize / overlap
+  overlap: number;
+  // Passes that re-estimate the vocal mask from the previous vocal estimate
+  refinementIterations: number;
+  // Whether the final masks are replaced by Wiener gains from the stems' estimated power
+  wienerFilter: boolean;
+}
+
+// Interface for the settings of one separation run
+interface SeparationSettings {
+  sampleRate: number;
+  bins: number;
+  stft: StftOptions;
+  refinementIterations: number;
+  wienerFilter: boolean;
+  hardness: number;
+  vocalLowHz: number;
+  vocalHighHz: number;
+  // Filter sizes scaled to the frame and hop sizes
+  envelopeRadius: number;
+  harmonicRadius: number;
+  percussiveRadius: number;
+}
+
+const QUALITY_PRESETS: Record<QualityTier, QualityPreset> = {
+  fast: { frameSize: 1024, overlap: 2, refinementIterations: 0, wienerFilter: false },
+  balanced: { frameSize: 2048, overlap: 4, refinementIterations: 0, wienerFilter: true },
+  high: { frameSize: 4096, overlap: 4, refinementIterations: 2, wienerFilter: true },
+};
+
+// How many frames to process between progress reports and cancellation checks
+const FRAMES_PER_YIELD = 256;
+
+// The filter sizes below are tuned for this frame and hop size
+const REFERENCE_FRAME_SIZE = 2048;
+const REFERENCE_HOP_SIZE = 512;
+
+// Default frequency range where vocal energy is expected
+export const VOCAL_LOW_HZ = 120;
+export const VOCAL_HIGH_HZ = 8000;
+
+// Bass stem: full weight below the first frequency, fading out by the second
+const BASS_FULL_HZ = 150;
+const BASS_CUTOFF_HZ = 300;
+
+// Exponent applied to the stereo coherence; higher means a stricter center mask
+const CENTER_HARDNESS = 2;
+
+// Half-width (in bins) of the spectral envelope used to find harmonic peaks
+const ENVELOPE_RADIUS = 6;
+
+// How far above the envelope a bin must rise to count as a peak (mask value 0.5)
+const PEAK_THRESHOLD = 2;
+
+// Half-widths of the median filters that split sustained from transient energy:
+// across time in frames, and across frequency in bins
+const HARMONIC_RADIUS = 8;
+const PERCUSSIVE_RADIUS = 8;
+
+// Half-width (in bins) of the smoothing applied to the stems' power before Wiener filtering
+const WIENER_RADIUS = 1;
+
+const EPSILON = 1e-10;
+
+// Resolve the quality tier and tuning into concrete settings
+const resolveSettings = (sampleRate: number, options: SeparationOptions): SeparationSettings => {
+  const preset = QUALITY_PRESETS[options.quality ?? 'balanced'];
+  const { frameSize } = preset;
+  const hopSize = frameSize / preset.overlap;
+  const tuning = options.tuning ?? {};
+
+  // Keep the filters covering the same span of time and frequency at every resolution
+  const binScale = frameSize / REFERENCE_FRAME_SIZE;
+  const frameScale = REFERENCE_HOP_SIZE / hopSize;
+
+  const vocalLowHz = tuning.vocalLowHz ?? VOCAL_LOW_HZ;
+  const vocalHighHz = tuning.vocalHighHz ?? VOCAL_HIGH_HZ;
+  if (!(vocalLowHz > 0 && vocalHighHz > vocalLowHz)) {
+    throw new Error(`Invalid vocal frequency range ${vocalLowHz}-${vocalHighHz} Hz.`);
+  }
+
+  return {
+    sampleRate,
+    bins: frameSize / 2 + 1,
+    stft: { frameSize, hopSize, window: 'hann' },
+    refinementIterations: preset.refinementIterations,
+    wienerFilter: preset.wienerFilter,
+    hardness: Math.max(0.1, tuning.hardness ?? 1),
+    vocalLowHz,
+    vocalHighHz,
+    envelopeRadius: Math.max(1, Math.round(ENVELOPE_RADIUS * binScale)),
+    harmonicRadius: Math.max(1, Math.round(HARMONIC_RADIUS * frameScale)),
+    percussiveRadius: Math.max(1, Math.round(PERCUSSIVE_RADIUS * binScale)),
+  };
+};
+
+// Smooth band-pass weight in [0, 1] for each FFT bin
+const createBandWeights = (settings: SeparationSettings): Float32Array => {
+  const { bins, sampleRate, stft, vocalLowHz, vocalHighHz } = settings;
+  const weights = new Float32Array(bins);
+  for (let k = 0; k < bins; k++) {
+    const freq = (k * sampleRate) / stft.frameSize;
+    // Half-octave raised-cosine roll-off on both edges
+    const low = Math.min(1, Math.max(0, Math.log2(freq / vocalLowHz + EPSILON) * 2 + 1));
+    const high = Math.min(1, Math.max(0, 1 - Math.log2(freq / vocalHighHz + EPSILON) * 2));
+    weights[k] = (0.5 - 0.5 * Math.cos(Math.PI * low)) * (0.5 - 0.5 * Math.cos(Math.PI * high));
+  }
+  return weights;
+};
+
+// Raised-cosine low-pass weight in [0, 1] for each FFT bin
+const createLowPassWeights = (settings: SeparationSettings, fullHz: number, cutoffHz: number) => {
+  const { bins, sampleRate, stft } = settings;
+  const weights = new Float32Array(bins);
+  for (let k = 0; k < bins; k++) {
+    const freq = (k * sampleRate) / stft.frameSize;
+    const t = Math.min(1, Math.max(0, (freq - fullHz) / (cutoffHz - fullHz)));
+    weights[k] = 0.5 + 0.5 * Math.cos(Math.PI * t);
+  }
+  return weights;
+};
+
+// Median of the first count values of a scratch buffer; reorders the buffer
+const median = (values: Float32Array, count: number): number => {
+  for (let i = 1; i < count; i++) {
+    const value = values[i];
+    let j = i - 1;
+    while (j >= 0 && values[j] > value) {
+      values[j + 1] = values[j];
+      j--;
+    }
+    values[j + 1] = value;
+  }
+  const middle = count >> 1;
+  return count % 2 === 1 ? values[middle] : 0.5 * (values[middle - 1] + values[middle]);
+};
+
+// Running box filter across frequency: the mean of values within radius bins of each bin
+const boxFilter = (values: Float32Array, radius: number, output: Float32Array) => {
+  const bins = values.length;
+  let sum = 0;
+  let count = 0;
+
+  for (let k = 0; k < Math.min(radius, bins); k++) {
+    sum += values[k];
+    count++;
+  }
+
+  for (let k = 0; k < bins; k++) {
+    const enter = k + radius;
+    const leave = k - radius - 1;
+    if (enter < bins) {
+      sum += values[enter];
+      count++;
+    }
+    if (leave >= 0) {
+      sum -= values[leave];
+      count--;
+    }
+    output[k] = Math.max(sum, 0) / count;
+  }
+};
+
+// Soft mask favouring harmonic peaks that stand above the local spectral envelope
+const computePeakMask = (
+  power: Float32Array,
+  envelope: Float32Array,
+  mask: Float32Array,
+  settings: SeparationSettings
+) => {
+  boxFilter(power, settings.envelopeRadius, envelope);
+  for (let k = 0; k < power.length; k++) {
+    const ratio = Math.pow(power[k] / (PEAK_THRESHOLD * envelope[k] + EPSILON), settings.hardness);
+    mask[k] = (ratio * ratio) / (1 + ratio * ratio);
+  }
+};
+
+// Vocal mask: harmonic peaks in the vocal band, limited to center-panned content for stereo.
+// Each refinement pass looks for the peaks again in the previous vocal estimate, where the
+// accompaniment no longer hides them.
+const createVocalMasker = (settings: SeparationSettings) => {
+  const { bins } = settings;
+  const bandWeights = createBandWeights(settings);
+  const centerHardness = CENTER_HARDNESS * settings.hardness;
+  const spatialMask = new Float32Array(bins);
+  const peakMask = new Float32Array(bins);
+  const envelope = new Float32Array(bins);
+  const vocalPower = new Float32Array(bins);
+
+  return ({ re, im, power }: SpectralFrame, mask: Float32Array) => {
+    for (let k = 0; k < bins; k++) {
+      let center = 1;
+      if (re.length >= 2) {
+        // Coherence of the first two channels: 1 for identical (center) content,
+        // 0 or below for hard-panned or uncorrelated content
+        const cross = re[0][k] * re[1][k] + im[0][k] * im[1][k];
+        const energy =
+          re[0][k] * re[0][k] + im[0][k] * im[0][k] +
+          re[1][k] * re[1][k] + im[1][k] * im[1][k];
+        const coherence = Math.max(0, (2 * cross) / (energy + EPSILON));
+        center = Math.pow(coherence, centerHardness);
+      }
+      spatialMask[k] = bandWeights[k] * center;
+    }
+
+    computePeakMask(power, envelope, peakMask, settings);
+    for (let k = 0; k < bins; k++) {
+      mask[k] = spatialMask[k] * peakMask[k];
+    }
+
+    for (let i = 0; i < settings.refinementIterations; i++) {
+      for (let k = 0; k < bins; k++) {
+        vocalPower[k] = mask[k] * mask[k] * power[k];
+      }
+      computePeakMask(vocalPower, envelope, peakMask, settings);
+      for (let k = 0; k < bins; k++) {
+        mask[k] = spatialMask[k] * peakMask[k];
+      }
+    }
+  };
+};
+
+// Percussive share of each bin of the center frame, from median filtering the power.
+// Drum hits are short in time and broad in frequency; tones are the opposite.
+const createPercussiveMasker = (settings: SeparationSettings) => {
+  const { bins, harmonicRadius, percussiveRadius } = settings;
+  const scratch = new Float32Array(2 * Math.max(harmonicRadius, percussiveRadius) + 1);
+  const exponent = 2 * settings.hardness;
+
+  return (frames: (SpectralFrame | null)[], mask: Float32Array) => {
+    const center = frames[harmonicRadius] as SpectralFrame;
+
+    for (let k = 0; k < bins; k++) {
+      let count = 0;
+      for (const frame of frames) {
+        if (frame) {
+          scratch[count++] = frame.power[k];
+        }
+      }
+      const harmonic = median(scratch, count);
+
+      count = 0;
+      const to = Math.min(bins - 1, k + percussiveRadius);
+      for (let j = Math.max(0, k - percussiveRadius); j <= to; j++) {
+        scratch[count++] = center.power[j];
+      }
+      const percussive = median(scratch, count);
+
+      const h = Math.pow(harmonic, exponent);
+      const p = Math.pow(percussive, exponent);
+      mask[k] = p / (p + h + EPSILON);
+    }
+  };
+};
+
+// Replace the masks by Wiener gains: each stem's share of the total estimated power, with the
+// residual counted as one more stem. Smoothing the estimates across frequency evens out
+// masks that flicker between neighbouring bins.
+const createWienerFilter = (settings: SeparationSettings, stemCount: number) => {
+  const { bins } = settings;
+  const estimates = Array.from({ length: stemCount + 1 }, () => new Float32Array(bins));
+  const scratch = new Float32Array(bins);
+  const residual = new Float32Array(bins);
+
+  return (power: Float32Array, masks: Float32Array[]) => {
+    residual.fill(1);
+    for (const mask of masks) {
+      for (let k = 0; k < bins; k++) {
+        residual[k] -= mask[k];
+      }
+    }
+
+    const shares = [...masks, residual];
+    for (let s = 0; s < shares.length; s++) {
+      for (let k = 0; k < bins; k++) {
+        const gain = Math.max(0, shares[s][k]);
+        scratch[k] = gain * gain * power[k];
+      }
+      boxFilter(scratch, WIENER_RADIUS, estimates[s]);
+    }
+
+    for (let k = 0; k < bins; k++) {
+      let total = EPSILON;
+      for (const estimate of estimates) {
+        total += estimate[k];
+      }
+      for (let s = 0; s < stemCount; s++) {
+        masks[s][k] = estimates[s][k] / total;
+      }
+    }
+  };
+};
+
+// Run the STFT over every channel and resynthesize one output per mask.
+// Each frame's masks can look contextRadius frames ahead and behind, so only that many
+// analyzed frames are kept in memory. Returns the synthesized stems as [stem][channel].
+const renderMaskedStems = async (
+  audio: PCMAudio,
+  settings: SeparationSettings,
+  stemCount: number,
+  contextRadius: number,
+  computeMasks: MaskFunction,
+  options: SeparationOptions
+): Promise<Float32Array[][]> => {
+  const { channels } = audio;
+  const { bins, stft } = settings;
+  const frameSize = stft.frameSize;
+  const channelCount = channels.length;
+  const length = channelCount > 0 ? channels[0].length : 0;
+  const frameCount = getFrameCount(length, stft);
+  const analysisWindow = createWindow(stft.window ?? 'hann', frameSize);
+  const wienerFilter = settings.wienerFilter ? createWienerFilter(settings, stemCount) : null;
+
+  // Ring buffer of analyzed frames
+  const ringSize = 2 * contextRadius + 1;
+  const ring: SpectralFrame[] = Array.from({ length: ringSize }, () => ({
+    re: channels.map(() => new Float32Array(frameSize)),
+    im: channels.map(() => new Float32Array(frameSize)),
+    power: new Float32Array(bins),
+  }));
+  const context: (SpectralFrame | null)[] = new Array(ringSize).fill(null);
+
+  const synthesis = Array.from({ length: stemCount }, () =>
+    channels.map(() => createOverlapAdd(length, stft))
+  );
+  const masks = Array.from({ length: stemCount }, () => new Float32Array(bins));
+  const re = new Float32Array(frameSize);
+  const im = new Float32Array(frameSize);
+
+  const steps = frameCount > 0 ? frameCount + contextRadius : 0;
+  for (let f = 0; f < steps; f++) {
+    if (f % FRAMES_PER_YIELD === 0) {
+      throwIfCancelled(options.signal);
+      options.onProgress?.(f / steps);
+      await yieldToEventLoop();
+    }
+
+    // Analyze the newest frame into the ring
+    if (f < frameCount) {
+      const slot = ring[f % ringSize];
+      const start = getFrameStart(f, stft);
+      for (let c = 0; c < channelCount; c++) {
+        analyzeFrame(channels[c], start, analysisWindow, slot.re[c], slot.im[c]);
+      }
+
+      // Mix-down power spectrum
+      for (let k = 0; k < bins; k++) {
+        let p = 0;
+        for (let c = 0; c < channelCount; c++) {
+          p += slot.re[c][k] * slot.re[c][k] + slot.im[c][k] * slot.im[c][k];
+        }
+        slot.power[k] = p / channelCount;
+      }
+    }
+
+    // Mask and resynthesize the frame at the center of the context window
+    const index = f - contextRadius;
+    if (index < 0) continue;
+
+    for (let d = 0; d < ringSize; d++) {
+      const neighbour = index - contextRadius + d;
+      context[d] = neighbour >= 0 && neighbour < frameCount ? ring[neighbour % ringSize] : null;
+    }
+    computeMasks(context, masks);
+
+    const frame = ring[index % ringSize];
+    wienerFilter?.(frame.power, masks);
+
+    const start = getFrameStart(index, stft);
+    for (let s = 0; s < stemCount; s++) {
+      const mask = masks[s];
+      for (let c = 0; c < channelCount; c++) {
+        for (let k = 0; k < bins; k++) {
+          re[k] = frame.re[c][k] * mask[k];
+          im[k] = frame.im[c][k] * mask[k];
+        }
+        synthesis[s][c].addFrame(start, re, im);
+      }
+    }
+  }
+
+  options.onProgress?.(1);
+  return synthesis.map((stem) => stem.map((ola) => ola.finish()));
+};
+
+// Helper: whatever part of the input the synthesized stems do not account for
+const computeResidual = (channels: Float32Array[], stems: Float32Array[][]): Float32Array[] => {
+  return channels.map((input, c) => {
+    const residual = input.slice();
+    for (const stem of stems) {
+      const output = stem[c];
+      for (let i = 0; i < residual.length; i++) {
+        residual[i] -= output[i];
+      }
+    }
+    return residual;
+  });
+};
+
+// Separate audio into stems using STFT-domain masking.
+// Vocals: stereo input uses inter-channel coherence to find center-panned content;
+// both mono and stereo are refined with a harmonic peak mask limited to the vocal band.
+// Four-stem mode splits the accompaniment further: median-filter percussive masking gives
+// the drums, the low end of the remaining tonal content gives the bass, and "other" is the rest.
+// Harmonic/percussive mode applies the median-filter split (HPSS) to the whole mix instead.
+// The quality tier sets the STFT resolution and post-processing; tuning adjusts the masks.
+export const separateStems = async (
+  audio: PCMAudio,
+  options: SeparationOptions = {}
+): Promise<SeparatedStems> => {
+  const { sampleRate, channels } = audio;
+  const mode = options.mode ?? 'two-stem';
+  const settings = resolveSettings(sampleRate, options);
+  const { bins, harmonicRadius } = settings;
+
+  if (mode === 'harmonic-percussive') {
+    const percussiveMasker = createPercussiveMasker(settings);
+    const [percussive] = await renderMaskedStems(
+      audio,
+      settings,
+      1,
+      harmonicRadius,
+      (frames, [percussiveMask]) => percussiveMasker(frames, percussiveMask),
+      options
+    );
+
+    // Sustained, tonal content is whatever the percussive mask leaves
+    return {
+      harmonic: { sampleRate, channels: computeResidual(channels, [percussive]) },
+      percussive: { sampleRate, channels: percussive },
+    };
+  }
+
+  const vocalMasker = createVocalMasker(settings);
+
+  if (mode === 'two-stem') {
+    const [vocals] = await renderMaskedStems(
+      audio,
+      settings,
+      1,
+      0,
+      ([frame], [vocalMask]) => vocalMasker(frame as SpectralFrame, vocalMask),
+      options
+    );
+
+    // Derive the accompaniment as the residual
+    return {
+      vocals: { sampleRate, channels: vocals },
+      instrumental: { sampleRate, channels: computeResidual(channels, [vocals]) },
+    };
+  }
+
+  const percussiveMasker = createPercussiveMasker(settings);
+  const bassWeights = createLowPassWeights(settings, BASS_FULL_HZ, BASS_CUTOFF_HZ);
+  const percussiveMask = new Float32Array(bins);
+
+  const [vocals, drums, bass] = await renderMaskedStems(
+    audio,
+    settings,
+    3,
+    harmonicRadius,
+    (frames, [vocalMask, drumMask, bassMask]) => {
+      vocalMasker(frames[harmonicRadius] as SpectralFrame, vocalMask);
+      percussiveMasker(frames, percussiveMask);
+
+      // Share out what the vocals leave; the three masks never sum past 1
+      for (let k = 0; k < bins; k++) {
+        const rest = 1 - vocalMask[k];
+        drumMask[k] = rest * percussiveMask[k];
+        bassMask[k] = rest * (1 - percussiveMask[k]) * bassWeights[k];
+      }
+    },
+    options
+  );
+
+  return {
+    vocals: { sampleRate, channels: vocals },
+    drums: { sampleRate, channels: drums },
+    bass: { sampleRate, channels: bass },
+    other: { sampleRate, channels: computeResidual(channels, [vocals, drums, bass]) },
+  };
+};
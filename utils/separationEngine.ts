@@ -0,0 +1,186 @@
+import { Platform, PlatformOSType } from 'react-native';
+import { PCMAudio, encodeWavHeader, encodeWavSamples } from './wav';
+import { createTempDirectory, discardJobOutput } from './fileSystem';
+import { openAudioStream } from './audioDecoder';
+import { INTERNAL_SAMPLE_RATE, convertStream } from './audioFormat';
+import { FileAppender, createFileAppender } from './fileWriter';
+import { separateInChunks } from './chunkedSeparation';
+import { MaskTuning, QualityTier, SeparatedStems, SeparationMode, StemName } from './separation';
+import { runSeparation } from './audioWorker';
+import { createRemoteEngine } from './remoteSeparation';
+import { JobOptions, ProcessingStage, createProgressReporter } from './progress';
+
+// Interface for one separated stem file
+export interface StemTrack {
+  name: StemName;
+  uri: string;
+}
+
+// Interface for what an engine can do and where it can run
+export interface EngineCapabilities {
+  // Platforms the engine runs on
+  platforms: PlatformOSType[];
+  // Whether the engine needs a network connection
+  requiresNetwork: boolean;
+  // Whether the engine honours the advanced mask settings
+  maskTuning: boolean;
+}
+
+// Interface for the options passed to an engine run
+export interface EngineProcessOptions extends JobOptions {
+  mode: SeparationMode;
+  quality: QualityTier;
+  // Advanced mask settings; engines that have no such knobs ignore them
+  tuning?: MaskTuning;
+}
+
+// Contract every separation backend implements.
+// process() turns a source file into stem files: Blob URLs on web, file URIs on native.
+export interface SeparationEngine {
+  id: string;
+  name: string;
+  description: string;
+  // Changes whenever the engine's output for the same input changes
+  version: string;
+  capabilities: EngineCapabilities;
+  stemSets: SeparationMode[];
+  qualityTiers: QualityTier[];
+  process: (audioUri: string, options: EngineProcessOptions) => Promise<StemTrack[]>;
+}
+
+// Interface for building an engine that works on decoded samples
+export interface PcmEngineDefinition extends Omit<SeparationEngine, 'process'> {
+  separate: (
+    audio: PCMAudio,
+    options: EngineProcessOptions & { onSeparateProgress: (fraction: number) => void }
+  ) => Promise<SeparatedStems>;
+}
+
+export const DEFAULT_ENGINE_ID = 'spectral';
+
+// Rough share of the total time spent in each stage, used for overall progress and ETA
+const PCM_ENGINE_STAGES: [ProcessingStage, number][] = [
+  ['decode', 0.1],
+  ['separate', 0.85],
+  ['encode', 0.05]
+];
+
+// Stems are written as 16-bit WAV
+const STEM_BIT_DEPTH = 16;
+
+// Inputs with more channels are down-mixed to stereo before separation
+const MAX_SEPARATION_CHANNELS = 2;
+
+// Build an engine from a function that separates decoded samples.
+// The source is streamed through the engine in overlapping chunks and each stem is written to
+// disk as it is produced, so long files run in bounded memory on every platform.
+// Every source is converted to the internal sample rate on the way in, so engines see one rate
+// whatever the file or the recording preset used.
+export const createPcmEngine = ({ separate, ...engine }: PcmEngineDefinition): SeparationEngine => ({
+  ...engine,
+  process: async (audioUri, options) => {
+    const report = createProgressReporter(PCM_ENGINE_STAGES, options.onProgress);
+    const tempDir = await createTempDirectory();
+    const writers = new Map<StemName, FileAppender>();
+    const tracks: StemTrack[] = [];
+
+    // Open the source; compressed files are decoded here
+    report('decode', 0);
+    const source = await openAudioStream(audioUri);
+    const stream = convertStream(source, {
+      sampleRate: INTERNAL_SAMPLE_RATE,
+      channelCount: Math.min(source.channelCount, MAX_SEPARATION_CHANNELS)
+    });
+
+    try {
+      // Every stem has the source's length, so its WAV header can be written up front
+      const dataSize = stream.length * stream.channelCount * (STEM_BIT_DEPTH / 8);
+      const writeStem = async (name: StemName, channels: Float32Array[]) => {
+        let writer = writers.get(name);
+        if (!writer) {
+          writer = await createFileAppender(`${name}.wav`, { directory: tempDir, mimeType: 'audio/wav' });
+          writers.set(name, writer);
+          await writer.append(
+            encodeWavHeader(stream.sampleRate, stream.channelCount, STEM_BIT_DEPTH, dataSize)
+          );
+        }
+        await writer.append(encodeWavSamples(channels, STEM_BIT_DEPTH));
+      };
+
+      // Separate the stems chunk by chunk
+      await separateInChunks(
+        stream,
+        (audio, onSeparateProgress) => separate(audio, { ...options, onSeparateProgress }),
+        writeStem,
+        {
+          signal: options.signal,
+          onProgress: (fraction) => report('separate', fraction)
+        }
+      );
+
+      // Finish the files; on web they become Blob URLs
+      report('encode', 0);
+      for (const [name, writer] of writers) {
+        tracks.push({ name, uri: await writer.close() });
+      }
+      report('encode', 1);
+
+      return tracks;
+    } catch (error) {
+      // Remove partial output
+      for (const writer of writers.values()) {
+        await writer.abort();
+      }
+      await discardJobOutput(tracks.map(({ uri }) => uri), tempDir);
+      throw error;
+    } finally {
+      await stream.close();
+    }
+  }
+});
+
+// The built-in STFT masking separator; runs on every platform without a network
+export const spectralEngine = createPcmEngine({
+  id: DEFAULT_ENGINE_ID,
+  name: 'Spectral',
+  description: 'Separates tracks using spectral masking.',
+  version: '3',
+  capabilities: {
+    platforms: ['web', 'ios', 'android'],
+    requiresNetwork: false,
+    maskTuning: true
+  },
+  stemSets: ['two-stem', 'four-stem', 'harmonic-percussive'],
+  qualityTiers: ['balanced', 'fast', 'high'],
+  separate: (audio, { mode, quality, tuning, signal, onSeparateProgress }) =>
+    runSeparation(audio, { mode, quality, tuning, signal, onProgress: onSeparateProgress })
+});
+
+// Registered engines by id, in registration order
+const engines = new Map<string, SeparationEngine>([[spectralEngine.id, spectralEngine]]);
+
+// A separation server is offered when its address is configured at build time
+const SEPARATION_SERVER_URL = process.env.EXPO_PUBLIC_SEPARATION_SERVER_URL;
+if (SEPARATION_SERVER_URL) {
+  const remoteEngine = createRemoteEngine({ baseUrl: SEPARATION_SERVER_URL });
+  engines.set(remoteEngine.id, remoteEngine);
+}
+
+// Add an engine, replacing any engine with the same id
+export const registerEngine = (engine: SeparationEngine) => {
+  engines.set(engine.id, engine);
+};
+
+export const unregisterEngine = (id: string) => {
+  engines.delete(id);
+};
+
+export const getEngine = (id: string): SeparationEngine | undefined => engines.get(id);
+
+// Check whether an engine can run on the current platform
+export const isEngineSupported = (engine: SeparationEngine) =>
+  engine.capabilities.platforms.includes(Platform.OS);
+
+// List the engines that can run on the current platform
+export const listEngines = (): SeparationEngine[] =>
+  Array.from(engines.values()).filter(isEngineSupported);
@@ -0,0 +1,252 @@
+import { ProcessingResult, processingAudio } from './audioProcessing';
+import {
+  EMPTY_HISTORY,
+  EditCommand,
+  EditHistory,
+  recordCommand,
+  redoStep,
+  undoStep
+} from './history';
+import { ProgressUpdate } from './progress';
+import {
+  DEFAULT_SEPARATION_SETTINGS,
+  SeparationSettings,
+  createProject,
+  getProject,
+  setProjectStems,
+  updateProject
+} from './projects';
+import { StemName } from './separation';
+import { StemTrack, getEngine } from './separationEngine';
+
+// The session every tab works on: the open project's source, stems, settings and mixer, and
+// the separation running for it. Screens read it with the useSession hook and change it
+// through the functions below. Settings and volume changes are recorded as undoable steps and
+// saved to the project, history included, as they change.
+
+// Interface for a running separation
+export interface SeparationJob {
+  progress: ProgressUpdate | null;
+  isCancelling: boolean;
+}
+
+// Interface for the shared session state
+export interface SessionState {
+  // The open project, or null before a recording or file is chosen
+  projectId: string | null;
+  projectName: string;
+  source: { name: string; uri: string } | null;
+  settings: SeparationSettings;
+  // Empty until the source has been separated
+  stems: StemTrack[];
+  volumes: Partial<Record<StemName, number>>;
+  history: EditHistory;
+  job: SeparationJob | null;
+}
+
+const INITIAL_STATE: SessionState = {
+  projectId: null,
+  projectName: '',
+  source: null,
+  settings: DEFAULT_SEPARATION_SETTINGS,
+  stems: [],
+  volumes: {},
+  history: EMPTY_HISTORY,
+  job: null
+};
+
+// Settings and volumes are saved once they have stopped changing for this long
+const SAVE_DELAY_MS = 500;
+
+let state = INITIAL_STATE;
+const listeners = new Set<() => void>();
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+let jobController: AbortController | null = null;
+
+// During a gesture (a slider drag), its changes extend one step; this is the step so far
+let isGestureActive = false;
+let gestureStep: EditCommand | null = null;
+
+export const getSession = (): SessionState => state;
+
+export const subscribeSession = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Replace part of the state and tell every subscriber
+export const updateSession = (changes: Partial<SessionState>) => {
+  state = { ...state, ...changes };
+  for (const listener of listeners) {
+    listener();
+  }
+};
+
+// Write pending settings and volumes to the project now
+export const flushSession = async () => {
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+  const { projectId, settings, volumes, history } = state;
+  if (!projectId) return;
+
+  try {
+    await updateProject(projectId, { settings, volumes, history });
+  } catch (err) {
+    console.error('Failed to save project', err);
+  }
+};
+
+const scheduleSave = () => {
+  if (saveTimer) clearTimeout(saveTimer);
+  saveTimer = setTimeout(flushSession, SAVE_DELAY_MS);
+};
+
+// Leave the current project; its pending changes are saved and its separation cancelled
+export const closeSession = async () => {
+  jobController?.abort();
+  endGesture();
+  await flushSession();
+  updateSession(INITIAL_STATE);
+};
+
+// Make a project the current session; returns false if it no longer exists
+export const openSession = async (projectId: string): Promise<boolean> => {
+  if (state.projectId === projectId) return true;
+
+  const project = await getProject(projectId);
+  if (!project) return false;
+
+  await closeSession();
+  updateSession({
+    projectId: project.id,
+    projectName: project.name,
+    source: project.source,
+    settings: project.settings,
+    stems: project.stems,
+    volumes: project.volumes,
+    history: project.history
+  });
+  return true;
+};
+
+// Start a new project from a recorded or uploaded file and make it the current session
+export const startSession = async (sourceUri: string, sourceName: string, name?: string) => {
+  const project = await createProject(sourceUri, sourceName, name);
+  await closeSession();
+  updateSession({
+    projectId: project.id,
+    projectName: project.name,
+    source: project.source,
+    settings: project.settings
+  });
+};
+
+// The state a command sets, at its starting or new value
+const getCommandChanges = (command: EditCommand, side: 'from' | 'to'): Partial<SessionState> =>
+  command.type === 'volume'
+    ? { volumes: { ...state.volumes, [command.stem]: command[side] } }
+    : { settings: command[side] };
+
+// Record a step and apply its new value in one update
+const applyEdit = (command: EditCommand) => {
+  const [history, step] = recordCommand(state.history, command, isGestureActive ? gestureStep : null);
+  gestureStep = isGestureActive ? step : null;
+  updateSession({ ...getCommandChanges(command, 'to'), history });
+  scheduleSave();
+};
+
+// Continuous changes between these calls, such as a slider drag, become a single step
+export const beginGesture = () => {
+  isGestureActive = true;
+  gestureStep = null;
+};
+
+export const endGesture = () => {
+  isGestureActive = false;
+  gestureStep = null;
+};
+
+// Change the separation settings. Switching engine falls back to a stem set and quality tier
+// the new engine supports.
+export const setSettings = (changes: Partial<SeparationSettings>) => {
+  const settings = { ...state.settings, ...changes };
+  const engine = getEngine(settings.engineId);
+  if (engine && !engine.stemSets.includes(settings.mode)) {
+    settings.mode = engine.stemSets[0];
+  }
+  if (engine && !engine.qualityTiers.includes(settings.quality)) {
+    settings.quality = engine.qualityTiers[0];
+  }
+  applyEdit({ type: 'settings', from: state.settings, to: settings });
+};
+
+export const setVolume = (name: StemName, volume: number) => {
+  applyEdit({ type: 'volume', stem: name, from: state.volumes[name] ?? 1, to: volume });
+};
+
+export const undo = () => {
+  endGesture();
+  const [history, command] = undoStep(state.history);
+  if (!command) return;
+  updateSession({ ...getCommandChanges(command, 'from'), history });
+  scheduleSave();
+};
+
+export const redo = () => {
+  endGesture();
+  const [history, command] = redoStep(state.history);
+  if (!command) return;
+  updateSession({ ...getCommandChanges(command, 'to'), history });
+  scheduleSave();
+};
+
+// Separate the current source with the current settings and store the stems with the
+// project. Opening another project cancels the separation.
+export const runSeparation = async (): Promise<ProcessingResult> => {
+  const { projectId, source, settings } = state;
+  if (!projectId || !source) {
+    return { success: false, error: 'No audio file selected.' };
+  }
+  if (state.job) {
+    return { success: false, error: 'A separation is already running.' };
+  }
+
+  const controller = new AbortController();
+  jobController = controller;
+  updateSession({ job: { progress: null, isCancelling: false } });
+
+  const isCurrent = () => state.projectId === projectId;
+  try {
+    const engine = getEngine(settings.engineId);
+    const result = await processingAudio(source.uri, {
+      ...settings,
+      tuning: engine?.capabilities.maskTuning ? settings.tuning : undefined,
+      onProgress: (progress) => {
+        if (isCurrent() && state.job) updateSession({ job: { ...state.job, progress } });
+      },
+      signal: controller.signal
+    });
+
+    if (result.success && result.stems) {
+      const project = await setProjectStems(projectId, result.stems);
+      if (isCurrent()) updateSession({ stems: project.stems });
+      return { ...result, stems: project.stems };
+    }
+    return result;
+  } finally {
+    if (jobController === controller) {
+      jobController = null;
+      updateSession({ job: null });
+    }
+  }
+};
+
+export const cancelSeparation = () => {
+  if (!jobController || !state.job) return;
+  updateSession({ job: { ...state.job, isCancelling: true } });
+  jobController.abort();
+};
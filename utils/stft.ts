@@ -0,0 +1,227 @@
+// Short-time Fourier analysis shared by all spectral audio features.
+// Pure TypeScript so it behaves identically on web, iOS and Android.
+
+export type WindowType = 'hann' | 'hamming' | 'blackman';
+
+// Interface for STFT settings
+export interface StftOptions {
+  frameSize: number;
+  hopSize: number;
+  window?: WindowType;
+}
+
+// Interface for a complete spectrogram; each frame holds frameSize / 2 + 1 bins
+export interface Spectrogram {
+  frameSize: number;
+  hopSize: number;
+  window: WindowType;
+  length: number;
+  real: Float32Array[];
+  imag: Float32Array[];
+}
+
+const EPSILON = 1e-10;
+
+// Check that a size is a power of two
+const isPowerOfTwo = (n: number) => n > 0 && (n & (n - 1)) === 0;
+
+// Helper to validate STFT settings
+const validateOptions = ({ frameSize, hopSize }: StftOptions) => {
+  if (!isPowerOfTwo(frameSize)) {
+    throw new Error(`Frame size must be a power of two, got ${frameSize}.`);
+  }
+  if (hopSize <= 0 || hopSize >= frameSize) {
+    throw new Error(`Hop size must be between 1 and ${frameSize - 1}, got ${hopSize}.`);
+  }
+};
+
+// Create a periodic analysis window, suitable for overlap-add
+export const createWindow = (type: WindowType, size: number): Float32Array => {
+  const window = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    const phase = (2 * Math.PI * i) / size;
+    switch (type) {
+      case 'hamming':
+        window[i] = 0.54 - 0.46 * Math.cos(phase);
+        break;
+      case 'blackman':
+        window[i] = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+        break;
+      default:
+        window[i] = 0.5 - 0.5 * Math.cos(phase);
+    }
+  }
+  return window;
+};
+
+// In-place iterative radix-2 FFT; pass inverse to compute the unscaled inverse transform
+export const fft = (re: Float32Array, im: Float32Array, inverse = false) => {
+  const n = re.length;
+  if (!isPowerOfTwo(n) || im.length !== n) {
+    throw new Error(`FFT size must be a power of two, got ${n}.`);
+  }
+
+  // Bit reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      let tmp = re[i];
+      re[i] = re[j];
+      re[j] = tmp;
+      tmp = im[i];
+      im[i] = im[j];
+      im[j] = tmp;
+    }
+  }
+
+  // Butterflies
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const angle = ((inverse ? 2 : -2) * Math.PI) / size;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < half; k++) {
+        const a = start + k;
+        const b = a + half;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+
+        const nextRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextRe;
+      }
+    }
+  }
+};
+
+// Number of frames needed so every sample is covered by a full set of overlapping frames
+export const getFrameCount = (length: number, { frameSize, hopSize }: StftOptions): number => {
+  if (length <= 0) return 0;
+  return Math.ceil((length + frameSize - hopSize) / hopSize);
+};
+
+// Start sample of a frame; the first frames begin before zero and are zero padded
+export const getFrameStart = (index: number, { frameSize, hopSize }: StftOptions): number => {
+  return hopSize - frameSize + index * hopSize;
+};
+
+// Window one frame of a signal into re/im (length frameSize) and transform it
+export const analyzeFrame = (
+  signal: Float32Array,
+  start: number,
+  window: Float32Array,
+  re: Float32Array,
+  im: Float32Array
+) => {
+  const frameSize = window.length;
+  for (let i = 0; i < frameSize; i++) {
+    const index = start + i;
+    re[i] = index >= 0 && index < signal.length ? signal[index] * window[i] : 0;
+    im[i] = 0;
+  }
+  fft(re, im);
+};
+
+// Streaming weighted overlap-add synthesis.
+// Frames are given as half spectra (bins 0..frameSize / 2) in the first half of re/im;
+// the buffers are used as scratch space for the inverse transform.
+// Every frame from getFrameCount must be added before finish() for exact reconstruction.
+export const createOverlapAdd = (length: number, options: StftOptions) => {
+  validateOptions(options);
+  const { frameSize, hopSize } = options;
+  const window = createWindow(options.window ?? 'hann', frameSize);
+  const output = new Float32Array(length);
+
+  // Every sample is covered by the same pattern of frame offsets, so the summed squared
+  // window repeats with the hop and can be tabulated once instead of stored per sample
+  const windowSum = new Float32Array(hopSize);
+  for (let i = 0; i < frameSize; i++) {
+    windowSum[i % hopSize] += window[i] * window[i];
+  }
+
+  const addFrame = (start: number, re: Float32Array, im: Float32Array) => {
+    const bins = frameSize / 2 + 1;
+
+    // Restore conjugate symmetry so the inverse transform is real
+    im[0] = 0;
+    im[bins - 1] = 0;
+    for (let k = 1; k < bins - 1; k++) {
+      re[frameSize - k] = re[k];
+      im[frameSize - k] = -im[k];
+    }
+    fft(re, im, true);
+
+    const from = Math.max(0, -start);
+    const to = Math.min(frameSize, length - start);
+    for (let i = from; i < to; i++) {
+      output[start + i] += (re[i] / frameSize) * window[i];
+    }
+  };
+
+  // Normalize by the summed squared window; returns the finished signal
+  const finish = (): Float32Array => {
+    for (let i = 0; i < length; i++) {
+      const sum = windowSum[(i + frameSize) % hopSize];
+      output[i] = sum > EPSILON ? output[i] / sum : 0;
+    }
+    return output;
+  };
+
+  return { window, addFrame, finish };
+};
+
+// Compute the full spectrogram of a signal
+export const stft = (signal: Float32Array, options: StftOptions): Spectrogram => {
+  validateOptions(options);
+  const { frameSize, hopSize } = options;
+  const windowType = options.window ?? 'hann';
+  const window = createWindow(windowType, frameSize);
+  const bins = frameSize / 2 + 1;
+  const frameCount = getFrameCount(signal.length, options);
+
+  const re = new Float32Array(frameSize);
+  const im = new Float32Array(frameSize);
+  const real: Float32Array[] = [];
+  const imag: Float32Array[] = [];
+
+  for (let f = 0; f < frameCount; f++) {
+    analyzeFrame(signal, getFrameStart(f, options), window, re, im);
+    real.push(re.slice(0, bins));
+    imag.push(im.slice(0, bins));
+  }
+
+  return { frameSize, hopSize, window: windowType, length: signal.length, real, imag };
+};
+
+// Resynthesize a signal from a spectrogram with weighted overlap-add
+export const istft = (spectrogram: Spectrogram): Float32Array => {
+  const options: StftOptions = {
+    frameSize: spectrogram.frameSize,
+    hopSize: spectrogram.hopSize,
+    window: spectrogram.window,
+  };
+  const { frameSize } = options;
+  const ola = createOverlapAdd(spectrogram.length, options);
+  const re = new Float32Array(frameSize);
+  const im = new Float32Array(frameSize);
+
+  for (let f = 0; f < spectrogram.real.length; f++) {
+    re.set(spectrogram.real[f]);
+    im.set(spectrogram.imag[f]);
+    ola.addFrame(getFrameStart(f, options), re, im);
+  }
+
+  return ola.finish();
+};
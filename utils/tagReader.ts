@@ -0,0 +1,402 @@
+import { RangeReader, openRangeReader } from './audioDecoder';
+import {
+  AudioTags,
+  ID3_FRAME_IDS,
+  MP4_ATOM_NAMES,
+  RIFF_INFO_IDS,
+  TAG_FIELDS,
+  TagField,
+  VORBIS_COMMENT_NAMES
+} from './metadata';
+import { decodeUtf8 } from './utf8';
+
+// Reads the tags of a source file, so exports can start from them: ID3v2 (MP3), Vorbis
+// comments (FLAC), LIST/INFO and iXML (WAV) and iTunes items (M4A). Only the parts of the file
+// that hold tags are read. Anything unreadable is skipped rather than reported.
+
+// Tag blocks larger than this are not read
+const MAX_TAG_SIZE = 4 * 1024 * 1024;
+
+// moov holds the sample tables as well as the tags, so it can be much larger
+const MAX_MOVIE_SIZE = 32 * 1024 * 1024;
+
+const readId = (bytes: Uint8Array, at: number) =>
+  String.fromCharCode(bytes[at], bytes[at + 1], bytes[at + 2], bytes[at + 3]);
+
+const readUint32BE = (bytes: Uint8Array, at: number) =>
+  ((bytes[at] << 24) | (bytes[at + 1] << 16) | (bytes[at + 2] << 8) | bytes[at + 3]) >>> 0;
+
+const readUint32LE = (bytes: Uint8Array, at: number) =>
+  (bytes[at] | (bytes[at + 1] << 8) | (bytes[at + 2] << 16) | (bytes[at + 3] << 24)) >>> 0;
+
+const decodeLatin1 = (bytes: Uint8Array) => {
+  let text = '';
+  for (let i = 0; i < bytes.length; i++) {
+    text += String.fromCharCode(bytes[i]);
+  }
+  return text;
+};
+
+// UTF-16 with an optional byte order mark; big endian without one
+const decodeUtf16 = (bytes: Uint8Array, bigEndian = true) => {
+  let start = 0;
+  if (bytes.length >= 2 && bytes[0] === 0xff && bytes[1] === 0xfe) {
+    bigEndian = false;
+    start = 2;
+  } else if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) {
+    start = 2;
+  }
+  let text = '';
+  for (let i = start; i + 1 < bytes.length; i += 2) {
+    text += String.fromCharCode(bigEndian ? (bytes[i] << 8) | bytes[i + 1] : bytes[i] | (bytes[i + 1] << 8));
+  }
+  return text;
+};
+
+// Helper: trim and drop trailing NULs; undefined when nothing is left
+const clean = (text: string) => text.replace(/\0+$/, '').trim() || undefined;
+
+// Helper: a lookup from a format's field names to the shared fields
+const invert = (names: Record<TagField, string>): Record<string, TagField> => {
+  const fields: Record<string, TagField> = {};
+  for (const field of TAG_FIELDS) {
+    fields[names[field]] = field;
+  }
+  return fields;
+};
+
+// Helper: store a value unless the field already has one
+const setField = (tags: AudioTags, field: TagField, value?: string) => {
+  if (value && !tags[field]) tags[field] = value;
+};
+
+const setCustom = (tags: AudioTags, name: string, value?: string) => {
+  if (name && value) tags.custom = { ...tags.custom, [name]: value };
+};
+
+// ID3v2 text encodings
+const ID3_LATIN1 = 0;
+const ID3_UTF16 = 1;
+const ID3_UTF16BE = 2;
+
+// ID3v2.2 uses three-character frame ids
+const ID3V22_FRAME_IDS: Record<string, string> = {
+  TT2: 'TIT2',
+  TP1: 'TPE1',
+  TAL: 'TALB',
+  TYE: 'TYER',
+  TCO: 'TCON',
+  COM: 'COMM',
+  TXX: 'TXXX'
+};
+
+const ID3_FIELDS: Record<string, TagField> = { ...invert(ID3_FRAME_IDS), TYER: 'year' };
+
+// Undo ID3v2 unsynchronisation: 0xFF 0x00 stands for 0xFF
+const resynchronise = (bytes: Uint8Array) => {
+  const output: number[] = [];
+  for (let i = 0; i < bytes.length; i++) {
+    output.push(bytes[i]);
+    if (bytes[i] === 0xff && bytes[i + 1] === 0x00) i++;
+  }
+  return Uint8Array.from(output);
+};
+
+// Split encoded ID3 text at its first terminator; returns the text and the rest
+const splitId3Text = (bytes: Uint8Array, encoding: number): [string, Uint8Array] => {
+  const wide = encoding === ID3_UTF16 || encoding === ID3_UTF16BE;
+  let end = 0;
+  if (wide) {
+    while (end + 1 < bytes.length && (bytes[end] !== 0 || bytes[end + 1] !== 0)) end += 2;
+  } else {
+    while (end < bytes.length && bytes[end] !== 0) end++;
+  }
+  const text = bytes.subarray(0, end);
+  const rest = bytes.subarray(Math.min(bytes.length, end + (wide ? 2 : 1)));
+  return [decodeId3Text(text, encoding), rest];
+};
+
+const decodeId3Text = (bytes: Uint8Array, encoding: number) => {
+  switch (encoding) {
+    case ID3_LATIN1:
+      return decodeLatin1(bytes);
+    case ID3_UTF16:
+      // Without a byte order mark, little endian is by far the most common
+      return decodeUtf16(bytes, false);
+    case ID3_UTF16BE:
+      return decodeUtf16(bytes);
+    default:
+      return decodeUtf8(bytes);
+  }
+};
+
+const readId3v2 = async (reader: RangeReader): Promise<AudioTags> => {
+  const header = await reader.read(0, 10);
+  const version = header[3];
+  const flags = header[5];
+  const size = (header[6] << 21) | (header[7] << 14) | (header[8] << 7) | header[9];
+  if (version < 2 || version > 4 || size > MAX_TAG_SIZE) return {};
+
+  let body = await reader.read(10, size);
+  // Before 2.4, unsynchronisation applies to the whole tag
+  if (flags & 0x80 && version < 4) body = resynchronise(body);
+
+  let position = 0;
+  if (flags & 0x40 && version > 2) {
+    // Extended header: its size excludes itself in 2.3 and is syncsafe and inclusive in 2.4
+    position = version === 3
+      ? 4 + readUint32BE(body, 0)
+      : (body[0] << 21) | (body[1] << 14) | (body[2] << 7) | body[3];
+  }
+
+  const tags: AudioTags = {};
+  const idLength = version === 2 ? 3 : 4;
+  const headerLength = version === 2 ? 6 : 10;
+  while (position + headerLength <= body.length && body[position] !== 0) {
+    let id = decodeLatin1(body.subarray(position, position + idLength));
+    let frameSize: number;
+    let frameFlags = 0;
+    if (version === 2) {
+      id = ID3V22_FRAME_IDS[id] ?? id;
+      frameSize = (body[position + 3] << 16) | (body[position + 4] << 8) | body[position + 5];
+    } else if (version === 3) {
+      frameSize = readUint32BE(body, position + 4);
+    } else {
+      const at = position + 4;
+      frameSize = (body[at] << 21) | (body[at + 1] << 14) | (body[at + 2] << 7) | body[at + 3];
+    }
+    if (version > 2) frameFlags = body[position + 9];
+
+    let data = body.subarray(position + headerLength, position + headerLength + frameSize);
+    position += headerLength + frameSize;
+
+    // 2.4 frame flags: compression and encryption are skipped, per-frame unsync is undone
+    if (version === 4) {
+      if (frameFlags & 0x0c) continue;
+      if (frameFlags & 0x01) data = data.subarray(4);
+      if (frameFlags & 0x02) data = resynchronise(data);
+    } else if (version === 3 && frameFlags & 0xc0) {
+      continue;
+    }
+    if (data.length < 1) continue;
+
+    const encoding = data[0];
+    if (id === 'COMM') {
+      // Language, then a description; the comment with no description is the user's
+      const [description, text] = splitId3Text(data.subarray(4), encoding);
+      if (!description) setField(tags, 'comment', clean(decodeId3Text(text, encoding)));
+    } else if (id === 'TXXX') {
+      const [description, text] = splitId3Text(data.subarray(1), encoding);
+      setCustom(tags, description, clean(decodeId3Text(text, encoding)));
+    } else if (ID3_FIELDS[id]) {
+      // Several values are NUL separated; the first one is enough here
+      const [value] = splitId3Text(data.subarray(1), encoding);
+      const field = ID3_FIELDS[id];
+      // Genres may be ID3v1 numbers like "(17)"; only named ones are kept
+      const text = field === 'genre' ? value.replace(/^(\(\d+\))+/, '') : value;
+      setField(tags, field, clean(field === 'genre' && /^\d+$/.test(text.trim()) ? '' : text));
+    }
+  }
+  return tags;
+};
+
+const VORBIS_FIELDS: Record<string, TagField> = {
+  ...invert(VORBIS_COMMENT_NAMES),
+  DESCRIPTION: 'comment',
+  YEAR: 'year'
+};
+
+// Parse a Vorbis comment block into tags
+const parseVorbisComments = (bytes: Uint8Array): AudioTags => {
+  const tags: AudioTags = {};
+  let position = 4 + readUint32LE(bytes, 0);
+  const count = readUint32LE(bytes, position);
+  position += 4;
+  for (let i = 0; i < count && position + 4 <= bytes.length; i++) {
+    const length = readUint32LE(bytes, position);
+    const entry = decodeUtf8(bytes.subarray(position + 4, position + 4 + length));
+    position += 4 + length;
+
+    const separator = entry.indexOf('=');
+    if (separator <= 0) continue;
+    const name = entry.slice(0, separator).toUpperCase();
+    const value = clean(entry.slice(separator + 1));
+    if (VORBIS_FIELDS[name]) {
+      setField(tags, VORBIS_FIELDS[name], value);
+    } else {
+      setCustom(tags, name, value);
+    }
+  }
+  return tags;
+};
+
+const readFlac = async (reader: RangeReader): Promise<AudioTags> => {
+  for (let position = 4, last = false; !last && position + 4 <= reader.size; ) {
+    const header = await reader.read(position, 4);
+    last = (header[0] & 0x80) !== 0;
+    const type = header[0] & 0x7f;
+    const length = (header[1] << 16) | (header[2] << 8) | header[3];
+    if (type === 4 && length <= MAX_TAG_SIZE) {
+      return parseVorbisComments(await reader.read(position + 4, length));
+    }
+    position += 4 + length;
+  }
+  return {};
+};
+
+const INFO_FIELDS = invert(RIFF_INFO_IDS);
+
+const unescapeXml = (text: string) =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// Text of the first element with this name, if any
+const getXmlElement = (xml: string, name: string) => {
+  const match = new RegExp(`<${name}>([\\s\\S]*?)</${name}>`).exec(xml);
+  return match ? unescapeXml(match[1]) : undefined;
+};
+
+const readWav = async (reader: RangeReader): Promise<AudioTags> => {
+  const tags: AudioTags = {};
+  let xml: string | undefined;
+
+  for (let position = 12; position + 8 <= reader.size; ) {
+    const header = await reader.read(position, 12);
+    const id = readId(header, 0);
+    const size = readUint32LE(header, 4);
+    if (id === 'LIST' && readId(header, 8) === 'INFO' && size <= MAX_TAG_SIZE) {
+      const list = await reader.read(position + 12, size - 4);
+      for (let at = 0; at + 8 <= list.length; ) {
+        const field = INFO_FIELDS[readId(list, at)];
+        const length = readUint32LE(list, at + 4);
+        if (field) setField(tags, field, clean(decodeUtf8(list.subarray(at + 8, at + 8 + length))));
+        at += 8 + length + (length % 2);
+      }
+    } else if (id === 'iXML' && size <= MAX_TAG_SIZE) {
+      xml = decodeUtf8(await reader.read(position + 8, size));
+    }
+    position += 8 + size + (size % 2);
+  }
+
+  // iXML fills in what INFO did not have: NAME=value lines in USER, then NOTE
+  if (xml) {
+    const lines = (getXmlElement(xml, 'USER') ?? '').split(/\r?\n/);
+    for (const line of lines) {
+      const separator = line.indexOf('=');
+      if (separator <= 0) continue;
+      const name = line.slice(0, separator).trim();
+      const value = clean(line.slice(separator + 1));
+      if (VORBIS_FIELDS[name.toUpperCase()]) {
+        setField(tags, VORBIS_FIELDS[name.toUpperCase()], value);
+      } else {
+        setCustom(tags, name, value);
+      }
+    }
+    setField(tags, 'comment', clean(getXmlElement(xml, 'NOTE') ?? ''));
+  }
+  return tags;
+};
+
+const MP4_FIELDS = invert(MP4_ATOM_NAMES);
+
+// Interface for a box inside an MP4 buffer
+interface Mp4Box {
+  type: string;
+  // Start and end of the box contents
+  start: number;
+  end: number;
+}
+
+const readMp4Boxes = (bytes: Uint8Array, start: number, end: number): Mp4Box[] => {
+  const boxes: Mp4Box[] = [];
+  for (let position = start; position + 8 <= end; ) {
+    let size = readUint32BE(bytes, position);
+    let headerSize = 8;
+    if (size === 1 && position + 16 <= end) {
+      size = readUint32BE(bytes, position + 8) * 0x100000000 + readUint32BE(bytes, position + 12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - position;
+    }
+    if (size < headerSize) break;
+    boxes.push({ type: readId(bytes, position + 4), start: position + headerSize, end: Math.min(position + size, end) });
+    position += size;
+  }
+  return boxes;
+};
+
+const findMp4Box = (bytes: Uint8Array, parent: Mp4Box, type: string) =>
+  readMp4Boxes(bytes, parent.start, parent.end).find((box) => box.type === type);
+
+// Text of an item's data box (well-known types 1 and 2 are UTF-8 and UTF-16)
+const readMp4Text = (bytes: Uint8Array, data?: Mp4Box) => {
+  if (!data || data.end - data.start < 8) return undefined;
+  const type = readUint32BE(bytes, data.start) & 0xffffff;
+  const value = bytes.subarray(data.start + 8, data.end);
+  if (type === 1) return clean(decodeUtf8(value));
+  if (type === 2) return clean(decodeUtf16(value));
+  return undefined;
+};
+
+const readMp4 = async (reader: RangeReader): Promise<AudioTags> => {
+  // Find moov among the top-level boxes without reading the media data
+  let movie: Uint8Array | null = null;
+  for (let position = 0; position + 8 <= reader.size; ) {
+    const header = await reader.read(position, 16);
+    let size = readUint32BE(header, 0);
+    if (size === 1) size = readUint32BE(header, 8) * 0x100000000 + readUint32BE(header, 12);
+    if (size === 0) size = reader.size - position;
+    if (size < 8) break;
+    if (readId(header, 4) === 'moov') {
+      if (size <= MAX_MOVIE_SIZE) movie = await reader.read(position, size);
+      break;
+    }
+    position += size;
+  }
+  if (!movie) return {};
+
+  const [moov] = readMp4Boxes(movie, 0, movie.length);
+  const userData = findMp4Box(movie, moov, 'udta');
+  const meta = userData && findMp4Box(movie, userData, 'meta');
+  if (!meta) return {};
+  // meta is a full box in MP4 files but a plain container in QuickTime ones
+  const metaContents = readId(movie, meta.start + 4) === 'hdlr' ? meta : { ...meta, start: meta.start + 4 };
+  const list = findMp4Box(movie, metaContents, 'ilst');
+  if (!list) return {};
+
+  const tags: AudioTags = {};
+  for (const item of readMp4Boxes(movie, list.start, list.end)) {
+    const children = readMp4Boxes(movie, item.start, item.end);
+    const data = children.find(({ type }) => type === 'data');
+    if (item.type === '----') {
+      const name = children.find(({ type }) => type === 'name');
+      // name is a full box: skip its version and flags
+      if (name) setCustom(tags, decodeUtf8(movie.subarray(name.start + 4, name.end)), readMp4Text(movie, data));
+    } else if (MP4_FIELDS[item.type]) {
+      setField(tags, MP4_FIELDS[item.type], readMp4Text(movie, data));
+    }
+  }
+  return tags;
+};
+
+// Read the tags of an audio file; files without readable tags give no fields
+export const readAudioTags = async (uri: string): Promise<AudioTags> => {
+  try {
+    const reader = await openRangeReader(uri);
+    if (reader.size < 12) return {};
+    const header = await reader.read(0, 12);
+
+    if (decodeLatin1(header.subarray(0, 3)) === 'ID3') return await readId3v2(reader);
+    if (readId(header, 0) === 'fLaC') return await readFlac(reader);
+    if (readId(header, 0) === 'RIFF' && readId(header, 8) === 'WAVE') return await readWav(reader);
+    if (readId(header, 4) === 'ftyp') return await readMp4(reader);
+    return {};
+  } catch (err) {
+    console.warn('Could not read tags from the source file:', err);
+    return {};
+  }
+};
@@ -0,0 +1,359 @@
+import { ExportFormat } from './encoders';
+import {
+  AudioTags,
+  ID3_FRAME_IDS,
+  MP4_ATOM_NAMES,
+  RIFF_INFO_IDS,
+  TAG_VENDOR,
+  TagEntries,
+  VORBIS_COMMENT_NAMES,
+  getTagEntries
+} from './metadata';
+import { encodeUtf8 } from './utf8';
+
+// Writes tags into encoded files: an ID3v2.4 tag in front of MP3, a Vorbis comment block in
+// FLAC, LIST/INFO and iXML chunks in WAV and an iTunes ilst in M4A. Tags already in the file
+// are replaced. Text is UTF-8 everywhere.
+
+// Helper: bytes of a Latin-1 string (four-character codes, iTunes atom names)
+const latin1 = (text: string) => Uint8Array.from(text, (char) => char.charCodeAt(0) & 0xff);
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+};
+
+const uint32BE = (value: number) =>
+  Uint8Array.of((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+
+const uint32LE = (value: number) =>
+  Uint8Array.of(value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff);
+
+const readUint32BE = (bytes: Uint8Array, at: number) =>
+  ((bytes[at] << 24) | (bytes[at + 1] << 16) | (bytes[at + 2] << 8) | bytes[at + 3]) >>> 0;
+
+const readUint32LE = (bytes: Uint8Array, at: number) =>
+  (bytes[at] | (bytes[at + 1] << 8) | (bytes[at + 2] << 16) | (bytes[at + 3] << 24)) >>> 0;
+
+const readId = (bytes: Uint8Array, at: number) =>
+  String.fromCharCode(bytes[at], bytes[at + 1], bytes[at + 2], bytes[at + 3]);
+
+// ID3v2 sizes use seven bits per byte
+const syncsafe = (value: number) =>
+  Uint8Array.of((value >>> 21) & 0x7f, (value >>> 14) & 0x7f, (value >>> 7) & 0x7f, value & 0x7f);
+
+// Text encoding byte of ID3v2.4 frames
+const ID3_UTF8 = 3;
+
+const id3Frame = (id: string, ...body: Uint8Array[]) => {
+  const data = concat(body);
+  return concat([latin1(id), syncsafe(data.length), Uint8Array.of(0, 0), data]);
+};
+
+// Length of the ID3v2 tags at the start of a file, footers included
+const getId3v2Length = (bytes: Uint8Array): number => {
+  let length = 0;
+  while (bytes.length >= length + 10 && readId(bytes, length).startsWith('ID3')) {
+    const size =
+      (bytes[length + 6] << 21) | (bytes[length + 7] << 14) | (bytes[length + 8] << 7) | bytes[length + 9];
+    const hasFooter = (bytes[length + 5] & 0x10) !== 0;
+    length += 10 + size + (hasFooter ? 10 : 0);
+  }
+  return Math.min(length, bytes.length);
+};
+
+const writeId3v2 = (bytes: Uint8Array, { fields, custom }: TagEntries): Uint8Array => {
+  const text = (value: string) => [Uint8Array.of(ID3_UTF8), encodeUtf8(value)];
+  const frames = fields.map(([field, value]) =>
+    field === 'comment'
+      ? // Language, then an empty description
+        id3Frame('COMM', Uint8Array.of(ID3_UTF8), latin1('eng'), Uint8Array.of(0), encodeUtf8(value))
+      : id3Frame(ID3_FRAME_IDS[field], ...text(value))
+  );
+  frames.push(id3Frame('TSSE', ...text(TAG_VENDOR)));
+  for (const [name, value] of custom) {
+    frames.push(id3Frame('TXXX', Uint8Array.of(ID3_UTF8), encodeUtf8(name), Uint8Array.of(0), encodeUtf8(value)));
+  }
+
+  const body = concat(frames);
+  const header = concat([latin1('ID3'), Uint8Array.of(4, 0, 0), syncsafe(body.length)]);
+  return concat([header, body, bytes.subarray(getId3v2Length(bytes))]);
+};
+
+// FLAC metadata block types
+const FLAC_PADDING = 1;
+const FLAC_VORBIS_COMMENT = 4;
+
+const writeFlacTags = (bytes: Uint8Array, { fields, custom }: TagEntries): Uint8Array => {
+  if (readId(bytes, 0) !== 'fLaC') {
+    throw new Error('Not a FLAC file.');
+  }
+
+  // Existing comments and padding are dropped; everything else is kept in order
+  const blocks: { type: number; data: Uint8Array }[] = [];
+  let position = 4;
+  for (let last = false; !last && position + 4 <= bytes.length; ) {
+    last = (bytes[position] & 0x80) !== 0;
+    const type = bytes[position] & 0x7f;
+    const length = (bytes[position + 1] << 16) | (bytes[position + 2] << 8) | bytes[position + 3];
+    const data = bytes.subarray(position + 4, position + 4 + length);
+    if (type !== FLAC_VORBIS_COMMENT && type !== FLAC_PADDING) {
+      blocks.push({ type, data });
+    }
+    position += 4 + length;
+  }
+
+  const comments = [
+    ...fields.map(([field, value]) => `${VORBIS_COMMENT_NAMES[field]}=${value}`),
+    ...custom.map(([name, value]) => `${name.toUpperCase()}=${value}`)
+  ].map(encodeUtf8);
+  const vendor = encodeUtf8(TAG_VENDOR);
+  const comment = concat([
+    uint32LE(vendor.length),
+    vendor,
+    uint32LE(comments.length),
+    ...comments.flatMap((entry) => [uint32LE(entry.length), entry])
+  ]);
+  if (comment.length >= 0x1000000) {
+    throw new Error('The tags are too large for a FLAC file.');
+  }
+
+  // STREAMINFO must stay first
+  blocks.splice(1, 0, { type: FLAC_VORBIS_COMMENT, data: comment });
+  const parts: Uint8Array[] = [latin1('fLaC')];
+  blocks.forEach(({ type, data }, i) => {
+    const last = i === blocks.length - 1 ? 0x80 : 0;
+    parts.push(Uint8Array.of(last | type, (data.length >> 16) & 0xff, (data.length >> 8) & 0xff, data.length & 0xff));
+    parts.push(data);
+  });
+  parts.push(bytes.subarray(position));
+  return concat(parts);
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// RIFF chunk with its pad byte when the size is odd
+const riffChunk = (id: string, data: Uint8Array) =>
+  concat([latin1(id), uint32LE(data.length), data, new Uint8Array(data.length % 2)]);
+
+const writeWavTags = (bytes: Uint8Array, { fields, custom }: TagEntries): Uint8Array => {
+  if (readId(bytes, 0) !== 'RIFF' || readId(bytes, 8) !== 'WAVE') {
+    throw new Error('Not a WAV file.');
+  }
+
+  // Existing INFO lists and iXML chunks are dropped; the pad byte after an odd-sized chunk is
+  // written even where the original left it out
+  const chunks: Uint8Array[] = [];
+  for (let position = 12; position + 8 <= bytes.length; ) {
+    const id = readId(bytes, position);
+    const size = readUint32LE(bytes, position + 4);
+    const end = Math.min(position + 8 + size, bytes.length);
+    const isInfo = id === 'LIST' && end - position >= 12 && readId(bytes, position + 8) === 'INFO';
+    if (!isInfo && id !== 'iXML') {
+      chunks.push(riffChunk(id, bytes.subarray(position + 8, end)));
+    }
+    position = end + (size % 2);
+  }
+
+  // INFO strings are NUL terminated
+  const infoText = (value: string) => concat([encodeUtf8(value), Uint8Array.of(0)]);
+  const info = concat([
+    latin1('INFO'),
+    ...fields.map(([field, value]) => riffChunk(RIFF_INFO_IDS[field], infoText(value))),
+    riffChunk('ISFT', infoText(TAG_VENDOR))
+  ]);
+
+  // iXML carries every field as NAME=value lines in USER, which has no fixed structure
+  const userLines = [
+    ...fields.map(([field, value]) => `${VORBIS_COMMENT_NAMES[field]}=${value}`),
+    ...custom.map(([name, value]) => `${name}=${value}`)
+  ];
+  const title = fields.find(([field]) => field === 'title')?.[1];
+  const note = fields.find(([field]) => field === 'comment')?.[1];
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<BWFXML>',
+    '<IXML_VERSION>2.10</IXML_VERSION>',
+    ...(title ? [`<PROJECT>${escapeXml(title)}</PROJECT>`] : []),
+    ...(note ? [`<NOTE>${escapeXml(note)}</NOTE>`] : []),
+    `<USER>${escapeXml(userLines.join('\n'))}</USER>`,
+    '</BWFXML>'
+  ].join('\n');
+
+  const body = concat([latin1('WAVE'), ...chunks, riffChunk('LIST', info), riffChunk('iXML', encodeUtf8(xml))]);
+  return concat([latin1('RIFF'), uint32LE(body.length), body]);
+};
+
+const mp4Box = (type: string, ...content: Uint8Array[]) => {
+  const body = concat(content);
+  return concat([uint32BE(8 + body.length), latin1(type), body]);
+};
+
+// Version and flags of a full box, all zero
+const FULL_BOX_HEADER = new Uint8Array(4);
+
+// Value of an iTunes item: well-known type 1 is UTF-8 text
+const mp4Data = (value: string) => mp4Box('data', uint32BE(1), uint32BE(0), encodeUtf8(value));
+
+// Interface for a box found while walking an MP4 file
+interface Mp4Box {
+  type: string;
+  start: number;
+  headerSize: number;
+  end: number;
+}
+
+const readMp4Boxes = (bytes: Uint8Array, start: number, end: number): Mp4Box[] => {
+  const boxes: Mp4Box[] = [];
+  for (let position = start; position + 8 <= end; ) {
+    let size = readUint32BE(bytes, position);
+    let headerSize = 8;
+    if (size === 1 && position + 16 <= end) {
+      size = readUint32BE(bytes, position + 8) * 0x100000000 + readUint32BE(bytes, position + 12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - position;
+    }
+    if (size < headerSize) break;
+    boxes.push({ type: readId(bytes, position + 4), start: position, headerSize, end: Math.min(position + size, end) });
+    position += size;
+  }
+  return boxes;
+};
+
+// Boxes on the way from moov to the chunk offset tables
+const MP4_CONTAINERS = ['trak', 'mdia', 'minf', 'stbl'];
+
+// Move every chunk offset at or after from by delta, in place
+const shiftChunkOffsets = (bytes: Uint8Array, start: number, end: number, from: number, delta: number) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (const box of readMp4Boxes(bytes, start, end)) {
+    const body = box.start + box.headerSize;
+    if (MP4_CONTAINERS.includes(box.type)) {
+      shiftChunkOffsets(bytes, body, box.end, from, delta);
+    } else if (box.type === 'stco' || box.type === 'co64') {
+      const count = view.getUint32(body + 4);
+      for (let i = 0; i < count; i++) {
+        if (box.type === 'stco') {
+          const at = body + 8 + i * 4;
+          const offset = view.getUint32(at);
+          if (offset >= from) view.setUint32(at, offset + delta);
+        } else {
+          const at = body + 8 + i * 8;
+          const offset = view.getUint32(at) * 0x100000000 + view.getUint32(at + 4);
+          if (offset >= from) {
+            view.setUint32(at, Math.floor((offset + delta) / 0x100000000));
+            view.setUint32(at + 4, (offset + delta) >>> 0);
+          }
+        }
+      }
+    }
+  }
+};
+
+const writeM4aTags = (bytes: Uint8Array, { fields, custom }: TagEntries): Uint8Array => {
+  const topLevel = readMp4Boxes(bytes, 0, bytes.length);
+  const moov = topLevel.find(({ type }) => type === 'moov');
+  if (topLevel[0]?.type !== 'ftyp' || !moov) {
+    throw new Error('Not an M4A file.');
+  }
+
+  const items = [
+    ...fields.map(([field, value]) => mp4Box(MP4_ATOM_NAMES[field], mp4Data(value))),
+    mp4Box('\u00a9too', mp4Data(TAG_VENDOR)),
+    // Free-form items are named by a reverse-DNS "mean" and a "name"
+    ...custom.map(([name, value]) =>
+      mp4Box(
+        '----',
+        mp4Box('mean', FULL_BOX_HEADER, latin1('com.apple.iTunes')),
+        mp4Box('name', FULL_BOX_HEADER, encodeUtf8(name)),
+        mp4Data(value)
+      )
+    )
+  ];
+  const userData = mp4Box(
+    'udta',
+    mp4Box(
+      'meta',
+      FULL_BOX_HEADER,
+      mp4Box('hdlr', FULL_BOX_HEADER, uint32BE(0), latin1('mdirappl'), new Uint8Array(9)),
+      mp4Box('ilst', ...items)
+    )
+  );
+
+  // The existing user data is replaced; the rest of moov is kept as it is
+  const children = readMp4Boxes(bytes, moov.start + moov.headerSize, moov.end)
+    .filter(({ type }) => type !== 'udta')
+    .map(({ start, end }) => bytes.subarray(start, end));
+  const movie = mp4Box('moov', ...children, userData);
+
+  // Media data after moov moves by the change in its size
+  const delta = movie.length - (moov.end - moov.start);
+  shiftChunkOffsets(movie, 8, movie.length, moov.end, delta);
+
+  return concat([bytes.subarray(0, moov.start), movie, bytes.subarray(moov.end)]);
+};
+
+const TAG_WRITERS: Record<ExportFormat, (bytes: Uint8Array, entries: TagEntries) => Uint8Array> = {
+  wav: writeWavTags,
+  flac: writeFlacTags,
+  aac: writeM4aTags,
+  mp3: writeId3v2
+};
+
+// Write tags into an encoded file of the given format; returns the file unchanged without tags
+export const writeTags = (bytes: Uint8Array, format: ExportFormat, tags: AudioTags): Uint8Array => {
+  const entries = getTagEntries(tags);
+  if (entries.fields.length === 0 && entries.custom.length === 0) {
+    return bytes;
+  }
+  return TAG_WRITERS[format](bytes, entries);
+};
+
+// Interface for the tags of a file written as a stream
+export interface StreamTags {
+  // The file's header with the tags written in
+  header: Uint8Array;
+  // Bytes that go after the audio data: WAV keeps its tags in chunks after the data chunk
+  trailer: Uint8Array;
+}
+
+// Offset of the data chunk's size field in the canonical header encodeWavHeader writes
+const WAV_DATA_SIZE_OFFSET = 40;
+
+// Write tags into the header of a file whose audio data follows it and is not in memory.
+// The header must hold everything up to the audio data: for WAV the canonical 44-byte header
+// with the final data size, for FLAC the metadata blocks, for M4A the boxes up to and including
+// the mdat header, and nothing for MP3.
+export const writeHeaderTags = (header: Uint8Array, format: ExportFormat, tags: AudioTags): StreamTags => {
+  if (format !== 'wav') {
+    return { header: writeTags(header, format, tags), trailer: new Uint8Array(0) };
+  }
+  if (readId(header, 36) !== 'data') {
+    throw new Error('Not a canonical WAV header.');
+  }
+
+  // Tag a copy with no audio data, then move its chunks after the real data
+  const dataSize = readUint32LE(header, WAV_DATA_SIZE_OFFSET);
+  const empty = concat([latin1('RIFF'), uint32LE(36), header.subarray(8, WAV_DATA_SIZE_OFFSET), uint32LE(0)]);
+  const tagged = writeTags(empty, 'wav', tags);
+  const chunks = tagged.subarray(empty.length);
+  const trailer = chunks.length > 0 ? concat([new Uint8Array(dataSize % 2), chunks]) : chunks;
+
+  return {
+    header: concat([
+      latin1('RIFF'),
+      uint32LE(header.length - 8 + dataSize + trailer.length),
+      header.subarray(8, WAV_DATA_SIZE_OFFSET),
+      uint32LE(dataSize)
+    ]),
+    trailer
+  };
+};
+
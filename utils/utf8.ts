@@ -0,0 +1,56 @@
+// UTF-8 text for binary file formats; TextEncoder is not available on every engine the app runs on
+
+// Encode a string as UTF-8 bytes
+export const encodeUtf8 = (text: string): Uint8Array => {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    }
+  }
+  return Uint8Array.from(bytes);
+};
+
+// Decode UTF-8 bytes; malformed sequences become U+FFFD
+export const decodeUtf8 = (bytes: Uint8Array): string => {
+  let text = '';
+  for (let i = 0; i < bytes.length; ) {
+    const lead = bytes[i];
+    const length = lead < 0x80 ? 1 : lead >= 0xf0 ? 4 : lead >= 0xe0 ? 3 : lead >= 0xc0 ? 2 : 0;
+    if (length === 0 || i + length > bytes.length) {
+      text += '�';
+      i++;
+      continue;
+    }
+    let code = length === 1 ? lead : lead & (0xff >> (length + 1));
+    let valid = true;
+    for (let k = 1; k < length; k++) {
+      const next = bytes[i + k];
+      if ((next & 0xc0) !== 0x80) {
+        valid = false;
+        break;
+      }
+      code = (code << 6) | (next & 0x3f);
+    }
+    if (!valid || code > 0x10ffff) {
+      text += '�';
+      i++;
+      continue;
+    }
+    text += String.fromCodePoint(code);
+    i += length;
+  }
+  return text;
+};
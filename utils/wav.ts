@@ -0,0 +1,225 @@
+// Interface for decoded audio held in memory as one Float32Array per channel
+export interface PCMAudio {
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+// Helper to read a four character chunk id
+const readChunkId = (view: DataView, offset: number): string => {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+};
+
+// Check whether a byte buffer starts with a RIFF/WAVE header
+export const isWav = (bytes: Uint8Array): boolean => {
+  if (bytes.length < 12) return false;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return readChunkId(view, 0) === 'RIFF' && readChunkId(view, 8) === 'WAVE';
+};
+
+// Interface for the layout of a WAV file's audio data
+export interface WavFormat {
+  encoding: 'pcm' | 'float';
+  sampleRate: number;
+  channelCount: number;
+  bitsPerSample: number;
+  dataOffset: number;
+  dataSize: number;
+}
+
+// WAVE format tags
+const FORMAT_PCM = 1;
+const FORMAT_IEEE_FLOAT = 3;
+const FORMAT_EXTENSIBLE = 0xfffe;
+
+// Locate the fmt and data chunks of a WAV file.
+// bytes may be just the start of the file, as long as it reaches the data chunk; pass the full
+// file size so the data size can still be checked against it.
+export const parseWavHeader = (bytes: Uint8Array, fileSize = bytes.length): WavFormat => {
+  if (!isWav(bytes)) {
+    throw new Error('Not a WAV file.');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 12;
+  let format: Omit<WavFormat, 'dataOffset' | 'dataSize'> | null = null;
+
+  while (offset + 8 <= bytes.length) {
+    const chunkId = readChunkId(view, offset);
+    const chunkSize = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      let tag = view.getUint16(body, true);
+      // Extensible files carry the real format in the first two bytes of the sub-format GUID
+      if (tag === FORMAT_EXTENSIBLE && chunkSize >= 26) {
+        tag = view.getUint16(body + 24, true);
+      }
+
+      const bitsPerSample = view.getUint16(body + 14, true);
+      const supported =
+        (tag === FORMAT_PCM && [8, 16, 24, 32].includes(bitsPerSample)) ||
+        (tag === FORMAT_IEEE_FLOAT && [32, 64].includes(bitsPerSample));
+      if (!supported) {
+        throw new Error(`Unsupported WAV encoding (format ${tag}, ${bitsPerSample}-bit).`);
+      }
+
+      format = {
+        encoding: tag === FORMAT_IEEE_FLOAT ? 'float' : 'pcm',
+        channelCount: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitsPerSample,
+      };
+    } else if (chunkId === 'data') {
+      if (!format) {
+        throw new Error('WAV data chunk appears before the fmt chunk.');
+      }
+
+      // Streams written without a final size report 0 or 0xFFFFFFFF; use what is there
+      const available = fileSize - body;
+      const dataSize = chunkSize === 0 || chunkSize > available ? available : chunkSize;
+      return { ...format, dataOffset: body, dataSize };
+    }
+
+    // Chunks are word aligned
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('WAV file has no audio data.');
+};
+
+// Convert interleaved sample bytes into per-channel floats
+export const decodeWavSamples = (
+  bytes: Uint8Array,
+  format: Pick<WavFormat, 'encoding' | 'channelCount' | 'bitsPerSample'>
+): Float32Array[] => {
+  const { encoding, channelCount, bitsPerSample } = format;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const bytesPerSample = bitsPerSample / 8;
+  const frameCount = Math.floor(bytes.length / (bytesPerSample * channelCount));
+  const channels = Array.from({ length: channelCount }, () => new Float32Array(frameCount));
+
+  let offset = 0;
+  for (let i = 0; i < frameCount; i++) {
+    for (let c = 0; c < channelCount; c++) {
+      let sample: number;
+      if (encoding === 'float') {
+        sample = bitsPerSample === 64 ? view.getFloat64(offset, true) : view.getFloat32(offset, true);
+      } else if (bitsPerSample === 8) {
+        sample = (view.getUint8(offset) - 128) / 128;
+      } else if (bitsPerSample === 16) {
+        sample = view.getInt16(offset, true) / 32768;
+      } else if (bitsPerSample === 24) {
+        const value =
+          view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+        sample = value / 8388608;
+      } else {
+        sample = view.getInt32(offset, true) / 2147483648;
+      }
+      channels[c][i] = sample;
+      offset += bytesPerSample;
+    }
+  }
+
+  return channels;
+};
+
+// Parse a WAV file (PCM 8/16/24/32-bit or 32/64-bit float) into per-channel float samples
+export const decodeWav = (bytes: Uint8Array): PCMAudio => {
+  const format = parseWavHeader(bytes);
+  const data = bytes.subarray(format.dataOffset, format.dataOffset + format.dataSize);
+  return {
+    sampleRate: format.sampleRate,
+    channels: decodeWavSamples(data, format),
+  };
+};
+
+// Sample formats the encoder can write; 32 is IEEE float
+export type WavBitDepth = 16 | 24 | 32;
+
+export const WAV_HEADER_SIZE = 44;
+
+// Build the 44-byte RIFF header for a canonical WAV file
+export const encodeWavHeader = (
+  sampleRate: number,
+  channelCount: number,
+  bitDepth: WavBitDepth,
+  dataSize: number
+): Uint8Array => {
+  const bytes = new Uint8Array(WAV_HEADER_SIZE);
+  const view = new DataView(bytes.buffer);
+  const blockAlign = channelCount * (bitDepth / 8);
+
+  const writeChunkId = (offset: number, id: string) => {
+    for (let i = 0; i < 4; i++) {
+      view.setUint8(offset + i, id.charCodeAt(i));
+    }
+  };
+
+  writeChunkId(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeChunkId(8, 'WAVE');
+  writeChunkId(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, bitDepth === 32 ? FORMAT_IEEE_FLOAT : FORMAT_PCM, true);
+  view.setUint16(22, channelCount, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+  writeChunkId(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  return bytes;
+};
+
+// Scale a float sample to a signed integer of the given width, clamped to full scale
+export const toIntegerSample = (value: number, bitDepth: number): number => {
+  const sample = Math.max(-1, Math.min(1, value));
+  const scale = Math.pow(2, bitDepth - 1);
+  return Math.round(sample < 0 ? sample * scale : sample * (scale - 1));
+};
+
+// Interleave per-channel float samples into WAV sample bytes.
+// Integer formats are clamped to full scale; float output is written unclipped.
+export const encodeWavSamples = (channels: Float32Array[], bitDepth: WavBitDepth): Uint8Array => {
+  const channelCount = channels.length;
+  const frameCount = channelCount > 0 ? channels[0].length : 0;
+  const bytesPerSample = bitDepth / 8;
+  const bytes = new Uint8Array(frameCount * channelCount * bytesPerSample);
+  const view = new DataView(bytes.buffer);
+
+  let offset = 0;
+  for (let i = 0; i < frameCount; i++) {
+    for (let c = 0; c < channelCount; c++) {
+      const value = channels[c][i];
+      if (bitDepth === 32) {
+        view.setFloat32(offset, value, true);
+      } else if (bitDepth === 16) {
+        view.setInt16(offset, toIntegerSample(value, 16), true);
+      } else {
+        const int = toIntegerSample(value, 24);
+        view.setUint8(offset, int & 0xff);
+        view.setUint8(offset + 1, (int >> 8) & 0xff);
+        view.setUint8(offset + 2, (int >> 16) & 0xff);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return bytes;
+};
+
+// Encode per-channel float samples as a complete WAV file
+export const encodeWav = (audio: PCMAudio, bitDepth: WavBitDepth = 16): Uint8Array => {
+  const samples = encodeWavSamples(audio.channels, bitDepth);
+  const header = encodeWavHeader(audio.sampleRate, audio.channels.length, bitDepth, samples.length);
+  const bytes = new Uint8Array(header.length + samples.length);
+  bytes.set(header);
+  bytes.set(samples, header.length);
+  return bytes;
+};
@@ -0,0 +1,194 @@
+import { encodeUtf8 } from './utf8';
+
+// ZIP archive writer. Entries are stored without compression: the audio inside is either
+// already compressed or barely shrinks, and storing keeps the archive fast to build.
+// Each entry is produced as soon as it is added, so archives can be written in pieces. Entries
+// whose size is not known up front are streamed: their CRC and sizes follow the data in a data
+// descriptor (general purpose flag bit 3) and are repeated in the central directory.
+
+// Interface for an entry whose data is added in pieces
+export interface ZipEntryWriter {
+  // Count one piece of the entry's data; returns it to append to the archive
+  write: (data: Uint8Array) => Uint8Array;
+  // The data descriptor that ends the entry
+  finish: () => Uint8Array;
+}
+
+// Interface for a ZIP archive built entry by entry
+export interface ZipBuilder {
+  // The bytes of one entry (local header, then the data) to append to the archive
+  addEntry: (name: string, data: Uint8Array) => Uint8Array[];
+  // The local header of an entry streamed in pieces, to append before its data
+  startEntry: (name: string) => { header: Uint8Array; writer: ZipEntryWriter };
+  // The central directory that ends the archive
+  finish: () => Uint8Array;
+}
+
+// Entry names are UTF-8 (general purpose flag bit 11)
+const UTF8_FLAG = 0x0800;
+
+// CRC and sizes follow the data (general purpose flag bit 3)
+const DATA_DESCRIPTOR_FLAG = 0x0008;
+
+// Version needed to extract: 2.0
+const VERSION = 20;
+
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_RECORD_SIZE = 22;
+const DATA_DESCRIPTOR_SIZE = 16;
+
+// Without ZIP64 records, sizes and offsets are 32-bit and there are at most 65535 entries
+const MAX_SIZE = 0xffffffff;
+const MAX_ENTRIES = 0xffff;
+
+// CRC-32 (polynomial 0xEDB88320, reflected) table
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+// Running CRC-32 register; start from 0xffffffff and invert the final value
+const updateCrc32 = (crc: number, bytes: Uint8Array): number => {
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC32_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return crc;
+};
+
+const crc32 = (bytes: Uint8Array): number => (updateCrc32(0xffffffff, bytes) ^ 0xffffffff) >>> 0;
+
+// MS-DOS time and date fields (local time, two-second resolution, years from 1980)
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+// Interface for what the central directory needs to know about an entry
+interface CentralEntry {
+  name: Uint8Array;
+  flags: number;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+export const createZipBuilder = (modified: Date = new Date()): ZipBuilder => {
+  const { time, date } = toDosDateTime(modified);
+  const entries: CentralEntry[] = [];
+  let offset = 0;
+
+  // Fields shared by local and central headers, from "version needed" to the name length
+  const writeCommonFields = (view: DataView, at: number, entry: CentralEntry) => {
+    view.setUint16(at, VERSION, true);
+    view.setUint16(at + 2, entry.flags, true);
+    view.setUint16(at + 4, 0, true); // Stored
+    view.setUint16(at + 6, time, true);
+    view.setUint16(at + 8, date, true);
+    view.setUint32(at + 10, entry.crc, true);
+    view.setUint32(at + 14, entry.size, true); // Compressed size
+    view.setUint32(at + 18, entry.size, true); // Uncompressed size
+    view.setUint16(at + 22, entry.name.length, true);
+  };
+
+  const checkEntryCount = () => {
+    if (entries.length === MAX_ENTRIES) {
+      throw new Error('Too many files for a ZIP archive.');
+    }
+  };
+
+  const checkSize = (size: number) => {
+    if (size > MAX_SIZE) {
+      throw new Error('The files are too large for a ZIP archive.');
+    }
+  };
+
+  const writeLocalHeader = (entry: CentralEntry) => {
+    const header = new Uint8Array(LOCAL_HEADER_SIZE + entry.name.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, 0x04034b50, true);
+    writeCommonFields(view, 4, entry);
+    view.setUint16(28, 0, true); // Extra field length
+    header.set(entry.name, LOCAL_HEADER_SIZE);
+    return header;
+  };
+
+  return {
+    addEntry: (name, data) => {
+      checkEntryCount();
+      const entry = { name: encodeUtf8(name), flags: UTF8_FLAG, crc: crc32(data), size: data.length, offset };
+      checkSize(offset + LOCAL_HEADER_SIZE + entry.name.length + data.length);
+
+      const header = writeLocalHeader(entry);
+      entries.push(entry);
+      offset += header.length + data.length;
+      return [header, data];
+    },
+
+    startEntry: (name) => {
+      checkEntryCount();
+      // The local header leaves the CRC and sizes at zero
+      const entry = { name: encodeUtf8(name), flags: UTF8_FLAG | DATA_DESCRIPTOR_FLAG, crc: 0, size: 0, offset };
+      const header = writeLocalHeader(entry);
+      entries.push(entry);
+      offset += header.length;
+
+      let crc = 0xffffffff;
+      const writer: ZipEntryWriter = {
+        write: (data) => {
+          checkSize(offset + data.length + DATA_DESCRIPTOR_SIZE);
+          crc = updateCrc32(crc, data);
+          entry.size += data.length;
+          offset += data.length;
+          return data;
+        },
+        finish: () => {
+          entry.crc = (crc ^ 0xffffffff) >>> 0;
+          const descriptor = new Uint8Array(DATA_DESCRIPTOR_SIZE);
+          const view = new DataView(descriptor.buffer);
+          view.setUint32(0, 0x08074b50, true);
+          view.setUint32(4, entry.crc, true);
+          view.setUint32(8, entry.size, true); // Compressed size
+          view.setUint32(12, entry.size, true); // Uncompressed size
+          offset += descriptor.length;
+          return descriptor;
+        }
+      };
+      return { header, writer };
+    },
+
+    finish: () => {
+      const directorySize = entries.reduce(
+        (sum, entry) => sum + CENTRAL_HEADER_SIZE + entry.name.length,
+        0
+      );
+      const bytes = new Uint8Array(directorySize + END_RECORD_SIZE);
+      const view = new DataView(bytes.buffer);
+
+      let at = 0;
+      for (const entry of entries) {
+        view.setUint32(at, 0x02014b50, true);
+        view.setUint16(at + 4, VERSION, true); // Version made by
+        writeCommonFields(view, at + 6, entry);
+        // Extra field, comment, disk number, internal and external attributes stay zero
+        view.setUint32(at + 42, entry.offset, true);
+        bytes.set(entry.name, at + CENTRAL_HEADER_SIZE);
+        at += CENTRAL_HEADER_SIZE + entry.name.length;
+      }
+
+      view.setUint32(at, 0x06054b50, true);
+      view.setUint16(at + 8, entries.length, true); // Entries on this disk
+      view.setUint16(at + 10, entries.length, true); // Entries in total
+      view.setUint32(at + 12, directorySize, true);
+      view.setUint32(at + 16, offset, true);
+      return bytes;
+    }
+  };
+};
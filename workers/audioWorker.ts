@@ -0,0 +1,116 @@
+// Web Worker that runs separation, mixing and encoding off the main thread.
+// Bundled to public/audio-worker.js by `npm run build:worker`, which runs before `npm run dev`
+// and `npm run build:web`; the web export copies public/ as is.
+import { SeparatedStems, StemName, separateStems } from '../utils/separation';
+import { RenderSession, createRenderSession } from '../utils/render';
+import { isCancelledError } from '../utils/progress';
+import { WorkerRequest, WorkerResponse, getTransferables } from './audioWorkerProtocol';
+
+// The worker global scope, typed just enough for this file
+const scope = self as unknown as {
+  postMessage: (message: WorkerResponse, transfer?: Transferable[]) => void;
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+};
+
+// Cancellation handles of running jobs, by request id
+const running = new Map<number, AbortController>();
+
+// Open renders, by session id
+const renders = new Map<number, RenderSession>();
+
+const separate = async (request: Extract<WorkerRequest, { type: 'separate' }>) => {
+  const controller = new AbortController();
+  running.set(request.id, controller);
+
+  try {
+    const stems: SeparatedStems = await separateStems(request.audio, {
+      mode: request.mode,
+      quality: request.quality,
+      tuning: request.tuning,
+      signal: controller.signal,
+      onProgress: (fraction) => scope.postMessage({ type: 'progress', id: request.id, fraction })
+    });
+
+    const results = (Object.keys(stems) as StemName[]).map((name) => ({ name, audio: stems[name]! }));
+    scope.postMessage(
+      { type: 'separated', id: request.id, stems: results },
+      getTransferables(results.map(({ audio }) => audio))
+    );
+  } catch (error) {
+    scope.postMessage({
+      type: 'error',
+      id: request.id,
+      message: error instanceof Error ? error.message : String(error),
+      cancelled: isCancelledError(error)
+    });
+  } finally {
+    running.delete(request.id);
+  }
+};
+
+const getRender = (session: number) => {
+  const render = renders.get(session);
+  if (!render) {
+    throw new Error('The render has already been closed.');
+  }
+  return render;
+};
+
+// Run one step of a render; a failed step closes the session
+const render = (request: Exclude<Extract<WorkerRequest, { session: number }>, { type: 'render-close' }>) => {
+  try {
+    switch (request.type) {
+      case 'render-start': {
+        const session = createRenderSession(request.job);
+        renders.set(request.session, session);
+        scope.postMessage({ type: 'render-started', id: request.id, header: session.header });
+        break;
+      }
+      case 'render-analyze':
+        getRender(request.session).analyze(request.windows);
+        scope.postMessage({ type: 'render-analyzed', id: request.id });
+        break;
+      case 'render-write': {
+        const bytes = getRender(request.session).write(request.windows);
+        scope.postMessage({ type: 'render-written', id: request.id, bytes }, [bytes.buffer as ArrayBuffer]);
+        break;
+      }
+      case 'render-finish': {
+        const output = getRender(request.session).finish();
+        renders.delete(request.session);
+        scope.postMessage({ type: 'render-finished', id: request.id, output });
+        break;
+      }
+    }
+  } catch (error) {
+    renders.delete(request.session);
+    scope.postMessage({
+      type: 'error',
+      id: request.id,
+      message: error instanceof Error ? error.message : String(error),
+      cancelled: false
+    });
+  }
+};
+
+scope.onmessage = ({ data }) => {
+  switch (data.type) {
+    case 'separate':
+      separate(data);
+      break;
+    case 'render-start':
+    case 'render-analyze':
+    case 'render-write':
+    case 'render-finish':
+      render(data);
+      break;
+    case 'render-close':
+      renders.delete(data.session);
+      break;
+    case 'cancel':
+      running.get(data.id)?.abort();
+      break;
+  }
+};
+
+scope.postMessage({ type: 'ready' });
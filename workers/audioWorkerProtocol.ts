@@ -0,0 +1,50 @@
+import { MaskTuning, QualityTier, SeparationMode, StemName } from '../utils/separation';
+import { RenderJob, RenderOutput } from '../utils/render';
+
+// Messages exchanged with the web audio worker.
+// Sample buffers are transferred, not copied, in both directions.
+// A render is a session of several requests that share a session id: start, then analyze and
+// write for each window, then finish, or close to give up.
+
+// Interface for audio as it crosses the worker boundary
+export interface WorkerAudio {
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+export type WorkerRequest =
+  | {
+      type: 'separate';
+      id: number;
+      mode: SeparationMode;
+      quality?: QualityTier;
+      tuning?: MaskTuning;
+      audio: WorkerAudio;
+    }
+  | { type: 'render-start'; id: number; session: number; job: RenderJob }
+  | { type: 'render-analyze'; id: number; session: number; windows: Float32Array[][] }
+  | { type: 'render-write'; id: number; session: number; windows: Float32Array[][] }
+  | { type: 'render-finish'; id: number; session: number }
+  | { type: 'render-close'; session: number }
+  | { type: 'cancel'; id: number };
+
+export type WorkerResponse =
+  | { type: 'ready' }
+  | { type: 'progress'; id: number; fraction: number }
+  | { type: 'separated'; id: number; stems: { name: StemName; audio: WorkerAudio }[] }
+  | { type: 'render-started'; id: number; header: Uint8Array | null }
+  | { type: 'render-analyzed'; id: number }
+  | { type: 'render-written'; id: number; bytes: Uint8Array }
+  | { type: 'render-finished'; id: number; output: RenderOutput }
+  | { type: 'error'; id: number; message: string; cancelled: boolean };
+
+// Helper: the buffers to transfer along with a set of channels; each buffer is listed once
+export const getTransferables = (audio: Pick<WorkerAudio, 'channels'>[]): ArrayBuffer[] => {
+  const buffers = new Set<ArrayBuffer>();
+  for (const { channels } of audio) {
+    for (const samples of channels) {
+      buffers.add(samples.buffer as ArrayBuffer);
+    }
+  }
+  return Array.from(buffers);
+};